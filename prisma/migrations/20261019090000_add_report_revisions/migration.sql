@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "report_revisions" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "changedQuestionIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "authorId" TEXT,
+    "authorEmail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "report_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "report_revisions_reportId_version_key" ON "report_revisions"("reportId", "version");
+
+-- CreateIndex
+CREATE INDEX "report_revisions_reportId_createdAt_idx" ON "report_revisions"("reportId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "report_revisions" ADD CONSTRAINT "report_revisions_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "report_revisions" ADD CONSTRAINT "report_revisions_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
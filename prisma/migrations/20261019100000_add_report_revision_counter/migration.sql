@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "reports" ADD COLUMN "revision" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: alinhar com o histórico já registrado
+UPDATE "reports" r
+SET "revision" = sub."maxVersion"
+FROM (
+  SELECT "reportId", MAX("version") AS "maxVersion"
+  FROM "report_revisions"
+  GROUP BY "reportId"
+) sub
+WHERE sub."reportId" = r."id";
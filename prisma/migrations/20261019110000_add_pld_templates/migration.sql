@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "pld_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "description" TEXT,
+    "content" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pld_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pld_templates_createdById_name_idx" ON "pld_templates"("createdById", "name");
+
+-- AddForeignKey
+ALTER TABLE "pld_templates" ADD CONSTRAINT "pld_templates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "report_assignments" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "sectionIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" "FormStatus" NOT NULL DEFAULT 'SENT_TO_USER',
+    "hidden" BOOLEAN NOT NULL DEFAULT false,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "submittedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "report_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "report_assignments_reportId_email_key" ON "report_assignments"("reportId", "email");
+
+-- CreateIndex
+CREATE INDEX "report_assignments_email_idx" ON "report_assignments"("email");
+
+-- AddForeignKey
+ALTER TABLE "report_assignments" ADD CONSTRAINT "report_assignments_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
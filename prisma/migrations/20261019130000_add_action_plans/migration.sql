@@ -0,0 +1,86 @@
+-- CreateEnum
+CREATE TYPE "ActionPlanStatus" AS ENUM ('OPEN', 'IN_PROGRESS', 'OVERDUE', 'CLOSED');
+
+-- CreateTable
+CREATE TABLE "action_plan_items" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "sectionId" TEXT,
+    "sectionLabel" TEXT,
+    "questionText" TEXT NOT NULL,
+    "criticidade" TEXT,
+    "deficiencia" TEXT,
+    "recomendacao" TEXT,
+    "origem" TEXT,
+    "responsavel" TEXT,
+    "descricao" TEXT,
+    "comentarios" TEXT,
+    "dataApontamento" TIMESTAMP(3),
+    "prazoOriginal" TIMESTAMP(3),
+    "prazoAtual" TIMESTAMP(3),
+    "status" "ActionPlanStatus" NOT NULL DEFAULT 'OPEN',
+    "closedAt" TIMESTAMP(3),
+    "closedById" TEXT,
+    "ownerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "action_plan_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "action_plan_deadline_changes" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "previousPrazo" TIMESTAMP(3),
+    "newPrazo" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "changedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "action_plan_deadline_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "action_plan_evidences" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "description" TEXT,
+    "filename" TEXT NOT NULL,
+    "originalName" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "action_plan_evidences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "action_plan_items_reportId_questionId_key" ON "action_plan_items"("reportId", "questionId");
+
+-- CreateIndex
+CREATE INDEX "action_plan_items_ownerId_status_idx" ON "action_plan_items"("ownerId", "status");
+
+-- CreateIndex
+CREATE INDEX "action_plan_items_prazoAtual_idx" ON "action_plan_items"("prazoAtual");
+
+-- CreateIndex
+CREATE INDEX "action_plan_deadline_changes_itemId_createdAt_idx" ON "action_plan_deadline_changes"("itemId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "action_plan_evidences_itemId_idx" ON "action_plan_evidences"("itemId");
+
+-- AddForeignKey
+ALTER TABLE "action_plan_items" ADD CONSTRAINT "action_plan_items_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "action_plan_items" ADD CONSTRAINT "action_plan_items_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "action_plan_deadline_changes" ADD CONSTRAINT "action_plan_deadline_changes_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "action_plan_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "action_plan_evidences" ADD CONSTRAINT "action_plan_evidences_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "action_plan_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "JobStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "scheduled_jobs" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" TEXT,
+    "status" "JobStatus" NOT NULL DEFAULT 'PENDING',
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "lastError" TEXT,
+    "result" TEXT,
+    "dedupeKey" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "reminder_settings" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "formPendingAfterDays" INTEGER NOT NULL DEFAULT 3,
+    "formPendingRepeatDays" INTEGER NOT NULL DEFAULT 3,
+    "actionPlanDueSoonDays" INTEGER NOT NULL DEFAULT 7,
+    "actionPlanOverdueRepeatDays" INTEGER NOT NULL DEFAULT 7,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reminder_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "reminder_logs" (
+    "id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reminder_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_jobs_dedupeKey_key" ON "scheduled_jobs"("dedupeKey");
+
+-- CreateIndex
+CREATE INDEX "scheduled_jobs_status_runAt_idx" ON "scheduled_jobs"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "scheduled_jobs_type_status_idx" ON "scheduled_jobs"("type", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reminder_settings_ownerId_key" ON "reminder_settings"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "reminder_logs_kind_targetId_email_sentAt_idx" ON "reminder_logs"("kind", "targetId", "email", "sentAt");
+
+-- AddForeignKey
+ALTER TABLE "reminder_settings" ADD CONSTRAINT "reminder_settings_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "pld_sections" ADD COLUMN "controlArea" TEXT;
+
+-- AlterTable
+ALTER TABLE "pld_questions" ADD COLUMN "controlArea" TEXT;
+
+-- CreateTable
+CREATE TABLE "scoring_rule_sets" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "areas" TEXT NOT NULL,
+    "weightAlta" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "weightMedia" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "weightBaixa" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "areaThreshold" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "partialFrom" INTEGER NOT NULL DEFAULT 2,
+    "lowFrom" INTEGER NOT NULL DEFAULT 3,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scoring_rule_sets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scoring_rule_sets_ownerId_key" ON "scoring_rule_sets"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "scoring_rule_sets" ADD CONSTRAINT "scoring_rule_sets_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "scheduled_jobs" ADD COLUMN "progress" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "scheduled_jobs" ADD COLUMN "createdById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "scheduled_jobs_createdById_idx" ON "scheduled_jobs"("createdById");
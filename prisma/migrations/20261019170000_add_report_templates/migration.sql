@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "report_templates" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "title" TEXT,
+    "primaryColor" TEXT,
+    "secondaryColor" TEXT,
+    "logoData" BYTEA,
+    "logoMimeType" TEXT,
+    "coverEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "coverTitle" TEXT,
+    "coverSubtitle" TEXT,
+    "headerText" TEXT,
+    "footerText" TEXT,
+    "texts" TEXT NOT NULL DEFAULT '{}',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "report_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "report_templates_ownerId_key" ON "report_templates"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "report_templates" ADD CONSTRAINT "report_templates_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "reports" ADD COLUMN "verificationCode" TEXT;
+ALTER TABLE "reports" ADD COLUMN "contentHash" TEXT;
+ALTER TABLE "reports" ADD COLUMN "fileHash" TEXT;
+ALTER TABLE "reports" ADD COLUMN "sealedAt" TIMESTAMP(3);
+ALTER TABLE "reports" ADD COLUMN "sourceFormId" TEXT;
+ALTER TABLE "reports" ADD COLUMN "sourceRevision" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reports_verificationCode_key" ON "reports"("verificationCode");
@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "OrganizationRole" AS ENUM ('OWNER', 'EDITOR', 'REVIEWER', 'RESPONDENT');
+
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "organization_members" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "OrganizationRole" NOT NULL DEFAULT 'EDITOR',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organization_members_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "pld_sections" ADD COLUMN "organizationId" TEXT;
+ALTER TABLE "pld_templates" ADD COLUMN "organizationId" TEXT;
+ALTER TABLE "reports" ADD COLUMN "organizationId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organizations_ownerId_key" ON "organizations"("ownerId");
+CREATE UNIQUE INDEX "organization_members_organizationId_userId_key" ON "organization_members"("organizationId", "userId");
+CREATE INDEX "organization_members_userId_idx" ON "organization_members"("userId");
+CREATE INDEX "pld_sections_organizationId_idx" ON "pld_sections"("organizationId");
+CREATE INDEX "pld_templates_organizationId_name_idx" ON "pld_templates"("organizationId", "name");
+CREATE INDEX "reports_organizationId_idx" ON "reports"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "organizations" ADD CONSTRAINT "organizations_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "pld_sections" ADD CONSTRAINT "pld_sections_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "pld_templates" ADD CONSTRAINT "pld_templates_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "reports" ADD CONSTRAINT "reports_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: cada usuário (não ADMIN) com builder, templates ou formulários próprios vira dono
+-- de uma organização pessoal, que passa a ser o escopo desses registros
+INSERT INTO "organizations" ("id", "name", "ownerId", "createdAt", "updatedAt")
+SELECT 'org_' || u."id", u."name", u."id", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "users" u
+WHERE u."role" <> 'ADMIN'
+  AND (
+    u."role" = 'TRIAL_ADMIN'
+    OR u."subscriptionStatus" = 'ACTIVE'
+    OR EXISTS (SELECT 1 FROM "pld_sections" s WHERE s."createdById" = u."id")
+    OR EXISTS (SELECT 1 FROM "pld_templates" t WHERE t."createdById" = u."id")
+    OR EXISTS (SELECT 1 FROM "reports" r WHERE r."userId" = u."id" AND r."type" = 'BUILDER_FORM')
+  );
+
+INSERT INTO "organization_members" ("id", "organizationId", "userId", "role", "createdAt")
+SELECT 'orgm_' || o."ownerId", o."id", o."ownerId", 'OWNER', CURRENT_TIMESTAMP
+FROM "organizations" o;
+
+UPDATE "pld_sections" s SET "organizationId" = o."id"
+FROM "organizations" o WHERE o."ownerId" = s."createdById";
+
+UPDATE "pld_templates" t SET "organizationId" = o."id"
+FROM "organizations" o WHERE o."ownerId" = t."createdById";
+
+UPDATE "reports" r SET "organizationId" = o."id"
+FROM "organizations" o WHERE o."ownerId" = r."userId" AND r."type" = 'BUILDER_FORM';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "audit_events" ADD COLUMN "userAgent" TEXT;
+
+-- CreateIndex
+CREATE INDEX "audit_events_action_createdAt_idx" ON "audit_events"("action", "createdAt");
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "reports" ADD COLUMN "hiddenForAdminAt" TIMESTAMP(3),
+ADD COLUMN "hiddenForUserAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "report_assignments" ADD COLUMN "hiddenAt" TIMESTAMP(3);
+
+-- Formulários já ocultos: o prazo da lixeira conta a partir desta migração
+UPDATE "reports" SET "hiddenForAdminAt" = CURRENT_TIMESTAMP WHERE "hiddenForAdmin" = true;
+UPDATE "reports" SET "hiddenForUserAt" = CURRENT_TIMESTAMP WHERE "hiddenForUser" = true;
+UPDATE "report_assignments" SET "hiddenAt" = CURRENT_TIMESTAMP WHERE "hidden" = true;
+
+-- CreateIndex
+CREATE INDEX "reports_hiddenForAdmin_hiddenForAdminAt_idx" ON "reports"("hiddenForAdmin", "hiddenForAdminAt");
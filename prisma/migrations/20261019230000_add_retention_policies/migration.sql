@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "retention_policies" (
+    "id" TEXT NOT NULL,
+    "recordType" TEXT NOT NULL,
+    "retentionDays" INTEGER NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "retention_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "legal_holds" (
+    "id" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "releasedAt" TIMESTAMP(3),
+    "releasedById" TEXT,
+
+    CONSTRAINT "legal_holds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "retention_policies_recordType_key" ON "retention_policies"("recordType");
+
+-- CreateIndex
+CREATE INDEX "legal_holds_targetType_targetId_idx" ON "legal_holds"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "legal_holds_releasedAt_idx" ON "legal_holds"("releasedAt");
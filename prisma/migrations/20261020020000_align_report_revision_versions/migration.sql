@@ -0,0 +1,10 @@
+-- Report.revision passa a ser a versão da última revisão registrada.
+-- Formulários criados com a revisão CREATED em 1 e Report.revision em 0 ficam uma versão atrás.
+UPDATE "reports" r
+SET "revision" = sub."maxVersion"
+FROM (
+  SELECT "reportId", MAX("version") AS "maxVersion"
+  FROM "report_revisions"
+  GROUP BY "reportId"
+) sub
+WHERE sub."reportId" = r."id" AND r."revision" < sub."maxVersion";
@@ -0,0 +1,38 @@
+import { getEffectiveStatus } from '../services/actionPlan.service'
+import { getDeficiencyCriticidade, isDeficiency } from '../utils/pldDeficiency'
+
+describe('pldDeficiency', () => {
+  it('flags "Não" answers with a criticidade', () => {
+    expect(getDeficiencyCriticidade({ resposta: 'Não', criticidade: 'alta' })).toBe('ALTA')
+    expect(getDeficiencyCriticidade({ resposta: 'nao', criticidade: 'MEDIA' })).toBe('MEDIA')
+    expect(isDeficiency({ resposta: 'N', criticidade: 'BAIXA' })).toBe(true)
+  })
+
+  it('ignores positive answers and missing criticidade', () => {
+    expect(isDeficiency({ resposta: 'Sim', criticidade: 'ALTA' })).toBe(false)
+    expect(isDeficiency({ resposta: 'Não', criticidade: '' })).toBe(false)
+    expect(isDeficiency({ resposta: null, criticidade: 'ALTA' })).toBe(false)
+  })
+})
+
+describe('getEffectiveStatus', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z')
+
+  it('derives OVERDUE from a past deadline', () => {
+    expect(getEffectiveStatus({ status: 'OPEN', prazoAtual: '2026-10-01T00:00:00.000Z' }, now)).toBe('OVERDUE')
+    expect(getEffectiveStatus({ status: 'IN_PROGRESS', prazoAtual: new Date('2026-10-18') }, now)).toBe('OVERDUE')
+  })
+
+  it('keeps stored status when the deadline has not passed', () => {
+    expect(getEffectiveStatus({ status: 'IN_PROGRESS', prazoAtual: '2026-12-01T00:00:00.000Z' }, now)).toBe('IN_PROGRESS')
+    expect(getEffectiveStatus({ status: 'OPEN', prazoAtual: null }, now)).toBe('OPEN')
+  })
+
+  it('reopens a stored OVERDUE after the deadline is extended', () => {
+    expect(getEffectiveStatus({ status: 'OVERDUE', prazoAtual: '2027-01-01T00:00:00.000Z' }, now)).toBe('OPEN')
+  })
+
+  it('never marks closed items as overdue', () => {
+    expect(getEffectiveStatus({ status: 'CLOSED', prazoAtual: '2020-01-01T00:00:00.000Z' }, now)).toBe('CLOSED')
+  })
+})
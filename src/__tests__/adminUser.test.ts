@@ -0,0 +1,55 @@
+import { buildAdminUserWhere, serializeAdminUser } from '../services/adminUser.service'
+import { parsePagination } from '../utils/pagination'
+
+describe('admin users', () => {
+  it('builds the list filters', () => {
+    expect(buildAdminUserWhere({})).toEqual({})
+    expect(buildAdminUserWhere({ q: ' ana ', role: 'trial_admin', subscriptionStatus: 'active', isActive: false })).toEqual({
+      OR: [
+        { name: { contains: 'ana', mode: 'insensitive' } },
+        { email: { contains: 'ana', mode: 'insensitive' } },
+      ],
+      role: 'TRIAL_ADMIN',
+      subscriptionStatus: 'ACTIVE',
+      isActive: false,
+    })
+  })
+
+  it('parses pagination with defaults and a page size cap', () => {
+    expect(parsePagination({})).toEqual({ page: 1, pageSize: 20, skip: 0, take: 20 })
+    expect(parsePagination({ page: '3', pageSize: '10' })).toEqual({ page: 3, pageSize: 10, skip: 20, take: 10 })
+    expect(parsePagination({ page: '-1', pageSize: '5000' })).toMatchObject({ page: 1, pageSize: 100 })
+    expect(parsePagination({ page: 'abc', pageSize: '0' })).toMatchObject({ page: 1, pageSize: 20 })
+  })
+
+  it('summarizes trial and subscription without exposing secrets', () => {
+    const base = {
+      id: 'u1',
+      email: 'ana@example.com',
+      name: 'Ana',
+      isActive: true,
+      stripeCustomerId: 'cus_123',
+      password: 'hash',
+      subscriptionExpiresAt: null,
+    }
+    const trial = serializeAdminUser({
+      ...base,
+      role: 'TRIAL_ADMIN',
+      isTrial: true,
+      trialExpiresAt: new Date(Date.now() + 60_000),
+      subscriptionStatus: 'NONE',
+    })
+    expect(trial).toMatchObject({ trialActive: true, builderAccess: true, hasStripeCustomer: true })
+    expect(trial).not.toHaveProperty('password')
+    expect(trial).not.toHaveProperty('stripeCustomerId')
+
+    const expired = serializeAdminUser({
+      ...base,
+      role: 'USER',
+      isTrial: false,
+      trialExpiresAt: null,
+      subscriptionStatus: 'CANCELED',
+    })
+    expect(expired).toMatchObject({ trialActive: false, builderAccess: false })
+  })
+})
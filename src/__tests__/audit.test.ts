@@ -0,0 +1,60 @@
+import { auditEventsToCsv, buildAuditWhere, summarizeChanges } from '../services/audit.service'
+import { parseCsv, toCsv } from '../utils/csv'
+
+describe('audit log', () => {
+  it('summarizes only the changed fields', () => {
+    const before = { item: 'Governança', descricao: 'x'.repeat(300), prazo: new Date('2026-10-01T00:00:00.000Z'), order: 1 }
+    const summary = summarizeChanges(before, {
+      item: 'Governança',
+      descricao: 'curta',
+      prazo: '2026-10-01T00:00:00.000Z',
+      order: 2,
+      ignored: undefined,
+    })
+    expect(summary.after).toEqual({ descricao: 'curta', order: 2 })
+    expect(summary.before.order).toBe(1)
+    expect(String(summary.before.descricao)).toHaveLength(200)
+
+    expect(summarizeChanges(null, { texto: 'Nova pergunta' })).toEqual({ before: { texto: null }, after: { texto: 'Nova pergunta' } })
+  })
+
+  it('builds filters with action prefixes and date ranges', () => {
+    const from = new Date('2026-10-01T00:00:00.000Z')
+    expect(buildAuditWhere({ action: 'form.', targetType: 'Report', from })).toEqual({
+      action: { startsWith: 'form.' },
+      targetType: 'Report',
+      createdAt: { gte: from },
+    })
+    expect(buildAuditWhere({ action: 'form.send', actorId: 'u1' })).toEqual({ action: 'form.send', actorId: 'u1' })
+  })
+
+  it('exports CSV that round-trips and neutralizes formulas', () => {
+    const csv = auditEventsToCsv([
+      {
+        createdAt: new Date('2026-10-19T12:00:00.000Z'),
+        actorId: 'u1',
+        actorEmail: 'ana@example.com',
+        action: 'form.send',
+        targetType: 'Report',
+        targetId: 'r1',
+        ip: '=1+1',
+        userAgent: 'Mozilla; "teste"',
+        metadata: '{"name":"Avaliação"}',
+      },
+    ])
+    const rows = parseCsv(csv, ';')
+    expect(rows[0][0]).toBe('createdAt')
+    expect(rows[1]).toEqual([
+      '2026-10-19T12:00:00.000Z',
+      'u1',
+      'ana@example.com',
+      'form.send',
+      'Report',
+      'r1',
+      "'=1+1",
+      'Mozilla; "teste"',
+      '{"name":"Avaliação"}',
+    ])
+    expect(toCsv([['a', null, 1]], ',')).toBe('a,,1')
+  })
+})
@@ -0,0 +1,117 @@
+import jwt from 'jsonwebtoken'
+import prisma from '../config/database'
+import { isSessionActive, signToken } from '../middleware/auth'
+import { AuditService } from '../services/audit.service'
+import { AuthSessionService, getRefreshTokenTtlDays, hashRefreshToken } from '../services/authSession.service'
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: { authSession: { findUnique: jest.fn(), updateMany: jest.fn() } },
+}))
+jest.mock('../services/audit.service', () => ({
+  ...jest.requireActual('../services/audit.service'),
+  AuditService: { log: jest.fn() },
+}))
+
+const db = prisma as any
+
+describe('auth sessions', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z')
+  const session = { userId: 'user1', revokedAt: null, expiresAt: new Date('2026-11-18T12:00:00.000Z') }
+
+  it('accepts only active sessions of the token user', () => {
+    expect(isSessionActive(session, 'user1', now)).toBe(true)
+    expect(isSessionActive(session, 'user2', now)).toBe(false)
+    expect(isSessionActive({ ...session, revokedAt: now }, 'user1', now)).toBe(false)
+    expect(isSessionActive({ ...session, expiresAt: now }, 'user1', now)).toBe(false)
+    expect(isSessionActive(null, 'user1', now)).toBe(false)
+  })
+
+  it('signs access tokens with the session id', () => {
+    const payload = jwt.decode(signToken('user1', 'session1')) as any
+    expect(payload).toMatchObject({ userId: 'user1', sid: 'session1' })
+    expect(payload.exp - payload.iat).toBe(15 * 60)
+  })
+
+  it('stores only the refresh token hash and reads the TTL from the environment', () => {
+    expect(hashRefreshToken('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+    const previous = process.env.REFRESH_TOKEN_TTL_DAYS
+    process.env.REFRESH_TOKEN_TTL_DAYS = '7'
+    expect(getRefreshTokenTtlDays()).toBe(7)
+    process.env.REFRESH_TOKEN_TTL_DAYS = 'x'
+    expect(getRefreshTokenTtlDays()).toBe(30)
+    if (previous === undefined) delete process.env.REFRESH_TOKEN_TTL_DAYS
+    else process.env.REFRESH_TOKEN_TTL_DAYS = previous
+  })
+
+  describe('refresh tokens', () => {
+    const active = {
+      id: 'session1',
+      userId: 'user1',
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      ip: '10.0.0.1',
+      userAgent: 'jest',
+      user: { id: 'user1', email: 'ana@example.com', isActive: true },
+    }
+
+    beforeEach(() => jest.clearAllMocks())
+
+    it('rotates the refresh token and keeps the previous hash for reuse detection', async () => {
+      db.authSession.findUnique.mockResolvedValueOnce(active)
+      db.authSession.updateMany.mockResolvedValueOnce({ count: 1 })
+
+      const result = await AuthSessionService.refresh('old-token')
+
+      expect(result.sessionId).toBe('session1')
+      expect(result.refreshToken).not.toBe('old-token')
+      expect((jwt.decode(result.token) as any).sid).toBe('session1')
+      const update = db.authSession.updateMany.mock.calls[0][0]
+      expect(update.where).toEqual({ id: 'session1', refreshTokenHash: hashRefreshToken('old-token'), revokedAt: null })
+      expect(update.data).toMatchObject({
+        refreshTokenHash: hashRefreshToken(result.refreshToken),
+        previousTokenHash: hashRefreshToken('old-token'),
+      })
+    })
+
+    it('rejects a refresh that lost the race with a concurrent rotation', async () => {
+      db.authSession.findUnique.mockResolvedValueOnce(active)
+      db.authSession.updateMany.mockResolvedValueOnce({ count: 0 })
+      await expect(AuthSessionService.refresh('old-token')).rejects.toMatchObject({ code: 'SESSION_INVALID' })
+    })
+
+    it('revokes the session when an already rotated token is presented again', async () => {
+      db.authSession.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce({ ...active, user: undefined })
+      db.authSession.updateMany.mockResolvedValueOnce({ count: 1 })
+
+      await expect(AuthSessionService.refresh('old-token')).rejects.toMatchObject({ code: 'SESSION_INVALID' })
+
+      expect(db.authSession.findUnique).toHaveBeenLastCalledWith({ where: { previousTokenHash: hashRefreshToken('old-token') } })
+      expect(db.authSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'REUSE_DETECTED' },
+      })
+      expect(AuditService.log).toHaveBeenCalledWith(expect.objectContaining({ action: 'auth.session_reuse', targetId: 'user1' }))
+    })
+
+    it('rejects sessions of deactivated users without rotating', async () => {
+      db.authSession.findUnique.mockResolvedValueOnce({ ...active, user: { ...active.user, isActive: false } })
+      await expect(AuthSessionService.refresh('old-token')).rejects.toMatchObject({ code: 'SESSION_INVALID' })
+      expect(db.authSession.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('revokes every active session except the current one, inside the given transaction', async () => {
+      const tx = { authSession: { updateMany: jest.fn().mockResolvedValue({ count: 2 }) } }
+      await expect(AuthSessionService.revokeAll('user1', 'PASSWORD_RESET', { exceptSessionId: 'session1' }, tx)).resolves.toBe(2)
+      expect(tx.authSession.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user1', revokedAt: null, id: { not: 'session1' } },
+        data: { revokedAt: expect.any(Date), revokedReason: 'PASSWORD_RESET' },
+      })
+      expect(db.authSession.updateMany).not.toHaveBeenCalled()
+
+      db.authSession.updateMany.mockResolvedValueOnce({ count: 3 })
+      await expect(AuthSessionService.revokeAll('user1', 'USER_DEACTIVATED')).resolves.toBe(3)
+      expect(db.authSession.updateMany.mock.calls[0][0].where).toEqual({ userId: 'user1', revokedAt: null })
+    })
+  })
+})
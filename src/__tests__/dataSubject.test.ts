@@ -0,0 +1,63 @@
+import AdmZip from 'adm-zip'
+import { anonymizedEmail, buildDataExportZip, extractRespondentAnswers } from '../services/dataSubject.service'
+import { formIdFromGeneratedFile } from '../services/formTrash.service'
+
+describe('data subject export', () => {
+  const content = JSON.stringify({
+    sections: [
+      {
+        id: 's1',
+        item: 'Governança',
+        hasNorma: true,
+        attachments: [
+          { path: 'uploads/pld/norma.pdf', originalName: 'norma.pdf' },
+          { path: 'uploads/pld/ata.pdf', originalName: 'ata.pdf', category: 'NORMA', uploadedAt: '2026-10-01T10:00:00.000Z' },
+        ],
+        questions: [
+          { id: 'q1', texto: 'Existe política?', resposta: 'Sim', respostaTexto: '', aplicavel: false },
+          { id: 'q2', texto: 'Sem resposta' },
+        ],
+      },
+      { id: 's2', item: 'Outra parte', questions: [{ id: 'q3', texto: 'Pergunta', resposta: 'Não' }] },
+    ],
+  })
+
+  it('extracts only the respondent sections, answered questions and uploaded files', () => {
+    const result = extractRespondentAnswers(content, ['s1'])
+    expect(result.sections).toEqual([
+      {
+        id: 's1',
+        label: 'Governança',
+        hasNorma: true,
+        normaReferencia: null,
+        questions: [{ id: 'q1', texto: 'Existe política?', aplicavel: false, resposta: 'Sim' }],
+      },
+    ])
+    expect(result.files).toEqual([
+      {
+        sectionId: 's1',
+        questionId: null,
+        category: 'NORMA',
+        originalName: 'ata.pdf',
+        mimeType: null,
+        size: null,
+        uploadedAt: '2026-10-01T10:00:00.000Z',
+      },
+    ])
+    expect(extractRespondentAnswers(content, null).sections.map((s) => s.id)).toEqual(['s1', 's2'])
+    expect(extractRespondentAnswers('{invalid', null)).toEqual({ sections: [], files: [] })
+  })
+
+  it('writes one JSON file per entry in the ZIP', () => {
+    const zip = new AdmZip(buildDataExportZip({ 'perfil.json': { name: 'Ana' }, 'auditoria.json': [] }))
+    expect(zip.getEntries().map((e) => e.entryName).sort()).toEqual(['auditoria.json', 'perfil.json'])
+    expect(JSON.parse(zip.readAsText('perfil.json'))).toEqual({ name: 'Ana' })
+  })
+
+  it('builds the anonymized e-mail and finds the source form of legacy generated files', () => {
+    expect(anonymizedEmail('user1')).toBe('excluido-user1@anonimizado.invalid')
+    expect(formIdFromGeneratedFile('uploads/reports/pld-form-dossier-ckform1-20261001.zip')).toBe('ckform1')
+    expect(formIdFromGeneratedFile('uploads/reports/relatorio.pdf')).toBeNull()
+    expect(formIdFromGeneratedFile(null)).toBeNull()
+  })
+})
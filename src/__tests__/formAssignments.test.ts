@@ -0,0 +1,181 @@
+import prisma from '../config/database'
+import { ActionPlanService } from '../services/actionPlan.service'
+import { sendFormSubmittedEmail } from '../services/formEmail.service'
+import {
+  filterSectionsForRespondent,
+  normalizeFormAssignments,
+  PldBuilderService,
+  respondentAccessFor,
+  respondentProgress,
+  splitFormStatus,
+} from '../services/pldBuilder.service'
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    report: { findUnique: jest.fn(), update: jest.fn() },
+    reportAssignment: { findMany: jest.fn() },
+    user: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}))
+jest.mock('../services/audit.service', () => ({
+  ...jest.requireActual('../services/audit.service'),
+  AuditService: { log: jest.fn() },
+}))
+jest.mock('../services/actionPlan.service', () => ({ ActionPlanService: { syncFromForm: jest.fn() } }))
+jest.mock('../services/formEmail.service', () => ({ sendFormSubmittedEmail: jest.fn(), sendFormReturnedEmail: jest.fn() }))
+
+const db = prisma as any
+
+const sections = [
+  { id: 's1', questions: [{ id: 'q1', resposta: 'SIM' }, { id: 'q2', aplicavel: false }] },
+  { id: 's2', questions: [{ id: 'q3', resposta: ' ' }] },
+]
+
+describe('split form assignments', () => {
+  it('normalizes the split and requires every section assigned exactly once', () => {
+    expect(
+      normalizeFormAssignments(sections, [
+        { email: ' Ana@Example.com ', sectionIds: ['s1', 's1'] },
+        { email: 'bruno@example.com', sectionIds: ['s2'] },
+      ])
+    ).toEqual([
+      { email: 'ana@example.com', sectionIds: ['s1'] },
+      { email: 'bruno@example.com', sectionIds: ['s2'] },
+    ])
+
+    expect(() => normalizeFormAssignments(sections, [{ email: 'ana@example.com', sectionIds: ['s1'] }])).toThrow(
+      'Todas as seções do formulário devem ser atribuídas a um respondente'
+    )
+    expect(() =>
+      normalizeFormAssignments(sections, [
+        { email: 'ana@example.com', sectionIds: ['s1', 's2'] },
+        { email: 'bruno@example.com', sectionIds: ['s2'] },
+      ])
+    ).toThrow('Cada seção deve ser atribuída a apenas um respondente')
+    expect(() =>
+      normalizeFormAssignments(sections, [
+        { email: 'ana@example.com', sectionIds: ['s1'] },
+        { email: 'ANA@example.com', sectionIds: ['s2'] },
+      ])
+    ).toThrow('E-mail repetido na divisão do formulário: ana@example.com')
+  })
+
+  it('gives each respondent only their part of a split form', () => {
+    const report = { status: 'SENT_TO_USER', assignedToEmail: null }
+    const assignments = [
+      { id: 'a1', email: 'ana@example.com', sectionIds: ['s1'], status: 'COMPLETED' },
+      { id: 'a2', email: 'bruno@example.com', sectionIds: ['s2'], status: 'IN_PROGRESS' },
+    ]
+
+    const access = respondentAccessFor(report, assignments, 'bruno@example.com')!
+    expect(access.status).toBe('IN_PROGRESS')
+    expect(access.assignment.id).toBe('a2')
+    expect(filterSectionsForRespondent(sections, access.sectionIds).map((s) => s.id)).toEqual(['s2'])
+    expect(respondentAccessFor(report, assignments, 'carla@example.com')).toBeNull()
+
+    const single = respondentAccessFor({ status: null, assignedToEmail: 'ana@example.com' }, [], 'ana@example.com')!
+    expect(single.status).toBe('DRAFT')
+    expect(filterSectionsForRespondent(sections, single.sectionIds)).toHaveLength(2)
+  })
+
+  it('completes a part only when every applicable question of it is answered', () => {
+    expect(respondentProgress(filterSectionsForRespondent(sections, new Set(['s1'])))).toEqual({
+      applicable: 1,
+      answered: 1,
+      complete: true,
+    })
+    expect(respondentProgress(filterSectionsForRespondent(sections, new Set(['s2'])))).toEqual({
+      applicable: 1,
+      answered: 0,
+      complete: false,
+    })
+    expect(respondentProgress([]).complete).toBe(false)
+  })
+
+  it('derives the split form status from its parts', () => {
+    expect(splitFormStatus(['SENT_TO_USER', 'SENT_TO_USER'])).toBe('SENT_TO_USER')
+    expect(splitFormStatus(['IN_PROGRESS', 'SENT_TO_USER'])).toBe('IN_PROGRESS')
+    expect(splitFormStatus(['IN_PROGRESS', 'COMPLETED', 'RETURNED'])).toBe('RETURNED')
+    expect(splitFormStatus(['IN_PROGRESS', 'COMPLETED'])).toBe('IN_PROGRESS')
+    expect(splitFormStatus(['COMPLETED', 'COMPLETED'])).toBe('COMPLETED')
+  })
+
+  describe('completing a part', () => {
+    const form = {
+      id: 'form1',
+      name: 'PLD 2026',
+      type: 'BUILDER_FORM',
+      status: 'IN_PROGRESS',
+      userId: 'owner1',
+      content: JSON.stringify({ sections }),
+    }
+    const assignments = [
+      { id: 'a1', email: 'ana@example.com', sectionIds: ['s1'], status: 'IN_PROGRESS' },
+      { id: 'a2', email: 'bia@example.com', sectionIds: ['s2'], status: 'IN_PROGRESS' },
+    ]
+    let tx: any
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      tx = {
+        $queryRaw: jest.fn(),
+        reportAssignment: { update: jest.fn(), count: jest.fn(), findMany: jest.fn() },
+        report: { update: jest.fn() },
+      }
+      db.report.findUnique.mockResolvedValue(form)
+      db.reportAssignment.findMany.mockResolvedValue(assignments)
+      db.user.findUnique.mockResolvedValue({ email: 'owner@example.com' })
+      db.$transaction.mockImplementation((fn: any) => fn(tx))
+    })
+
+    it('locks the form row before counting the remaining parts', async () => {
+      tx.reportAssignment.count.mockResolvedValue(1)
+      tx.reportAssignment.findMany.mockResolvedValue([{ email: 'bia@example.com' }])
+
+      await expect(PldBuilderService.completeUserForm('form1', 'ana@example.com')).resolves.toEqual({
+        success: true,
+        formCompleted: false,
+        pendingRespondents: ['bia@example.com'],
+      })
+
+      const [lockSql, lockedId] = tx.$queryRaw.mock.calls[0]
+      expect(lockSql.join('?')).toMatch(/FOR UPDATE/)
+      expect(lockedId).toBe('form1')
+      expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(tx.reportAssignment.count.mock.invocationCallOrder[0])
+      expect(tx.reportAssignment.update).toHaveBeenCalledWith({
+        where: { id: 'a1' },
+        data: { status: 'COMPLETED', submittedAt: expect.any(Date) },
+      })
+      expect(tx.report.update).not.toHaveBeenCalled()
+      expect(db.report.update).not.toHaveBeenCalled()
+      expect(sendFormSubmittedEmail).not.toHaveBeenCalled()
+    })
+
+    it('completes the form inside the same transaction when the last part is concluded', async () => {
+      tx.reportAssignment.count.mockResolvedValue(0)
+
+      await expect(PldBuilderService.completeUserForm('form1', 'ana@example.com')).resolves.toEqual({
+        success: true,
+        formCompleted: true,
+        pendingRespondents: [],
+      })
+
+      expect(tx.report.update).toHaveBeenCalledWith({
+        where: { id: 'form1' },
+        data: { status: 'COMPLETED', submittedAt: expect.any(Date) },
+      })
+      expect(db.report.update).not.toHaveBeenCalled()
+      expect(ActionPlanService.syncFromForm).toHaveBeenCalledWith('form1')
+      expect(sendFormSubmittedEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'owner@example.com', formId: 'form1' }))
+    })
+
+    it('refuses to complete a part with unanswered questions', async () => {
+      await expect(PldBuilderService.completeUserForm('form1', 'bia@example.com')).rejects.toThrow(
+        'Formulário deve estar 100% preenchido para concluir'
+      )
+      expect(db.$transaction).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { diffFormContent, listChangedQuestionIds } from '../utils/formContentDiff'
+
+const baseContent = () => ({
+  sentToEmail: 'user@example.com',
+  sections: [
+    {
+      id: 's1',
+      item: 'CSC',
+      hasNorma: false,
+      attachments: [],
+      questions: [
+        { id: 'q1', texto: 'Pergunta 1', resposta: null, attachments: [], updatedAt: '2026-01-01' },
+        { id: 'q2', texto: 'Pergunta 2', resposta: 'Sim', attachments: [] },
+      ],
+    },
+  ],
+  metadata: { qualificacaoAvaliador: '' },
+})
+
+describe('formContentDiff', () => {
+  it('returns no changes for identical content', () => {
+    const diff = diffFormContent(baseContent(), baseContent())
+    expect(diff.sections).toEqual([])
+    expect(diff.questions).toEqual([])
+    expect(diff.metadata).toEqual([])
+  })
+
+  it('reports field-level question changes', () => {
+    const after = baseContent()
+    after.sections[0].questions[0].resposta = 'Não' as any
+    ;(after.sections[0].questions[0] as any).deficienciaTexto = 'Sem política'
+
+    const diff = diffFormContent(baseContent(), after)
+    expect(diff.questions).toHaveLength(1)
+    expect(diff.questions[0].questionId).toBe('q1')
+    expect(diff.questions[0].sectionId).toBe('s1')
+    expect(diff.questions[0].changes).toEqual([
+      { field: 'deficienciaTexto', before: null, after: 'Sem política' },
+      { field: 'resposta', before: null, after: 'Não' },
+    ])
+  })
+
+  it('ignores timestamp-only changes', () => {
+    const after = baseContent()
+    after.sections[0].questions[0].updatedAt = '2026-02-02'
+    expect(listChangedQuestionIds(baseContent(), after)).toEqual([])
+  })
+
+  it('detects added and removed attachments', () => {
+    const before = baseContent()
+    ;(before.sections[0].questions[1].attachments as any[]).push({ id: 'a1', category: 'RESPOSTA', path: 'uploads/a1.pdf' })
+    const after = baseContent()
+    ;(after.sections[0].questions[1].attachments as any[]).push({ id: 'a2', category: 'RESPOSTA', path: 'uploads/a2.pdf' })
+
+    const diff = diffFormContent(before, after)
+    expect(diff.questions).toHaveLength(1)
+    expect(diff.questions[0].attachments.added.map((a) => a.id)).toEqual(['a2'])
+    expect(diff.questions[0].attachments.removed.map((a) => a.id)).toEqual(['a1'])
+  })
+
+  it('diffs section and metadata fields', () => {
+    const after = baseContent()
+    after.sections[0].hasNorma = true
+    after.metadata.qualificacaoAvaliador = 'Auditor'
+
+    const diff = diffFormContent(baseContent(), after)
+    expect(diff.sections[0].changes).toEqual([{ field: 'hasNorma', before: false, after: true }])
+    expect(diff.metadata).toEqual([{ field: 'qualificacaoAvaliador', before: '', after: 'Auditor' }])
+  })
+
+  it('handles null or malformed payloads', () => {
+    const diff = diffFormContent(null, baseContent())
+    expect(diff.questions.map((q) => q.questionId)).toEqual(['q1', 'q2'])
+  })
+})
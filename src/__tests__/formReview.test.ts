@@ -0,0 +1,58 @@
+import {
+  assignmentsToReopen,
+  isAwaitingReview,
+  isRespondentEditable,
+  normalizeReturnReview,
+} from '../services/pldBuilder.service'
+
+const sections = [
+  { id: 's1', questions: [{ id: 'q1' }, { id: 'q2' }] },
+  { id: 's2', questions: [{ id: 'q3' }] },
+]
+
+describe('form review workflow', () => {
+  it('lets the respondent edit only sent, in-progress or returned forms', () => {
+    for (const status of ['SENT_TO_USER', 'IN_PROGRESS', 'RETURNED', null]) {
+      expect(isRespondentEditable(status)).toBe(true)
+    }
+    for (const status of ['COMPLETED', 'APPROVED']) {
+      expect(isRespondentEditable(status)).toBe(false)
+    }
+  })
+
+  it('reviews only completed forms that were sent to a respondent', () => {
+    expect(isAwaitingReview('COMPLETED', true)).toBe(true)
+    expect(isAwaitingReview('COMPLETED', false)).toBe(false)
+    expect(isAwaitingReview('APPROVED', true)).toBe(false)
+    expect(isAwaitingReview('RETURNED', true)).toBe(false)
+  })
+
+  it('requires a comment or a note on a known question to return a form', () => {
+    expect(() => normalizeReturnReview(sections, { comment: '  ', notes: [{ questionId: 'q1', note: ' ' }] })).toThrow(
+      'Informe um comentário ou ao menos uma observação por questão'
+    )
+    expect(() => normalizeReturnReview(sections, { notes: [{ questionId: 'qX', note: 'Revisar' }] })).toThrow(
+      'Pergunta não encontrada no formulário'
+    )
+
+    const review = normalizeReturnReview(sections, {
+      comment: ' Ajustar ',
+      notes: [
+        { questionId: 'q3', note: ' Falta evidência ' },
+        { questionId: 'q1', note: '' },
+      ],
+    })
+    expect(review.comment).toBe('Ajustar')
+    expect(review.notes).toEqual([{ questionId: 'q3', note: 'Falta evidência' }])
+    expect([...review.notedSectionIds]).toEqual(['s2'])
+  })
+
+  it('reopens only the split parts with notes, or all parts for a general comment', () => {
+    const assignments = [
+      { id: 'a1', sectionIds: ['s1'] },
+      { id: 'a2', sectionIds: ['s2'] },
+    ]
+    expect(assignmentsToReopen(assignments, new Set(['s2'])).map((a) => a.id)).toEqual(['a2'])
+    expect(assignmentsToReopen(assignments, new Set()).map((a) => a.id)).toEqual(['a1', 'a2'])
+  })
+})
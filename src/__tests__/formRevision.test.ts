@@ -0,0 +1,98 @@
+import prisma from '../config/database'
+import { FORM_REVISION_CONFLICT, PldBuilderService } from '../services/pldBuilder.service'
+import { isRevisionStale, parseExpectedRevision, revisionEtag } from '../utils/formRevision'
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: { report: { findUnique: jest.fn() }, reportAssignment: { findMany: jest.fn() }, $transaction: jest.fn() },
+}))
+
+const db = prisma as any
+
+describe('form revision (ETag / If-Match)', () => {
+  it('reads the expected revision from If-Match before the body', () => {
+    expect(parseExpectedRevision('"3"', 7)).toBe(3)
+    expect(parseExpectedRevision('W/"4"', undefined)).toBe(4)
+    expect(parseExpectedRevision(' 5 ', undefined)).toBe(5)
+    expect(parseExpectedRevision(undefined, 0)).toBe(0)
+    expect(parseExpectedRevision(undefined, '2')).toBe(2)
+  })
+
+  it('treats a missing or invalid revision as absent (428 REVISION_REQUIRED)', () => {
+    expect(parseExpectedRevision(undefined, undefined)).toBeNull()
+    expect(parseExpectedRevision('', null)).toBeNull()
+    expect(parseExpectedRevision('"*"', undefined)).toBeNull()
+    expect(parseExpectedRevision(undefined, -1)).toBeNull()
+    expect(parseExpectedRevision(undefined, 1.5)).toBeNull()
+    expect(parseExpectedRevision('"3abc"', undefined)).toBeNull()
+    expect(parseExpectedRevision(undefined, '1e3')).toBeNull()
+    expect(parseExpectedRevision(undefined, '-2')).toBeNull()
+    expect(parseExpectedRevision(undefined, '0x10')).toBeNull()
+  })
+
+  it('flags a stale revision (409 FORM_REVISION_CONFLICT) and formats the ETag', () => {
+    expect(isRevisionStale(3, 3)).toBe(false)
+    expect(isRevisionStale(null, 0)).toBe(false)
+    expect(isRevisionStale(4, 3)).toBe(true)
+    expect(isRevisionStale(4, null)).toBe(false)
+    expect(revisionEtag(4)).toBe('"4"')
+    expect(parseExpectedRevision(revisionEtag(4), undefined)).toBe(4)
+  })
+
+  describe('respondent saves', () => {
+    const content = JSON.stringify({ sections: [{ id: 's1', questions: [{ id: 'q1', resposta: null }] }] })
+    const form = {
+      id: 'form1',
+      type: 'BUILDER_FORM',
+      status: 'IN_PROGRESS',
+      assignedToEmail: 'ana@example.com',
+      content,
+      revision: 3,
+    }
+    const answers = [{ questionId: 'q1', resposta: 'Sim' }]
+    let tx: any
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      tx = {
+        $queryRaw: jest.fn(),
+        report: { update: jest.fn() },
+        reportRevision: { count: jest.fn().mockResolvedValue(1), create: jest.fn() },
+        user: { findUnique: jest.fn().mockResolvedValue({ id: 'user1' }) },
+      }
+      db.report.findUnique.mockResolvedValue(form)
+      db.reportAssignment.findMany.mockResolvedValue([])
+      db.$transaction.mockImplementation((fn: any) => fn(tx))
+    })
+
+    it('rejects a stale revision before writing anything', async () => {
+      await expect(
+        PldBuilderService.saveUserFormResponses('form1', 'ana@example.com', answers, undefined, undefined, 2)
+      ).rejects.toMatchObject({ code: FORM_REVISION_CONFLICT })
+      expect(db.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('rejects a save that raced a concurrent write once the row is locked', async () => {
+      tx.$queryRaw.mockResolvedValue([{ content, revision: 4 }])
+      await expect(
+        PldBuilderService.saveUserFormResponses('form1', 'ana@example.com', answers, undefined, undefined, 3)
+      ).rejects.toMatchObject({ code: FORM_REVISION_CONFLICT })
+      expect(tx.reportRevision.create).not.toHaveBeenCalled()
+      expect(tx.report.update).not.toHaveBeenCalled()
+    })
+
+    it('stores the content with the next revision when the expected revision is current', async () => {
+      tx.$queryRaw.mockResolvedValue([{ content, revision: 3 }])
+      await expect(
+        PldBuilderService.saveUserFormResponses('form1', 'ana@example.com', answers, undefined, undefined, 3)
+      ).resolves.toEqual({ success: true, revision: 4 })
+      expect(tx.reportRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ reportId: 'form1', version: 4, action: 'RESPONSES_SAVED', changedQuestionIds: ['q1'] }),
+      })
+      expect(tx.report.update).toHaveBeenCalledWith({
+        where: { id: 'form1' },
+        data: expect.objectContaining({ status: 'IN_PROGRESS', revision: 4 }),
+      })
+    })
+  })
+})
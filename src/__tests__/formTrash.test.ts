@@ -0,0 +1,81 @@
+import prisma from '../config/database'
+import { deleteStoredFile } from '../config/storage'
+import { collectFormAttachmentPaths, formRetainedUntil, FormTrashService, trashPurgeAt } from '../services/formTrash.service'
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    report: { findMany: jest.fn() },
+    pldAttachment: { findMany: jest.fn() },
+    actionPlanEvidence: { findMany: jest.fn() },
+    evidence: { findMany: jest.fn() },
+  },
+}))
+jest.mock('../config/storage', () => ({ deleteStoredFile: jest.fn(async () => true) }))
+
+const db = prisma as any
+
+describe('form trash', () => {
+  it('collects section and question attachment paths from the snapshot', () => {
+    const content = JSON.stringify({
+      sections: [
+        {
+          attachments: [{ path: 'uploads/pld/norma.pdf' }],
+          questions: [
+            { attachments: [{ path: 'uploads/pld/a.pdf' }, { path: 'uploads/pld/norma.pdf' }, { path: '' }] },
+            { attachments: null },
+          ],
+        },
+        { questions: [{ attachments: [{ path: ' uploads/pld/b.pdf ' }] }] },
+      ],
+    })
+    expect(collectFormAttachmentPaths(content)).toEqual(['uploads/pld/norma.pdf', 'uploads/pld/a.pdf', 'uploads/pld/b.pdf'])
+    expect(collectFormAttachmentPaths('{invalid')).toEqual([])
+    expect(collectFormAttachmentPaths(null)).toEqual([])
+  })
+
+  it('computes the purge date from the retention period', () => {
+    const hiddenAt = new Date('2026-10-01T10:00:00.000Z')
+    expect(trashPurgeAt(hiddenAt, 30)).toEqual(new Date('2026-10-31T10:00:00.000Z'))
+    expect(trashPurgeAt(hiddenAt, 0)).toBeNull()
+    expect(trashPurgeAt(null, 30)).toBeNull()
+  })
+
+  it('keeps trashed forms for the BUILDER_FORM minimum from review, submission or creation', () => {
+    const createdAt = new Date('2020-01-01T00:00:00.000Z')
+    expect(formRetainedUntil({ createdAt })).toEqual(new Date('2024-12-30T00:00:00.000Z'))
+    expect(formRetainedUntil({ createdAt, submittedAt: '2021-01-01T00:00:00.000Z', reviewedAt: null }, 10)).toEqual(
+      new Date('2021-01-11T00:00:00.000Z')
+    )
+    expect(formRetainedUntil({ createdAt, submittedAt: null, reviewedAt: new Date('2022-01-01T00:00:00.000Z') }, 1)).toEqual(
+      new Date('2022-01-02T00:00:00.000Z')
+    )
+  })
+
+  it('looks up references once per batch and deletes only the unreferenced files', async () => {
+    db.report.findMany.mockResolvedValue([
+      { filePath: 'uploads/reports/r.pdf', content: null },
+      { filePath: null, content: '{"sections":[{"attachments":[{"path":"uploads/pld/a.pdf"}]}]}' },
+    ])
+    db.pldAttachment.findMany.mockResolvedValue([])
+    db.actionPlanEvidence.findMany.mockResolvedValue([{ path: 'uploads/plan/e.pdf' }])
+    db.evidence.findMany.mockResolvedValue([])
+
+    const result = await FormTrashService.deleteUnreferencedFiles([
+      'uploads/pld/a.pdf',
+      'uploads/pld/b.pdf',
+      'uploads/reports/r.pdf',
+      'uploads/plan/e.pdf',
+      'uploads/pld/b.pdf',
+      null,
+    ])
+
+    expect(db.report.findMany).toHaveBeenCalledTimes(1)
+    expect(deleteStoredFile).toHaveBeenCalledTimes(1)
+    expect(deleteStoredFile).toHaveBeenCalledWith('uploads/pld/b.pdf')
+    expect(result).toEqual({
+      filesDeleted: 1,
+      filesKept: ['uploads/pld/a.pdf', 'uploads/reports/r.pdf', 'uploads/plan/e.pdf'],
+    })
+  })
+})
@@ -0,0 +1,43 @@
+import { BillingService } from '../services/billing.service'
+import { billingAccountOf, pickActiveOrganization, tenantOwnerIdOf } from '../services/organization.service'
+
+const future = new Date(Date.now() + 24 * 60 * 60 * 1000)
+
+const owner = { role: 'USER', isTrial: false, trialExpiresAt: null, subscriptionStatus: 'ACTIVE', subscriptionExpiresAt: future }
+
+const membership = (id: string, ownerId: string, role: any, createdAt: string) => ({
+  role,
+  createdAt: new Date(createdAt),
+  organization: { id, name: `Org ${id}`, ownerId, owner },
+})
+
+describe('organizations', () => {
+  const memberships = [
+    membership('org-b', 'other', 'REVIEWER', '2026-01-01'),
+    membership('org-own', 'user-1', 'OWNER', '2026-03-01'),
+  ]
+
+  it('picks the own organization by default and honours the requested one', () => {
+    expect(pickActiveOrganization('user-1', memberships)?.id).toBe('org-own')
+    expect(pickActiveOrganization('user-1', memberships, 'org-b')).toMatchObject({ id: 'org-b', role: 'REVIEWER' })
+    expect(pickActiveOrganization('user-1', memberships, 'org-x')).toBeUndefined()
+    expect(pickActiveOrganization('user-1', [])).toBeNull()
+  })
+
+  it('grants builder entitlements from the owner subscription, limited by the member role', () => {
+    const member = { id: 'user-2', role: 'USER', isTrial: false, trialExpiresAt: null, subscriptionStatus: null }
+    const withRole = (role: any) => ({
+      ...member,
+      organization: pickActiveOrganization('user-2', [membership('org-b', 'other', role, '2026-01-01')]),
+    })
+
+    expect(billingAccountOf(withRole('EDITOR'))).toBe(owner)
+    expect(tenantOwnerIdOf(withRole('EDITOR'))).toBe('other')
+    expect(tenantOwnerIdOf(member)).toBe('user-2')
+
+    expect(BillingService.getEntitlements(withRole('EDITOR') as any)).toMatchObject({ hasBuilderAccess: true, canEditBuilder: true })
+    expect(BillingService.getEntitlements(withRole('REVIEWER') as any)).toMatchObject({ hasBuilderAccess: true, canEditBuilder: false })
+    expect(BillingService.getEntitlements(withRole('RESPONDENT') as any)).toMatchObject({ hasBuilderAccess: false })
+    expect(BillingService.getEntitlements(member as any)).toMatchObject({ hasBuilderAccess: false, organization: null })
+  })
+})
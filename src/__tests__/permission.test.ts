@@ -0,0 +1,53 @@
+import { checkPermission, getEffectivePermissions, hasPermission } from '../services/permission.service'
+
+const future = new Date(Date.now() + 24 * 60 * 60 * 1000)
+const past = new Date(Date.now() - 24 * 60 * 60 * 1000)
+
+const memberOf = (role: any, owner: Record<string, unknown>) => ({
+  role: 'USER',
+  isTrial: false,
+  trialExpiresAt: null,
+  organization: {
+    id: 'org-1',
+    name: 'Org',
+    ownerId: 'owner',
+    role,
+    billing: { role: 'USER', isTrial: false, trialExpiresAt: null, ...owner },
+  },
+})
+
+describe('permissions', () => {
+  const subscribed = { subscriptionStatus: 'ACTIVE', subscriptionExpiresAt: future }
+
+  it('maps organization roles to permissions', () => {
+    expect(getEffectivePermissions(memberOf('OWNER', subscribed))).toEqual([
+      'builder:read',
+      'builder:write',
+      'forms:send',
+      'forms:review',
+      'reports:generate',
+      'settings:manage',
+    ])
+    expect(getEffectivePermissions(memberOf('REVIEWER', subscribed))).toEqual([
+      'builder:read',
+      'forms:review',
+      'reports:generate',
+    ])
+    expect(getEffectivePermissions(memberOf('RESPONDENT', subscribed))).toEqual([])
+    expect(checkPermission(memberOf('EDITOR', subscribed), 'settings:manage')?.code).toBe('ORGANIZATION_ROLE')
+  })
+
+  it('depends on the owner trial or subscription', () => {
+    const expiredTrial = memberOf('OWNER', { role: 'TRIAL_ADMIN', isTrial: true, trialExpiresAt: past })
+    expect(checkPermission(expiredTrial, 'builder:read')?.code).toBe('TRIAL_EXPIRED')
+    expect(checkPermission(memberOf('OWNER', {}), 'builder:read')?.code).toBe('PAYMENT_REQUIRED')
+    expect(getEffectivePermissions(memberOf('OWNER', {}))).toEqual([])
+  })
+
+  it('keeps platform permissions for ADMIN only', () => {
+    const admin = { role: 'ADMIN', isTrial: false, trialExpiresAt: null }
+    expect(hasPermission(admin, 'users:manage')).toBe(true)
+    expect(hasPermission(admin, 'builder:write')).toBe(true)
+    expect(checkPermission(memberOf('OWNER', subscribed), 'users:manage')?.code).toBe('FORBIDDEN')
+  })
+})
@@ -0,0 +1,52 @@
+import { importPldBuilderSchema } from '../validators/pldBuilder.schemas'
+
+const validate = (body: unknown) =>
+  importPldBuilderSchema.validate(body, { abortEarly: false, stripUnknown: true, convert: true })
+
+const document = () => ({
+  format: 'pld-builder',
+  version: 1,
+  exportedAt: '2026-10-19T10:00:00.000Z',
+  sections: [
+    {
+      item: 'CSC',
+      customLabel: null,
+      hasNorma: true,
+      normaReferencia: 'Circular BCB 3.978',
+      attachments: [{ category: 'NORMA', originalName: 'circular.pdf', mimeType: 'application/pdf', size: 1024 }],
+      questions: [{ texto: 'Possui política de PLD/FT?', criticidade: 'ALTA', capitulacao: 'Art. 2º' }],
+    },
+  ],
+})
+
+describe('importPldBuilderSchema', () => {
+  it('accepts an exported document and defaults to merge', () => {
+    const { error, value } = validate({ document: document() })
+    expect(error).toBeUndefined()
+    expect(value.mode).toBe('merge')
+    expect(value.document.sections[0].questions[0].criticidade).toBe('ALTA')
+  })
+
+  it('rejects unknown format versions', () => {
+    const doc = { ...document(), version: 2 }
+    expect(validate({ document: doc }).error).toBeDefined()
+  })
+
+  it('rejects invalid criticidade and attachment categories', () => {
+    const doc = document()
+    ;(doc.sections[0].questions[0] as any).criticidade = 'URGENTE'
+    ;(doc.sections[0].attachments[0] as any).category = 'OUTRO'
+    const { error } = validate({ mode: 'replace', document: doc })
+    expect(error?.details.map((d) => d.path.join('.'))).toEqual(
+      expect.arrayContaining(['document.sections.0.questions.0.criticidade', 'document.sections.0.attachments.0.category'])
+    )
+  })
+
+  it('strips answer fields from imported questions', () => {
+    const doc = document()
+    ;(doc.sections[0].questions[0] as any).resposta = 'Sim'
+    const { error, value } = validate({ document: doc })
+    expect(error).toBeUndefined()
+    expect(value.document.sections[0].questions[0].resposta).toBeUndefined()
+  })
+})
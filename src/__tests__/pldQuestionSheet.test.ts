@@ -0,0 +1,58 @@
+import { parseCsv } from '../utils/csv'
+import { parseQuestionSheet } from '../utils/pldQuestionSheet'
+
+describe('parseCsv', () => {
+  it('detects semicolon delimiters and handles quoted fields', () => {
+    const rows = parseCsv('Item;Texto\r\nCSC;"Possui política; aprovada?"\nMSAC;"Linha ""citada""\ncontinua"\n')
+    expect(rows).toEqual([
+      ['Item', 'Texto'],
+      ['CSC', 'Possui política; aprovada?'],
+      ['MSAC', 'Linha "citada"\ncontinua'],
+    ])
+  })
+
+  it('strips the UTF-8 BOM', () => {
+    expect(parseCsv('\uFEFFitem,texto\nA,B')[0]).toEqual(['item', 'texto'])
+  })
+})
+
+describe('parseQuestionSheet', () => {
+  it('groups rows into sections preserving order', () => {
+    const result = parseQuestionSheet([
+      ['Item', 'Pergunta', 'Capitulação', 'Criticidade', 'Descrição'],
+      ['CSC', 'Pergunta 1', 'Art. 2º', 'Alta', 'Conheça seu cliente'],
+      ['MSAC', 'Pergunta 2', '', '', ''],
+      ['CSC', 'Pergunta 3', '', 'média', ''],
+      ['', '', '', '', ''],
+    ])
+
+    expect(result.errors).toEqual([])
+    expect(result.totalQuestions).toBe(3)
+    expect(result.sections.map((s) => s.item)).toEqual(['CSC', 'MSAC'])
+    expect(result.sections[0].descricao).toBe('Conheça seu cliente')
+    expect(result.sections[0].questions).toEqual([
+      { texto: 'Pergunta 1', capitulacao: 'Art. 2º', criticidade: 'ALTA', templateRef: null },
+      { texto: 'Pergunta 3', capitulacao: null, criticidade: 'MEDIA', templateRef: null },
+    ])
+  })
+
+  it('reports row-level validation errors', () => {
+    const result = parseQuestionSheet([
+      ['item', 'texto', 'criticidade'],
+      ['CSC', '', 'ALTA'],
+      ['CSC', 'Pergunta <script>', 'URGENTE'],
+    ])
+
+    expect(result.sections).toEqual([])
+    expect(result.errors.map((e) => [e.row, e.field])).toEqual([
+      [2, 'texto'],
+      [3, 'texto'],
+      [3, 'criticidade'],
+    ])
+  })
+
+  it('requires item and texto columns', () => {
+    const result = parseQuestionSheet([['secao', 'capitulacao']])
+    expect(result.errors).toEqual([{ row: 1, field: 'texto', message: 'Coluna obrigatória ausente: texto' }])
+  })
+})
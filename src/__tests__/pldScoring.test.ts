@@ -0,0 +1,78 @@
+import { DEFAULT_SCORING_RULES, scoreForm, type ScoringRules } from '../utils/pldScoring'
+
+const nao = (texto: string, criticidade = 'ALTA', extra: Record<string, unknown> = {}) => ({
+  texto,
+  resposta: 'Não',
+  criticidade,
+  ...extra,
+})
+
+describe('pldScoring', () => {
+  it('reproduces the legacy MSAC/CSNU/CSC thresholds with the default rules', () => {
+    const msac = { item: 'Monitoramento', questions: [nao('Há seleção de operações atípicas?')] }
+    const csnu = { item: 'Sanções', questions: [nao('Verifica listas CSNU?')] }
+    const csc = { item: 'KYC', questions: [nao('Procedimentos conheça seu cliente?')] }
+
+    expect(scoreForm([msac]).resultado).toBe('EFETIVO')
+    expect(scoreForm([msac, csnu]).resultado).toBe('PARCIALMENTE EFETIVO')
+
+    const result = scoreForm([msac, csnu, csc])
+    expect(result.resultado).toBe('POUCO EFETIVO')
+    expect(result.descricao).toBe(
+      'O programa de PLD/FTP não atingiu a maioria dos resultados esperados, com a identificação de deficiências de alta criticidade nos procedimentos de monitoramento, seleção, análise e comunicação de operações atípicas (MSAC), nos procedimentos de verificação de sanções CSNU, e nos procedimentos conheça seu cliente (CSC).'
+    )
+    expect(result.drivers.map((d) => d.questionNumber)).toEqual(['1.1', '2.1', '3.1'])
+  })
+
+  it('ignores non-ALTA, answered "Sim" and non-applicable questions by default', () => {
+    const sections = [
+      {
+        item: 'CSNU',
+        questions: [
+          nao('Sanções', 'MEDIA'),
+          { texto: 'Sanções', resposta: 'Sim', criticidade: 'ALTA' },
+          nao('Sanções', 'ALTA', { aplicavel: false }),
+        ],
+      },
+    ]
+    const result = scoreForm(sections)
+    expect(result.drivers).toHaveLength(0)
+    expect(result.areas.every((a) => !a.impaired)).toBe(true)
+  })
+
+  it('prefers explicit control areas over keywords', () => {
+    const sections = [
+      { item: 'Monitoramento', controlArea: 'CSC', questions: [nao('Pergunta 1'), nao('Pergunta 2', 'ALTA', { controlArea: 'csnu' })] },
+    ]
+    const result = scoreForm(sections)
+    expect(result.drivers.map((d) => [d.areas, d.matchedBy])).toEqual([
+      [['CSC'], 'tag'],
+      [['CSNU'], 'tag'],
+    ])
+    expect(result.areas.find((a) => a.key === 'MSAC')!.impaired).toBe(false)
+  })
+
+  it('applies tenant weights, thresholds and mandatory areas', () => {
+    const rules: ScoringRules = {
+      ...DEFAULT_SCORING_RULES,
+      areas: [
+        { key: 'A', label: 'A', mandatory: true, keywords: [] },
+        { key: 'B', label: 'B', mandatory: false, keywords: [] },
+      ],
+      weights: { ALTA: 3, MEDIA: 1, BAIXA: 0 },
+      areaThreshold: 2,
+      partialFrom: 1,
+      lowFrom: 1,
+    }
+    const sections = [
+      { item: 'S', controlArea: 'A', questions: [nao('x', 'MEDIA')] },
+      { item: 'T', controlArea: 'B', questions: [nao('y', 'ALTA')] },
+    ]
+    expect(scoreForm(sections, rules).resultado).toBe('EFETIVO')
+
+    sections[0].questions.push(nao('z', 'MEDIA'))
+    const result = scoreForm(sections, rules)
+    expect(result.resultado).toBe('POUCO EFETIVO')
+    expect(result.descricao).toContain('deficiências relevantes')
+  })
+})
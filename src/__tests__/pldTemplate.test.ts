@@ -0,0 +1,62 @@
+import { PldBuilderService } from '../services/pldBuilder.service'
+import { parseTemplateTree, summarizeTemplate } from '../services/pldTemplate.service'
+
+describe('questionnaire templates', () => {
+  const builderSections = [
+    {
+      id: 's1',
+      item: 'Governança',
+      customLabel: 'Estrutura',
+      hasNorma: true,
+      normaReferencia: 'Circular 3.978',
+      attachments: [{ id: 'a1', path: 'uploads/x.pdf' }],
+      questions: [
+        { id: 'q1', texto: 'Existe política?', criticidade: 'ALTA', resposta: 'SIM', attachments: [{ id: 'a2' }] },
+        { id: 'q2', texto: 'Há treinamento?', aplicavel: false },
+      ],
+    },
+  ]
+
+  it('saves only the reusable tree, without ids, answers or attachments', () => {
+    expect(PldBuilderService.toTree(builderSections)).toEqual([
+      {
+        item: 'Governança',
+        customLabel: 'Estrutura',
+        hasNorma: true,
+        normaReferencia: 'Circular 3.978',
+        descricao: null,
+        controlArea: null,
+        questions: [
+          { texto: 'Existe política?', aplicavel: true, templateRef: null, capitulacao: null, criticidade: 'ALTA', controlArea: null },
+          { texto: 'Há treinamento?', aplicavel: false, templateRef: null, capitulacao: null, criticidade: 'MEDIA', controlArea: null },
+        ],
+      },
+    ])
+  })
+
+  it('summarizes a stored version with section and question counts', () => {
+    const content = JSON.stringify({ sections: PldBuilderService.toTree(builderSections) })
+    const createdAt = new Date('2026-10-19T12:00:00.000Z')
+    expect(summarizeTemplate({ id: 't1', name: 'PLD base', version: 2, description: null, content, createdAt })).toEqual({
+      id: 't1',
+      name: 'PLD base',
+      version: 2,
+      description: null,
+      sectionCount: 1,
+      questionCount: 2,
+      createdAt,
+    })
+    expect(parseTemplateTree(content)[0].questions.map((q) => q.texto)).toEqual(['Existe política?', 'Há treinamento?'])
+  })
+
+  it('reads missing or corrupted content as an empty tree', () => {
+    expect(parseTemplateTree(null)).toEqual([])
+    expect(parseTemplateTree('{not json')).toEqual([])
+    expect(parseTemplateTree('{"sections":"x"}')).toEqual([])
+    expect(summarizeTemplate({ id: 't2', name: 'Vazio', version: 1, content: null })).toMatchObject({
+      description: null,
+      sectionCount: 0,
+      questionCount: 0,
+    })
+  })
+})
@@ -0,0 +1,19 @@
+import { classifyDeadline, isReminderDue } from '../services/reminder.service'
+
+const DAY = 24 * 60 * 60 * 1000
+const now = new Date('2026-10-19T12:00:00.000Z')
+
+describe('reminder cadence', () => {
+  it('sends the first reminder and repeats only after the window', () => {
+    expect(isReminderDue(null, now, 3)).toBe(true)
+    expect(isReminderDue(new Date(now.getTime() - 2 * DAY), now, 3)).toBe(false)
+    expect(isReminderDue(new Date(now.getTime() - 3 * DAY), now, 3)).toBe(true)
+  })
+
+  it('classifies action-plan deadlines', () => {
+    expect(classifyDeadline(null, now, 7)).toBeNull()
+    expect(classifyDeadline(new Date(now.getTime() - 1), now, 7)).toBe('OVERDUE')
+    expect(classifyDeadline(new Date(now.getTime() + 7 * DAY), now, 7)).toBe('DUE_SOON')
+    expect(classifyDeadline(new Date(now.getTime() + 8 * DAY), now, 7)).toBeNull()
+  })
+})
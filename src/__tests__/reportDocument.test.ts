@@ -0,0 +1,156 @@
+import {
+  buildPldReportDocument,
+  buildUserReportDocument,
+  REPORT_RENDERERS,
+  runsText,
+  safeLink,
+  type PldReportInput,
+} from '../services/reportDocument'
+import { DEFAULT_REPORT_TEMPLATE } from '../services/reportTemplate.service'
+
+const sections = [
+  {
+    item: 'Governança',
+    customLabel: 'Estrutura',
+    descricao: 'Estrutura de PLD',
+    questions: [
+      {
+        texto: 'Existe política?',
+        testStatus: 'SIM',
+        testDescription: 'Leitura da política',
+        attachments: [{ category: 'TEST_EVIDENCIAS', path: 'uploads/a.pdf', originalName: 'politica.pdf' }],
+      },
+    ],
+  },
+  { item: 'MSAC', questions: [] },
+]
+
+const input = (overrides: Partial<PldReportInput> = {}): PldReportInput => ({
+  template: { ...DEFAULT_REPORT_TEMPLATE, logo: null },
+  generatedBy: 'Ana <ana@example.com>',
+  generatedAt: '19/10/2026 10:00:00',
+  sections,
+  sectionLabels: ['Governança - Estrutura', 'MSAC'],
+  deficiencias: [{ sectionLabel: 'MSAC', deficiencia: 'Sem monitoramento', criticidade: 'ALTA', recomendacao: 'Implantar' }],
+  conclusaoRows: [
+    { label: 'MSAC', baixa: 0, media: 0, alta: 1, total: 1 },
+    { label: 'TOTAL', baixa: 0, media: 0, alta: 1, total: 1 },
+  ],
+  evidenceRows: [{ itemLabel: '4.1 Governança - Estrutura', files: [{ name: 'politica.pdf', url: 'http://x/uploads/a.pdf' }] }],
+  introAvaliador: 'Auditor independente',
+  incluirRecomendacoes: true,
+  mostrarResultado: true,
+  showSectionDescription: false,
+  resultado: { resultado: 'EFETIVO', descricao: 'Atingiu os resultados.' },
+  ...overrides,
+})
+
+describe('report document model', () => {
+  it('builds the PLD report sections once for every format', () => {
+    const doc = buildPldReportDocument(input())
+    const sectionTitles = doc.blocks.filter((b) => b.type === 'sectionTitle').map((b: any) => b.text)
+    expect(sectionTitles).toEqual([
+      '1- Introdução',
+      '2- Metodologia de Avaliação',
+      '3- Qualificação do Avaliador',
+      '4- Execução',
+      '5- CONCLUSÃO',
+      '6- ANEXO EVIDÊNCIAS',
+    ])
+
+    const paragraphs = doc.blocks.filter((b) => b.type === 'paragraph').map((b: any) => runsText(b.runs))
+    expect(paragraphs).toContain('Recomendação: Implantar')
+    expect(paragraphs).toContain('Resultado: EFETIVO')
+    expect(paragraphs).not.toContain('Descrição do item avaliado: Estrutura de PLD')
+    expect(doc.blocks.filter((b) => b.type === 'card')).toHaveLength(1)
+  })
+
+  it('honours the report options', () => {
+    const doc = buildPldReportDocument(
+      input({ incluirRecomendacoes: false, mostrarResultado: false, showSectionDescription: true })
+    )
+    const paragraphs = doc.blocks.filter((b) => b.type === 'paragraph').map((b: any) => runsText(b.runs))
+    expect(paragraphs).not.toContain('Recomendação: Implantar')
+    expect(paragraphs).not.toContain('Resultado: EFETIVO')
+    expect(paragraphs).toContain('Descrição do item avaliado: Estrutura de PLD')
+  })
+
+  it('renders the same document with every backend', async () => {
+    const doc = buildPldReportDocument(input())
+
+    const pdf = await REPORT_RENDERERS.PDF.render(doc)
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+
+    const docx = await REPORT_RENDERERS.DOCX.render(doc)
+    expect(docx.subarray(0, 2).toString()).toBe('PK')
+
+    const html = (await REPORT_RENDERERS.HTML.render(doc)).toString('utf-8')
+    expect(html).toContain('<h2 class="section-title">6- ANEXO EVIDÊNCIAS</h2>')
+    expect(html).toContain('<a href="http://x/uploads/a.pdf"')
+    expect(html).toContain('Ana &lt;ana@example.com&gt;')
+
+    const md = (await REPORT_RENDERERS.MD.render(doc)).toString('utf-8')
+    expect(md).toContain('## 6- ANEXO EVIDÊNCIAS')
+    expect(md).toContain('| **TOTAL** | **0** | **0** | **1** | **1** |')
+    expect(md).toContain('[politica.pdf](http://x/uploads/a.pdf)')
+    expect(md).toContain('Ana \\<ana@example.com\\>')
+    expect(md).not.toMatch(/\{\{\s*pagina/)
+  })
+
+  it('keeps only http, https and mailto links in HTML and Markdown', async () => {
+    expect(safeLink(' https://x/a.pdf ')).toBe('https://x/a.pdf')
+    expect(safeLink('MAILTO:ana@example.com')).toBe('MAILTO:ana@example.com')
+    expect(safeLink('javascript:alert(1)')).toBeNull()
+    expect(safeLink('data:text/html,x')).toBeNull()
+
+    const doc = buildPldReportDocument(
+      input({ evidenceRows: [{ itemLabel: '4.1 Governança', files: [{ name: 'x.pdf', url: 'javascript:alert(1)' }] }] })
+    )
+    const html = (await REPORT_RENDERERS.HTML.render(doc)).toString('utf-8')
+    expect(html).not.toContain('javascript:')
+    expect(html).toContain('x.pdf')
+    const md = (await REPORT_RENDERERS.MD.render(doc)).toString('utf-8')
+    expect(md).not.toContain('javascript:')
+  })
+
+  it('builds the per-user topic report on the same model', async () => {
+    const doc = buildUserReportDocument({
+      title: 'Relatório de Conformidade PLD',
+      theme: { primaryColor: '#1E3A5F', secondaryColor: '#E2E8F0' },
+      user: { name: 'Ana', email: 'ana@example.com' },
+      generatedAt: '19/10/2026 10:00:00',
+      type: 'PARTIAL',
+      progress: { progress: 50, totalApplicable: 2, totalAnswered: 1, totalQuestions: 3 },
+      topics: [
+        {
+          name: 'Governança',
+          questions: [
+            {
+              title: ' Existe política? ',
+              isApplicable: true,
+              answer: { response: true, evidences: [{ originalName: 'politica.pdf', path: 'uploads/a.pdf' }] },
+            },
+            { title: 'Há treinamento?', isApplicable: true, answer: null },
+            { title: 'Opera câmbio?', isApplicable: false },
+          ],
+        },
+      ],
+      questionTitle: (raw) => String(raw).trim(),
+      evidenceLink: (ev) => `http://x/${ev.path}`,
+    })
+
+    const card = doc.blocks.find((b) => b.type === 'card' && runsText((b.blocks[0] as any).runs).startsWith('1.')) as any
+    expect(card.blocks.map((b: any) => runsText(b.runs))).toEqual([
+      '1. Existe política?',
+      'Resposta: Sim',
+      'Evidências',
+      '• 1. politica.pdf',
+    ])
+
+    const md = (await REPORT_RENDERERS.MD.render(doc)).toString('utf-8')
+    expect(md).toContain('[• 1. politica.pdf](http://x/uploads/a.pdf)')
+    expect(md).toContain('Status: Não respondida')
+    expect(md).toContain('Status: Não aplicável')
+    expect(md).toContain('Tipo de relatório: Parcial')
+  })
+})
@@ -0,0 +1,65 @@
+import crypto from 'crypto'
+import AdmZip from 'adm-zip'
+import { ReportDossierService } from '../services/reportDossier.service'
+
+const files: Record<string, Buffer> = {
+  'uploads/pld/norma.pdf': Buffer.from('norma'),
+  'uploads/pld/a.pdf': Buffer.from('evidencia a'),
+  'uploads/pld/b.pdf': Buffer.from('evidencia b'),
+}
+
+const sections = [
+  {
+    item: 'Governança',
+    customLabel: 'Estrutura',
+    attachments: [{ category: 'NORMA', path: 'uploads/pld/norma.pdf', originalName: 'Política PLD.pdf' }],
+    questions: [
+      {
+        texto: 'Existe política aprovada?',
+        attachments: [
+          { category: 'TEST_EVIDENCIAS', path: 'C:\\app\\uploads\\pld\\a.pdf', originalName: 'evidencia.pdf' },
+          { category: 'TEST_EVIDENCIAS', path: 'uploads/pld/b.pdf', originalName: 'evidencia.pdf' },
+          { category: 'RESPOSTA', path: 'uploads/pld/perdido.pdf', originalName: 'perdido.pdf' },
+        ],
+      },
+    ],
+  },
+]
+
+describe('report dossier', () => {
+  it('packs the report and attachments with a manifest and SHA-256 hashes', async () => {
+    const { buffer, manifest } = await ReportDossierService.buildDossierZip({
+      formId: 'form-1',
+      formName: 'Avaliação 2026',
+      generatedBy: 'Ana <ana@example.com>',
+      sections,
+      report: { filename: 'relatorio.pdf', data: Buffer.from('%PDF-') },
+      readFile: async (storedPath) => files[storedPath] ?? null,
+    })
+
+    const zip = new AdmZip(buffer)
+    const entries = zip.getEntries().map((e) => e.entryName)
+    expect(entries).toEqual(
+      expect.arrayContaining([
+        'relatorio/relatorio.pdf',
+        'evidencias/01 - Governança - Estrutura/_secao/NORMA/Política PLD.pdf',
+        'evidencias/01 - Governança - Estrutura/Q01 - Existe política aprovada/TEST_EVIDENCIAS/evidencia.pdf',
+        'evidencias/01 - Governança - Estrutura/Q01 - Existe política aprovada/TEST_EVIDENCIAS/evidencia (2).pdf',
+        'manifest.json',
+        'SHA256SUMS.txt',
+      ])
+    )
+
+    const b = manifest.files.find((f) => f.path.endsWith('evidencia (2).pdf'))!
+    expect(b.sha256).toBe(crypto.createHash('sha256').update('evidencia b').digest('hex'))
+    expect(b.question).toBe('Existe política aprovada?')
+    expect(manifest.missing).toEqual([
+      expect.objectContaining({ category: 'RESPOSTA', storedPath: 'uploads/pld/perdido.pdf' }),
+    ])
+
+    const sums = zip.readAsText('SHA256SUMS.txt').trim().split('\n')
+    expect(sums).toHaveLength(4)
+    expect(sums[0]).toBe(`${manifest.report.sha256}  relatorio/relatorio.pdf`)
+    expect(JSON.parse(zip.readAsText('manifest.json')).files).toHaveLength(3)
+  })
+})
@@ -0,0 +1,41 @@
+import { isReusableReportJob, reportCacheKey } from '../services/reportJob.service'
+
+describe('report job cache', () => {
+  const base = {
+    kind: 'form' as const,
+    formId: 'f1',
+    revision: 3,
+    status: 'IN_PROGRESS',
+    format: 'PDF' as const,
+    requesterId: 'u1',
+  }
+
+  it('keys the cache by form revision, status, format, requester and rule/template versions', () => {
+    expect(reportCacheKey(base)).toBe('report:form:f1:r3:IN_PROGRESS:PDF:u1:default:default')
+    expect(
+      reportCacheKey({
+        ...base,
+        rulesUpdatedAt: new Date('2026-10-19T12:00:00.000Z'),
+        templateUpdatedAt: '2026-10-19T13:00:00.000Z',
+      })
+    ).toBe(`report:form:f1:r3:IN_PROGRESS:PDF:u1:${Date.UTC(2026, 9, 19, 12)}:${Date.UTC(2026, 9, 19, 13)}`)
+
+    const keys = new Set([
+      reportCacheKey(base),
+      reportCacheKey({ ...base, revision: 4 }),
+      reportCacheKey({ ...base, status: 'COMPLETED' }),
+      reportCacheKey({ ...base, format: 'XLSX' }),
+      reportCacheKey({ ...base, requesterId: 'u2' }),
+      reportCacheKey({ ...base, kind: 'dossier' }),
+    ])
+    expect(keys.size).toBe(6)
+  })
+
+  it('reuses pending, running or completed jobs whose report file still exists', () => {
+    expect(isReusableReportJob('PENDING', false)).toBe(true)
+    expect(isReusableReportJob('RUNNING', false)).toBe(true)
+    expect(isReusableReportJob('COMPLETED', true)).toBe(true)
+    expect(isReusableReportJob('COMPLETED', false)).toBe(false)
+    expect(isReusableReportJob('FAILED', true)).toBe(false)
+  })
+})
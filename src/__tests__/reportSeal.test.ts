@@ -0,0 +1,59 @@
+import { buildPldReportDocument, REPORT_RENDERERS } from '../services/reportDocument'
+import {
+  generateVerificationCode,
+  normalizeVerificationCode,
+  ReportSealService,
+  sha256Hex,
+} from '../services/reportSeal.service'
+import { DEFAULT_REPORT_TEMPLATE } from '../services/reportTemplate.service'
+
+describe('report seal', () => {
+  it('generates codes that survive the usual typing mistakes', () => {
+    const code = generateVerificationCode()
+    expect(code).toMatch(/^[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}$/)
+    expect(normalizeVerificationCode(code.toLowerCase().replace(/-/g, ''))).toBe(code)
+    expect(normalizeVerificationCode('o1ab-cdef-ghjk')).toBe('01AB-CDEF-GHJK')
+    expect(normalizeVerificationCode('ABCD-EFGH')).toBeNull()
+    expect(normalizeVerificationCode('UUUU-UUUU-UUUU')).toBeNull()
+  })
+
+  it('seals only finished forms and hashes the snapshot and the output file', () => {
+    const form = { id: 'form-1', content: '{"sections":[]}', revision: 7 }
+    expect(ReportSealService.draftFor({ ...form, status: 'IN_PROGRESS' })).toBeNull()
+
+    const draft = ReportSealService.draftFor({ ...form, status: 'APPROVED' })!
+    expect(draft).toMatchObject({ sourceFormId: 'form-1', sourceRevision: 7, contentHash: sha256Hex(form.content) })
+
+    const file = Buffer.from('%PDF-1.7 relatório')
+    expect(ReportSealService.sealData(draft, file)).toMatchObject({
+      verificationCode: draft.code,
+      fileHash: sha256Hex(file),
+    })
+  })
+
+  it('prints the verification line in the report footer', async () => {
+    const doc = buildPldReportDocument({
+      template: { ...DEFAULT_REPORT_TEMPLATE, logo: null },
+      generatedBy: 'Ana',
+      generatedAt: '19/10/2026 10:00:00',
+      sections: [],
+      sectionLabels: [],
+      deficiencias: [],
+      conclusaoRows: [],
+      evidenceRows: [],
+      introAvaliador: '',
+      incluirRecomendacoes: true,
+      mostrarResultado: true,
+      showSectionDescription: false,
+      resultado: { resultado: 'EFETIVO', descricao: '' },
+    })
+    doc.verification = ReportSealService.verificationLine('ABCD-EFGH-JKMN')
+
+    const html = (await REPORT_RENDERERS.HTML.render(doc)).toString('utf-8')
+    expect(html).toContain('Código de verificação: ABCD-EFGH-JKMN')
+    expect(html).toContain('/api/report/verify/ABCD-EFGH-JKMN')
+
+    const pdf = await REPORT_RENDERERS.PDF.render(doc)
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+  })
+})
@@ -0,0 +1,54 @@
+import ExcelJS from 'exceljs'
+import { ReportSpreadsheetService } from '../services/reportSpreadsheet.service'
+
+const sections = [
+  {
+    item: 'Governança',
+    customLabel: 'Estrutura',
+    questions: [
+      {
+        texto: 'Existe política?',
+        resposta: 'Não',
+        criticidade: 'ALTA',
+        testStatus: 'NAO_PLANO',
+        deficienciaTexto: 'Sem política aprovada',
+        actionPrazoAtual: '2026-12-31',
+      },
+      { texto: 'Há treinamento?', aplicavel: false, criticidade: 'MEDIA' },
+    ],
+  },
+  { item: 'MSAC', questions: [{ texto: 'Há monitoramento?', resposta: 'Sim', criticidade: 'BAIXA' }] },
+]
+
+describe('form XLSX export', () => {
+  it('writes one row per question and the deficiency summary per section', async () => {
+    const workbook = ReportSpreadsheetService.buildPldFormWorkbook('Formulário PLD', sections)
+
+    // Ida e volta pelo arquivo: o que o usuário abre no Excel
+    const loaded = new ExcelJS.Workbook()
+    await loaded.xlsx.load((await workbook.xlsx.writeBuffer()) as any)
+    expect(loaded.worksheets.map((w) => w.name)).toEqual(['Questões', 'Deficiências por seção'])
+
+    const questions = loaded.getWorksheet('Questões')!
+    expect(questions.rowCount).toBe(4)
+    const header = questions.getRow(1).values as any[]
+    const col = (name: string) => header.indexOf(name)
+    const first = questions.getRow(2)
+    expect(first.getCell(col('Seção')).value).toBe('Governança - Estrutura')
+    expect(first.getCell(col('Nº')).value).toBe('1.1')
+    expect(first.getCell(col('Criticidade')).value).toBe('Alta')
+    expect(first.getCell(col('Teste realizado')).value).toBe('Não (consta no plano)')
+    expect(first.getCell(col('Deficiência')).value).toBe('Sem política aprovada')
+    expect(first.getCell(col('Prazo atual')).value).toEqual(new Date('2026-12-31T00:00:00.000Z'))
+    expect(questions.getRow(3).getCell(col('Aplicável')).value).toBe('Não')
+    expect(questions.getRow(4).getCell(col('Nº')).value).toBe('2.1')
+
+    const summary = loaded.getWorksheet('Deficiências por seção')!
+    const rows = summary.getSheetValues().slice(2).map((row: any) => row.slice(1))
+    expect(rows).toEqual([
+      ['Governança - Estrutura', 2, 1, 1, 1, 0, 0, 1],
+      ['MSAC', 1, 1, 1, 0, 0, 0, 0],
+      ['Total', 3, 2, 2, 1, 0, 0, 1],
+    ])
+  })
+})
@@ -0,0 +1,29 @@
+import { applyPlaceholders, DEFAULT_REPORT_TEXTS, mergeTemplateTexts } from '../services/reportTemplate.service'
+import { fitImageSize, getImageSize } from '../utils/imageSize'
+
+describe('report template', () => {
+  it('fills known placeholders and keeps unknown ones', () => {
+    const text = 'Instituições {{instituicoes}} em {{ dataBase }} - página {{pagina}}'
+    expect(applyPlaceholders(text, { instituicoes: 'Banco X', dataBase: '19/10/2026' })).toBe(
+      'Instituições Banco X em 19/10/2026 - página {{pagina}}'
+    )
+    expect(applyPlaceholders('Avaliador: {{avaliador}}', { avaliador: '' })).toBe('Avaliador: -')
+  })
+
+  it('merges overrides over the default texts', () => {
+    const texts = mergeTemplateTexts({ conclusaoIntro: 'Conclusão própria', criticidade: { ALTA: 'Grave' } as any })
+    expect(texts.conclusaoIntro).toBe('Conclusão própria')
+    expect(texts.criticidade).toEqual({ ...DEFAULT_REPORT_TEXTS.criticidade, ALTA: 'Grave' })
+    expect(texts.introducao).toEqual(DEFAULT_REPORT_TEXTS.introducao)
+  })
+
+  it('reads PNG dimensions and fits the logo box', () => {
+    const png = Buffer.alloc(24)
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(png)
+    png.writeUInt32BE(400, 16)
+    png.writeUInt32BE(100, 20)
+    expect(getImageSize(png)).toEqual({ width: 400, height: 100 })
+    expect(fitImageSize(getImageSize(png), 200, 80)).toEqual({ width: 200, height: 50 })
+    expect(getImageSize(Buffer.from('not an image'))).toBeNull()
+  })
+})
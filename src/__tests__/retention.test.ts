@@ -0,0 +1,68 @@
+import { buildRetentionWhere, retentionCutoff, retentionReason } from '../services/retention.service'
+
+describe('retention policies', () => {
+  const cutoff = retentionCutoff(new Date('2026-10-19T12:00:00.000Z'), 1825)
+
+  it('computes the cutoff and the reason shown in the preview', () => {
+    expect(cutoff).toEqual(new Date('2021-10-20T12:00:00.000Z'))
+    expect(retentionReason('AUDIT_EVENT', 1825, cutoff)).toBe(
+      'eventos de auditoria registrados antes de 2021-10-20 (retenção de 1825 dias)'
+    )
+  })
+
+  it('counts forms from the latest review, submission or creation date', () => {
+    expect(buildRetentionWhere('BUILDER_FORM', cutoff)).toEqual({
+      type: 'BUILDER_FORM',
+      OR: [
+        { reviewedAt: { lt: cutoff } },
+        { reviewedAt: null, submittedAt: { lt: cutoff } },
+        { reviewedAt: null, submittedAt: null, createdAt: { lt: cutoff } },
+      ],
+    })
+  })
+
+  it('excludes records under legal hold, keeping rows with empty optional columns', () => {
+    const held = { reportIds: ['form1'], organizationIds: ['org1'], userIds: ['user1'] }
+
+    expect(buildRetentionWhere('BUILDER_FORM', cutoff, held).AND).toEqual([
+      { id: { notIn: ['form1'] } },
+      { userId: { notIn: ['user1'] } },
+      { OR: [{ assignedToId: null }, { assignedToId: { notIn: ['user1'] } }] },
+      { OR: [{ organizationId: null }, { organizationId: { notIn: ['org1'] } }] },
+    ])
+    expect(buildRetentionWhere('AUDIT_EVENT', cutoff, held)).toEqual({
+      createdAt: { lt: cutoff },
+      AND: [
+        { OR: [{ actorId: null }, { actorId: { notIn: ['user1'] } }] },
+        { OR: [{ targetId: null }, { targetId: { notIn: ['form1', 'org1', 'user1'] } }] },
+      ],
+    })
+    expect(buildRetentionWhere('GENERATED_REPORT', cutoff, held).AND).toContainEqual({
+      OR: [
+        { filePath: null },
+        {
+          NOT: {
+            OR: [
+              { filePath: { contains: 'pld-form-report-form1-' } },
+              { filePath: { contains: 'pld-form-dossier-form1-' } },
+            ],
+          },
+        },
+      ],
+    })
+  })
+
+  it('ignores legal holds for password reset tokens and skips empty hold lists', () => {
+    const held = { reportIds: [], organizationIds: [], userIds: ['user1'] }
+    expect(buildRetentionWhere('PASSWORD_RESET_TOKEN', cutoff, held)).toEqual({
+      OR: [{ expiresAt: { lt: cutoff } }, { usedAt: { lt: cutoff } }],
+    })
+    expect(buildRetentionWhere('ACTION_PLAN_EVIDENCE', cutoff, held)).toEqual({
+      createdAt: { lt: cutoff },
+      AND: [
+        { item: { ownerId: { notIn: ['user1'] } } },
+        { OR: [{ uploadedById: null }, { uploadedById: { notIn: ['user1'] } }] },
+      ],
+    })
+  })
+})
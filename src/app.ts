@@ -12,8 +12,10 @@ import cookieParser from 'cookie-parser'
 import { getUploadsRoot } from './config/paths'
 import { createSignedUrlForStoredPath, getStorageProvider } from './config/storage'
 import { authenticateFromHeaderOrQuery } from './middleware/auth'
+import { requestContext } from './middleware/requestContext'
 import { billingWebhookHandler } from './routes/billing.webhook'
 import { toPublicErrorMessage } from './utils/publicError'
+import { startJobs } from './jobs'
 
 config()
 
@@ -66,7 +68,8 @@ app.use(
       return cb(null, corsAllowlistSet.has(origin))
     },
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Bootstrap-Token'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Bootstrap-Token', 'If-Match', 'X-Organization-Id'],
+    exposedHeaders: ['ETag'],
   })
 )
 
@@ -86,6 +89,9 @@ app.use('/api', apiLimiter)
 // Logs de requisição
 app.use(morgan('combined'))
 
+// IP/user agent/usuário da requisição para a auditoria (src/services/audit.service.ts)
+app.use(requestContext)
+
 // Stripe webhook precisa do corpo "raw" (não JSON parseado)
 app.post('/api/billing/webhook', express.raw({ type: 'application/json' }), billingWebhookHandler)
 
@@ -110,10 +116,18 @@ import formRoutes from './routes/form.routes'
 import reportRoutes from './routes/report.routes'
 import pldBuilderRoutes from './routes/pldBuilder.routes'
 import billingRoutes from './routes/billing.routes'
+import actionPlanRoutes from './routes/actionPlan.routes'
+import reminderRoutes from './routes/reminder.routes'
+import organizationRoutes from './routes/organization.routes'
+import adminRoutes from './routes/admin.routes'
 app.use('/api/form', formRoutes)
 app.use('/api/report', reportRoutes)
 app.use('/api/pld', pldBuilderRoutes)
 app.use('/api/billing', billingRoutes)
+app.use('/api/action-plans', actionPlanRoutes)
+app.use('/api/reminders', reminderRoutes)
+app.use('/api/organizations', organizationRoutes)
+app.use('/api/admin', adminRoutes)
 
 // Arquivos estáticos (uploads, evidências, relatórios)
 // Express 5 / path-to-regexp requires a named wildcard param
@@ -177,4 +191,5 @@ app.use((err: unknown, _req: express.Request, res: express.Response, _next: expr
 const PORT = process.env.PORT || 3001
 app.listen(PORT, () => {
   console.log(`🚀 Servidor de formulário rodando: http://localhost:${PORT}`)
+  startJobs()
 })
\ No newline at end of file
@@ -1,7 +1,7 @@
 import fs from 'fs'
 import path from 'path'
 import { createClient, type SupabaseClient } from '@supabase/supabase-js'
-import { stripUploadsPrefix } from './paths'
+import { getUploadsRoot, stripUploadsPrefix } from './paths'
 
 export type StorageProvider = 'local' | 'supabase'
 
@@ -144,6 +144,88 @@ export async function createSignedUrlForStoredPath(
   return res.data.signedUrl
 }
 
+/**
+ * Lê o conteúdo de um arquivo salvo (caminho "uploads/..." dos registros), no disco local ou no
+ * bucket do Supabase. Retorna null quando o arquivo não existe.
+ */
+export async function readStoredFile(storedPath: string): Promise<Buffer | null> {
+  const key = stripUploadsPrefix(storedPath)
+    .replace(/\\/g, '/')
+    .replace(/^\/+/, '')
+
+  if (!key || key.split('/').some((segment) => segment === '..')) {
+    throw new Error('Invalid storage path')
+  }
+
+  if (provider === 'supabase') {
+    const res = await getSupabase().storage.from(bucket).download(key)
+    if (res.error || !res.data) {
+      if (debug) {
+        console.log(`[storage] download failed bucket=${bucket} key=${key} error=${res.error?.message}`)
+      }
+      return null
+    }
+    return Buffer.from(await res.data.arrayBuffer())
+  }
+
+  const root = path.resolve(getUploadsRoot())
+  const absolutePath = path.resolve(root, key)
+  if (!absolutePath.startsWith(root + path.sep) || !fs.existsSync(absolutePath)) {
+    return null
+  }
+  return fs.promises.readFile(absolutePath)
+}
+
+// Verifica se o arquivo salvo (caminho "uploads/...") ainda existe, no disco local ou no bucket do Supabase
+export async function storedFileExists(storedPath: string): Promise<boolean> {
+  const key = stripUploadsPrefix(storedPath)
+    .replace(/\\/g, '/')
+    .replace(/^\/+/, '')
+
+  if (!key || key.split('/').some((segment) => segment === '..')) {
+    throw new Error('Invalid storage path')
+  }
+
+  if (provider === 'supabase') {
+    const res = await getSupabase().storage.from(bucket).exists(key)
+    return !!res.data
+  }
+
+  const root = path.resolve(getUploadsRoot())
+  const absolutePath = path.resolve(root, key)
+  return absolutePath.startsWith(root + path.sep) && fs.existsSync(absolutePath)
+}
+
+/**
+ * Remove um arquivo salvo (caminho "uploads/..." dos registros), no disco local ou no bucket do Supabase.
+ * Retorna false quando o arquivo já não existia.
+ */
+export async function deleteStoredFile(storedPath: string): Promise<boolean> {
+  const key = stripUploadsPrefix(storedPath)
+    .replace(/\\/g, '/')
+    .replace(/^\/+/, '')
+
+  if (!key || key.split('/').some((segment) => segment === '..')) {
+    throw new Error('Invalid storage path')
+  }
+
+  if (provider === 'supabase') {
+    const res = await getSupabase().storage.from(bucket).remove([key])
+    if (res.error) {
+      throw new Error(`Supabase remove failed: ${res.error.message}`)
+    }
+    return (res.data?.length ?? 0) > 0
+  }
+
+  const root = path.resolve(getUploadsRoot())
+  const absolutePath = path.resolve(root, key)
+  if (!absolutePath.startsWith(root + path.sep) || !fs.existsSync(absolutePath)) {
+    return false
+  }
+  await fs.promises.unlink(absolutePath)
+  return true
+}
+
 export function buildObjectKeyFromMulterFile(params: {
   folder: string
   filename: string
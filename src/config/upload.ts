@@ -3,6 +3,7 @@ import path from 'path';
 import fs from 'fs';
 import { Request } from 'express';
 import { ensureDir, getUploadsRoot } from './paths'
+import { withRequestContext } from '../middleware/requestContext';
 
 // Garantir que a pasta de uploads existe
 const uploadDir = getUploadsRoot();
@@ -74,7 +75,7 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilt
 };
 
 // Configurar multer
-export const upload = multer({
+export const upload = withRequestContext(multer({
   storage,
   limits: {
     fileSize: parseInt(process.env.MAX_FILE_SIZE || '20971520'), // 20MB
@@ -84,7 +85,17 @@ export const upload = multer({
     fieldSize: 1024 * 1024,
   },
   fileFilter
-});
+}));
 
 // Middleware para múltiplos arquivos
-export const uploadMultiple = upload.array('files', 5); // Máximo 5 arquivos
\ No newline at end of file
+export const uploadMultiple = upload.array('files', 5); // Máximo 5 arquivos
+// Verificação pública de relatórios selados: o arquivo fica só em memória (apenas o hash é calculado).
+// Limite próprio, menor que o dos anexos: relatórios emitidos não embutem evidências
+export const verificationUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: parseInt(process.env.VERIFY_MAX_FILE_SIZE || '5242880'), // 5MB
+    files: 1,
+    fields: 5,
+  },
+});
@@ -0,0 +1,15 @@
+import { REPORT_GENERATE_JOB, ReportJobService } from '../services/reportJob.service'
+import { RETENTION_PURGE_JOB } from '../services/retention.service'
+import { getReminderSweepIntervalMs, REMINDER_SWEEP_JOB, runReminderSweep } from './reminders.job'
+import { getRetentionPurgeIntervalMs, runRetentionPurge } from './retention.job'
+import { registerJobHandler, registerRecurringJob, startJobRunner } from './runner'
+import { getTrashPurgeIntervalMs, runTrashPurge, TRASH_PURGE_JOB } from './trash.job'
+
+// Registra os jobs da aplicação e inicia o runner (desligado em testes ou com JOBS_ENABLED=false)
+export function startJobs() {
+  registerRecurringJob(REMINDER_SWEEP_JOB, getReminderSweepIntervalMs(), runReminderSweep)
+  registerRecurringJob(TRASH_PURGE_JOB, getTrashPurgeIntervalMs(), runTrashPurge)
+  registerRecurringJob(RETENTION_PURGE_JOB, getRetentionPurgeIntervalMs(), runRetentionPurge)
+  registerJobHandler(REPORT_GENERATE_JOB, (payload, job) => ReportJobService.run(payload, job))
+  startJobRunner()
+}
@@ -0,0 +1,10 @@
+import { ReminderService } from '../services/reminder.service'
+
+export const REMINDER_SWEEP_JOB = 'REMINDER_SWEEP'
+
+export const getReminderSweepIntervalMs = () =>
+  Number.parseInt(process.env.REMINDER_SWEEP_INTERVAL_MS || '', 10) || 60 * 60 * 1000
+
+export async function runReminderSweep() {
+  return ReminderService.sweep(new Date())
+}
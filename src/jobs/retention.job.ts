@@ -0,0 +1,8 @@
+import { RetentionService } from '../services/retention.service'
+
+export const getRetentionPurgeIntervalMs = () =>
+  Number.parseInt(process.env.RETENTION_PURGE_INTERVAL_MS || '', 10) || 24 * 60 * 60 * 1000
+
+export async function runRetentionPurge() {
+  return RetentionService.purge(new Date())
+}
@@ -0,0 +1,220 @@
+import os from 'os'
+import prisma from '../config/database'
+
+// Job runner em processo com fila persistida em scheduled_jobs.
+// Vários processos podem rodar ao mesmo tempo: cada job é reivindicado com updateMany condicional
+// (PENDING -> RUNNING), então só um processo executa cada job.
+
+const prismaAny = prisma as any
+
+export type JobHandler = (payload: any, job: { id: string; type: string; attempts: number }) => Promise<unknown>
+
+type RecurringJob = {
+  type: string
+  intervalMs: number
+}
+
+const handlers = new Map<string, JobHandler>()
+const recurring: RecurringJob[] = []
+const workerId = `${os.hostname()}:${process.pid}`
+
+// Jobs RUNNING há mais tempo que isso são considerados órfãos (processo caiu) e voltam para a fila
+const STALE_LOCK_MS = 10 * 60 * 1000
+const BATCH_SIZE = 10
+
+let timer: NodeJS.Timeout | null = null
+let ticking = false
+let rerun = false
+let tick: (() => Promise<void>) | null = null
+
+export function registerJobHandler(type: string, handler: JobHandler) {
+  handlers.set(type, handler)
+}
+
+/**
+ * Agenda um job recorrente: sempre que não houver execução pendente do tipo,
+ * uma nova é enfileirada para `intervalMs` após a última conclusão.
+ */
+export function registerRecurringJob(type: string, intervalMs: number, handler: JobHandler) {
+  registerJobHandler(type, handler)
+  recurring.push({ type, intervalMs })
+}
+
+export async function enqueueJob(params: {
+  type: string
+  payload?: unknown
+  runAt?: Date
+  maxAttempts?: number
+  dedupeKey?: string | null
+  createdById?: string | null
+}) {
+  const data = {
+    type: params.type,
+    payload: params.payload === undefined ? null : JSON.stringify(params.payload),
+    runAt: params.runAt ?? new Date(),
+    maxAttempts: params.maxAttempts ?? 3,
+    dedupeKey: params.dedupeKey ?? null,
+    createdById: params.createdById ?? null,
+  }
+
+  if (!data.dedupeKey) return prismaAny.scheduledJob.create({ data })
+
+  // Mesmo dedupeKey => reaproveita o job existente
+  const existing = await prismaAny.scheduledJob.findUnique({ where: { dedupeKey: data.dedupeKey } })
+  if (existing) return existing
+  try {
+    return await prismaAny.scheduledJob.create({ data })
+  } catch (error: any) {
+    if (error?.code === 'P2002') return prismaAny.scheduledJob.findUnique({ where: { dedupeKey: data.dedupeKey } })
+    throw error
+  }
+}
+
+export async function getJob(id: string) {
+  return prismaAny.scheduledJob.findUnique({ where: { id } })
+}
+
+export async function setJobProgress(id: string, progress: number) {
+  await prismaAny.scheduledJob.update({
+    where: { id },
+    data: { progress: Math.max(0, Math.min(100, Math.round(progress))) },
+  })
+}
+
+const retryDelayMs = (attempts: number) => Math.min(60_000 * 2 ** Math.max(0, attempts - 1), 60 * 60_000)
+
+async function ensureRecurringJobs(now: Date) {
+  for (const job of recurring) {
+    const pending = await prismaAny.scheduledJob.count({
+      where: { type: job.type, status: { in: ['PENDING', 'RUNNING'] } },
+    })
+    if (pending > 0) continue
+
+    const last = await prismaAny.scheduledJob.findFirst({
+      where: { type: job.type, status: { in: ['COMPLETED', 'FAILED'] } },
+      orderBy: { updatedAt: 'desc' },
+      select: { updatedAt: true },
+    })
+    const base = last?.updatedAt ? new Date(last.updatedAt).getTime() + job.intervalMs : now.getTime()
+    const runAt = new Date(Math.max(base, now.getTime()))
+    await enqueueJob({ type: job.type, runAt, maxAttempts: 1, dedupeKey: `${job.type}:${runAt.toISOString()}` })
+  }
+}
+
+async function releaseStaleLocks(now: Date) {
+  await prismaAny.scheduledJob.updateMany({
+    where: { status: 'RUNNING', lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+    data: { status: 'PENDING', lockedAt: null, lockedBy: null },
+  })
+}
+
+async function runJob(job: any) {
+  const claimed = await prismaAny.scheduledJob.updateMany({
+    where: { id: job.id, status: 'PENDING' },
+    data: { status: 'RUNNING', lockedAt: new Date(), lockedBy: workerId, attempts: { increment: 1 } },
+  })
+  if (claimed.count === 0) return
+
+  const attempts = (job.attempts ?? 0) + 1
+  const handler = handlers.get(job.type)
+
+  try {
+    if (!handler) throw new Error(`Nenhum handler registrado para o job ${job.type}`)
+    let payload: any = null
+    try {
+      payload = job.payload ? JSON.parse(job.payload) : null
+    } catch {
+      payload = null
+    }
+
+    const result = await handler(payload, { id: job.id, type: job.type, attempts })
+    await prismaAny.scheduledJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'COMPLETED',
+        progress: 100,
+        completedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+        result: result === undefined ? null : JSON.stringify(result),
+      },
+    })
+  } catch (error: any) {
+    const exhausted = attempts >= (job.maxAttempts ?? 3)
+    console.error(`[jobs] ${job.type} (${job.id}) falhou na tentativa ${attempts}:`, error?.message || error)
+    await prismaAny.scheduledJob.update({
+      where: { id: job.id },
+      data: {
+        status: exhausted ? 'FAILED' : 'PENDING',
+        runAt: exhausted ? job.runAt : new Date(Date.now() + retryDelayMs(attempts)),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: String(error?.message || error).slice(0, 2000),
+      },
+    })
+  }
+}
+
+export async function runDueJobs(now: Date = new Date()) {
+  await releaseStaleLocks(now)
+  await ensureRecurringJobs(now)
+
+  const due = await prismaAny.scheduledJob.findMany({
+    where: { status: 'PENDING', runAt: { lte: now } },
+    orderBy: { runAt: 'asc' },
+    take: BATCH_SIZE,
+  })
+  // Sequencial de propósito: mantém o consumo de memória/conexões previsível
+  for (const job of due) {
+    await runJob(job)
+  }
+  return due.length
+}
+
+export function isJobRunnerEnabled() {
+  if (process.env.NODE_ENV === 'test') return false
+  return (process.env.JOBS_ENABLED || 'true').trim().toLowerCase() !== 'false'
+}
+
+export function startJobRunner() {
+  if (timer || !isJobRunnerEnabled()) return
+
+  const intervalMs = Number.parseInt(process.env.JOBS_POLL_INTERVAL_MS || '30000', 10) || 30000
+  tick = async () => {
+    if (ticking) {
+      rerun = true
+      return
+    }
+    ticking = true
+    try {
+      await runDueJobs()
+    } catch (error: any) {
+      console.error('[jobs] Erro no ciclo do job runner:', error?.message || error)
+    } finally {
+      ticking = false
+    }
+    if (rerun && tick) {
+      rerun = false
+      setImmediate(() => void tick?.())
+    }
+  }
+
+  timer = setInterval(tick, intervalMs)
+  timer.unref()
+  void tick()
+  console.log(`⏱️  Job runner iniciado (intervalo ${intervalMs}ms)`)
+}
+
+// Antecipa o próximo ciclo (ex.: job enfileirado por uma requisição); sem efeito com o runner desligado
+export function triggerJobRunner() {
+  const run = tick
+  if (!timer || !run) return
+  setImmediate(() => void run())
+}
+
+export function stopJobRunner() {
+  if (timer) clearInterval(timer)
+  timer = null
+  tick = null
+}
@@ -0,0 +1,10 @@
+import { FormTrashService } from '../services/formTrash.service'
+
+export const TRASH_PURGE_JOB = 'TRASH_PURGE'
+
+export const getTrashPurgeIntervalMs = () =>
+  Number.parseInt(process.env.TRASH_PURGE_INTERVAL_MS || '', 10) || 24 * 60 * 60 * 1000
+
+export async function runTrashPurge() {
+  return FormTrashService.purgeExpired(new Date())
+}
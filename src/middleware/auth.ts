@@ -3,7 +3,7 @@
  * 
  * Este módulo gerencia toda a autenticação do sistema PLD,
  * incluindo geração e validação de tokens JWT, verificação
- * de assinaturas e controle de acesso baseado em roles.
+ * de assinaturas e controle de acesso baseado em permissões.
  * 
  * Tokens podem ser enviados via:
  * - Header Authorization: Bearer <token>
@@ -13,14 +13,18 @@
 import { Request, Response, NextFunction } from 'express'
 import jwt, { Secret } from 'jsonwebtoken'
 import prisma from '../config/database'
+import { MEMBERSHIP_SELECT, OrganizationService, pickActiveOrganization } from '../services/organization.service'
+import { billingDenial, checkPermission, type Permission } from '../services/permission.service'
+import { setRequestActor } from './requestContext'
 
-// Estrutura do payload do token JWT
+// Estrutura do payload do token JWT (sid = AuthSession; tokens sem sessão não são aceitos)
 interface JwtPayload {
   userId: string
+  sid?: string
 }
 
-// Tempo de expiração do token (padrão: 8 horas)
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '8h'
+// Tempo de expiração do access token (padrão: 15 minutos); a sessão é renovada com o refresh token
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m'
 
 const rawSecret = process.env.JWT_SECRET
 
@@ -35,17 +39,25 @@ if (!rawSecret) {
 const JWT_SECRET: Secret = (rawSecret || 'dev-only-change-me') as Secret
 
 /**
- * Gera um token JWT para o usuário especificado
+ * Gera um access token JWT para o usuário especificado
  * @param userId - ID do usuário para incluir no token
+ * @param sessionId - sessão (AuthSession) que emitiu o token; revogada a sessão, o token deixa de valer
  * @returns Token JWT assinado
  */
-export function signToken(userId: string) {
-  return (jwt as any).sign({ userId } as JwtPayload, JWT_SECRET, {
+export function signToken(userId: string, sessionId: string) {
+  return (jwt as any).sign({ userId, sid: sessionId } as JwtPayload, JWT_SECRET, {
     expiresIn: JWT_EXPIRES_IN,
     algorithm: 'HS256',
   })
 }
 
+// Sessão utilizável: não revogada, não expirada e do usuário do token
+export const isSessionActive = (
+  session: { userId: string; revokedAt: Date | null; expiresAt: Date } | null | undefined,
+  userId: string,
+  now: Date = new Date()
+) => !!session && session.userId === userId && !session.revokedAt && new Date(session.expiresAt).getTime() > now.getTime()
+
 /**
  * Middleware principal de autenticação
  * Valida o token e carrega os dados do usuário na requisição
@@ -65,38 +77,74 @@ export async function authenticate(req: Request, res: Response, next: NextFuncti
       return res.status(401).json({ error: 'Token inválido ou expirado' })
     }
 
-    // Busca dados completos do usuário no banco
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        isTrial: true,
-        trialExpiresAt: true,
-        subscriptionStatus: true,
-        subscriptionExpiresAt: true,
-        stripeCustomerId: true,
-        stripeSubscriptionId: true,
-        isActive: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    })
-
-    if (!user || !user.isActive) {
-      return res.status(401).json({ error: 'Usuário não encontrado ou inativo' })
+    if (!payload.sid) {
+      return res.status(401).json({ error: 'Token inválido ou expirado' })
     }
 
-    req.user = user
-    return next()
+    return loadRequestUser(req, res, next, payload.userId, payload.sid)
   } catch (error) {
     console.error('Erro na autenticação:', error)
     return res.status(500).json({ error: 'Erro interno de autenticação' })
   }
 }
 
+const USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  isTrial: true,
+  trialExpiresAt: true,
+  subscriptionStatus: true,
+  subscriptionExpiresAt: true,
+  stripeCustomerId: true,
+  stripeSubscriptionId: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  organizationMemberships: { select: MEMBERSHIP_SELECT },
+}
+
+/**
+ * Busca dados completos do usuário no banco e resolve a organização ativa
+ * (header X-Organization-Id; sem header, a própria ou a mais antiga).
+ */
+async function loadRequestUser(req: Request, res: Response, next: NextFunction, userId: string, sessionId: string) {
+  const session = await (prisma as any).authSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true },
+  })
+  if (!isSessionActive(session, userId)) {
+    return res.status(401).json({ error: 'Sessão encerrada. Faça login novamente.', code: 'SESSION_REVOKED' })
+  }
+
+  let row: any = await prisma.user.findUnique({ where: { id: userId }, select: USER_SELECT })
+
+  if (!row || !row.isActive) {
+    return res.status(401).json({ error: 'Usuário não encontrado ou inativo' })
+  }
+
+  // Quem tem trial/assinatura própria sempre tem uma organização pessoal (criada no primeiro acesso)
+  const ownsOrganization = row.organizationMemberships.some((m: any) => m.organization.ownerId === row.id)
+  if (!ownsOrganization && row.role !== 'ADMIN' && !billingDenial(row)) {
+    await OrganizationService.ensurePersonalOrganization(row)
+    row = await prisma.user.findUnique({ where: { id: userId }, select: USER_SELECT })
+  }
+
+  const { organizationMemberships, ...user } = row
+  const rawHeader = req.headers['x-organization-id']
+  const requestedId = (Array.isArray(rawHeader) ? rawHeader[0] : rawHeader)?.trim() || null
+  const organization = pickActiveOrganization(user.id, organizationMemberships, requestedId)
+  if (organization === undefined) {
+    return res.status(403).json({ error: 'Você não participa desta organização', code: 'ORGANIZATION_FORBIDDEN' })
+  }
+
+  req.user = { ...user, organization }
+  req.sessionId = sessionId
+  setRequestActor(user)
+  return next()
+}
+
 function getTokenFromRequest(req: Request): string | null {
   const rawAuth = (req.headers as any).authorization as string | string[] | undefined
   const authHeader = Array.isArray(rawAuth) ? rawAuth[0] : rawAuth
@@ -140,78 +188,35 @@ export async function authenticateFromHeaderOrQuery(req: Request, res: Response,
       return res.status(401).json({ error: 'Token inválido ou expirado' })
     }
 
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        isTrial: true,
-        trialExpiresAt: true,
-        subscriptionStatus: true,
-        subscriptionExpiresAt: true,
-        stripeCustomerId: true,
-        stripeSubscriptionId: true,
-        isActive: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    })
-
-    if (!user || !user.isActive) {
-      return res.status(401).json({ error: 'Usuário não encontrado ou inativo' })
+    if (!payload.sid) {
+      return res.status(401).json({ error: 'Token inválido ou expirado' })
     }
 
-    req.user = user
-    return next()
+    return loadRequestUser(req, res, next, payload.userId, payload.sid)
   } catch (error) {
     console.error('Erro na autenticação:', error)
     return res.status(500).json({ error: 'Erro interno de autenticação' })
   }
 }
 
-export function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  if (!req.user) {
-    return res.status(401).json({ error: 'Não autenticado' })
-  }
-
-  if (req.user.role !== 'ADMIN') {
-    return res.status(403).json({ error: 'Acesso restrito ao administrador' })
-  }
-
-  return next()
-}
-
-function isTrialActive(user: { isTrial: boolean; trialExpiresAt: Date | null }) {
-  if (!user.isTrial) return false
-  if (!user.trialExpiresAt) return false
-  return user.trialExpiresAt.getTime() > Date.now()
-}
-
-function hasActiveSubscription(user: { subscriptionStatus?: string | null; subscriptionExpiresAt?: Date | null }) {
-  if ((user.subscriptionStatus || '').toUpperCase() !== 'ACTIVE') return false
-  if (!user.subscriptionExpiresAt) return true
-  return user.subscriptionExpiresAt.getTime() > Date.now()
-}
-
-export function requireBuilderAccess(req: Request, res: Response, next: NextFunction) {
-  if (!req.user) {
-    return res.status(401).json({ error: 'Não autenticado' })
-  }
-
-  if (req.user.role === 'ADMIN') {
-    return next()
-  }
+/**
+ * Exige todas as permissões informadas (ver src/services/permission.service.ts).
+ * Permissões da organização dependem do papel do membro e do trial/assinatura do dono;
+ * a resposta 403 traz o code (TRIAL_EXPIRED, PAYMENT_REQUIRED, ORGANIZATION_ROLE ou FORBIDDEN).
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Não autenticado' })
+    }
 
-  if (req.user.role === 'TRIAL_ADMIN') {
-    if (isTrialActive(req.user)) return next()
-    return res.status(403).json({ error: 'Seu período de teste expirou. Finalize o pagamento para continuar.', code: 'TRIAL_EXPIRED' })
-  }
+    for (const permission of permissions) {
+      const denial = checkPermission(req.user, permission)
+      if (denial) {
+        return res.status(403).json({ error: denial.message, code: denial.code, permission })
+      }
+    }
 
-  if (hasActiveSubscription(req.user as any)) {
     return next()
   }
-
-  return res.status(403).json({ error: 'Acesso ao builder restrito. Faça upgrade para continuar.', code: 'PAYMENT_REQUIRED' })
 }
@@ -0,0 +1,37 @@
+import { AsyncLocalStorage, AsyncResource } from 'async_hooks'
+import type { NextFunction, Request, RequestHandler, Response } from 'express'
+import type { Multer } from 'multer'
+
+// Dados da requisição HTTP disponíveis nos services sem passar parâmetros (usados pela auditoria)
+export type RequestContext = {
+  ip: string | null
+  userAgent: string | null
+  actor: { id: string; email: string | null } | null
+}
+
+const storage = new AsyncLocalStorage<RequestContext>()
+
+export function requestContext(req: Request, _res: Response, next: NextFunction) {
+  const userAgent = req.headers['user-agent']
+  storage.run({ ip: req.ip ?? null, userAgent: userAgent ? String(userAgent).slice(0, 500) : null, actor: null }, next)
+}
+
+export const getRequestContext = () => storage.getStore() ?? null
+
+// Chamado pela autenticação depois de carregar o usuário
+export function setRequestActor(actor: { id: string; email?: string | null }) {
+  const store = storage.getStore()
+  if (store) store.actor = { id: actor.id, email: actor.email ?? null }
+}
+
+// Multer chama o próximo middleware fora do contexto assíncrono da requisição; religa o contexto
+export function withRequestContext(instance: Multer): Multer {
+  const bind = (handler: RequestHandler): RequestHandler => (req, res, next) => handler(req, res, AsyncResource.bind(next))
+  return {
+    single: (field) => bind(instance.single(field)),
+    array: (field, maxCount) => bind(instance.array(field, maxCount)),
+    fields: (fields) => bind(instance.fields(fields)),
+    any: () => bind(instance.any()),
+    none: () => bind(instance.none()),
+  }
+}
@@ -0,0 +1,127 @@
+import express from 'express'
+import { authenticate, requirePermission } from '../middleware/auth'
+import { validateBody } from '../middleware/validate'
+import { upload } from '../config/upload'
+import { ActionPlanService, type ActionPlanFilters, type ActionPlanStatus } from '../services/actionPlan.service'
+import { toPublicErrorMessage } from '../utils/publicError'
+import {
+  extendActionPlanDeadlineSchema,
+  updateActionPlanItemSchema,
+  uploadActionPlanEvidenceSchema,
+} from '../validators/actionPlan.schemas'
+
+const router = express.Router()
+
+const STATUSES = new Set<ActionPlanStatus>(['OPEN', 'IN_PROGRESS', 'OVERDUE', 'CLOSED'])
+
+const queryString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined)
+
+// Listar itens do plano de ação de todos os formulários do usuário (filtros via query string)
+router.get('/', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const status = queryString(req.query.status)?.toUpperCase() as ActionPlanStatus | undefined
+    if (status && !STATUSES.has(status)) {
+      return res.status(400).json({ error: 'Status inválido' })
+    }
+
+    const filters: ActionPlanFilters = {
+      status,
+      reportId: queryString(req.query.reportId),
+      criticidade: queryString(req.query.criticidade)?.toUpperCase(),
+      responsavel: queryString(req.query.responsavel),
+      q: queryString(req.query.q),
+    }
+    const items = await ActionPlanService.listItems(req.user!, filters)
+    res.json({ items })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao listar plano de ação') })
+  }
+})
+
+router.get('/summary', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const summary = await ActionPlanService.getSummary(req.user!)
+    res.json({ summary })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar resumo do plano de ação') })
+  }
+})
+
+// Reprocessa as deficiências de um formulário concluído/aprovado (ex.: formulários anteriores ao módulo)
+router.post('/sync/:reportId', authenticate, requirePermission('builder:write'), async (req, res) => {
+  try {
+    const result = await ActionPlanService.syncForActor(req.user!, req.params.reportId)
+    res.json(result)
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao sincronizar plano de ação') })
+  }
+})
+
+router.get('/:id', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const item = await ActionPlanService.getItem(req.user!, req.params.id)
+    res.json({ item })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar item do plano de ação') })
+  }
+})
+
+router.patch('/:id', authenticate, requirePermission('builder:write'), validateBody(updateActionPlanItemSchema), async (req, res) => {
+  try {
+    const item = await ActionPlanService.updateItem(req.user!, req.params.id, req.body)
+    res.json({ item })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao atualizar item do plano de ação') })
+  }
+})
+
+// Prorrogação de prazo (mantém histórico)
+router.post(
+  '/:id/deadline',
+  authenticate,
+  requirePermission('builder:write'),
+  validateBody(extendActionPlanDeadlineSchema),
+  async (req, res) => {
+    try {
+      const { prazo, reason } = req.body as { prazo: string; reason?: string | null }
+      const item = await ActionPlanService.extendDeadline(req.user!, req.params.id, { prazo, reason })
+      res.json({ item })
+    } catch (error: any) {
+      res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao prorrogar prazo') })
+    }
+  }
+)
+
+// Evidência de saneamento da deficiência
+router.post(
+  '/:id/evidences',
+  authenticate,
+  requirePermission('builder:write'),
+  upload.single('file'),
+  validateBody(uploadActionPlanEvidenceSchema),
+  async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'Arquivo obrigatório' })
+      }
+      const evidence = await ActionPlanService.addEvidence(req.user!, req.params.id, {
+        file: req.file,
+        description: req.body?.description ?? null,
+      })
+      res.status(201).json({ evidence })
+    } catch (error: any) {
+      res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao enviar evidência') })
+    }
+  }
+)
+
+router.delete('/:id/evidences/:evidenceId', authenticate, requirePermission('builder:write'), async (req, res) => {
+  try {
+    await ActionPlanService.deleteEvidence(req.user!, req.params.id, req.params.evidenceId)
+    res.json({ message: 'Evidência removida' })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao remover evidência') })
+  }
+})
+
+export default router
@@ -0,0 +1,247 @@
+import express from 'express'
+import { authenticate, requirePermission } from '../middleware/auth'
+import { validateBody } from '../middleware/validate'
+import { AdminUserService, PLATFORM_ROLES, type AdminContext } from '../services/adminUser.service'
+import { AuditService, type AuditFilters } from '../services/audit.service'
+import { RETENTION_RECORD_TYPES, RetentionService, type RetentionRecordType } from '../services/retention.service'
+import { parsePagination } from '../utils/pagination'
+import { toPublicErrorMessage } from '../utils/publicError'
+import {
+  changeUserRoleSchema,
+  createLegalHoldSchema,
+  resetUserTrialSchema,
+  setUserActiveSchema,
+  updateRetentionPolicySchema,
+} from '../validators/admin.schemas'
+
+const router = express.Router()
+
+const queryString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined)
+
+// Datas da auditoria: ISO completo ou YYYY-MM-DD (dia inteiro, em UTC, quando usado como `to`)
+function parseDateParam(value: unknown, endOfDay = false): Date | undefined | null {
+  const raw = queryString(value)
+  if (!raw) return undefined
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(raw)
+  const parsed = new Date(dateOnly ? `${raw}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : raw)
+  return Number.isNaN(parsed.getTime()) ? null : parsed
+}
+
+function parseAuditFilters(query: Record<string, unknown>): AuditFilters | null {
+  const from = parseDateParam(query.from)
+  const to = parseDateParam(query.to, true)
+  if (from === null || to === null) return null
+  return {
+    actorId: queryString(query.actorId),
+    action: queryString(query.action),
+    targetType: queryString(query.targetType),
+    targetId: queryString(query.targetId),
+    from,
+    to,
+  }
+}
+
+const adminContext = (req: express.Request): AdminContext => ({
+  actor: { id: req.user!.id, email: req.user!.email },
+  ip: req.ip ?? null,
+})
+
+// Lista usuários (?q=nome/e-mail, role, subscriptionStatus, isActive=true|false, page, pageSize)
+router.get('/users', authenticate, requirePermission('users:manage'), async (req, res) => {
+  try {
+    const role = queryString(req.query.role)?.toUpperCase()
+    if (role && !(PLATFORM_ROLES as readonly string[]).includes(role)) {
+      return res.status(400).json({ error: 'Papel inválido' })
+    }
+    const isActiveRaw = queryString(req.query.isActive)
+    if (isActiveRaw && isActiveRaw !== 'true' && isActiveRaw !== 'false') {
+      return res.status(400).json({ error: 'isActive deve ser true ou false' })
+    }
+
+    const result = await AdminUserService.listUsers(
+      {
+        q: queryString(req.query.q),
+        role,
+        subscriptionStatus: queryString(req.query.subscriptionStatus),
+        isActive: isActiveRaw ? isActiveRaw === 'true' : undefined,
+      },
+      parsePagination(req.query)
+    )
+    res.json(result)
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao listar usuários') })
+  }
+})
+
+router.get('/users/:id', authenticate, requirePermission('users:manage'), async (req, res) => {
+  try {
+    const user = await AdminUserService.getUser(req.params.id)
+    res.json({ user })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar usuário') })
+  }
+})
+
+// Ativa/desativa: ao desativar, as sessões são revogadas e o usuário perde o acesso na próxima requisição
+router.patch(
+  '/users/:id/status',
+  authenticate,
+  requirePermission('users:manage'),
+  validateBody(setUserActiveSchema),
+  async (req, res) => {
+    try {
+      const user = await AdminUserService.setActive(adminContext(req), req.params.id, req.body.isActive)
+      res.json({ user })
+    } catch (error: any) {
+      res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao atualizar usuário') })
+    }
+  }
+)
+
+router.patch(
+  '/users/:id/role',
+  authenticate,
+  requirePermission('users:manage'),
+  validateBody(changeUserRoleSchema),
+  async (req, res) => {
+    try {
+      const user = await AdminUserService.changeRole(adminContext(req), req.params.id, req.body.role)
+      res.json({ user })
+    } catch (error: any) {
+      res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao alterar papel') })
+    }
+  }
+)
+
+router.post(
+  '/users/:id/trial',
+  authenticate,
+  requirePermission('users:manage'),
+  validateBody(resetUserTrialSchema),
+  async (req, res) => {
+    try {
+      const user = await AdminUserService.resetTrial(adminContext(req), req.params.id, req.body.days)
+      res.json({ user })
+    } catch (error: any) {
+      res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao reiniciar período de teste') })
+    }
+  }
+)
+
+router.post('/users/:id/password-reset', authenticate, requirePermission('users:manage'), async (req, res) => {
+  try {
+    const user = await AdminUserService.forcePasswordReset(adminContext(req), req.params.id)
+    res.json({ user, message: 'Link de redefinição enviado; a senha atual foi desativada.' })
+  } catch (error: any) {
+    const code = error?.code
+    if (code === 'PASSWORD_RESET_STORE_UNAVAILABLE' || code === 'PASSWORD_RESET_EMAIL_UNAVAILABLE') {
+      return res.status(503).json({ error: 'Recuperação de senha indisponível no momento. Tente novamente mais tarde.' })
+    }
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao forçar redefinição de senha') })
+  }
+})
+
+// Trilha de auditoria (?actorId, action — "form." filtra pelo prefixo —, targetType, targetId, from, to, page, pageSize)
+router.get('/audit', authenticate, requirePermission('system:manage'), async (req, res) => {
+  try {
+    const filters = parseAuditFilters(req.query)
+    if (!filters) return res.status(400).json({ error: 'Data inválida' })
+    const result = await AuditService.list(filters, parsePagination(req.query, 50, 500))
+    res.json(result)
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao listar auditoria') })
+  }
+})
+
+// Mesmos filtros da listagem, sem paginação (até AUDIT_EXPORT_MAX_ROWS linhas, mais recentes primeiro)
+router.get('/audit/export', authenticate, requirePermission('system:manage'), async (req, res) => {
+  try {
+    const filters = parseAuditFilters(req.query)
+    if (!filters) return res.status(400).json({ error: 'Data inválida' })
+    const csv = await AuditService.exportCsv(filters)
+    const filename = `auditoria_${new Date().toISOString().slice(0, 10)}.csv`
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+    // BOM para o Excel reconhecer UTF-8
+    res.send(`\uFEFF${csv}`)
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao exportar auditoria') })
+  }
+})
+
+// Políticas de retenção por tipo de registro (sem linha gravada valem os padrões)
+router.get('/retention/policies', authenticate, requirePermission('system:manage'), async (_req, res) => {
+  try {
+    const policies = await RetentionService.getPolicies()
+    res.json({ policies })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar políticas de retenção') })
+  }
+})
+
+router.put(
+  '/retention/policies/:recordType',
+  authenticate,
+  requirePermission('system:manage'),
+  validateBody(updateRetentionPolicySchema),
+  async (req, res) => {
+    try {
+      const recordType = String(req.params.recordType).toUpperCase()
+      if (!(RETENTION_RECORD_TYPES as readonly string[]).includes(recordType)) {
+        return res.status(400).json({ error: 'Tipo de registro inválido' })
+      }
+      const policy = await RetentionService.updatePolicy(req.user!.id, recordType as RetentionRecordType, req.body)
+      res.json({ policy })
+    } catch (error: any) {
+      res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao atualizar política de retenção') })
+    }
+  }
+)
+
+// O que a próxima execução do job RETENTION_PURGE vai excluir e por quê (?limit, padrão 10, máx. 50)
+router.get('/retention/preview', authenticate, requirePermission('system:manage'), async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(Number.parseInt(String(req.query.limit ?? ''), 10) || 10, 1), 50)
+    const preview = await RetentionService.preview(limit)
+    res.json(preview)
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao calcular a prévia da retenção') })
+  }
+})
+
+// Preservações legais (?active=false inclui as encerradas)
+router.get('/retention/holds', authenticate, requirePermission('system:manage'), async (req, res) => {
+  try {
+    const holds = await RetentionService.listHolds(queryString(req.query.active) !== 'false')
+    res.json({ holds })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao listar preservações legais') })
+  }
+})
+
+router.post(
+  '/retention/holds',
+  authenticate,
+  requirePermission('system:manage'),
+  validateBody(createLegalHoldSchema),
+  async (req, res) => {
+    try {
+      const hold = await RetentionService.createHold(req.user!.id, req.body)
+      res.status(201).json({ hold })
+    } catch (error: any) {
+      res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao criar preservação legal') })
+    }
+  }
+)
+
+// Encerra a preservação (o registro é mantido para histórico)
+router.delete('/retention/holds/:id', authenticate, requirePermission('system:manage'), async (req, res) => {
+  try {
+    const hold = await RetentionService.releaseHold(req.user!.id, req.params.id)
+    res.json({ hold })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao encerrar preservação legal') })
+  }
+})
+
+export default router
@@ -1,19 +1,26 @@
 import express from 'express'
 import { OAuth2Client } from 'google-auth-library'
 import rateLimit from 'express-rate-limit'
+import { AuditService } from '../services/audit.service'
 import { AuthService } from '../services/auth.service'
+import { AuthSessionService, getRefreshTokenTtlDays } from '../services/authSession.service'
+import { DataSubjectService } from '../services/dataSubject.service'
 import { EmailService } from '../services/email.service'
-import { authenticate, requireAdmin } from '../middleware/auth'
+import { getEffectivePermissions } from '../services/permission.service'
+import { authenticate, requirePermission } from '../middleware/auth'
 import { validateBody } from '../middleware/validate'
 import {
   bootstrapAdminSchema,
+  deleteAccountSchema,
   forgotPasswordSchema,
   googleSchema,
   loginSchema,
+  refreshSchema,
   registerSchema,
   resetPasswordSchema,
 } from '../validators/auth.schemas'
 import prisma from '../config/database'
+import { toPublicErrorMessage } from '../utils/publicError'
 
 const router = express.Router()
 
@@ -33,6 +40,15 @@ const passwordLimiter = rateLimit({
   message: { error: 'Muitas tentativas. Tente novamente mais tarde.' },
 })
 
+// Renovação é frequente (access token curto): limite por IP mais alto que o do login
+const refreshLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 120,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: 'Muitas tentativas. Aguarde alguns minutos e tente novamente.' },
+})
+
 const googleClientId = (process.env.GOOGLE_CLIENT_ID || '').trim()
 const googleClient = googleClientId ? new OAuth2Client(googleClientId) : null
 
@@ -61,7 +77,11 @@ function requireBootstrapToken(req: express.Request, res: express.Response): boo
   return true
 }
 
-function setAuthCookie(res: express.Response, token: string) {
+// Refresh token só trafega nas rotas de auth
+const REFRESH_COOKIE = 'pld_refresh'
+const REFRESH_COOKIE_PATH = '/api/auth'
+
+function setAuthCookie(res: express.Response, token: string, refreshToken: string) {
   const isProd = process.env.NODE_ENV === 'production'
   const sameSite = isProd ? 'none' : 'lax'
   const maxAgeMs = Number.parseInt(process.env.JWT_COOKIE_MAX_AGE_MS || '', 10)
@@ -72,16 +92,20 @@ function setAuthCookie(res: express.Response, token: string) {
     path: '/',
     ...(Number.isFinite(maxAgeMs) && maxAgeMs > 0 ? { maxAge: maxAgeMs } : {}),
   })
+  res.cookie(REFRESH_COOKIE, refreshToken, {
+    httpOnly: true,
+    sameSite,
+    secure: isProd,
+    path: REFRESH_COOKIE_PATH,
+    maxAge: getRefreshTokenTtlDays() * 24 * 60 * 60 * 1000,
+  })
 }
 
 function clearAuthCookie(res: express.Response) {
   const isProd = process.env.NODE_ENV === 'production'
-  res.clearCookie('pld_token', {
-    httpOnly: true,
-    sameSite: isProd ? 'none' : 'lax',
-    secure: isProd,
-    path: '/',
-  })
+  const options = { httpOnly: true, sameSite: isProd ? ('none' as const) : ('lax' as const), secure: isProd }
+  res.clearCookie('pld_token', { ...options, path: '/' })
+  res.clearCookie(REFRESH_COOKIE, { ...options, path: REFRESH_COOKIE_PATH })
 }
 
 router.post('/register', authLimiter, validateBody(registerSchema), async (req, res) => {
@@ -92,13 +116,16 @@ router.post('/register', authLimiter, validateBody(registerSchema), async (req,
       return res.status(400).json({ error: 'Nome, e-mail e senha são obrigatórios' })
     }
 
-    const { user, token } = await AuthService.registerUser(name, email, password, { startTrial: !!startTrial })
+    const { user, token, refreshToken } = await AuthService.registerUser(name, email, password, {
+      startTrial: !!startTrial,
+    })
 
     const { password: _pw, ...safeUser } = user
 
-    setAuthCookie(res, token)
+    setAuthCookie(res, token, refreshToken)
     res.status(201).json({
       token,
+      refreshToken,
       user: safeUser,
     })
   } catch (error: any) {
@@ -121,12 +148,13 @@ router.post('/login', authLimiter, validateBody(loginSchema), async (req, res) =
       return res.status(400).json({ error: 'E-mail e senha são obrigatórios' })
     }
 
-    const { user, token } = await AuthService.login(email, password)
+    const { user, token, refreshToken } = await AuthService.login(email, password)
     const { password: _pw, ...safeUser } = user
 
-    setAuthCookie(res, token)
+    setAuthCookie(res, token, refreshToken)
     res.json({
       token,
+      refreshToken,
       user: safeUser,
     })
   } catch (error: any) {
@@ -147,12 +175,13 @@ router.post('/bootstrap-admin', authLimiter, validateBody(bootstrapAdminSchema),
       return res.status(400).json({ error: 'Nome, e-mail e senha são obrigatórios' })
     }
 
-    const { user, token } = await AuthService.bootstrapAdmin(name, email, password)
+    const { user, token, refreshToken } = await AuthService.bootstrapAdmin(name, email, password)
     const { password: _pw, ...safeUser } = user
 
-    setAuthCookie(res, token)
+    setAuthCookie(res, token, refreshToken)
     res.status(201).json({
       token,
+      refreshToken,
       user: safeUser,
     })
   } catch (error: any) {
@@ -194,7 +223,7 @@ router.post('/forgot-password', passwordLimiter, validateBody(forgotPasswordSche
 })
 
 // Diagnóstico de recuperação de senha (DB + SMTP)
-router.get('/forgot-password/health', authenticate, requireAdmin, async (req, res) => {
+router.get('/forgot-password/health', authenticate, requirePermission('system:manage'), async (req, res) => {
   try {
     let dbOk = false
     let smtpOk = false
@@ -272,7 +301,7 @@ router.post('/google', authLimiter, validateBody(googleSchema), async (req, res)
       return res.status(400).json({ error: 'E-mail do Google não verificado' })
     }
 
-    const { user, token } = await AuthService.loginWithGoogleProfile({
+    const { user, token, refreshToken } = await AuthService.loginWithGoogleProfile({
       email,
       name,
       picture,
@@ -281,9 +310,10 @@ router.post('/google', authLimiter, validateBody(googleSchema), async (req, res)
 
     const { password: _pw, ...safeUser } = user
 
-    setAuthCookie(res, token)
+    setAuthCookie(res, token, refreshToken)
     res.json({
       token,
+      refreshToken,
       user: safeUser,
     })
   } catch (error: any) {
@@ -292,11 +322,78 @@ router.post('/google', authLimiter, validateBody(googleSchema), async (req, res)
   }
 })
 
-router.post('/logout', authenticate, (req, res) => {
+// Novo par de tokens a partir do refresh token (body ou cookie pld_refresh); o token usado deixa de valer
+router.post('/refresh', refreshLimiter, validateBody(refreshSchema), async (req, res) => {
+  try {
+    const presented = req.body?.refreshToken || (req as any).cookies?.[REFRESH_COOKIE]
+    if (!presented || typeof presented !== 'string') {
+      return res.status(401).json({ error: 'Refresh token não fornecido' })
+    }
+
+    const { token, refreshToken } = await AuthSessionService.refresh(presented)
+    setAuthCookie(res, token, refreshToken)
+    return res.json({ token, refreshToken })
+  } catch (error: any) {
+    if (error?.code !== 'SESSION_INVALID') console.error('[AUTH] refresh failed:', error)
+    clearAuthCookie(res)
+    return res.status(401).json({
+      error: error?.code === 'SESSION_INVALID' ? error.message : 'Erro ao renovar sessão',
+      code: 'SESSION_INVALID',
+    })
+  }
+})
+
+// Encerra a sessão atual (o access token e o refresh token dela deixam de valer)
+router.post('/logout', authenticate, async (req, res) => {
+  try {
+    await AuthSessionService.revoke(req.user!.id, req.sessionId!, 'LOGOUT')
+  } catch (error) {
+    console.error('[AUTH] logout failed:', error)
+  }
   clearAuthCookie(res)
   return res.json({ message: 'Logout realizado com sucesso' })
 })
 
+// Sessões ativas do usuário (current = sessão desta requisição)
+router.get('/sessions', authenticate, async (req, res) => {
+  try {
+    const sessions = await AuthSessionService.list(req.user!.id, req.sessionId)
+    return res.json({ sessions })
+  } catch (error: any) {
+    return res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao listar sessões') })
+  }
+})
+
+// Revoga todas as sessões (?keepCurrent=true mantém a sessão desta requisição)
+router.delete('/sessions', authenticate, async (req, res) => {
+  try {
+    const keepCurrent = req.query.keepCurrent === 'true'
+    const revoked = await AuthSessionService.revokeAll(req.user!.id, 'REVOKED_ALL', {
+      exceptSessionId: keepCurrent ? req.sessionId : null,
+    })
+    await AuditService.log({
+      action: 'auth.sessions_revoke_all',
+      targetType: 'User',
+      targetId: req.user!.id,
+      metadata: { revoked, keepCurrent },
+    })
+    if (!keepCurrent) clearAuthCookie(res)
+    return res.json({ revoked })
+  } catch (error: any) {
+    return res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao revogar sessões') })
+  }
+})
+
+router.delete('/sessions/:id', authenticate, async (req, res) => {
+  try {
+    await AuthSessionService.revoke(req.user!.id, req.params.id)
+    if (req.params.id === req.sessionId) clearAuthCookie(res)
+    return res.json({ message: 'Sessão revogada' })
+  } catch (error: any) {
+    return res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao revogar sessão') })
+  }
+})
+
 // Exemplo de rota protegida para verificar sessão
 router.get('/me', authenticate, (req, res) => {
   if (!req.user) {
@@ -304,7 +401,8 @@ router.get('/me', authenticate, (req, res) => {
   }
 
   const { password: _pw, ...safeUser } = req.user
-  return res.json({ user: safeUser })
+  // Permissões efetivas na organização ativa (papel na plataforma + papel na organização)
+  return res.json({ user: safeUser, permissions: getEffectivePermissions(req.user) })
 })
 
 router.patch('/me', authenticate, async (req, res) => {
@@ -337,8 +435,33 @@ router.patch('/me', authenticate, async (req, res) => {
   }
 })
 
+// LGPD: ZIP com os dados pessoais do usuário (perfil, formulários atribuídos, respostas, arquivos, auditoria)
+router.get('/me/export', passwordLimiter, authenticate, async (req, res) => {
+  try {
+    const { buffer, filename } = await DataSubjectService.exportPersonalData(req.user!.id)
+    res.setHeader('Content-Type', 'application/zip')
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+    return res.send(buffer)
+  } catch (error) {
+    console.error('[AUTH] export /me failed:', error)
+    return res.status(500).json({ error: 'Erro ao exportar dados pessoais' })
+  }
+})
+
+// LGPD: exclusão da conta pelo titular (anonimiza o usuário; ver DataSubjectService.anonymizeAccount)
+router.delete('/me', passwordLimiter, authenticate, validateBody(deleteAccountSchema), async (req, res) => {
+  try {
+    await DataSubjectService.anonymizeAccount(req.user!.id, req.body.confirmEmail)
+    clearAuthCookie(res)
+    return res.json({ message: 'Conta excluída. Seus dados pessoais foram anonimizados.' })
+  } catch (error: any) {
+    console.error('[AUTH] delete /me failed:', error)
+    return res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao excluir conta') })
+  }
+})
+
 // Exemplo de rota apenas para admin
-router.get('/admin-only', authenticate, requireAdmin, (req, res) => {
+router.get('/admin-only', authenticate, requirePermission('system:manage'), (req, res) => {
   return res.json({ message: 'Acesso permitido para ADMIN' })
 })
 
@@ -1,10 +1,11 @@
 import express from 'express'
 import path from 'path'
 import { FormService } from '../services/form.services'
+import { hasPermission } from '../services/permission.service'
 import { upload, uploadMultiple } from '../config/upload'
 import fs from 'fs'
 import prisma from '../config/database'
-import { authenticate, requireAdmin } from '../middleware/auth'
+import { authenticate, requirePermission } from '../middleware/auth'
 import { validateBody } from '../middleware/validate'
 import { getUploadsRoot, resolveFromUploads, stripUploadsPrefix } from '../config/paths'
 import { getStorageProvider, uploadFileToStorage, createSignedUrlForStoredPath } from '../config/storage'
@@ -19,7 +20,7 @@ import {
 const router = express.Router()
 
 // =========== TÓPICOS ===========
-router.post('/topics', authenticate, requireAdmin, validateBody(createTopicSchema), async (req, res) => {
+router.post('/topics', authenticate, requirePermission('topics:manage'), validateBody(createTopicSchema), async (req, res) => {
   try {
     const { name, description, internalNorm } = req.body
     const userId = req.user!.id
@@ -33,8 +34,7 @@ router.post('/topics', authenticate, requireAdmin, validateBody(createTopicSchem
 router.get('/topics', authenticate, async (req, res) => {
   try {
     const userId = req.user!.id
-    const role = req.user!.role
-    const topics = await FormService.getTopics(userId, role)
+    const topics = await FormService.getTopics(userId, hasPermission(req.user!, 'topics:manage'))
     res.json({ topics })
   } catch (error: any) {
     res.status(500).json({ error: error.message })
@@ -107,7 +107,7 @@ router.post('/topics/:id/norm', authenticate, upload.single('file'), async (req,
 })
 
 // ADMIN: listar tópicos de um usuário específico para revisão
-router.get('/topics/for-user/:id', authenticate, requireAdmin, async (req, res) => {
+router.get('/topics/for-user/:id', authenticate, requirePermission('topics:manage'), async (req, res) => {
   try {
     const { id } = req.params
     const topics = await FormService.getTopicsByAssignee(id)
@@ -117,7 +117,7 @@ router.get('/topics/for-user/:id', authenticate, requireAdmin, async (req, res)
   }
 })
 
-router.patch('/topics/reorder', authenticate, requireAdmin, async (req, res) => {
+router.patch('/topics/reorder', authenticate, requirePermission('topics:manage'), async (req, res) => {
   try {
     const { topicIds } = req.body
     await FormService.reorderTopics(topicIds)
@@ -128,7 +128,7 @@ router.patch('/topics/reorder', authenticate, requireAdmin, async (req, res) =>
 })
 
 // Deletar tópico
-router.delete('/topics/:id', authenticate, requireAdmin, async (req, res) => {
+router.delete('/topics/:id', authenticate, requirePermission('topics:manage'), async (req, res) => {
   try {
     const { id } = req.params
     await FormService.deleteTopic(id)
@@ -139,7 +139,7 @@ router.delete('/topics/:id', authenticate, requireAdmin, async (req, res) => {
 })
 
 // Atribuir tópico a um usuário (ADMIN)
-router.post('/topics/:id/assign', authenticate, requireAdmin, async (req, res) => {
+router.post('/topics/:id/assign', authenticate, requirePermission('topics:manage'), async (req, res) => {
   try {
     const { id } = req.params
     const { email } = req.body
@@ -153,7 +153,7 @@ router.post('/topics/:id/assign', authenticate, requireAdmin, async (req, res) =
 })
 
 // Atribuir TODOS os tópicos criados pelo admin a um usuário (ADMIN)
-router.post('/topics/assign-all', authenticate, requireAdmin, async (req, res) => {
+router.post('/topics/assign-all', authenticate, requirePermission('topics:manage'), async (req, res) => {
   try {
     const { email } = req.body
     const adminId = req.user!.id
@@ -166,7 +166,7 @@ router.post('/topics/assign-all', authenticate, requireAdmin, async (req, res) =
 })
 
 // ADMIN: limpar arquivos da pasta uploads (exceto relatórios)
-router.delete('/uploads/clean', authenticate, requireAdmin, async (_req, res) => {
+router.delete('/uploads/clean', authenticate, requirePermission('system:manage'), async (_req, res) => {
   try {
     const uploadsDir = getUploadsRoot()
     if (!fs.existsSync(uploadsDir)) {
@@ -189,7 +189,7 @@ router.delete('/uploads/clean', authenticate, requireAdmin, async (_req, res) =>
 })
 
 // =========== PERGUNTAS ===========
-router.post('/questions', authenticate, requireAdmin, validateBody(createFormQuestionSchema), async (req, res) => {
+router.post('/questions', authenticate, requirePermission('topics:manage'), validateBody(createFormQuestionSchema), async (req, res) => {
   try {
     const { topicId, title, description, criticality, capitulation } = req.body
     const question = await FormService.createQuestion(topicId, title, description, criticality, capitulation)
@@ -200,7 +200,7 @@ router.post('/questions', authenticate, requireAdmin, validateBody(createFormQue
 })
 
 // ADMIN: anexar arquivo-modelo (em branco) para o usuário preencher
-router.post('/questions/:id/template', authenticate, requireAdmin, upload.single('file'), async (req, res) => {
+router.post('/questions/:id/template', authenticate, requirePermission('topics:manage'), upload.single('file'), async (req, res) => {
   try {
     const { id } = req.params
 
@@ -304,15 +304,15 @@ router.patch('/questions/:id/applicable', authenticate, async (req, res) => {
     const { id } = req.params
     const { isApplicable } = req.body
     const actorId = req.user!.id
-    const role = req.user!.role
-    const question = await FormService.toggleQuestionApplicable(id, isApplicable, actorId, role)
+    const canManageTopics = hasPermission(req.user!, 'topics:manage')
+    const question = await FormService.toggleQuestionApplicable(id, isApplicable, actorId, canManageTopics)
     res.json({ question })
   } catch (error: any) {
     res.status(400).json({ error: error.message })
   }
 })
 
-router.patch('/questions/reorder', authenticate, requireAdmin, async (req, res) => {
+router.patch('/questions/reorder', authenticate, requirePermission('topics:manage'), async (req, res) => {
   try {
     const { topicId, questionIds } = req.body
     await FormService.reorderQuestions(topicId, questionIds)
@@ -322,7 +322,7 @@ router.patch('/questions/reorder', authenticate, requireAdmin, async (req, res)
   }
 })
 // Deletar pergunta
-router.delete('/questions/:id', authenticate, requireAdmin, async (req, res) => {
+router.delete('/questions/:id', authenticate, requirePermission('topics:manage'), async (req, res) => {
   try {
     const { id } = req.params;
     await FormService.deleteQuestion(id);
@@ -333,7 +333,7 @@ router.delete('/questions/:id', authenticate, requireAdmin, async (req, res) =>
 });
 
 // Atualizar pergunta
-router.put('/questions/:id', authenticate, requireAdmin, validateBody(updateFormQuestionSchema), async (req, res) => {
+router.put('/questions/:id', authenticate, requirePermission('topics:manage'), validateBody(updateFormQuestionSchema), async (req, res) => {
   try {
     const { id } = req.params;
     const data = req.body;
@@ -457,7 +457,7 @@ router.post('/answers', authenticate, validateBody(answerQuestionSchema), async
 })
 
 // ADMIN: atualizar resposta de um usuário específico durante a revisão
-router.post('/admin/answers', authenticate, requireAdmin, validateBody(adminUpdateAnswerSchema), async (req, res) => {
+router.post('/admin/answers', authenticate, requirePermission('topics:manage'), validateBody(adminUpdateAnswerSchema), async (req, res) => {
   try {
     const { questionId, assigneeId, response, justification, deficiency, recommendation, testOption, testDescription, correctiveActionPlan } = req.body
     const answer = await FormService.adminUpdateAnswer(
@@ -501,7 +501,7 @@ router.post('/topics/submit-all', authenticate, async (req, res) => {
 })
 
 // ADMIN: devolver tópico para usuário ajustar
-router.post('/topics/:id/return', authenticate, requireAdmin, async (req, res) => {
+router.post('/topics/:id/return', authenticate, requirePermission('topics:manage'), async (req, res) => {
   try {
     const { id } = req.params
     const adminId = req.user!.id
@@ -513,7 +513,7 @@ router.post('/topics/:id/return', authenticate, requireAdmin, async (req, res) =
 })
 
 // ADMIN: devolver TODOS os tópicos enviados de um usuário para ajustes
-router.post('/topics/return-all/:assigneeId', authenticate, requireAdmin, async (req, res) => {
+router.post('/topics/return-all/:assigneeId', authenticate, requirePermission('topics:manage'), async (req, res) => {
   try {
     const { assigneeId } = req.params
     const adminId = req.user!.id
@@ -525,7 +525,7 @@ router.post('/topics/return-all/:assigneeId', authenticate, requireAdmin, async
 })
 
 // ADMIN: aprovar/concluir tópico
-router.post('/topics/:id/approve', authenticate, requireAdmin, async (req, res) => {
+router.post('/topics/:id/approve', authenticate, requirePermission('topics:manage'), async (req, res) => {
   try {
     const { id } = req.params
     const adminId = req.user!.id
@@ -0,0 +1,91 @@
+import express from 'express'
+import { authenticate } from '../middleware/auth'
+import { validateBody } from '../middleware/validate'
+import { OrganizationService } from '../services/organization.service'
+import { toPublicErrorMessage } from '../utils/publicError'
+import {
+  addOrganizationMemberSchema,
+  createOrganizationSchema,
+  updateOrganizationMemberSchema,
+  updateOrganizationSchema,
+} from '../validators/organization.schemas'
+
+const router = express.Router()
+
+// Organizações do usuário (com o papel em cada uma) e a ativa nesta requisição
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const organizations = await OrganizationService.listForUser(req.user!.id)
+    res.json({ organizations, activeOrganizationId: req.user!.organization?.id ?? null })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao listar organizações') })
+  }
+})
+
+// Cria a organização própria do usuário (uma por usuário; idempotente)
+router.post('/', authenticate, validateBody(createOrganizationSchema), async (req, res) => {
+  try {
+    const { name } = req.body as { name?: string }
+    const organization = await OrganizationService.ensurePersonalOrganization({
+      id: req.user!.id,
+      name: name?.trim() || req.user!.name,
+    })
+    res.status(201).json({ organization })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao criar organização') })
+  }
+})
+
+router.get('/:id', authenticate, async (req, res) => {
+  try {
+    const organization = await OrganizationService.getOrganization(req.user!.id, req.params.id)
+    res.json({ organization })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar organização') })
+  }
+})
+
+router.patch('/:id', authenticate, validateBody(updateOrganizationSchema), async (req, res) => {
+  try {
+    const organization = await OrganizationService.rename(req.user!.id, req.params.id, req.body.name)
+    res.json({ organization })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao atualizar organização') })
+  }
+})
+
+// OWNER: adiciona um usuário cadastrado (pelo e-mail) como EDITOR, REVIEWER ou RESPONDENT
+router.post('/:id/members', authenticate, validateBody(addOrganizationMemberSchema), async (req, res) => {
+  try {
+    const member = await OrganizationService.addMember(req.user!.id, req.params.id, req.body)
+    res.status(201).json({ member })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao adicionar membro') })
+  }
+})
+
+router.patch('/:id/members/:memberId', authenticate, validateBody(updateOrganizationMemberSchema), async (req, res) => {
+  try {
+    const member = await OrganizationService.updateMemberRole(
+      req.user!.id,
+      req.params.id,
+      req.params.memberId,
+      req.body.role
+    )
+    res.json({ member })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao atualizar membro') })
+  }
+})
+
+// OWNER remove membros; os demais podem sair da organização removendo a si mesmos
+router.delete('/:id/members/:memberId', authenticate, async (req, res) => {
+  try {
+    await OrganizationService.removeMember(req.user!.id, req.params.id, req.params.memberId)
+    res.json({ success: true })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao remover membro') })
+  }
+})
+
+export default router
@@ -1,22 +1,70 @@
 import express from 'express'
-import { authenticate, requireAdmin, requireBuilderAccess } from '../middleware/auth'
+import fs from 'fs'
+import { authenticate, requirePermission } from '../middleware/auth'
 import { validateBody } from '../middleware/validate'
 import { upload } from '../config/upload'
-import { PldBuilderService, ATTACHMENT_CATEGORIES, type AttachmentCategory } from '../services/pldBuilder.service'
+import {
+  PldBuilderService,
+  ATTACHMENT_CATEGORIES,
+  FORM_REVISION_CONFLICT,
+  type AttachmentCategory,
+  type FormSectionAssignment,
+} from '../services/pldBuilder.service'
+import { FormTrashService } from '../services/formTrash.service'
+import { PldSpreadsheetImportService } from '../services/pldSpreadsheetImport.service'
+import { tenantOwnerIdOf } from '../services/organization.service'
+import { PldTemplateService } from '../services/pldTemplate.service'
+import { ReportRevisionService } from '../services/reportRevision.service'
+import { ReportService } from '../services/reportServices'
+import { ScoringRuleService } from '../services/scoringRules.service'
+import { parseExpectedRevision, revisionEtag } from '../utils/formRevision'
 import { toPublicErrorMessage } from '../utils/publicError'
 import {
+  createFormFromTemplateSchema,
   createPldQuestionSchema,
   createPldSectionSchema,
+  importPldBuilderSchema,
+  importPldSpreadsheetSchema,
+  loadPldTemplateSchema,
+  returnPldFormSchema,
+  savePldTemplateSchema,
   updatePldQuestionSchema,
   updatePldSectionSchema,
+  updateScoringRulesSchema,
   uploadPldAttachmentSchema,
   uploadPldNormaSchema,
 } from '../validators/pldBuilder.schemas'
 
 const router = express.Router()
 
+function parseVersionParam(raw: unknown): number | null {
+  if (typeof raw !== 'string' || !raw.trim()) return null
+  const parsed = Number.parseInt(raw, 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+// Revisão esperada do formulário: header If-Match ou campo `revision` do body (src/utils/formRevision.ts)
+const expectedRevisionOf = (req: express.Request) => parseExpectedRevision(req.get('if-match'), req.body?.revision)
+
+function setRevisionHeader(res: express.Response, revision: number) {
+  res.set('ETag', revisionEtag(revision))
+}
+
+async function sendRevisionConflict(res: express.Response, formId: string, userEmail: string, error: any) {
+  let current = null
+  try {
+    current = await PldBuilderService.getUserForm(formId, userEmail)
+    setRevisionHeader(res, current.revision)
+  } catch {
+    // formulário pode ter sido removido/concluído entre as requisições
+  }
+  return res.status(409).json({ error: error.message, code: FORM_REVISION_CONFLICT, current })
+}
+
+const REVISION_REQUIRED_MESSAGE = 'Informe a revisão do formulário (header If-Match ou campo revision)'
+
 // Listar seções com perguntas/arquivos
-router.get('/sections', authenticate, requireBuilderAccess, async (req, res) => {
+router.get('/sections', authenticate, requirePermission('builder:read'), async (req, res) => {
   try {
     const data = await PldBuilderService.listSections(req.user!)
     res.json({ sections: data })
@@ -25,15 +73,16 @@ router.get('/sections', authenticate, requireBuilderAccess, async (req, res) =>
   }
 })
 
-router.post('/sections', authenticate, requireBuilderAccess, validateBody(createPldSectionSchema), async (req, res) => {
+router.post('/sections', authenticate, requirePermission('builder:write'), validateBody(createPldSectionSchema), async (req, res) => {
   try {
-    const { item, customLabel, hasNorma, normaReferencia, descricao } = req.body
+    const { item, customLabel, hasNorma, normaReferencia, descricao, controlArea } = req.body
     const section = await PldBuilderService.createSection(req.user!, {
       item,
       customLabel,
       hasNorma: !!hasNorma,
       normaReferencia,
       descricao,
+      controlArea,
     })
     res.status(201).json({ section })
   } catch (error: any) {
@@ -41,7 +90,7 @@ router.post('/sections', authenticate, requireBuilderAccess, validateBody(create
   }
 })
 
-router.patch('/sections/:id', authenticate, requireBuilderAccess, validateBody(updatePldSectionSchema), async (req, res) => {
+router.patch('/sections/:id', authenticate, requirePermission('builder:write'), validateBody(updatePldSectionSchema), async (req, res) => {
   try {
     const { id } = req.params
     const section = await PldBuilderService.updateSection(req.user!, id, req.body)
@@ -51,7 +100,7 @@ router.patch('/sections/:id', authenticate, requireBuilderAccess, validateBody(u
   }
 })
 
-router.post('/sections/reorder', authenticate, requireBuilderAccess, async (req, res) => {
+router.post('/sections/reorder', authenticate, requirePermission('builder:write'), async (req, res) => {
   try {
     const { sectionIds } = req.body as { sectionIds: string[] }
     await PldBuilderService.reorderSections(req.user!, sectionIds)
@@ -61,7 +110,7 @@ router.post('/sections/reorder', authenticate, requireBuilderAccess, async (req,
   }
 })
 
-router.delete('/sections/:id', authenticate, requireBuilderAccess, async (req, res) => {
+router.delete('/sections/:id', authenticate, requirePermission('builder:write'), async (req, res) => {
   try {
     const { id } = req.params
     await PldBuilderService.deleteSection(req.user!, id)
@@ -75,7 +124,7 @@ router.delete('/sections/:id', authenticate, requireBuilderAccess, async (req, r
 router.post(
   '/sections/:id/norma',
   authenticate,
-  requireBuilderAccess,
+  requirePermission('builder:write'),
   upload.single('file'),
   validateBody(uploadPldNormaSchema),
   async (req, res) => {
@@ -104,7 +153,7 @@ router.post(
 })
 
 // Perguntas
-router.post('/questions', authenticate, requireBuilderAccess, validateBody(createPldQuestionSchema), async (req, res) => {
+router.post('/questions', authenticate, requirePermission('builder:write'), validateBody(createPldQuestionSchema), async (req, res) => {
   try {
     const { sectionId, texto } = req.body
     const question = await PldBuilderService.createQuestion(req.user!, sectionId, texto || '')
@@ -114,7 +163,7 @@ router.post('/questions', authenticate, requireBuilderAccess, validateBody(creat
   }
 })
 
-router.patch('/questions/:id', authenticate, requireBuilderAccess, validateBody(updatePldQuestionSchema), async (req, res) => {
+router.patch('/questions/:id', authenticate, requirePermission('builder:write'), validateBody(updatePldQuestionSchema), async (req, res) => {
   try {
     const { id } = req.params
     const question = await PldBuilderService.updateQuestion(req.user!, id, req.body)
@@ -124,7 +173,7 @@ router.patch('/questions/:id', authenticate, requireBuilderAccess, validateBody(
   }
 })
 
-router.post('/questions/reorder', authenticate, requireBuilderAccess, async (req, res) => {
+router.post('/questions/reorder', authenticate, requirePermission('builder:write'), async (req, res) => {
   try {
     const { sectionId, questionIds } = req.body as { sectionId: string; questionIds: string[] }
     await PldBuilderService.reorderQuestions(req.user!, sectionId, questionIds)
@@ -134,7 +183,7 @@ router.post('/questions/reorder', authenticate, requireBuilderAccess, async (req
   }
 })
 
-router.delete('/questions/:id', authenticate, requireBuilderAccess, async (req, res) => {
+router.delete('/questions/:id', authenticate, requirePermission('builder:write'), async (req, res) => {
   try {
     const { id } = req.params
     await PldBuilderService.deleteQuestion(req.user!, id)
@@ -148,7 +197,7 @@ router.delete('/questions/:id', authenticate, requireBuilderAccess, async (req,
 router.post(
   '/questions/:id/upload',
   authenticate,
-  requireBuilderAccess,
+  requirePermission('builder:write'),
   upload.single('file'),
   validateBody(uploadPldAttachmentSchema),
   async (req, res) => {
@@ -174,7 +223,7 @@ router.post(
   }
 })
 
-router.delete('/attachments/:id', authenticate, requireBuilderAccess, async (req, res) => {
+router.delete('/attachments/:id', authenticate, requirePermission('builder:write'), async (req, res) => {
   try {
     const { id } = req.params
     await PldBuilderService.deleteAttachment(req.user!, id)
@@ -185,7 +234,7 @@ router.delete('/attachments/:id', authenticate, requireBuilderAccess, async (req
 })
 
 // BUILDER: iniciar novo formulário (apenas limpa o builder, sem salvar)
-router.post('/reset', authenticate, requireBuilderAccess, async (req, res) => {
+router.post('/reset', authenticate, requirePermission('builder:write'), async (req, res) => {
   try {
     await PldBuilderService.concludeBuilder(req.user!)
     res.json({ message: 'Builder limpo com sucesso' })
@@ -195,7 +244,7 @@ router.post('/reset', authenticate, requireBuilderAccess, async (req, res) => {
 })
 
 // Concluir relatório: limpa o builder para iniciar um novo
-router.post('/conclude', authenticate, requireBuilderAccess, async (req, res) => {
+router.post('/conclude', authenticate, requirePermission('builder:write'), async (req, res) => {
   try {
     const { name, sentToEmail, helpTexts, metadata } = req.body as {
       name?: string
@@ -214,7 +263,7 @@ router.post('/conclude', authenticate, requireBuilderAccess, async (req, res) =>
       sentToEmail: sentToEmail ?? null,
       helpTexts: helpTexts ?? null,
       metadata: metadata ?? null,
-      createdById: req.user!.id,
+      actor: req.user!,
     })
 
     res.json({ message: 'Builder concluído, salvo e limpo com sucesso', form: { id: saved.id } })
@@ -223,8 +272,153 @@ router.post('/conclude', authenticate, requireBuilderAccess, async (req, res) =>
   }
 })
 
+// Exporta a árvore do builder como documento JSON versionado (sem respostas; anexos só metadados)
+router.get('/export', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const document = await PldBuilderService.exportBuilder(req.user!)
+    const filename = `pld-builder-${new Date().toISOString().slice(0, 10)}.json`
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+    res.json(document)
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao exportar builder') })
+  }
+})
+
+// Importa um documento exportado para o escopo do usuário (merge ou replace)
+router.post('/import', authenticate, requirePermission('builder:write'), validateBody(importPldBuilderSchema), async (req, res) => {
+  try {
+    const { mode, document } = req.body as { mode: 'replace' | 'merge'; document: { sections: any[] } }
+    const result = await PldBuilderService.importTree(req.user!, document.sections, mode)
+    res.json({ message: 'Builder importado com sucesso', ...result })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao importar builder') })
+  }
+})
+
+// Importa banco de perguntas de planilha XLSX/CSV (colunas: item, texto, capitulacao, criticidade, descricao)
+// dryRun=true apenas valida e devolve a prévia com erros por linha
+router.post(
+  '/import/spreadsheet',
+  authenticate,
+  requirePermission('builder:write'),
+  upload.single('file'),
+  validateBody(importPldSpreadsheetSchema),
+  async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'Arquivo é obrigatório' })
+      }
+
+      const { dryRun, mode } = req.body as { dryRun: boolean; mode: 'append' | 'replace' | 'merge' }
+      const result = await PldSpreadsheetImportService.importFile(req.user!, req.file, { dryRun, mode })
+
+      if (!dryRun && !result.imported) {
+        return res.status(400).json({ error: 'A planilha contém erros. Nenhuma pergunta foi importada.', ...result })
+      }
+      res.json(result)
+    } catch (error: any) {
+      res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao importar planilha') })
+    }
+  }
+)
+
+// TEMPLATES: biblioteca de questionários reutilizáveis
+router.get('/templates', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const templates = await PldTemplateService.listTemplates(req.user!)
+    res.json({ templates })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao listar templates') })
+  }
+})
+
+// Salva a árvore atual do builder como template (mesmo nome => nova versão)
+router.post('/templates', authenticate, requirePermission('builder:write'), validateBody(savePldTemplateSchema), async (req, res) => {
+  try {
+    const { name, description } = req.body as { name: string; description?: string | null }
+    const template = await PldTemplateService.saveFromBuilder(req.user!, { name, description })
+    res.status(201).json({ template })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao salvar template') })
+  }
+})
+
+router.get('/templates/:id', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const template = await PldTemplateService.getTemplate(req.user!, req.params.id)
+    res.json({ template })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar template') })
+  }
+})
+
+// Carrega o template no builder (replace limpa o builder antes; append adiciona ao final)
+router.post('/templates/:id/load', authenticate, requirePermission('builder:write'), validateBody(loadPldTemplateSchema), async (req, res) => {
+  try {
+    const { mode } = req.body as { mode: 'replace' | 'append' }
+    const sections = await PldTemplateService.loadIntoBuilder(req.user!, req.params.id, mode)
+    res.json({ sections })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar template no builder') })
+  }
+})
+
+// Cria um formulário (BUILDER_FORM) diretamente a partir do template, sem alterar o builder
+router.post(
+  '/templates/:id/forms',
+  authenticate,
+  requirePermission('builder:write'),
+  validateBody(createFormFromTemplateSchema),
+  async (req, res) => {
+    try {
+      const { name, sentToEmail, helpTexts, metadata } = req.body
+      const form = await PldTemplateService.createForm(req.user!, req.params.id, { name, sentToEmail, helpTexts, metadata })
+      res.status(201).json({ form: { id: form.id, name: form.name } })
+    } catch (error: any) {
+      res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao criar formulário a partir do template') })
+    }
+  }
+)
+
+router.delete('/templates/:id', authenticate, requirePermission('builder:write'), async (req, res) => {
+  try {
+    await PldTemplateService.deleteTemplate(req.user!, req.params.id)
+    res.json({ message: 'Template removido' })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao remover template') })
+  }
+})
+
+// Regras de efetividade do tenant (áreas de controle, pesos por criticidade e limites)
+router.get('/scoring-rules', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const rules = await ScoringRuleService.getRulesView(tenantOwnerIdOf(req.user!))
+    res.json({ rules })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar regras de efetividade') })
+  }
+})
+
+router.put('/scoring-rules', authenticate, requirePermission('settings:manage'), validateBody(updateScoringRulesSchema), async (req, res) => {
+  try {
+    const rules = await ScoringRuleService.updateRules(tenantOwnerIdOf(req.user!), req.body)
+    res.json({ rules })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao salvar regras de efetividade') })
+  }
+})
+
+router.delete('/scoring-rules', authenticate, requirePermission('settings:manage'), async (req, res) => {
+  try {
+    const rules = await ScoringRuleService.resetRules(tenantOwnerIdOf(req.user!))
+    res.json({ rules })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao restaurar regras de efetividade') })
+  }
+})
+
 // BUILDER: listar formulários concluídos (salvos ao concluir)
-router.get('/forms', authenticate, requireBuilderAccess, async (req, res) => {
+router.get('/forms', authenticate, requirePermission('builder:read'), async (req, res) => {
   try {
     const forms = await PldBuilderService.listConcludedForms(req.user!)
     res.json({ forms })
@@ -247,8 +441,8 @@ router.get('/my-forms', authenticate, async (req, res) => {
   }
 })
 
-// BUILDER: deletar formulário
-router.delete('/forms/:id', authenticate, requireBuilderAccess, async (req, res) => {
+// BUILDER: deletar formulário (vai para a lixeira)
+router.delete('/forms/:id', authenticate, requirePermission('builder:write'), async (req, res) => {
   try {
     const { id } = req.params
     await PldBuilderService.deleteForm(id, req.user!)
@@ -258,8 +452,37 @@ router.delete('/forms/:id', authenticate, requireBuilderAccess, async (req, res)
   }
 })
 
+// BUILDER: lixeira (formulários deletados; excluídos definitivamente após TRASH_RETENTION_DAYS)
+router.get('/trash', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const forms = await FormTrashService.listOwnerTrash(req.user!)
+    res.json({ forms })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao listar lixeira') })
+  }
+})
+
+router.post('/trash/:id/restore', authenticate, requirePermission('builder:write'), async (req, res) => {
+  try {
+    const result = await FormTrashService.restoreForOwner(req.params.id, req.user!)
+    res.json(result)
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao restaurar formulário') })
+  }
+})
+
+// BUILDER: exclusão definitiva (formulário, relatórios gerados e arquivos)
+router.delete('/trash/:id', authenticate, requirePermission('builder:write'), async (req, res) => {
+  try {
+    const result = await FormTrashService.purgeForOwner(req.params.id, req.user!)
+    res.json(result)
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao excluir formulário') })
+  }
+})
+
 // BUILDER: ver um formulário concluído completo
-router.get('/forms/:id', authenticate, requireBuilderAccess, async (req, res) => {
+router.get('/forms/:id', authenticate, requirePermission('builder:read'), async (req, res) => {
   try {
     const { id } = req.params
     const form = await PldBuilderService.getConcludedFormById(id, req.user!)
@@ -271,36 +494,120 @@ router.get('/forms/:id', authenticate, requireBuilderAccess, async (req, res) =>
 })
 
 // ADMIN: Enviar formulário para usuário
-router.post('/forms/:id/send', authenticate, requireBuilderAccess, async (req, res) => {
+router.post('/forms/:id/send', authenticate, requirePermission('forms:send'), async (req, res) => {
   try {
     const { id } = req.params
-    const { email, helpTexts } = req.body as {
-      email: string
+    const { email, helpTexts, assignments } = req.body as {
+      email?: string
       helpTexts?: {
         qualificacao?: string
         metodologia?: string
         recomendacoes?: string
         planoAcao?: string
       } | null
+      // Divisão por seções: [{ email, sectionIds }] (substitui `email`)
+      assignments?: FormSectionAssignment[] | null
     }
-    
-    if (!email) {
+
+    const isSplit = Array.isArray(assignments) && assignments.length > 0
+    if (!email && !isSplit) {
       return res.status(400).json({ error: 'E-mail é obrigatório' })
     }
 
-    await PldBuilderService.sendFormToUser(id, email, req.user!, helpTexts ?? null)
+    await PldBuilderService.sendFormToUser(id, email ?? null, req.user!, helpTexts ?? null, isSplit ? assignments : null)
     res.json({ message: 'Formulário enviado com sucesso' })
   } catch (error: any) {
     res.status(400).json({ error: error.message })
   }
 })
 
+// BUILDER: aprovar formulário concluído pelo usuário
+router.post('/forms/:id/approve', authenticate, requirePermission('forms:review'), async (req, res) => {
+  try {
+    const { id } = req.params
+    await PldBuilderService.approveForm(id, req.user!)
+    res.json({ message: 'Formulário aprovado com sucesso' })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao aprovar formulário') })
+  }
+})
+
+// BUILDER: devolver formulário ao usuário com observações por questão
+router.post('/forms/:id/return', authenticate, requirePermission('forms:review'), validateBody(returnPldFormSchema), async (req, res) => {
+  try {
+    const { id } = req.params
+    const { comment, notes } = req.body as { comment?: string | null; notes?: Array<{ questionId: string; note: string }> }
+    await PldBuilderService.returnForm(id, req.user!, { comment, notes })
+    res.json({ message: 'Formulário devolvido ao usuário' })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao devolver formulário') })
+  }
+})
+
+// Resultado de efetividade do formulário com as perguntas que o determinaram
+router.get('/forms/:id/score', authenticate, async (req, res) => {
+  try {
+    const score = await ReportService.scorePldForm(req.params.id, {
+      requesterId: req.user!.id,
+      requesterRole: req.user!.role,
+      requesterEmail: req.user!.email,
+    })
+    res.json({ score })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao calcular efetividade') })
+  }
+})
+
+// BUILDER: histórico de revisões do conteúdo do formulário
+router.get('/forms/:id/revisions', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const { id } = req.params
+    await PldBuilderService.getOwnedForm(id, req.user!)
+    const revisions = await ReportRevisionService.listRevisions(id)
+    res.json({ revisions })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao listar revisões') })
+  }
+})
+
+// BUILDER: diff campo a campo entre duas revisões (?from=&to=)
+router.get('/forms/:id/revisions/diff', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const { id } = req.params
+    await PldBuilderService.getOwnedForm(id, req.user!)
+    const result = await ReportRevisionService.diffRevisions(
+      id,
+      parseVersionParam(req.query.from),
+      parseVersionParam(req.query.to)
+    )
+    res.json(result)
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao comparar revisões') })
+  }
+})
+
+// BUILDER: conteúdo completo de uma revisão
+router.get('/forms/:id/revisions/:version', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const { id } = req.params
+    const version = parseVersionParam(req.params.version)
+    if (!version) {
+      return res.status(400).json({ error: 'Versão inválida' })
+    }
+    await PldBuilderService.getOwnedForm(id, req.user!)
+    const revision = await ReportRevisionService.getRevision(id, version)
+    res.json({ revision })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar revisão') })
+  }
+})
 
 // USER: Obter formulário atribuído
 router.get('/forms/:id/user', authenticate, async (req, res) => {
   try {
     const { id } = req.params
     const form = await PldBuilderService.getUserForm(id, req.user!.email)
+    setRevisionHeader(res, form.revision)
     res.json({ form })
   } catch (error: any) {
     res.status(400).json({ error: error.message })
@@ -312,9 +619,24 @@ router.post('/forms/:id/responses', authenticate, async (req, res) => {
   try {
     const { id } = req.params
     const { answers, sections, metadata } = req.body as { answers: any[]; sections?: any[]; metadata?: any }
-    await PldBuilderService.saveUserFormResponses(id, req.user!.email, answers, sections, metadata)
-    res.json({ message: 'Respostas salvas com sucesso' })
+    const expectedRevision = expectedRevisionOf(req)
+    if (expectedRevision === null) {
+      return res.status(428).json({ error: REVISION_REQUIRED_MESSAGE, code: 'REVISION_REQUIRED' })
+    }
+    const result = await PldBuilderService.saveUserFormResponses(
+      id,
+      req.user!.email,
+      answers,
+      sections,
+      metadata,
+      expectedRevision
+    )
+    setRevisionHeader(res, result.revision)
+    res.json({ message: 'Respostas salvas com sucesso', revision: result.revision })
   } catch (error: any) {
+    if (error?.code === FORM_REVISION_CONFLICT) {
+      return sendRevisionConflict(res, req.params.id, req.user!.email, error)
+    }
     res.status(400).json({ error: error.message })
   }
 })
@@ -324,14 +646,18 @@ router.post('/forms/:id/responses', authenticate, async (req, res) => {
 router.post('/forms/:id/complete', authenticate, async (req, res) => {
   try {
     const { id } = req.params
-    await PldBuilderService.completeUserForm(id, req.user!.email)
-    res.json({ message: 'Formulário concluído com sucesso' })
+    const result = await PldBuilderService.completeUserForm(id, req.user!.email)
+    res.json({
+      message: result.formCompleted ? 'Formulário concluído com sucesso' : 'Sua parte do formulário foi concluída',
+      formCompleted: result.formCompleted,
+      pendingRespondents: result.pendingRespondents,
+    })
   } catch (error: any) {
     res.status(400).json({ error: error.message })
   }
 })
 
-// USER: Remover formulário da lista do usuário (não deleta permanentemente)
+// USER: Remover formulário da lista do usuário (vai para a lixeira do usuário; não deleta permanentemente)
 router.delete('/forms/:id/user', authenticate, async (req, res) => {
   try {
     const { id } = req.params
@@ -346,6 +672,25 @@ router.delete('/forms/:id/user', authenticate, async (req, res) => {
   }
 })
 
+// USER: formulários removidos da própria lista
+router.get('/my-forms/trash', authenticate, async (req, res) => {
+  try {
+    const forms = await FormTrashService.listRespondentTrash(req.user!.email)
+    res.json({ forms })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao listar lixeira') })
+  }
+})
+
+router.post('/my-forms/trash/:id/restore', authenticate, async (req, res) => {
+  try {
+    const result = await FormTrashService.restoreForRespondent(req.params.id, req.user!.email)
+    res.json(result)
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao restaurar formulário') })
+  }
+})
+
 // USER: Upload de arquivo para uma questão do formulário
 router.post('/forms/:id/upload', authenticate, upload.single('file'), async (req, res) => {
   try {
@@ -365,6 +710,16 @@ router.post('/forms/:id/upload', authenticate, upload.single('file'), async (req
       return res.status(400).json({ error: 'Categoria é obrigatória' })
     }
 
+    const expectedRevision = expectedRevisionOf(req)
+    if (expectedRevision === null) {
+      try {
+        if (req.file.path && fs.existsSync(req.file.path)) fs.unlinkSync(req.file.path)
+      } catch {
+        // best effort only
+      }
+      return res.status(428).json({ error: REVISION_REQUIRED_MESSAGE, code: 'REVISION_REQUIRED' })
+    }
+
     const result = await PldBuilderService.uploadUserFormAttachment({
       formId: id,
       userEmail: req.user!.email,
@@ -373,10 +728,15 @@ router.post('/forms/:id/upload', authenticate, upload.single('file'), async (req
       file: req.file,
       category,
       referenceText: referenceText || null,
+      expectedRevision,
     })
 
+    setRevisionHeader(res, result.revision)
     res.json(result)
   } catch (error: any) {
+    if (error?.code === FORM_REVISION_CONFLICT) {
+      return sendRevisionConflict(res, req.params.id, req.user!.email, error)
+    }
     res.status(400).json({ error: error.message })
   }
 })
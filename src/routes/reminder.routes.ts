@@ -0,0 +1,49 @@
+import express from 'express'
+import { authenticate, requirePermission } from '../middleware/auth'
+import { validateBody } from '../middleware/validate'
+import { ReminderService } from '../services/reminder.service'
+import { tenantOwnerIdOf } from '../services/organization.service'
+import { toPublicErrorMessage } from '../utils/publicError'
+import { updateReminderSettingsSchema } from '../validators/reminder.schemas'
+
+const router = express.Router()
+
+// Cadência de lembretes do próprio tenant (dono do builder)
+router.get('/settings', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const settings = await ReminderService.getSettings(tenantOwnerIdOf(req.user!))
+    res.json({ settings })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar configurações de lembrete') })
+  }
+})
+
+router.put('/settings', authenticate, requirePermission('settings:manage'), validateBody(updateReminderSettingsSchema), async (req, res) => {
+  try {
+    const settings = await ReminderService.updateSettings(tenantOwnerIdOf(req.user!), req.body)
+    res.json({ settings })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao salvar configurações de lembrete') })
+  }
+})
+
+// ADMIN: cadência de qualquer tenant
+router.get('/settings/:ownerId', authenticate, requirePermission('system:manage'), async (req, res) => {
+  try {
+    const settings = await ReminderService.getSettings(req.params.ownerId)
+    res.json({ settings })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar configurações de lembrete') })
+  }
+})
+
+router.put('/settings/:ownerId', authenticate, requirePermission('system:manage'), validateBody(updateReminderSettingsSchema), async (req, res) => {
+  try {
+    const settings = await ReminderService.updateSettings(req.params.ownerId, req.body)
+    res.json({ settings })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao salvar configurações de lembrete') })
+  }
+})
+
+export default router
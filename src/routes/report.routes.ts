@@ -1,18 +1,44 @@
 import express from 'express'
+import rateLimit from 'express-rate-limit'
 import fs from 'fs'
-import { authenticate } from '../middleware/auth'
+import { authenticate, requirePermission } from '../middleware/auth'
+import { validateBody } from '../middleware/validate'
+import { upload, verificationUpload } from '../config/upload'
+import { ReportJobService, type ReportJobFormat } from '../services/reportJob.service'
+import { REPORT_RENDERERS, type ReportRenderFormat } from '../services/reportDocument'
+import { tenantOwnerIdOf } from '../services/organization.service'
+import { PldBuilderService } from '../services/pldBuilder.service'
+import { ReportSealService, sha256Hex } from '../services/reportSeal.service'
 import { ReportService } from '../services/reportServices'
+import { ReportTemplateService } from '../services/reportTemplate.service'
 import { resolveFromUploads } from '../config/paths'
 import { createSignedUrlForStoredPath, getStorageProvider } from '../config/storage'
+import { toPublicErrorMessage } from '../utils/publicError'
+import { createReportJobSchema, updateReportTemplateSchema } from '../validators/report.schemas'
 
 const router = express.Router()
 
+// Verificação por upload é pública e lê o arquivo em memória: limite por IP bem abaixo do geral da API
+const verificationUploadLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: 'Muitas verificações. Aguarde alguns minutos e tente novamente.' },
+})
+
 function buildPublicDownloadUrl(filePath: string): string {
   const base = (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '')
   const normalized = `/${filePath.replace(/\\/g, '/').replace(/^\/+/, '')}`
   return base ? `${base}${normalized}` : normalized
 }
 
+// Formatos dos relatórios PLD (PDF/DOCX/HTML/MD); valor desconhecido cai no DOCX
+function parsePldReportFormat(value: unknown): ReportRenderFormat {
+  const format = String(value ?? '').toUpperCase()
+  return format in REPORT_RENDERERS ? (format as ReportRenderFormat) : 'DOCX'
+}
+
 // Gera e retorna o relatório do usuário autenticado
 router.get('/me', authenticate, async (req, res) => {
   try {
@@ -52,12 +78,8 @@ router.get('/me', authenticate, async (req, res) => {
 })
 
 // ADMIN: gera e retorna o relatório de um usuário específico (por ID)
-router.get('/user/:id', authenticate, async (req, res) => {
+router.get('/user/:id', authenticate, requirePermission('users:manage'), async (req, res) => {
   try {
-    if (req.user!.role !== 'ADMIN') {
-      return res.status(403).json({ error: 'Acesso negado' })
-    }
-
     const { id } = req.params
     const typeParam = (req.query.type as string | undefined)?.toUpperCase()
     const type = typeParam === 'PARTIAL' ? 'PARTIAL' : 'FULL'
@@ -93,17 +115,17 @@ router.get('/user/:id', authenticate, async (req, res) => {
   }
 })
 
-// ADMIN: gera relatório com base no novo PLD Builder
-router.get('/pld-builder', authenticate, async (req, res) => {
+// ADMIN: gera relatório com base no builder vivo (system:manage, concedida só ao ADMIN)
+router.get('/pld-builder', authenticate, requirePermission('system:manage'), async (req, res) => {
   try {
-    if (req.user!.role !== 'ADMIN') {
-      return res.status(403).json({ error: 'Acesso negado' })
-    }
-
-    const formatParam = (req.query.format as string | undefined)?.toUpperCase()
-    const format = formatParam === 'PDF' ? 'PDF' : 'DOCX'
+    const format = parsePldReportFormat(req.query.format)
 
-    const report = await ReportService.generatePldBuilderReport(req.user!.id, format, { name: null, metadata: null })
+    const report = await ReportService.generatePldBuilderReport(
+      req.user!.id,
+      format,
+      { name: null, metadata: null },
+      PldBuilderService.getReportScope(req.user!)
+    )
 
     const filePath = report.filePath
     if (!filePath) {
@@ -124,18 +146,60 @@ router.get('/pld-builder', authenticate, async (req, res) => {
   }
 })
 
-// USER (ou ADMIN): gera relatório baseado no formulário atual do novo PLD Builder (por formId)
-router.get('/forms/:id', authenticate, async (req, res) => {
+// USER (ou ADMIN): relatório do formulário atual do novo PLD Builder (por formId).
+// Enfileirado como job REPORT_GENERATE (mesmo de POST /jobs com kind FORM); acompanhar em GET /jobs/:id.
+router.post('/forms/:id', authenticate, async (req, res) => {
   try {
-    const { id } = req.params
-    const formatParam = (req.query.format as string | undefined)?.toUpperCase()
-    const format = formatParam === 'PDF' ? 'PDF' : 'DOCX'
+    // XLSX: planilha com todas as questões/plano de ação + resumo de deficiências por seção;
+    // HTML/MD: mesmo conteúdo do DOCX, para pré-visualizar no navegador ou colar em e-mails
+    const format: ReportJobFormat =
+      String(req.query.format ?? '').toUpperCase() === 'XLSX' ? 'XLSX' : parsePldReportFormat(req.query.format)
+    const { job, cached } = await ReportJobService.enqueueFormReport(req.user!, req.params.id, format)
+
+    return res.status(cached ? 200 : 202).json({ job: serializeReportJob(job, cached) })
+  } catch (error: any) {
+    return res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao gerar relatório do formulário') })
+  }
+})
+
+const serializeReportJob = (job: any, cached = false) => ({
+  id: job.id,
+  status: job.status,
+  progress: job.progress ?? 0,
+  error: job.status === 'FAILED' ? toPublicErrorMessage(new Error(job.lastError || ''), 'Falha ao gerar relatório') : null,
+  cached,
+  createdAt: job.createdAt,
+  completedAt: job.completedAt,
+})
+
+// USER (ou ADMIN): dossiê ZIP do formulário (relatório + todos os anexos, manifesto com SHA-256).
+// Enfileirado como job REPORT_GENERATE (mesmo de POST /jobs com kind DOSSIER); acompanhar em GET /jobs/:id.
+// POST: enfileirar é efeito colateral, não cabe em GET.
+router.post('/forms/:id/dossier', authenticate, async (req, res) => {
+  try {
+    // format: formato do relatório incluído no ZIP (PDF por padrão)
+    const format = req.query.format ? parsePldReportFormat(req.query.format) : 'PDF'
+    const { job, cached } = await ReportJobService.enqueueFormDossier(req.user!, req.params.id, format)
 
-    const report = await ReportService.generatePldUserFormReport(id, {
-      requesterId: req.user!.id,
-      requesterRole: req.user!.role,
-      requesterEmail: (req.user as any).email,
-    }, format)
+    return res.status(cached ? 200 : 202).json({ job: serializeReportJob(job, cached) })
+  } catch (error: any) {
+    return res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao gerar dossiê do formulário') })
+  }
+})
+
+// ADMIN: gera relatório do builder com metadados de introdução (não persiste o formulário)
+router.post('/pld-builder', authenticate, requirePermission('system:manage'), async (req, res) => {
+  try {
+    const format = parsePldReportFormat(req.query.format)
+
+    const { name, metadata } = (req.body ?? {}) as { name?: string | null; metadata?: any }
+
+    const report = await ReportService.generatePldBuilderReport(
+      req.user!.id,
+      format,
+      { name: typeof name === 'string' ? name : null, metadata: metadata ?? null },
+      PldBuilderService.getReportScope(req.user!)
+    )
 
     const filePath = report.filePath
     if (!filePath) {
@@ -152,43 +216,137 @@ router.get('/forms/:id', authenticate, async (req, res) => {
       signedUrl,
     })
   } catch (error: any) {
-    return res.status(400).json({ error: error.message || 'Erro ao gerar relatório do formulário' })
+    return res.status(400).json({ error: error.message || 'Erro ao gerar relatório do builder' })
   }
 })
 
-// ADMIN: gera relatório do builder com metadados de introdução (não persiste o formulário)
-router.post('/pld-builder', authenticate, async (req, res) => {
+// Enfileira a geração de relatório (PDF/DOCX/XLSX de formulário ou relatório do builder).
+// Formulário sem alterações desde a última geração devolve o job já concluído (cache por revisão).
+router.post('/jobs', authenticate, validateBody(createReportJobSchema), async (req, res) => {
   try {
-    if (req.user!.role !== 'ADMIN') {
-      return res.status(403).json({ error: 'Acesso negado' })
-    }
-
-    const formatParam = (req.query.format as string | undefined)?.toUpperCase()
-    const format = formatParam === 'PDF' ? 'PDF' : 'DOCX'
-
-    const { name, metadata } = (req.body ?? {}) as { name?: string | null; metadata?: any }
-
-    const report = await ReportService.generatePldBuilderReport(req.user!.id, format, {
-      name: typeof name === 'string' ? name : null,
-      metadata: metadata ?? null,
-    })
+    const { kind, formId, format, name, metadata } = req.body
+    const { job, cached } =
+      kind === 'BUILDER'
+        ? await ReportJobService.enqueueBuilderReport(req.user!, format, { name, metadata })
+        : kind === 'DOSSIER'
+          ? await ReportJobService.enqueueFormDossier(req.user!, formId, format)
+          : await ReportJobService.enqueueFormReport(req.user!, formId, format)
+
+    return res.status(cached ? 200 : 202).json({ job: serializeReportJob(job, cached) })
+  } catch (error: any) {
+    return res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao enfileirar relatório') })
+  }
+})
 
-    const filePath = report.filePath
-    if (!filePath) {
-      return res.status(500).json({ error: 'Falha ao localizar arquivo de relatório' })
+// Status do job; quando concluído, traz o relatório e os links de download
+router.get('/jobs/:id', authenticate, async (req, res) => {
+  try {
+    const { job, report } = await ReportJobService.getJobForUser(req.user!, req.params.id)
+    if (!report?.filePath) {
+      return res.json({ job: serializeReportJob(job) })
     }
 
-    const downloadUrl = buildPublicDownloadUrl(filePath)
-    const signedUrl = getStorageProvider() === 'supabase' ? await createSignedUrlForStoredPath(filePath) : null
+    const downloadUrl = buildPublicDownloadUrl(report.filePath)
+    const signedUrl = getStorageProvider() === 'supabase' ? await createSignedUrlForStoredPath(report.filePath) : null
 
     return res.json({
+      job: serializeReportJob(job),
       report,
-      url: `/${filePath.replace(/\\/g, '/')}`,
+      url: `/${report.filePath.replace(/\\/g, '/')}`,
       downloadUrl,
       signedUrl,
     })
   } catch (error: any) {
-    return res.status(400).json({ error: error.message || 'Erro ao gerar relatório do builder' })
+    const status = error?.message === 'Job não encontrado' ? 404 : 400
+    return res.status(status).json({ error: toPublicErrorMessage(error, 'Erro ao consultar job') })
+  }
+})
+
+// Template de relatório do tenant (logo, cores, capa, cabeçalho/rodapé e textos do relatório PLD)
+router.get('/template', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const template = await ReportTemplateService.getTemplateView(tenantOwnerIdOf(req.user!))
+    res.json({ template })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar template de relatório') })
+  }
+})
+
+router.put('/template', authenticate, requirePermission('settings:manage'), validateBody(updateReportTemplateSchema), async (req, res) => {
+  try {
+    const template = await ReportTemplateService.updateTemplate(tenantOwnerIdOf(req.user!), req.body)
+    res.json({ template })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao salvar template de relatório') })
+  }
+})
+
+router.delete('/template', authenticate, requirePermission('settings:manage'), async (req, res) => {
+  try {
+    const template = await ReportTemplateService.resetTemplate(tenantOwnerIdOf(req.user!))
+    res.json({ template })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao restaurar template de relatório') })
+  }
+})
+
+router.get('/template/logo', authenticate, requirePermission('builder:read'), async (req, res) => {
+  try {
+    const logo = await ReportTemplateService.getLogo(tenantOwnerIdOf(req.user!))
+    if (!logo) return res.status(404).json({ error: 'Logo não cadastrado' })
+    res.setHeader('Content-Type', logo.mimeType)
+    return res.send(logo.data)
+  } catch (error: any) {
+    return res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao carregar logo') })
+  }
+})
+
+router.post('/template/logo', authenticate, requirePermission('settings:manage'), upload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).json({ error: 'Arquivo é obrigatório' })
+    const template = await ReportTemplateService.setLogo(tenantOwnerIdOf(req.user!), req.file)
+    return res.json({ template })
+  } catch (error: any) {
+    return res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao enviar logo') })
+  }
+})
+
+router.delete('/template/logo', authenticate, requirePermission('settings:manage'), async (req, res) => {
+  try {
+    const template = await ReportTemplateService.removeLogo(tenantOwnerIdOf(req.user!))
+    res.json({ template })
+  } catch (error: any) {
+    res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao remover logo') })
+  }
+})
+
+// PÚBLICO: verificação de relatório selado. ?sha256= compara o hash do arquivo apresentado;
+// sem ele, só confirma o código e devolve os hashes emitidos
+router.get('/verify/:code', async (req, res) => {
+  try {
+    const verification = await ReportSealService.verify(req.params.code, req.query.sha256 as string | undefined)
+    if (!verification) {
+      return res.status(404).json({ valid: false, error: 'Código de verificação não encontrado' })
+    }
+    return res.json({ valid: true, verification })
+  } catch (error: any) {
+    return res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao verificar relatório') })
+  }
+})
+
+// PÚBLICO: mesma verificação enviando o próprio arquivo (multipart "file"; não é armazenado)
+router.post('/verify/:code', verificationUploadLimiter, verificationUpload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'Arquivo é obrigatório' })
+    }
+    const verification = await ReportSealService.verify(req.params.code, sha256Hex(req.file.buffer))
+    if (!verification) {
+      return res.status(404).json({ valid: false, error: 'Código de verificação não encontrado' })
+    }
+    return res.json({ valid: true, verification })
+  } catch (error: any) {
+    return res.status(400).json({ error: toPublicErrorMessage(error, 'Erro ao verificar relatório') })
   }
 })
 
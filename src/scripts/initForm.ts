@@ -60,7 +60,7 @@ async function initializeForm() {
     }
     
     // Buscar tópicos criados
-    const createdTopics = await FormService.getTopics(admin.id, 'ADMIN')
+    const createdTopics = await FormService.getTopics(admin.id, true)
     
     // Criar perguntas para cada tópico
     console.log('\n📝 Criando perguntas...')
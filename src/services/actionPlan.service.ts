@@ -0,0 +1,360 @@
+import fs from 'fs'
+import path from 'path'
+import prisma from '../config/database'
+import { getUploadsRoot } from '../config/paths'
+import { getStorageProvider, uploadFileToStorage } from '../config/storage'
+import { getDeficiencyCriticidade } from '../utils/pldDeficiency'
+import { FormTrashService } from './formTrash.service'
+import { tenantOwnerIdOf } from './organization.service'
+import type { BuilderActor } from './pldBuilder.service'
+
+const prismaAny = prisma as any
+
+export type ActionPlanStatus = 'OPEN' | 'IN_PROGRESS' | 'OVERDUE' | 'CLOSED'
+
+export type ActionPlanFilters = {
+  status?: ActionPlanStatus
+  reportId?: string
+  criticidade?: string
+  responsavel?: string
+  q?: string
+}
+
+const toDateOrNull = (value: unknown) => {
+  if (!value) return null
+  const d = new Date(value as any)
+  return Number.isNaN(d.getTime()) ? null : d
+}
+
+const textOrNull = (value: unknown) => {
+  const t = value === null || value === undefined ? '' : String(value).trim()
+  return t || null
+}
+
+/**
+ * OVERDUE é derivado do prazo: qualquer item não encerrado com prazoAtual vencido está atrasado,
+ * independentemente do status gravado.
+ */
+export function getEffectiveStatus(
+  item: { status: string; prazoAtual?: Date | string | null },
+  now: Date = new Date()
+): ActionPlanStatus {
+  if (item.status === 'CLOSED') return 'CLOSED'
+  const prazo = toDateOrNull(item.prazoAtual)
+  if (prazo && prazo.getTime() < now.getTime()) return 'OVERDUE'
+  return item.status === 'OVERDUE' ? 'OPEN' : (item.status as ActionPlanStatus)
+}
+
+const withEffectiveStatus = (item: any, now: Date = new Date()) => ({
+  ...item,
+  storedStatus: item.status,
+  status: getEffectiveStatus(item, now),
+})
+
+export class ActionPlanService {
+  // Itens pertencem ao dono da organização do formulário (ADMIN vê todos)
+  private static getScopeWhere(actor: BuilderActor) {
+    return actor.role === 'ADMIN' ? {} : { ownerId: tenantOwnerIdOf(actor) }
+  }
+
+  private static async findOwned(actor: BuilderActor, id: string) {
+    const item = await prismaAny.actionPlanItem.findFirst({ where: { id, ...this.getScopeWhere(actor) } })
+    if (!item) throw new Error('Item do plano de ação não encontrado')
+    return item
+  }
+
+  /**
+   * Cria/atualiza os itens do plano de ação a partir do snapshot do formulário.
+   * Chamado quando o formulário é concluído ou aprovado; pode ser repetido sem duplicar itens.
+   */
+  static async syncFromForm(reportId: string) {
+    const report = await prismaAny.report.findUnique({
+      where: { id: reportId },
+      select: { id: true, type: true, userId: true, content: true, organization: { select: { ownerId: true } } },
+    })
+    const ownerId = report?.organization?.ownerId ?? report?.userId
+    if (!report || report.type !== 'BUILDER_FORM') throw new Error('Formulário não encontrado')
+
+    let payload: any = null
+    try {
+      payload = report.content ? JSON.parse(report.content) : null
+    } catch {
+      payload = null
+    }
+    const sections: any[] = Array.isArray(payload?.sections) ? payload.sections : []
+
+    const existing: any[] = await prismaAny.actionPlanItem.findMany({
+      where: { reportId },
+      include: { _count: { select: { deadlineChanges: true, evidences: true } } },
+    })
+    const byQuestion = new Map(existing.map((item) => [item.questionId, item]))
+    const seen = new Set<string>()
+    let created = 0
+    let updated = 0
+
+    for (const section of sections) {
+      const sectionLabel = textOrNull(section?.customLabel)
+        ? `${section.item} - ${section.customLabel}`
+        : textOrNull(section?.item)
+
+      for (const question of Array.isArray(section?.questions) ? section.questions : []) {
+        const criticidade = getDeficiencyCriticidade(question)
+        if (!criticidade || !question?.id) continue
+        seen.add(question.id)
+
+        const data = {
+          sectionId: section?.id ?? null,
+          sectionLabel,
+          questionText: textOrNull(question.texto) || '-',
+          criticidade,
+          deficiencia: textOrNull(question.deficienciaTexto),
+          recomendacao: textOrNull(question.recomendacaoTexto),
+          origem: textOrNull(question.actionOrigem),
+          responsavel: textOrNull(question.actionResponsavel),
+          descricao: textOrNull(question.actionDescricao),
+          comentarios: textOrNull(question.actionComentarios),
+          dataApontamento: toDateOrNull(question.actionDataApontamento),
+          prazoOriginal: toDateOrNull(question.actionPrazoOriginal),
+        }
+        const prazoAtual = toDateOrNull(question.actionPrazoAtual) || data.prazoOriginal
+
+        const current = byQuestion.get(question.id)
+        if (!current) {
+          await prismaAny.actionPlanItem.create({
+            data: { ...data, prazoAtual, reportId, questionId: question.id, ownerId },
+          })
+          created += 1
+          continue
+        }
+
+        // Prorrogações registradas aqui prevalecem sobre o prazo do snapshot
+        await prismaAny.actionPlanItem.update({
+          where: { id: current.id },
+          data: current._count.deadlineChanges > 0 ? data : { ...data, prazoAtual },
+        })
+        updated += 1
+      }
+    }
+
+    // Perguntas que deixaram de ser deficiência (ex.: após devolução): remove itens sem histórico
+    const stale = existing.filter(
+      (item) =>
+        !seen.has(item.questionId) &&
+        item.status === 'OPEN' &&
+        item._count.deadlineChanges === 0 &&
+        item._count.evidences === 0
+    )
+    if (stale.length) {
+      await prismaAny.actionPlanItem.deleteMany({ where: { id: { in: stale.map((item) => item.id) } } })
+    }
+
+    return { created, updated, removed: stale.length }
+  }
+
+  static async listItems(actor: BuilderActor, filters: ActionPlanFilters = {}) {
+    const now = new Date()
+    const where: any = { ...this.getScopeWhere(actor) }
+    if (filters.reportId) where.reportId = filters.reportId
+    if (filters.criticidade) where.criticidade = filters.criticidade
+    if (filters.responsavel) where.responsavel = { contains: filters.responsavel, mode: 'insensitive' }
+    if (filters.q) {
+      where.OR = [
+        { questionText: { contains: filters.q, mode: 'insensitive' } },
+        { deficiencia: { contains: filters.q, mode: 'insensitive' } },
+        { descricao: { contains: filters.q, mode: 'insensitive' } },
+      ]
+    }
+
+    const notOverdue = { OR: [{ prazoAtual: null }, { prazoAtual: { gte: now } }] }
+    switch (filters.status) {
+      case 'OVERDUE':
+        where.status = { not: 'CLOSED' }
+        where.prazoAtual = { lt: now }
+        break
+      case 'OPEN':
+        where.status = { in: ['OPEN', 'OVERDUE'] }
+        where.AND = [notOverdue]
+        break
+      case 'IN_PROGRESS':
+        where.status = 'IN_PROGRESS'
+        where.AND = [notOverdue]
+        break
+      case 'CLOSED':
+        where.status = 'CLOSED'
+        break
+      default:
+        break
+    }
+
+    const items = await prismaAny.actionPlanItem.findMany({
+      where,
+      orderBy: [{ prazoAtual: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+      include: {
+        report: { select: { id: true, name: true } },
+        _count: { select: { deadlineChanges: true, evidences: true } },
+      },
+    })
+
+    return items.map((item: any) => withEffectiveStatus(item, now))
+  }
+
+  static async getSummary(actor: BuilderActor) {
+    const now = new Date()
+    const items = await prismaAny.actionPlanItem.findMany({
+      where: this.getScopeWhere(actor),
+      select: { status: true, prazoAtual: true, criticidade: true },
+    })
+
+    const summary = { total: items.length, OPEN: 0, IN_PROGRESS: 0, OVERDUE: 0, CLOSED: 0 }
+    for (const item of items) summary[getEffectiveStatus(item, now)] += 1
+    return summary
+  }
+
+  static async getItem(actor: BuilderActor, id: string) {
+    await this.findOwned(actor, id)
+    const item = await prismaAny.actionPlanItem.findUnique({
+      where: { id },
+      include: {
+        report: { select: { id: true, name: true } },
+        deadlineChanges: { orderBy: { createdAt: 'desc' } },
+        evidences: { orderBy: { createdAt: 'desc' } },
+      },
+    })
+    return withEffectiveStatus(item)
+  }
+
+  static async updateItem(
+    actor: BuilderActor,
+    id: string,
+    data: {
+      status?: 'OPEN' | 'IN_PROGRESS' | 'CLOSED'
+      responsavel?: string | null
+      descricao?: string | null
+      comentarios?: string | null
+    }
+  ) {
+    const item = await this.findOwned(actor, id)
+    const update: any = {}
+    if (data.responsavel !== undefined) update.responsavel = textOrNull(data.responsavel)
+    if (data.descricao !== undefined) update.descricao = textOrNull(data.descricao)
+    if (data.comentarios !== undefined) update.comentarios = textOrNull(data.comentarios)
+
+    if (data.status && data.status !== item.status) {
+      update.status = data.status
+      if (data.status === 'CLOSED') {
+        update.closedAt = new Date()
+        update.closedById = actor.id
+      } else if (item.status === 'CLOSED') {
+        update.closedAt = null
+        update.closedById = null
+      }
+    }
+
+    const saved = await prismaAny.actionPlanItem.update({ where: { id }, data: update })
+    return withEffectiveStatus(saved)
+  }
+
+  /**
+   * Prorroga o prazo do item mantendo o histórico (prazo anterior, novo prazo, motivo, autor).
+   */
+  static async extendDeadline(actor: BuilderActor, id: string, params: { prazo: string; reason?: string | null }) {
+    const item = await this.findOwned(actor, id)
+    if (item.status === 'CLOSED') throw new Error('Item encerrado não pode ter o prazo alterado')
+
+    const newPrazo = toDateOrNull(params.prazo)
+    if (!newPrazo) throw new Error('Prazo inválido')
+
+    const saved = await prismaAny.$transaction(async (tx: any) => {
+      await tx.actionPlanDeadlineChange.create({
+        data: {
+          itemId: id,
+          previousPrazo: item.prazoAtual,
+          newPrazo,
+          reason: textOrNull(params.reason),
+          changedById: actor.id,
+        },
+      })
+      return tx.actionPlanItem.update({
+        where: { id },
+        data: {
+          prazoAtual: newPrazo,
+          // OVERDUE gravado pela rotina de lembretes volta a ficar em aberto após a prorrogação
+          ...(item.status === 'OVERDUE' ? { status: 'OPEN' } : {}),
+        },
+      })
+    })
+
+    return withEffectiveStatus(saved)
+  }
+
+  static async addEvidence(
+    actor: BuilderActor,
+    id: string,
+    params: { file: Express.Multer.File; description?: string | null }
+  ) {
+    const { file } = params
+    try {
+      await this.findOwned(actor, id)
+    } catch (error) {
+      // Descarta o arquivo recebido pelo multer (mesmo tratamento de uploadUserFormAttachment)
+      try {
+        if (file.path && fs.existsSync(file.path)) fs.unlinkSync(file.path)
+      } catch {
+        // best effort only
+      }
+      throw error
+    }
+
+    const relativePath = path
+      .relative(getUploadsRoot(), file.path)
+      .replace(/\\/g, '/')
+      .replace(/^\/+/, '')
+
+    if (getStorageProvider() === 'supabase') {
+      const objectKey = relativePath || file.filename
+      await uploadFileToStorage({
+        localPath: file.path,
+        objectKey,
+        contentType: file.mimetype,
+        deleteLocal: true,
+      })
+    }
+
+    return prismaAny.actionPlanEvidence.create({
+      data: {
+        itemId: id,
+        description: textOrNull(params.description),
+        filename: file.filename,
+        originalName: file.originalname,
+        path: relativePath ? `uploads/${relativePath}` : `uploads/${file.filename}`,
+        mimeType: file.mimetype,
+        size: file.size,
+        uploadedById: actor.id,
+      },
+    })
+  }
+
+  static async deleteEvidence(actor: BuilderActor, id: string, evidenceId: string) {
+    await this.findOwned(actor, id)
+    const evidence = await prismaAny.actionPlanEvidence.findFirst({ where: { id: evidenceId, itemId: id } })
+    if (!evidence) throw new Error('Evidência não encontrada')
+    await prismaAny.actionPlanEvidence.delete({ where: { id: evidenceId } })
+    // Apaga o arquivo se nenhum outro registro apontar para ele
+    await FormTrashService.deleteUnreferencedFiles([evidence.path])
+  }
+
+  static async syncForActor(actor: BuilderActor, reportId: string) {
+    const report = await prismaAny.report.findUnique({
+      where: { id: reportId },
+      select: { type: true, organizationId: true, status: true },
+    })
+    if (!report || report.type !== 'BUILDER_FORM') throw new Error('Formulário não encontrado')
+    if (actor.role !== 'ADMIN' && report.organizationId !== actor.organization?.id) {
+      throw new Error('Você não tem permissão para acessar este formulário')
+    }
+    if (report.status !== 'COMPLETED' && report.status !== 'APPROVED') {
+      throw new Error('Somente formulários concluídos geram plano de ação')
+    }
+    return this.syncFromForm(reportId)
+  }
+}
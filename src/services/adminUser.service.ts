@@ -0,0 +1,222 @@
+import bcrypt from 'bcryptjs'
+import crypto from 'crypto'
+import prisma from '../config/database'
+import { AuditService, type AuditAction } from './audit.service'
+import { AuthService } from './auth.service'
+import { AuthSessionService, type SessionRevokeReason } from './authSession.service'
+import { billingDenial } from './permission.service'
+import type { Pagination } from '../utils/pagination'
+
+const prismaAny = prisma as any
+
+export const PLATFORM_ROLES = ['ADMIN', 'TRIAL_ADMIN', 'USER'] as const
+
+export type PlatformRole = (typeof PLATFORM_ROLES)[number]
+
+// Mesmo prazo do trial iniciado no cadastro (AuthService.registerUser)
+const DEFAULT_TRIAL_DAYS = 3
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type AdminUserFilters = {
+  q?: string
+  role?: string
+  subscriptionStatus?: string
+  isActive?: boolean
+}
+
+// Quem executa a ação (sempre com users:manage) e o IP gravado na auditoria
+export type AdminContext = { actor: { id: string; email: string }; ip?: string | null }
+
+const ADMIN_USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  isActive: true,
+  isTrial: true,
+  trialExpiresAt: true,
+  subscriptionStatus: true,
+  subscriptionExpiresAt: true,
+  stripeCustomerId: true,
+  anonymizedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}
+
+export function buildAdminUserWhere(filters: AdminUserFilters) {
+  const where: any = {}
+  const q = filters.q?.trim()
+  if (q) {
+    where.OR = [
+      { name: { contains: q, mode: 'insensitive' } },
+      { email: { contains: q, mode: 'insensitive' } },
+    ]
+  }
+  if (filters.role) where.role = filters.role.toUpperCase()
+  if (filters.subscriptionStatus) where.subscriptionStatus = filters.subscriptionStatus.toUpperCase()
+  if (typeof filters.isActive === 'boolean') where.isActive = filters.isActive
+  return where
+}
+
+// Sem senha/ids do Stripe; builderAccess resume trial/assinatura (ADMIN sempre tem acesso)
+export function serializeAdminUser(row: any) {
+  const trialActive = !!row.isTrial && !!row.trialExpiresAt && new Date(row.trialExpiresAt).getTime() > Date.now()
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    isActive: row.isActive,
+    isTrial: row.isTrial,
+    trialExpiresAt: row.trialExpiresAt,
+    trialActive,
+    subscriptionStatus: row.subscriptionStatus,
+    subscriptionExpiresAt: row.subscriptionExpiresAt,
+    hasStripeCustomer: !!row.stripeCustomerId,
+    builderAccess: row.role === 'ADMIN' || !billingDenial(row),
+    anonymizedAt: row.anonymizedAt ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  }
+}
+
+export class AdminUserService {
+  static async listUsers(filters: AdminUserFilters, pagination: Pagination) {
+    const where = buildAdminUserWhere(filters)
+    const [rows, total] = await Promise.all([
+      prismaAny.user.findMany({
+        where,
+        select: ADMIN_USER_SELECT,
+        orderBy: { createdAt: 'desc' },
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      prismaAny.user.count({ where }),
+    ])
+    return { users: rows.map(serializeAdminUser), total, page: pagination.page, pageSize: pagination.pageSize }
+  }
+
+  static async getUser(userId: string) {
+    const row = await prismaAny.user.findUnique({
+      where: { id: userId },
+      select: {
+        ...ADMIN_USER_SELECT,
+        organizationMemberships: {
+          select: { role: true, organization: { select: { id: true, name: true, ownerId: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+    if (!row) throw new Error('Usuário não encontrado')
+    return {
+      ...serializeAdminUser(row),
+      organizations: row.organizationMemberships.map((m: any) => ({ ...m.organization, role: m.role })),
+    }
+  }
+
+  private static async findUser(userId: string) {
+    const row = await prismaAny.user.findUnique({ where: { id: userId }, select: ADMIN_USER_SELECT })
+    if (!row) throw new Error('Usuário não encontrado')
+    // Conta excluída pelo titular (DataSubjectService.anonymizeAccount) não volta a ser usada
+    if (row.anonymizedAt) throw new Error('Conta excluída pelo titular')
+    return row
+  }
+
+  // Atualiza o usuário e grava o evento na mesma transação (revogando as sessões, quando informado o motivo)
+  private static async updateAudited(
+    ctx: AdminContext,
+    userId: string,
+    data: Record<string, unknown>,
+    action: AuditAction,
+    metadata: Record<string, unknown>,
+    revokeSessions?: SessionRevokeReason
+  ) {
+    const updated = await prismaAny.$transaction(async (tx: any) => {
+      const row = await tx.user.update({ where: { id: userId }, data, select: ADMIN_USER_SELECT })
+      if (revokeSessions) {
+        metadata = { ...metadata, revokedSessions: await AuthSessionService.revokeAll(userId, revokeSessions, {}, tx) }
+      }
+      await AuditService.record({ actor: ctx.actor, action, targetType: 'User', targetId: userId, metadata, ip: ctx.ip }, tx)
+      return row
+    })
+    return serializeAdminUser(updated)
+  }
+
+  static async setActive(ctx: AdminContext, userId: string, isActive: boolean) {
+    if (!isActive && userId === ctx.actor.id) throw new Error('Você não pode desativar a própria conta')
+    const user = await this.findUser(userId)
+    if (user.isActive === isActive) return serializeAdminUser(user)
+
+    return this.updateAudited(
+      ctx,
+      userId,
+      { isActive },
+      isActive ? 'user.activate' : 'user.deactivate',
+      { email: user.email },
+      isActive ? undefined : 'USER_DEACTIVATED'
+    )
+  }
+
+  /**
+   * Troca o papel da plataforma. TRIAL_ADMIN sem trial vigente ganha um novo trial;
+   * ao sair de TRIAL_ADMIN o trial é encerrado (mesmo efeito do rebaixamento no login).
+   */
+  static async changeRole(ctx: AdminContext, userId: string, role: PlatformRole) {
+    if (userId === ctx.actor.id) throw new Error('Você não pode alterar o próprio papel')
+    const user = await this.findUser(userId)
+    if (user.role === role) return serializeAdminUser(user)
+
+    const data: Record<string, unknown> = { role }
+    if (role === 'TRIAL_ADMIN') {
+      const trialActive = !!user.trialExpiresAt && new Date(user.trialExpiresAt).getTime() > Date.now()
+      data.isTrial = true
+      data.trialExpiresAt = trialActive ? user.trialExpiresAt : new Date(Date.now() + DEFAULT_TRIAL_DAYS * DAY_MS)
+    } else if (user.role === 'TRIAL_ADMIN') {
+      data.isTrial = false
+      data.trialExpiresAt = null
+    }
+
+    return this.updateAudited(ctx, userId, data, 'user.role_change', {
+      email: user.email,
+      from: user.role,
+      to: role,
+      trialExpiresAt: data.trialExpiresAt ?? user.trialExpiresAt,
+    })
+  }
+
+  // Reinicia o trial por `days` dias a partir de agora (USER volta a TRIAL_ADMIN)
+  static async resetTrial(ctx: AdminContext, userId: string, days: number) {
+    const user = await this.findUser(userId)
+    if (user.role === 'ADMIN') throw new Error('Administradores não usam período de teste')
+
+    const trialExpiresAt = new Date(Date.now() + days * DAY_MS)
+    return this.updateAudited(ctx, userId, { role: 'TRIAL_ADMIN', isTrial: true, trialExpiresAt }, 'user.trial_reset', {
+      email: user.email,
+      days,
+      fromRole: user.role,
+      previousTrialExpiresAt: user.trialExpiresAt,
+      trialExpiresAt,
+    })
+  }
+
+  /**
+   * Envia o link de redefinição (fluxo do PasswordResetToken) e desativa a senha atual.
+   * A senha só é trocada depois do envio do e-mail, para o usuário não ficar sem acesso.
+   */
+  static async forcePasswordReset(ctx: AdminContext, userId: string) {
+    const user = await this.findUser(userId)
+    if (!user.isActive) throw new Error('Usuário inativo')
+
+    await AuthService.sendPasswordResetLink(user, { forced: true })
+
+    const unusable = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10)
+    return this.updateAudited(
+      ctx,
+      userId,
+      { password: unusable },
+      'user.password_reset_forced',
+      { email: user.email },
+      'PASSWORD_RESET'
+    )
+  }
+}
@@ -0,0 +1,235 @@
+import prisma from '../config/database'
+import { getRequestContext } from '../middleware/requestContext'
+import { toCsv } from '../utils/csv'
+import type { Pagination } from '../utils/pagination'
+
+const prismaAny = prisma as any
+
+export const AUDIT_ACTIONS = [
+  // Administração de usuários (src/services/adminUser.service.ts)
+  'user.activate',
+  'user.deactivate',
+  'user.role_change',
+  'user.trial_reset',
+  'user.password_reset_forced',
+  // Titular dos dados (src/services/dataSubject.service.ts)
+  'user.data_export',
+  'user.anonymize',
+  // Autenticação
+  'auth.register',
+  'auth.login',
+  'auth.login_failed',
+  'auth.google_login',
+  'auth.bootstrap_admin',
+  'auth.password_reset_requested',
+  'auth.password_reset',
+  'auth.logout',
+  'auth.session_revoke',
+  'auth.sessions_revoke_all',
+  'auth.session_reuse',
+  // Builder vivo
+  'builder.section_create',
+  'builder.section_update',
+  'builder.section_delete',
+  'builder.question_create',
+  'builder.question_update',
+  'builder.question_delete',
+  'builder.attachment_upload',
+  'builder.attachment_delete',
+  'builder.import',
+  'builder.reset',
+  // Formulários do builder (BUILDER_FORM)
+  'form.create',
+  'form.send',
+  'form.hide_for_owner',
+  'form.hide_for_respondent',
+  'form.complete',
+  'form.approve',
+  'form.return',
+  'form.attachment_upload',
+  'form.restore_for_owner',
+  'form.restore_for_respondent',
+  'form.purge',
+  // Questionário padrão (FormService)
+  'topic.create',
+  'topic.delete',
+  'topic.assign',
+  'topic.submit',
+  'topic.return',
+  'topic.approve',
+  'answer.admin_update',
+  'evidence.upload',
+  'evidence.delete',
+  // Stripe
+  'billing.subscription_update',
+  // Retenção e preservação legal (src/services/retention.service.ts)
+  'retention.policy_update',
+  'retention.hold_create',
+  'retention.hold_release',
+  'retention.purge',
+] as const
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+export type AuditActor = { id: string; email?: string | null } | null
+
+export type AuditEntry = {
+  // undefined => usuário autenticado da requisição; null => sistema (webhook, jobs)
+  actor?: AuditActor
+  action: AuditAction
+  targetType: string
+  targetId?: string | null
+  metadata?: Record<string, unknown>
+  ip?: string | null
+  userAgent?: string | null
+}
+
+export type AuditFilters = {
+  actorId?: string
+  action?: string
+  targetType?: string
+  targetId?: string
+  from?: Date
+  to?: Date
+}
+
+// Limite de linhas do CSV (a listagem paginada não tem limite)
+export const AUDIT_EXPORT_MAX_ROWS = 50000
+
+const SUMMARY_VALUE_MAX = 200
+
+const summaryValue = (value: unknown) => {
+  if (value === undefined) return null
+  if (value instanceof Date) return value.toISOString()
+  if (value !== null && typeof value === 'object') value = JSON.stringify(value)
+  return typeof value === 'string' && value.length > SUMMARY_VALUE_MAX ? `${value.slice(0, SUMMARY_VALUE_MAX - 1)}…` : value
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(summaryValue(a) ?? null) === JSON.stringify(summaryValue(b) ?? null)
+
+/**
+ * Resumo antes/depois apenas dos campos alterados (textos longos truncados).
+ * Campos ausentes em `after` não foram alterados e ficam de fora.
+ */
+export function summarizeChanges(before: Record<string, any> | null | undefined, after: Record<string, any>) {
+  const summary: { before: Record<string, unknown>; after: Record<string, unknown> } = { before: {}, after: {} }
+  for (const key of Object.keys(after)) {
+    if (after[key] === undefined) continue
+    const previous = before ? before[key] : undefined
+    if (before && sameValue(previous, after[key])) continue
+    summary.before[key] = summaryValue(previous)
+    summary.after[key] = summaryValue(after[key])
+  }
+  return summary
+}
+
+export function buildAuditWhere(filters: AuditFilters) {
+  const where: any = {}
+  if (filters.actorId) where.actorId = filters.actorId
+  if (filters.action) where.action = filters.action.endsWith('.') ? { startsWith: filters.action } : filters.action
+  if (filters.targetType) where.targetType = filters.targetType
+  if (filters.targetId) where.targetId = filters.targetId
+  if (filters.from || filters.to) {
+    where.createdAt = {}
+    if (filters.from) where.createdAt.gte = filters.from
+    if (filters.to) where.createdAt.lte = filters.to
+  }
+  return where
+}
+
+const parseMetadata = (raw: string | null | undefined) => {
+  try {
+    return raw ? JSON.parse(raw) : {}
+  } catch {
+    return {}
+  }
+}
+
+export const serializeAuditEvent = (row: any) => ({
+  id: row.id,
+  createdAt: row.createdAt,
+  actorId: row.actorId,
+  actorEmail: row.actorEmail,
+  action: row.action,
+  targetType: row.targetType,
+  targetId: row.targetId,
+  metadata: parseMetadata(row.metadata),
+  ip: row.ip,
+  userAgent: row.userAgent,
+})
+
+export const AUDIT_CSV_HEADER = ['createdAt', 'actorId', 'actorEmail', 'action', 'targetType', 'targetId', 'ip', 'userAgent', 'metadata']
+
+export function auditEventsToCsv(rows: any[]) {
+  return toCsv([
+    AUDIT_CSV_HEADER,
+    ...rows.map((row) => [
+      row.createdAt,
+      row.actorId,
+      row.actorEmail,
+      row.action,
+      row.targetType,
+      row.targetId,
+      row.ip,
+      row.userAgent,
+      row.metadata,
+    ]),
+  ])
+}
+
+export class AuditService {
+  /**
+   * Grava um evento. Passe o `tx` da transação para o evento só existir se a ação for gravada.
+   * Ator, IP e user agent vêm da requisição atual quando não informados (src/middleware/requestContext.ts).
+   */
+  static async record(entry: AuditEntry, client: any = prismaAny) {
+    const ctx = getRequestContext()
+    const actor = entry.actor === undefined ? ctx?.actor ?? null : entry.actor
+    const actorEmail = actor?.email ?? (actor && ctx?.actor?.id === actor.id ? ctx.actor.email : null)
+    return client.auditEvent.create({
+      data: {
+        actorId: actor?.id ?? null,
+        actorEmail: actorEmail ?? null,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId ?? null,
+        metadata: JSON.stringify(entry.metadata ?? {}),
+        ip: entry.ip ?? ctx?.ip ?? null,
+        userAgent: entry.userAgent ?? ctx?.userAgent ?? null,
+      },
+    })
+  }
+
+  // Para ações já concluídas: falha na auditoria é logada, mas não desfaz nem interrompe a ação
+  static async log(entry: AuditEntry) {
+    try {
+      await this.record(entry)
+    } catch (error) {
+      console.error('[AUDIT] failed to record event:', entry.action, error)
+    }
+  }
+
+  static async list(filters: AuditFilters, pagination: Pagination) {
+    const where = buildAuditWhere(filters)
+    const [rows, total] = await Promise.all([
+      prismaAny.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      prismaAny.auditEvent.count({ where }),
+    ])
+    return { events: rows.map(serializeAuditEvent), total, page: pagination.page, pageSize: pagination.pageSize }
+  }
+
+  static async exportCsv(filters: AuditFilters) {
+    const rows = await prismaAny.auditEvent.findMany({
+      where: buildAuditWhere(filters),
+      orderBy: { createdAt: 'desc' },
+      take: AUDIT_EXPORT_MAX_ROWS,
+    })
+    return auditEventsToCsv(rows)
+  }
+}
@@ -1,6 +1,7 @@
 import bcrypt from 'bcryptjs'
 import prisma from '../config/database'
-import { signToken } from '../middleware/auth'
+import { AuditService } from './audit.service'
+import { AuthSessionService } from './authSession.service'
 import crypto from 'crypto'
 // Import direto; a declaração de tipos está em src/types/nodemailer.d.ts
 // Import com require para evitar problemas de resolução de tipos em tempo de compilação
@@ -67,11 +68,19 @@ export class AuthService {
           trialExpiresAt: null,
         },
       });
+      await AuditService.log({
+        actor: user,
+        action: 'auth.register',
+        targetType: 'User',
+        targetId: user.id,
+        metadata: { provider: 'google' },
+      });
     }
 
-    const token = signToken(user.id);
+    await AuditService.log({ actor: user, action: 'auth.google_login', targetType: 'User', targetId: user.id });
+    const { token, refreshToken } = await AuthSessionService.create(user.id);
 
-    return { user, token };
+    return { user, token, refreshToken };
   }
 
   static async registerUser(
@@ -103,42 +112,61 @@ export class AuthService {
         trialExpiresAt,
       },
     })
+    await AuditService.log({
+      actor: user,
+      action: 'auth.register',
+      targetType: 'User',
+      targetId: user.id,
+      metadata: { role: user.role, trialExpiresAt },
+    })
 
-    const token = signToken(user.id)
+    const { token, refreshToken } = await AuthSessionService.create(user.id)
 
-    return { user, token }
+    return { user, token, refreshToken }
   }
 
   static async login(email: string, password: string) {
     const user = await prisma.user.findUnique({ where: { email } })
+    const fail = async (reason: string, message: string) => {
+      await AuditService.log({
+        actor: null,
+        action: 'auth.login_failed',
+        targetType: 'User',
+        targetId: user?.id,
+        metadata: { email, reason },
+      })
+      return new Error(message)
+    }
 
     if (!user) {
-      throw new Error('Credenciais inválidas')
+      throw await fail('UNKNOWN_EMAIL', 'Credenciais inválidas')
     }
 
     const isValid = await bcrypt.compare(password, user.password)
 
     if (!isValid) {
-      throw new Error('Credenciais inválidas')
+      throw await fail('INVALID_PASSWORD', 'Credenciais inválidas')
     }
 
     if (!user.isActive) {
-      throw new Error('Usuário inativo')
+      throw await fail('INACTIVE', 'Usuário inativo')
     }
 
+    await AuditService.log({ actor: user, action: 'auth.login', targetType: 'User', targetId: user.id })
+
     // Se o trial expirou, rebaixa imediatamente para USER.
     if (user.role === 'TRIAL_ADMIN' && user.isTrial && user.trialExpiresAt && user.trialExpiresAt.getTime() <= Date.now()) {
       const downgraded = await prisma.user.update({
         where: { id: user.id },
         data: { role: 'USER', isTrial: false, trialExpiresAt: null },
       })
-      const token = signToken(downgraded.id)
-      return { user: downgraded, token }
+      const { token, refreshToken } = await AuthSessionService.create(downgraded.id)
+      return { user: downgraded, token, refreshToken }
     }
 
-    const token = signToken(user.id)
+    const { token, refreshToken } = await AuthSessionService.create(user.id)
 
-    return { user, token }
+    return { user, token, refreshToken }
   }
 
   /**
@@ -165,10 +193,11 @@ export class AuthService {
         isTrial: false,
       },
     })
+    await AuditService.log({ actor: user, action: 'auth.bootstrap_admin', targetType: 'User', targetId: user.id })
 
-    const token = signToken(user.id)
+    const { token, refreshToken } = await AuthSessionService.create(user.id)
 
-    return { user, token }
+    return { user, token, refreshToken }
   }
 
   // Solicitar recuperação de senha: gera token e envia e-mail
@@ -180,8 +209,19 @@ export class AuthService {
       return
     }
 
+    await this.sendPasswordResetLink(user)
+    await AuditService.log({ actor: null, action: 'auth.password_reset_requested', targetType: 'User', targetId: user.id })
+  }
+
+  /**
+   * Gera o token (PasswordResetToken) e envia o link por e-mail; sem e-mail, o token é descartado.
+   * forced: redefinição exigida pelo administrador (link válido por 24 horas).
+   */
+  static async sendPasswordResetLink(user: { id: string; name: string; email: string }, options: { forced?: boolean } = {}) {
+    const forced = !!options.forced
+
     const rawToken = crypto.randomBytes(32).toString('hex')
-    const expiresAt = new Date(Date.now() + 60 * 60 * 1000) // 1 hora
+    const expiresAt = new Date(Date.now() + (forced ? 24 : 1) * 60 * 60 * 1000)
 
     try {
       await (prisma as any).passwordResetToken.create({
@@ -211,10 +251,14 @@ export class AuthService {
         subject: 'Recuperação de senha - Sistema Arcanjo PLD',
         html: `
           <p>Olá, ${user.name}</p>
-          <p>Recebemos uma solicitação de redefinição de senha para sua conta.</p>
-          <p>Clique no link abaixo para criar uma nova senha (válido por 1 hora):</p>
+          ${
+            forced
+              ? '<p>O administrador do sistema solicitou a redefinição da senha da sua conta; a senha atual foi desativada.</p>'
+              : '<p>Recebemos uma solicitação de redefinição de senha para sua conta.</p>'
+          }
+          <p>Clique no link abaixo para criar uma nova senha (válido por ${forced ? '24 horas' : '1 hora'}):</p>
           <p><a href="${resetLink}">${resetLink}</a></p>
-          <p>Se você não solicitou esta alteração, ignore este e-mail.</p>
+          ${forced ? '' : '<p>Se você não solicitou esta alteração, ignore este e-mail.</p>'}
         `,
       })
     } catch (error: unknown) {
@@ -245,17 +289,26 @@ export class AuthService {
 
     const hashedPassword = await bcrypt.hash(newPassword, SALT_ROUNDS)
 
-    await prisma.$transaction([
-      prisma.user.update({
+    // Sessões abertas com a senha antiga são encerradas junto com a troca
+    const revokedSessions = await prisma.$transaction(async (tx: any) => {
+      await tx.user.update({
         where: { id: resetToken.userId },
         data: {
           password: hashedPassword,
         },
-      }),
-      (prisma as any).passwordResetToken.update({
+      })
+      await tx.passwordResetToken.update({
         where: { id: resetToken.id },
         data: { usedAt: new Date() },
-      }),
-    ])
+      })
+      return AuthSessionService.revokeAll(resetToken.userId, 'PASSWORD_RESET', {}, tx)
+    })
+    await AuditService.log({
+      actor: { id: resetToken.userId, email: resetToken.user?.email },
+      action: 'auth.password_reset',
+      targetType: 'User',
+      targetId: resetToken.userId,
+      metadata: { revokedSessions },
+    })
   }
 }
@@ -0,0 +1,160 @@
+import crypto from 'crypto'
+import prisma from '../config/database'
+import { isSessionActive, signToken } from '../middleware/auth'
+import { getRequestContext } from '../middleware/requestContext'
+import { AuditService } from './audit.service'
+
+const prismaAny = prisma as any
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type SessionRevokeReason =
+  | 'LOGOUT'
+  | 'REVOKED'
+  | 'REVOKED_ALL'
+  | 'PASSWORD_RESET'
+  | 'REUSE_DETECTED'
+  | 'USER_DEACTIVATED'
+  | 'ACCOUNT_DELETED'
+
+// Validade do refresh token, renovada a cada uso (sessão parada por mais tempo exige novo login)
+export const getRefreshTokenTtlDays = () => {
+  const parsed = Number.parseInt(process.env.REFRESH_TOKEN_TTL_DAYS ?? '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 30
+}
+
+export const hashRefreshToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex')
+
+const newRefreshToken = () => crypto.randomBytes(48).toString('base64url')
+
+const serializeSession = (row: any, currentSessionId?: string | null) => ({
+  id: row.id,
+  ip: row.ip,
+  userAgent: row.userAgent,
+  createdAt: row.createdAt,
+  lastUsedAt: row.lastUsedAt,
+  expiresAt: row.expiresAt,
+  current: row.id === currentSessionId,
+})
+
+const invalidSession = () => {
+  const err = new Error('Sessão inválida ou expirada. Faça login novamente.')
+  ;(err as any).code = 'SESSION_INVALID'
+  return err
+}
+
+export class AuthSessionService {
+  /**
+   * Abre uma sessão (login, cadastro, Google, bootstrap). IP e user agent vêm da requisição.
+   * Retorna o access token (JWT com o id da sessão) e o refresh token, que só existe na resposta.
+   */
+  static async create(userId: string) {
+    const ctx = getRequestContext()
+    const refreshToken = newRefreshToken()
+    const session = await prismaAny.authSession.create({
+      data: {
+        userId,
+        refreshTokenHash: hashRefreshToken(refreshToken),
+        ip: ctx?.ip ?? null,
+        userAgent: ctx?.userAgent ?? null,
+        expiresAt: new Date(Date.now() + getRefreshTokenTtlDays() * DAY_MS),
+      },
+    })
+    return { token: signToken(userId, session.id), refreshToken, sessionId: session.id }
+  }
+
+  /**
+   * Troca o refresh token por um novo par de tokens (rotação). O token anterior deixa de valer;
+   * se ele for reapresentado, a sessão é revogada (o token pode ter vazado).
+   */
+  static async refresh(refreshToken: string) {
+    const hash = hashRefreshToken(refreshToken)
+    const session = await prismaAny.authSession.findUnique({
+      where: { refreshTokenHash: hash },
+      include: { user: { select: { id: true, email: true, isActive: true } } },
+    })
+
+    if (!session) {
+      const rotated = await prismaAny.authSession.findUnique({ where: { previousTokenHash: hash } })
+      if (rotated && !rotated.revokedAt) {
+        await this.revokeById(rotated.id, 'REUSE_DETECTED')
+        await AuditService.log({
+          actor: null,
+          action: 'auth.session_reuse',
+          targetType: 'User',
+          targetId: rotated.userId,
+          metadata: { sessionId: rotated.id },
+        })
+      }
+      throw invalidSession()
+    }
+    if (!isSessionActive(session, session.userId) || !session.user?.isActive) throw invalidSession()
+
+    const ctx = getRequestContext()
+    const nextToken = newRefreshToken()
+    // Condicional: duas renovações simultâneas com o mesmo token => só uma vale
+    const rotated = await prismaAny.authSession.updateMany({
+      where: { id: session.id, refreshTokenHash: hash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashRefreshToken(nextToken),
+        previousTokenHash: hash,
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + getRefreshTokenTtlDays() * DAY_MS),
+        ip: ctx?.ip ?? session.ip,
+        userAgent: ctx?.userAgent ?? session.userAgent,
+      },
+    })
+    if (rotated.count === 0) throw invalidSession()
+
+    return { token: signToken(session.userId, session.id), refreshToken: nextToken, sessionId: session.id }
+  }
+
+  static async list(userId: string, currentSessionId?: string | null) {
+    const rows = await prismaAny.authSession.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+    })
+    return rows.map((row: any) => serializeSession(row, currentSessionId))
+  }
+
+  private static async revokeById(sessionId: string, reason: SessionRevokeReason) {
+    await prismaAny.authSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    })
+  }
+
+  // Encerra uma sessão do próprio usuário (logout ou revogação pela lista de sessões)
+  static async revoke(userId: string, sessionId: string, reason: 'LOGOUT' | 'REVOKED' = 'REVOKED') {
+    const session = await prismaAny.authSession.findUnique({ where: { id: sessionId } })
+    if (!session || session.userId !== userId || session.revokedAt) throw new Error('Sessão não encontrada')
+    await this.revokeById(sessionId, reason)
+    await AuditService.log({
+      action: reason === 'LOGOUT' ? 'auth.logout' : 'auth.session_revoke',
+      targetType: 'User',
+      targetId: userId,
+      metadata: { sessionId, ip: session.ip, userAgent: session.userAgent },
+    })
+  }
+
+  /**
+   * Revoga todas as sessões ativas do usuário (exceto `exceptSessionId`). Passe o `tx` para revogar
+   * na mesma transação da alteração que motivou (redefinição de senha, desativação, exclusão da conta).
+   */
+  static async revokeAll(
+    userId: string,
+    reason: SessionRevokeReason,
+    options: { exceptSessionId?: string | null } = {},
+    client: any = prismaAny
+  ): Promise<number> {
+    const result = await client.authSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(options.exceptSessionId ? { id: { not: options.exceptSessionId } } : {}),
+      },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    })
+    return result.count
+  }
+}
@@ -1,27 +1,30 @@
 import type { User } from '@prisma/client'
 import prisma from '../config/database'
 import Stripe from 'stripe'
+import { AuditService, summarizeChanges } from './audit.service'
+import { type ActiveOrganization, billingAccountOf } from './organization.service'
+import { billingDenial, hasPermission } from './permission.service'
+
+// Campos comparados no resumo antes/depois dos eventos do Stripe
+const SUBSCRIPTION_AUDIT_SELECT = {
+  stripeCustomerId: true,
+  stripeSubscriptionId: true,
+  subscriptionStatus: true,
+  subscriptionExpiresAt: true,
+}
 
-type EntitlementsUser = Pick<User, 'role' | 'isTrial' | 'trialExpiresAt' | 'subscriptionStatus' | 'subscriptionExpiresAt'>
+type EntitlementsUser = Pick<User, 'role' | 'isTrial' | 'trialExpiresAt' | 'subscriptionStatus' | 'subscriptionExpiresAt'> & {
+  organization?: ActiveOrganization | null
+}
 
 type Entitlements = {
   hasBuilderAccess: boolean
+  canEditBuilder: boolean
   maxBuilderSections: number | null
   maxBuilderQuestions: number | null
   trialExpiresAt: Date | null
   subscriptionStatus: string
-}
-
-function isTrialActive(user: EntitlementsUser) {
-  if (!user.isTrial) return false
-  if (!user.trialExpiresAt) return false
-  return user.trialExpiresAt.getTime() > Date.now()
-}
-
-function hasActiveSubscription(user: EntitlementsUser) {
-  if ((user.subscriptionStatus || '').toUpperCase() !== 'ACTIVE') return false
-  if (!user.subscriptionExpiresAt) return true
-  return new Date(user.subscriptionExpiresAt).getTime() > Date.now()
+  organization: { id: string; name: string; role: string; isOwner: boolean } | null
 }
 
 export class BillingService {
@@ -34,46 +37,25 @@ export class BillingService {
     return new Stripe(key, { apiVersion: '2025-12-15.clover' })
   }
 
+  /**
+   * Direitos da organização ativa: trial/assinatura do dono valem para todos os membros,
+   * limitados pelas permissões do papel do membro (ver permission.service).
+   */
   static getEntitlements(user: EntitlementsUser): Entitlements {
-    const subscriptionStatus = user.subscriptionStatus || 'NONE'
-
-    if (user.role === 'ADMIN') {
-      return {
-        hasBuilderAccess: true,
-        maxBuilderSections: null,
-        maxBuilderQuestions: null,
-        trialExpiresAt: user.trialExpiresAt ?? null,
-        subscriptionStatus,
-      }
-    }
-
-    if (user.role === 'TRIAL_ADMIN') {
-      const active = isTrialActive(user)
-      return {
-        hasBuilderAccess: active,
-        maxBuilderSections: active ? 3 : 0,
-        maxBuilderQuestions: active ? 3 : 0,
-        trialExpiresAt: user.trialExpiresAt ?? null,
-        subscriptionStatus,
-      }
-    }
-
-    if (hasActiveSubscription(user)) {
-      return {
-        hasBuilderAccess: true,
-        maxBuilderSections: null,
-        maxBuilderQuestions: null,
-        trialExpiresAt: user.trialExpiresAt ?? null,
-        subscriptionStatus,
-      }
-    }
+    const org = user.organization ?? null
+    const account = user.role === 'ADMIN' ? user : billingAccountOf(user)
+    const active = user.role === 'ADMIN' || !billingDenial(account)
+    // Trial: no máximo 3 seções e 3 perguntas; expirado/sem assinatura: nada
+    const limit = !active ? 0 : user.role !== 'ADMIN' && account.role === 'TRIAL_ADMIN' ? 3 : null
 
     return {
-      hasBuilderAccess: false,
-      maxBuilderSections: 0,
-      maxBuilderQuestions: 0,
-      trialExpiresAt: user.trialExpiresAt ?? null,
-      subscriptionStatus,
+      hasBuilderAccess: hasPermission(user, 'builder:read'),
+      canEditBuilder: hasPermission(user, 'builder:write'),
+      maxBuilderSections: limit,
+      maxBuilderQuestions: limit,
+      trialExpiresAt: account.trialExpiresAt ?? null,
+      subscriptionStatus: account.subscriptionStatus || 'NONE',
+      organization: org ? { id: org.id, name: org.name, role: org.role, isOwner: org.role === 'OWNER' } : null,
     }
   }
 
@@ -160,14 +142,23 @@ export class BillingService {
         expiresAt = typeof end === 'number' ? new Date(end * 1000) : null
       }
 
+      const before = await prisma.user.findUnique({ where: { id: userId }, select: SUBSCRIPTION_AUDIT_SELECT })
+      const data = {
+        stripeCustomerId: customerId || undefined,
+        stripeSubscriptionId: subscriptionId || undefined,
+        subscriptionStatus: 'ACTIVE',
+        subscriptionExpiresAt: expiresAt,
+      }
       await prisma.user.update({
         where: { id: userId },
-        data: {
-          stripeCustomerId: customerId || undefined,
-          stripeSubscriptionId: subscriptionId || undefined,
-          subscriptionStatus: 'ACTIVE',
-          subscriptionExpiresAt: expiresAt,
-        } as any,
+        data: data as any,
+      })
+      await AuditService.log({
+        actor: null,
+        action: 'billing.subscription_update',
+        targetType: 'User',
+        targetId: userId,
+        metadata: { source: 'stripe', eventId: event.id, eventType: event.type, ...summarizeChanges(before, data) },
       })
       return
     }
@@ -180,13 +171,27 @@ export class BillingService {
 
       const normalizedStatus = status === 'ACTIVE' || status === 'TRIALING' ? 'ACTIVE' : status
 
+      const data = {
+        subscriptionStatus: normalizedStatus,
+        subscriptionExpiresAt: normalizedStatus === 'ACTIVE' ? expiresAt : expiresAt,
+      }
+      const affected = await prisma.user.findMany({
+        where: { stripeSubscriptionId: subscriptionId } as any,
+        select: { id: true, ...SUBSCRIPTION_AUDIT_SELECT },
+      })
       await prisma.user.updateMany({
         where: { stripeSubscriptionId: subscriptionId } as any,
-        data: {
-          subscriptionStatus: normalizedStatus,
-          subscriptionExpiresAt: normalizedStatus === 'ACTIVE' ? expiresAt : expiresAt,
-        } as any,
+        data: data as any,
       })
+      for (const before of affected) {
+        await AuditService.log({
+          actor: null,
+          action: 'billing.subscription_update',
+          targetType: 'User',
+          targetId: before.id,
+          metadata: { source: 'stripe', eventId: event.id, eventType: event.type, ...summarizeChanges(before, data) },
+        })
+      }
       return
     }
   }
@@ -0,0 +1,405 @@
+import AdmZip from 'adm-zip'
+import bcrypt from 'bcryptjs'
+import crypto from 'crypto'
+import prisma from '../config/database'
+import { AUDIT_EXPORT_MAX_ROWS, AuditService, serializeAuditEvent } from './audit.service'
+import { AuthSessionService } from './authSession.service'
+import { FormTrashService, type PreparedPurge, formIdFromGeneratedFile } from './formTrash.service'
+import { RetentionService } from './retention.service'
+
+const prismaAny = prisma as any
+
+// Campos da pergunta preenchidos pelo respondente (saveUserFormResponses)
+export const RESPONDENT_ANSWER_FIELDS = [
+  'aplicavel',
+  'resposta',
+  'respostaTexto',
+  'deficienciaTexto',
+  'recomendacaoTexto',
+  'testStatus',
+  'testDescription',
+  'requisicaoRef',
+  'respostaTesteRef',
+  'amostraRef',
+  'evidenciasRef',
+  'actionOrigem',
+  'actionResponsavel',
+  'actionDescricao',
+  'actionDataApontamento',
+  'actionPrazoOriginal',
+  'actionPrazoAtual',
+  'actionComentarios',
+] as const
+
+const isFilled = (value: unknown) => value !== null && value !== undefined && value !== ''
+
+// Anexos enviados pelo respondente têm uploadedAt (os do builder vêm do snapshot sem ele)
+const respondentAttachments = (value: any) =>
+  (Array.isArray(value?.attachments) ? value.attachments : [])
+    .filter((att: any) => att?.uploadedAt)
+    .map((att: any) => ({
+      category: att.category ?? null,
+      originalName: att.originalName ?? att.filename ?? null,
+      mimeType: att.mimeType ?? null,
+      size: att.size ?? null,
+      uploadedAt: att.uploadedAt,
+    }))
+
+/**
+ * Respostas e anexos do respondente no snapshot do formulário, só nas seções dele
+ * (`sectionIds = null` => formulário inteiro). Perguntas sem resposta ficam de fora.
+ */
+export function extractRespondentAnswers(content: string | null | undefined, sectionIds: string[] | null) {
+  let payload: any = null
+  try {
+    payload = content ? JSON.parse(content) : null
+  } catch {
+    return { sections: [], files: [] }
+  }
+
+  const scope = sectionIds ? new Set(sectionIds) : null
+  const sections: any[] = []
+  const files: any[] = []
+  for (const section of Array.isArray(payload?.sections) ? payload.sections : []) {
+    if (scope && !scope.has(section?.id)) continue
+    const sectionId = section?.id ?? null
+    files.push(...respondentAttachments(section).map((f: any) => ({ sectionId, questionId: null, ...f })))
+
+    const questions = []
+    for (const question of Array.isArray(section?.questions) ? section.questions : []) {
+      const questionId = question?.id ?? null
+      files.push(...respondentAttachments(question).map((f: any) => ({ sectionId, questionId, ...f })))
+      const answer: Record<string, unknown> = {}
+      for (const field of RESPONDENT_ANSWER_FIELDS) {
+        if (isFilled(question?.[field])) answer[field] = question[field]
+      }
+      if (Object.keys(answer).length) questions.push({ id: questionId, texto: question?.texto ?? null, ...answer })
+    }
+    sections.push({
+      id: sectionId,
+      label: section?.customLabel || section?.item || null,
+      hasNorma: section?.hasNorma ?? null,
+      normaReferencia: section?.normaReferencia ?? null,
+      questions,
+    })
+  }
+  return { sections, files }
+}
+
+// Um JSON por arquivo, indentado para leitura
+export function buildDataExportZip(files: Record<string, unknown>) {
+  const zip = new AdmZip()
+  for (const [name, data] of Object.entries(files)) {
+    zip.addFile(name, Buffer.from(JSON.stringify(data, null, 2), 'utf-8'))
+  }
+  return zip.toBuffer()
+}
+
+export const anonymizedEmail = (userId: string) => `excluido-${userId}@anonimizado.invalid`
+
+const ANONYMIZED_NAME = 'Usuário excluído'
+
+export class DataSubjectService {
+  /**
+   * ZIP com os dados pessoais do titular: perfil e organizações, formulários atribuídos a ele (respostas),
+   * respostas do questionário padrão, metadados dos arquivos enviados e a trilha de auditoria.
+   */
+  static async exportPersonalData(userId: string) {
+    const user = await prismaAny.user.findUnique({
+      where: { id: userId },
+      include: {
+        organizationMemberships: {
+          select: { role: true, createdAt: true, organization: { select: { id: true, name: true, ownerId: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+    if (!user) throw new Error('Usuário não encontrado')
+    const email = String(user.email).toLowerCase()
+
+    const [forms, answers, actionPlanEvidences, auditEvents] = await Promise.all([
+      prismaAny.report.findMany({
+        where: {
+          type: 'BUILDER_FORM',
+          OR: [{ assignedToEmail: email }, { assignedToId: userId }, { assignments: { some: { email } } }],
+        },
+        orderBy: { createdAt: 'asc' },
+        include: {
+          organization: { select: { name: true } },
+          assignments: { where: { email } },
+        },
+      }),
+      prismaAny.answer.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+        include: {
+          question: { select: { title: true, topic: { select: { name: true } } } },
+          evidences: true,
+        },
+      }),
+      prismaAny.actionPlanEvidence.findMany({
+        where: { uploadedById: userId },
+        orderBy: { createdAt: 'asc' },
+        include: { item: { select: { reportId: true, questionText: true } } },
+      }),
+      prismaAny.auditEvent.findMany({
+        where: { OR: [{ actorId: userId }, { targetType: 'User', targetId: userId }] },
+        orderBy: { createdAt: 'asc' },
+        take: AUDIT_EXPORT_MAX_ROWS,
+      }),
+    ])
+
+    const formAttachments: any[] = []
+    const assignedForms = forms.map((form: any) => {
+      const part = form.assignments[0] ?? null
+      const { sections, files } = extractRespondentAnswers(form.content, part ? part.sectionIds : null)
+      formAttachments.push(...files.map((f: any) => ({ formId: form.id, formName: form.name, ...f })))
+      return {
+        id: form.id,
+        name: form.name,
+        organization: form.organization?.name ?? null,
+        status: part ? part.status : form.status,
+        sentAt: (part ? part.sentAt : form.sentAt) ?? null,
+        submittedAt: (part ? part.submittedAt : form.submittedAt) ?? null,
+        hidden: part ? part.hidden : form.hiddenForUser,
+        sections,
+      }
+    })
+
+    const buffer = buildDataExportZip({
+      'perfil.json': {
+        exportedAt: new Date().toISOString(),
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          isActive: user.isActive,
+          isTrial: user.isTrial,
+          trialExpiresAt: user.trialExpiresAt,
+          subscriptionStatus: user.subscriptionStatus,
+          subscriptionExpiresAt: user.subscriptionExpiresAt,
+          stripeCustomerId: user.stripeCustomerId,
+          createdAt: user.createdAt,
+          updatedAt: user.updatedAt,
+        },
+        organizations: user.organizationMemberships.map((m: any) => ({
+          id: m.organization.id,
+          name: m.organization.name,
+          role: m.role,
+          isOwner: m.organization.ownerId === user.id,
+          joinedAt: m.createdAt,
+        })),
+      },
+      'formularios-atribuidos.json': assignedForms,
+      'respostas-questionario.json': answers.map((a: any) => ({
+        id: a.id,
+        topic: a.question?.topic?.name ?? null,
+        question: a.question?.title ?? null,
+        response: a.response,
+        justification: a.justification,
+        testOption: a.testOption,
+        testDescription: a.testDescription,
+        correctiveActionPlan: a.correctiveActionPlan,
+        deficiency: a.deficiency,
+        recommendation: a.recommendation,
+        createdAt: a.createdAt,
+        updatedAt: a.updatedAt,
+      })),
+      'arquivos.json': {
+        formAttachments,
+        questionnaireEvidences: answers.flatMap((a: any) =>
+          a.evidences.map((e: any) => ({
+            answerId: a.id,
+            originalName: e.originalName,
+            mimeType: e.mimeType,
+            size: e.size,
+            category: e.category,
+            uploadedAt: e.uploadedAt,
+          }))
+        ),
+        actionPlanEvidences: actionPlanEvidences.map((e: any) => ({
+          formId: e.item?.reportId ?? null,
+          question: e.item?.questionText ?? null,
+          description: e.description,
+          originalName: e.originalName,
+          mimeType: e.mimeType,
+          size: e.size,
+          uploadedAt: e.createdAt,
+        })),
+      },
+      'auditoria.json': auditEvents.map(serializeAuditEvent),
+    })
+
+    await AuditService.log({
+      actor: { id: user.id, email: user.email },
+      action: 'user.data_export',
+      targetType: 'User',
+      targetId: user.id,
+      metadata: { assignedForms: assignedForms.length, answers: answers.length, auditEvents: auditEvents.length },
+    })
+    return { buffer, filename: `dados-pessoais_${new Date().toISOString().slice(0, 10)}.zip` }
+  }
+
+  /**
+   * Exclusão da conta pelo titular. Apaga os dados do próprio tenant (formulários da organização própria,
+   * configurações, respostas do questionário, tokens, vínculos) e anonimiza a linha do usuário.
+   * Formulários de outros tenants em que ele respondeu ou editou são preservados (obrigação legal do
+   * controlador, LGPD art. 16, I), assim como a trilha de auditoria, que fica sem e-mail/IP.
+   */
+  static async anonymizeAccount(userId: string, confirmEmail: string) {
+    const user = await prismaAny.user.findUnique({ where: { id: userId } })
+    if (!user || user.anonymizedAt) throw new Error('Usuário não encontrado')
+    if (String(confirmEmail).trim().toLowerCase() !== String(user.email).toLowerCase()) {
+      throw new Error('Confirme a exclusão informando o e-mail da conta')
+    }
+    if (user.role === 'ADMIN') throw new Error('Administradores não podem excluir a própria conta')
+    if (user.stripeSubscriptionId && String(user.subscriptionStatus).toUpperCase() === 'ACTIVE') {
+      throw new Error('Cancele a assinatura antes de excluir a conta')
+    }
+
+    const ownOrganization = await prismaAny.organization.findUnique({
+      where: { ownerId: userId },
+      select: { id: true, _count: { select: { members: true } } },
+    })
+    if (ownOrganization && ownOrganization._count.members > 1) {
+      throw new Error('Remova os demais membros da sua organização antes de excluir a conta')
+    }
+
+    const ownFormsWhere = {
+      type: 'BUILDER_FORM',
+      OR: [...(ownOrganization ? [{ organizationId: ownOrganization.id }] : []), { userId, organizationId: null }],
+    }
+    const ownForms = await prismaAny.report.findMany({ where: ownFormsWhere })
+    const held = await RetentionService.loadHeldTargets()
+    if (
+      held.userIds.includes(userId) ||
+      (ownOrganization && held.organizationIds.includes(ownOrganization.id)) ||
+      ownForms.some((f: any) => held.reportIds.includes(f.id))
+    ) {
+      throw new Error('Conta sob preservação legal: a exclusão não pode ser concluída agora')
+    }
+
+    // Formulários do próprio tenant: mesma exclusão definitiva da lixeira (relatórios, plano de ação e arquivos),
+    // com os registros apagados na transação da anonimização e os arquivos só depois do commit
+    const purges: PreparedPurge[] = []
+    for (const form of ownForms) purges.push(await FormTrashService.preparePurge(form))
+    const purgedIds = new Set(purges.flatMap((p) => [p.report.id, ...p.generated.map((g) => g.id)]))
+
+    // Relatórios gerados de formulários de outros tenants continuam com eles
+    const generated = (
+      await prismaAny.report.findMany({
+        where: { userId, type: { not: 'BUILDER_FORM' } },
+        select: { id: true, filePath: true, sourceFormId: true },
+      })
+    ).filter((r: any) => !purgedIds.has(r.id))
+    const sourceOf = (r: any): string | null => r.sourceFormId ?? formIdFromGeneratedFile(r.filePath)
+    const sourceIds = [...new Set(generated.map(sourceOf).filter(Boolean))]
+    const remainingSources = sourceIds.length
+      ? await prismaAny.report.findMany({ where: { id: { in: sourceIds } }, select: { id: true } })
+      : []
+    const keptSources = new Set(remainingSources.map((r: any) => r.id).filter((id: string) => !purgedIds.has(id)))
+    const removableReports = generated.filter((r: any) => !keptSources.has(sourceOf(r)))
+
+    const [evidences, builderAttachments] = await Promise.all([
+      prismaAny.evidence.findMany({ where: { answer: { userId } }, select: { path: true } }),
+      ownOrganization
+        ? prismaAny.pldAttachment.findMany({
+            where: {
+              OR: [
+                { section: { organizationId: ownOrganization.id } },
+                { question: { section: { organizationId: ownOrganization.id } } },
+              ],
+            },
+            select: { path: true },
+          })
+        : [],
+    ])
+
+    const unusable = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10)
+    const email = String(user.email).toLowerCase()
+    const pseudonym = anonymizedEmail(userId)
+    // Tudo ou nada, inclusive os formulários próprios: o limite padrão da transação (5 s) é curto para contas maiores
+    await prismaAny.$transaction(async (tx: any) => {
+      for (const purge of purges) await FormTrashService.deletePurgeRecords(purge, tx)
+      if (removableReports.length) {
+        await tx.report.deleteMany({ where: { id: { in: removableReports.map((r: any) => r.id) } } })
+      }
+      await tx.answer.deleteMany({ where: { userId } })
+      await tx.passwordResetToken.deleteMany({ where: { userId } })
+      await AuthSessionService.revokeAll(userId, 'ACCOUNT_DELETED', {}, tx)
+      await tx.reminderLog.deleteMany({ where: { email } })
+      await tx.reminderSettings.deleteMany({ where: { ownerId: userId } })
+      await tx.scoringRuleSet.deleteMany({ where: { ownerId: userId } })
+      await tx.reportTemplate.deleteMany({ where: { ownerId: userId } })
+      await tx.topic.updateMany({ where: { assignedToId: userId }, data: { assignedToId: null } })
+      await tx.pldSection.updateMany({ where: { createdById: userId }, data: { createdById: null } })
+      await tx.pldTemplate.updateMany({ where: { createdById: userId }, data: { createdById: null } })
+      await tx.organizationMember.deleteMany({ where: { userId } })
+      // Seções, perguntas e templates do builder próprio vão em cascata
+      if (ownOrganization) await tx.organization.delete({ where: { id: ownOrganization.id } })
+
+      // Formulários de outros tenants: o respondente/autor passa a ser o pseudônimo da conta
+      const byEmail = { equals: email, mode: 'insensitive' }
+      const assignments = await tx.reportAssignment.updateMany({ where: { email: byEmail }, data: { email: pseudonym } })
+      const assignedForms = await tx.report.updateMany({
+        where: { assignedToEmail: byEmail },
+        data: { assignedToEmail: pseudonym },
+      })
+      const revisions = await tx.reportRevision.updateMany({
+        where: { OR: [{ authorId: userId }, { authorEmail: byEmail }] },
+        data: { authorEmail: pseudonym },
+      })
+
+      await AuditService.record(
+        {
+          actor: { id: userId, email: null },
+          action: 'user.anonymize',
+          targetType: 'User',
+          targetId: userId,
+          metadata: {
+            formsPurged: ownForms.length,
+            generatedReportsDeleted: removableReports.length,
+            generatedReportsKept: generated.length - removableReports.length,
+            otherTenantsPseudonymized: {
+              assignments: assignments.count,
+              forms: assignedForms.count,
+              revisions: revisions.count,
+            },
+          },
+        },
+        tx
+      )
+      // A trilha continua com o actorId (pseudônimo), sem e-mail, IP e user agent
+      await tx.auditEvent.updateMany({
+        where: { actorId: userId },
+        data: { actorEmail: null, ip: null, userAgent: null },
+      })
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          email: pseudonym,
+          name: ANONYMIZED_NAME,
+          password: unusable,
+          role: 'USER',
+          isActive: false,
+          isTrial: false,
+          trialExpiresAt: null,
+          subscriptionStatus: 'NONE',
+          subscriptionExpiresAt: null,
+          stripeCustomerId: null,
+          stripeSubscriptionId: null,
+          anonymizedAt: new Date(),
+        },
+      })
+    }, { timeout: 60_000 })
+
+    for (const purge of purges) await FormTrashService.finishPurge(purge, 'ACCOUNT_DELETION')
+    await FormTrashService.deleteUnreferencedFiles([
+      ...evidences.map((e: any) => e.path),
+      ...builderAttachments.map((a: any) => a.path),
+      ...removableReports.map((r: any) => r.filePath),
+    ])
+    return { success: true }
+  }
+}
@@ -11,6 +11,7 @@
  * - Upload e exclusão de arquivos
  */
 import prisma from '../config/database'
+import { AuditService, summarizeChanges } from './audit.service'
 
 export class FormService {
   // =========== TÓPICOS ===========
@@ -31,7 +32,7 @@ export class FormService {
     // Conta tópicos existentes para definir ordem
     const count = await prisma.topic.count()
 
-    return await prisma.topic.create({
+    const topic = await prisma.topic.create({
       data: {
         name,
         description,
@@ -40,16 +41,18 @@ export class FormService {
         userId,
       },
     })
+    await AuditService.log({ action: 'topic.create', targetType: 'Topic', targetId: topic.id, metadata: { name } })
+    return topic
   }
 
   /**
    * Lista tópicos com perguntas e respostas do usuário atual
-   * ADMIN vê todos os tópicos; USER vê apenas os atribuídos a ele
+   * Quem tem topics:manage vê todos os tópicos; os demais só os atribuídos a eles
    */
-  static async getTopics(userId: string, role: string) {
+  static async getTopics(userId: string, canManageTopics: boolean) {
     const where: any = { isActive: true }
 
-    if (role !== 'ADMIN') {
+    if (!canManageTopics) {
       where.assignedToId = userId
     }
 
@@ -151,6 +154,7 @@ export class FormService {
 
     // Deletar; cascade definido no schema
     await prisma.topic.delete({ where: { id: topicId } })
+    await AuditService.log({ action: 'topic.delete', targetType: 'Topic', targetId: topicId, metadata: { name: topic.name } })
 
     // Reordenar restantes
     const remaining = await prisma.topic.findMany({ orderBy: { order: 'asc' } })
@@ -204,9 +208,9 @@ export class FormService {
     questionId: string,
     isApplicable: boolean,
     actorId: string,
-    actorRole: string
+    canManageTopics: boolean
   ) {
-    if (actorRole === 'ADMIN') {
+    if (canManageTopics) {
       return await prisma.question.update({
         where: { id: questionId },
         data: { isApplicable },
@@ -393,21 +397,29 @@ export class FormService {
       throw new Error('Resposta do usuário não encontrada para esta pergunta')
     }
 
-    return await prisma.answer.update({
+    const data = {
+      response,
+      justification,
+      deficiency: response ? null : deficiency,
+      recommendation: response ? null : recommendation,
+      testOption,
+      testDescription,
+      correctiveActionPlan,
+    }
+    const updated = await prisma.answer.update({
       where: { id: existingAnswer.id },
-      data: {
-        response,
-        justification,
-        deficiency: response ? null : deficiency,
-        recommendation: response ? null : recommendation,
-        testOption,
-        testDescription,
-        correctiveActionPlan,
-      },
+      data,
       include: {
         evidences: true,
       },
     })
+    await AuditService.log({
+      action: 'answer.admin_update',
+      targetType: 'Answer',
+      targetId: existingAnswer.id,
+      metadata: { questionId, assigneeId, ...summarizeChanges(existingAnswer, data) },
+    })
+    return updated
   }
   
   // Buscar resposta de uma pergunta
@@ -431,7 +443,7 @@ export class FormService {
     mimeType: string,
     size: number
   ) {
-    return await prisma.evidence.create({
+    const evidence = await prisma.evidence.create({
       data: {
         filename,
         originalName,
@@ -441,13 +453,27 @@ export class FormService {
         answerId
       }
     })
+    await AuditService.log({
+      action: 'evidence.upload',
+      targetType: 'Evidence',
+      targetId: evidence.id,
+      metadata: { answerId, originalName, path, size },
+    })
+    return evidence
   }
   
   // Remover evidência
   static async removeEvidence(evidenceId: string) {
-    return await prisma.evidence.delete({
+    const evidence = await prisma.evidence.delete({
       where: { id: evidenceId }
     })
+    await AuditService.log({
+      action: 'evidence.delete',
+      targetType: 'Evidence',
+      targetId: evidenceId,
+      metadata: { answerId: evidence.answerId, originalName: evidence.originalName, path: evidence.path },
+    })
+    return evidence
   }
   
   // =========== PROGRESSO ===========
@@ -627,6 +653,16 @@ export class FormService {
         },
       },
     })
+    await AuditService.log({
+      action: 'topic.assign',
+      targetType: 'Topic',
+      targetId: topicId,
+      metadata: {
+        name: topic.name,
+        before: { assignedToId: topic.assignedToId ?? null, status: topic.status },
+        after: { assignedToId: user.id, email: user.email, status: 'ASSIGNED' },
+      },
+    })
 
     return updated as any
   }
@@ -660,6 +696,12 @@ export class FormService {
       },
     })
 
+    await AuditService.log({
+      action: 'topic.assign',
+      targetType: 'Topic',
+      metadata: { topicIds: topics.map((t) => t.id), after: { assignedToId: user.id, email: user.email, status: 'ASSIGNED' } },
+    })
+
     const updatedTopics = await (prisma as any).topic.findMany({
       where: {
         userId: adminId,
@@ -690,10 +732,17 @@ export class FormService {
       throw new Error('Tópico não está em edição para ser enviado')
     }
 
-    return await (prisma as any).topic.update({
+    const updated = await (prisma as any).topic.update({
       where: { id: topicId },
       data: { status: 'SUBMITTED' },
     })
+    await AuditService.log({
+      action: 'topic.submit',
+      targetType: 'Topic',
+      targetId: topicId,
+      metadata: { before: { status: (topic as any).status }, after: { status: 'SUBMITTED' } },
+    })
+    return updated
   }
 
   // USER: enviar TODOS os tópicos atribuídos para revisão do administrador
@@ -724,6 +773,11 @@ export class FormService {
         status: 'SUBMITTED',
       },
     })
+    await AuditService.log({
+      action: 'topic.submit',
+      targetType: 'Topic',
+      metadata: { topicIds: topics.map((t: any) => t.id), after: { status: 'SUBMITTED' } },
+    })
 
     const updated = await (prisma as any).topic.findMany({
       where: {
@@ -742,21 +796,28 @@ export class FormService {
       throw new Error('Tópico não encontrado')
     }
 
-    // Permissão: a rota já exige admin (requireAdmin).
+    // Permissão: a rota já exige topics:manage (requirePermission).
     // Regra de workflow: só pode devolver quando estiver em revisão.
     if (topic.status !== 'SUBMITTED' && topic.status !== 'IN_REVIEW') {
       throw new Error('Tópico não está enviado para revisão')
     }
 
-    return await (prisma as any).topic.update({
+    const updated = await (prisma as any).topic.update({
       where: { id: topicId },
       data: { status: 'RETURNED' },
     })
+    await AuditService.log({
+      action: 'topic.return',
+      targetType: 'Topic',
+      targetId: topicId,
+      metadata: { before: { status: topic.status }, after: { status: 'RETURNED' } },
+    })
+    return updated
   }
 
   // ADMIN: devolver TODOS os tópicos enviados de um usuário para ajustes
   static async returnAllTopicsForUser(assigneeId: string, adminId: string) {
-    await (prisma as any).topic.updateMany({
+    const { count } = await (prisma as any).topic.updateMany({
       where: {
         assignedToId: assigneeId,
         isActive: true,
@@ -766,6 +827,11 @@ export class FormService {
       },
       data: { status: 'RETURNED' },
     })
+    await AuditService.log({
+      action: 'topic.return',
+      targetType: 'Topic',
+      metadata: { assigneeId, topics: count, after: { status: 'RETURNED' } },
+    })
 
     const updated = await (prisma as any).topic.findMany({
       where: {
@@ -784,14 +850,21 @@ export class FormService {
       throw new Error('Tópico não encontrado')
     }
 
-    // Permissão: a rota já exige admin (requireAdmin).
+    // Permissão: a rota já exige topics:manage (requirePermission).
     if (topic.status !== 'SUBMITTED' && topic.status !== 'IN_REVIEW') {
       throw new Error('Tópico não está enviado para revisão')
     }
 
-    return await (prisma as any).topic.update({
+    const updated = await (prisma as any).topic.update({
       where: { id: topicId },
       data: { status: 'COMPLETED' },
     })
+    await AuditService.log({
+      action: 'topic.approve',
+      targetType: 'Topic',
+      targetId: topicId,
+      metadata: { before: { status: topic.status }, after: { status: 'COMPLETED' } },
+    })
+    return updated
   }
 }
\ No newline at end of file
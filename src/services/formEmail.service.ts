@@ -238,3 +238,145 @@ export const sendFormReturnedEmail = async (params: {
     html,
   })
 }
+
+/**
+ * Template de email para lembrete de formulário pendente de preenchimento
+ */
+export const sendFormReminderEmail = async (params: {
+  to: string
+  formName: string
+  formId: string
+  pendingDays: number
+}) => {
+  const { to, formName, formId, pendingDays } = params
+  const appUrl = process.env.APP_URL || 'http://localhost:5173'
+  const formUrl = `${appUrl}/user/form/${formId}`
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #d97706; color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+        .content { background: #f8fafc; padding: 30px; border: 1px solid #e2e8f0; }
+        .button { 
+          display: inline-block; 
+          background: #d97706; 
+          color: white; 
+          padding: 12px 30px; 
+          text-decoration: none; 
+          border-radius: 8px; 
+          font-weight: bold; 
+          margin: 20px 0;
+        }
+        .footer { padding: 20px; text-align: center; color: #64748b; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="margin: 0;">⏰ Formulário Aguardando Preenchimento</h1>
+        </div>
+        
+        <div class="content">
+          <p>Olá,</p>
+          
+          <p>O formulário <strong>${formName}</strong> está pendente há ${pendingDays} dia(s).</p>
+          
+          <p>Por favor, acesse o link abaixo para concluir o preenchimento e enviá-lo para revisão:</p>
+          
+          <p style="text-align: center;">
+            <a href="${formUrl}" class="button">Acessar Formulário</a>
+          </p>
+        </div>
+        
+        <div class="footer">
+          <p>Este é um email automático do sistema Arcanjo PLD.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `
+
+  await EmailService.sendMail({
+    to,
+    subject: `[Lembrete] Formulário PLD pendente: ${formName}`,
+    html,
+  })
+}
+
+/**
+ * Template de email para lembrete de prazo do plano de ação (a vencer ou vencido)
+ */
+export const sendActionPlanReminderEmail = async (params: {
+  to: string
+  formName: string
+  questionText: string
+  prazo: Date
+  overdue: boolean
+  descricao?: string | null
+}) => {
+  const { to, formName, questionText, prazo, overdue, descricao } = params
+  const appUrl = process.env.APP_URL || 'http://localhost:5173'
+  const planUrl = `${appUrl}/action-plans`
+  const prazoLabel = prazo.toLocaleDateString('pt-BR', { timeZone: 'UTC' })
+  const color = overdue ? '#dc2626' : '#d97706'
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: ${color}; color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+        .content { background: #f8fafc; padding: 30px; border: 1px solid #e2e8f0; }
+        .button { 
+          display: inline-block; 
+          background: ${color}; 
+          color: white; 
+          padding: 12px 30px; 
+          text-decoration: none; 
+          border-radius: 8px; 
+          font-weight: bold; 
+          margin: 20px 0;
+        }
+        .footer { padding: 20px; text-align: center; color: #64748b; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="margin: 0;">${overdue ? '🚨 Plano de Ação Atrasado' : '⏰ Prazo do Plano de Ação se Aproximando'}</h1>
+        </div>
+        
+        <div class="content">
+          <p>Olá,</p>
+          
+          <p>${overdue ? 'O prazo do item abaixo venceu' : 'O prazo do item abaixo vence em breve'}: <strong>${prazoLabel}</strong>.</p>
+          
+          <p><strong>Formulário:</strong> ${formName}</p>
+          <p><strong>Pergunta:</strong> ${questionText}</p>
+          ${descricao ? `<p><strong>Ação:</strong> ${descricao}</p>` : ''}
+          
+          <p style="text-align: center;">
+            <a href="${planUrl}" class="button">Acessar Plano de Ação</a>
+          </p>
+        </div>
+        
+        <div class="footer">
+          <p>Este é um email automático do sistema Arcanjo PLD.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `
+
+  await EmailService.sendMail({
+    to,
+    subject: `${overdue ? '[Atrasado]' : '[Lembrete]'} Plano de ação: ${formName}`,
+    html,
+  })
+}
@@ -0,0 +1,362 @@
+import prisma from '../config/database'
+import { deleteStoredFile } from '../config/storage'
+import { AuditService } from './audit.service'
+import { assertPermission } from './permission.service'
+import type { BuilderActor } from './pldBuilder.service'
+import {
+  DEFAULT_RETENTION_POLICIES,
+  RetentionService,
+  buildRetentionWhere,
+  retentionCutoff,
+  unheldFormsWhere,
+} from './retention.service'
+
+const prismaAny = prisma as any
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Dias na lixeira antes da exclusão definitiva (0 desliga a exclusão automática)
+export const getTrashRetentionDays = () => {
+  const parsed = Number.parseInt(process.env.TRASH_RETENTION_DAYS ?? '', 10)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 30
+}
+
+export const trashPurgeAt = (hiddenAt: Date | string | null | undefined, retentionDays = getTrashRetentionDays()) =>
+  hiddenAt && retentionDays > 0 ? new Date(new Date(hiddenAt).getTime() + retentionDays * DAY_MS) : null
+
+// A lixeira não encurta a retenção mínima de BUILDER_FORM (contada como em buildRetentionWhere).
+// Função, não constante: retention.service também importa este módulo.
+const formMinRetentionDays = () => DEFAULT_RETENTION_POLICIES.BUILDER_FORM.minDays
+
+export const formRetainedUntil = (
+  form: { reviewedAt?: Date | string | null; submittedAt?: Date | string | null; createdAt: Date | string },
+  minDays = formMinRetentionDays()
+) => new Date(new Date(form.reviewedAt ?? form.submittedAt ?? form.createdAt).getTime() + minDays * DAY_MS)
+
+/**
+ * Caminhos dos anexos gravados no snapshot do formulário (seções e perguntas), sem repetição.
+ */
+export function collectFormAttachmentPaths(content: string | null | undefined): string[] {
+  let payload: any = null
+  try {
+    payload = content ? JSON.parse(content) : null
+  } catch {
+    return []
+  }
+  const paths = new Set<string>()
+  const collect = (attachments: unknown) => {
+    for (const att of Array.isArray(attachments) ? attachments : []) {
+      if (typeof att?.path === 'string' && att.path.trim()) paths.add(att.path.trim())
+    }
+  }
+  for (const section of Array.isArray(payload?.sections) ? payload.sections : []) {
+    collect(section?.attachments)
+    for (const question of Array.isArray(section?.questions) ? section.questions : []) collect(question?.attachments)
+  }
+  return [...paths]
+}
+
+// Arquivos gerados a partir do formulário (relatórios, planilhas e dossiês)
+export const generatedReportsWhere = (formId: string) => ({
+  type: 'BUILDER_FORM_USER_REPORT',
+  OR: [
+    { sourceFormId: formId },
+    { filePath: { contains: `pld-form-report-${formId}-` } },
+    { filePath: { contains: `pld-form-dossier-${formId}-` } },
+  ],
+})
+
+// Id do formulário no nome do arquivo gerado (relatórios antigos, sem sourceFormId)
+export const formIdFromGeneratedFile = (filePath: string | null | undefined) =>
+  /pld-form-(?:report|dossier)-([^-/]+)-/.exec(filePath ?? '')?.[1] ?? null
+
+// RETENTION = lixeira vencida; RETENTION_POLICY = política de retenção (src/services/retention.service.ts);
+// ACCOUNT_DELETION = exclusão da conta pelo titular (src/services/dataSubject.service.ts)
+export type PurgeReason = 'MANUAL' | 'RETENTION' | 'RETENTION_POLICY' | 'ACCOUNT_DELETION'
+
+export type PreparedPurge = {
+  report: any
+  evidences: Array<{ path: string | null }>
+  generated: Array<{ id: string; filePath: string | null }>
+}
+
+const TRASH_SELECT = {
+  id: true,
+  name: true,
+  status: true,
+  createdAt: true,
+  submittedAt: true,
+  reviewedAt: true,
+  hiddenForAdminAt: true,
+  organizationId: true,
+}
+
+export class FormTrashService {
+  private static async loadOwnedTrashedForm(formId: string, actor: BuilderActor) {
+    const report = await prismaAny.report.findUnique({ where: { id: formId } })
+    if (!report || report.type !== 'BUILDER_FORM' || !report.hiddenForAdmin) {
+      throw new Error('Formulário não encontrado na lixeira')
+    }
+    if (actor.role !== 'ADMIN' && report.organizationId !== actor.organization?.id) {
+      throw new Error('Você não tem permissão para gerenciar este formulário')
+    }
+    return report
+  }
+
+  // Lixeira do dono: formulários ocultos com deleteForm (mesmo escopo de listConcludedForms)
+  static async listOwnerTrash(actor: BuilderActor) {
+    assertPermission(actor, 'builder:read')
+    const where: any = { type: 'BUILDER_FORM', hiddenForAdmin: true }
+    if (actor.role !== 'ADMIN') {
+      if (!actor.organization) throw new Error('Organização não encontrada')
+      where.organizationId = actor.organization.id
+    }
+
+    const retentionDays = getTrashRetentionDays()
+    const reports = await prismaAny.report.findMany({ where, select: TRASH_SELECT, orderBy: { hiddenForAdminAt: 'desc' } })
+    return reports.map((r: any) => {
+      const purgeAt = trashPurgeAt(r.hiddenForAdminAt, retentionDays)
+      const retainedUntil = formRetainedUntil(r)
+      return {
+        id: r.id,
+        name: r.name,
+        status: r.status,
+        createdAt: r.createdAt,
+        hiddenAt: r.hiddenForAdminAt,
+        purgeAt: purgeAt && purgeAt < retainedUntil ? retainedUntil : purgeAt,
+      }
+    })
+  }
+
+  static async restoreForOwner(formId: string, actor: BuilderActor) {
+    assertPermission(actor, 'builder:write')
+    const report = await this.loadOwnedTrashedForm(formId, actor)
+    await prismaAny.report.update({ where: { id: formId }, data: { hiddenForAdmin: false, hiddenForAdminAt: null } })
+    await AuditService.log({
+      action: 'form.restore_for_owner',
+      targetType: 'Report',
+      targetId: formId,
+      metadata: { name: report.name, hiddenAt: report.hiddenForAdminAt },
+    })
+    return { success: true }
+  }
+
+  static async purgeForOwner(formId: string, actor: BuilderActor) {
+    assertPermission(actor, 'builder:write')
+    const report = await this.loadOwnedTrashedForm(formId, actor)
+
+    const retainedUntil = formRetainedUntil(report)
+    if (retainedUntil.getTime() > Date.now()) {
+      throw new Error(
+        `Formulário em retenção mínima de ${formMinRetentionDays()} dias (até ${retainedUntil.toISOString().slice(0, 10)})`
+      )
+    }
+    const held = await RetentionService.loadHeldTargets()
+    const unheld = await prismaAny.report.count({ where: { id: report.id, ...unheldFormsWhere(held) } })
+    if (!unheld) {
+      throw new Error('Formulário sob preservação legal: a exclusão definitiva está bloqueada')
+    }
+
+    return this.purgeForm(report, 'MANUAL')
+  }
+
+  // Lixeira do respondente: formulários (ou partes) que ele ocultou com deleteUserForm
+  static async listRespondentTrash(email: string) {
+    const normalizedEmail = email.toLowerCase()
+    const reports = await prismaAny.report.findMany({
+      where: {
+        type: 'BUILDER_FORM',
+        OR: [
+          { assignedToEmail: normalizedEmail, hiddenForUser: true },
+          { assignments: { some: { email: normalizedEmail, hidden: true } } },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        createdAt: true,
+        hiddenForUserAt: true,
+        assignments: { where: { email: normalizedEmail }, select: { status: true, hiddenAt: true } },
+      },
+    })
+    return reports.map((r: any) => {
+      const assignment = r.assignments[0] ?? null
+      return {
+        id: r.id,
+        name: r.name,
+        status: assignment?.status ?? r.status,
+        createdAt: r.createdAt,
+        hiddenAt: assignment ? assignment.hiddenAt : r.hiddenForUserAt,
+      }
+    })
+  }
+
+  static async restoreForRespondent(formId: string, email: string) {
+    const normalizedEmail = email.toLowerCase()
+    const report = await prismaAny.report.findUnique({
+      where: { id: formId },
+      include: { assignments: { where: { email: normalizedEmail } } },
+    })
+    if (!report || report.type !== 'BUILDER_FORM') throw new Error('Formulário não encontrado na lixeira')
+
+    const assignment = report.assignments[0]
+    if (assignment?.hidden) {
+      await prismaAny.reportAssignment.update({ where: { id: assignment.id }, data: { hidden: false, hiddenAt: null } })
+    } else if (report.assignedToEmail === normalizedEmail && report.hiddenForUser) {
+      await prismaAny.report.update({ where: { id: formId }, data: { hiddenForUser: false, hiddenForUserAt: null } })
+    } else {
+      throw new Error('Formulário não encontrado na lixeira')
+    }
+
+    await AuditService.log({
+      action: 'form.restore_for_respondent',
+      targetType: 'Report',
+      targetId: formId,
+      metadata: { name: report.name, email: normalizedEmail, assignmentId: assignment?.id ?? null },
+    })
+    return { success: true }
+  }
+
+  /**
+   * Exclusão definitiva: o formulário (revisões, divisões e plano de ação vão em cascata), os relatórios
+   * gerados a partir dele e os arquivos (anexos do snapshot, evidências do plano de ação, relatórios).
+   * Arquivos ainda referenciados por outro registro são mantidos.
+   */
+  static async purgeForm(report: any, reason: PurgeReason) {
+    const prepared = await this.preparePurge(report)
+    await prismaAny.$transaction((tx: any) => this.deletePurgeRecords(prepared, tx))
+    return this.finishPurge(prepared, reason)
+  }
+
+  /**
+   * purgeForm em etapas, para apagar os registros dentro de outra transação (exclusão da conta):
+   * preparePurge lê os dependentes, deletePurgeRecords(tx) apaga os registros e, depois do commit,
+   * finishPurge remove os arquivos sem referência e registra o evento.
+   */
+  static async preparePurge(report: any): Promise<PreparedPurge> {
+    const evidences = await prismaAny.actionPlanEvidence.findMany({
+      where: { item: { reportId: report.id } },
+      select: { path: true },
+    })
+    const generated = await prismaAny.report.findMany({
+      where: generatedReportsWhere(report.id),
+      select: { id: true, filePath: true },
+    })
+    return { report, evidences, generated }
+  }
+
+  static async deletePurgeRecords(prepared: PreparedPurge, tx: any) {
+    const { report, generated } = prepared
+    if (generated.length) await tx.report.deleteMany({ where: { id: { in: generated.map((g) => g.id) } } })
+    await tx.report.delete({ where: { id: report.id } })
+  }
+
+  static async finishPurge(prepared: PreparedPurge, reason: PurgeReason) {
+    const { report, evidences, generated } = prepared
+    const { filesDeleted, filesKept } = await this.deleteUnreferencedFiles([
+      ...collectFormAttachmentPaths(report.content),
+      ...evidences.map((e) => e.path),
+      ...generated.map((g) => g.filePath),
+    ])
+
+    await AuditService.log({
+      actor: reason === 'MANUAL' ? undefined : null,
+      action: 'form.purge',
+      targetType: 'Report',
+      targetId: report.id,
+      metadata: {
+        name: report.name,
+        reason,
+        organizationId: report.organizationId ?? null,
+        hiddenAt: report.hiddenForAdminAt,
+        generatedReports: generated.length,
+        filesDeleted,
+        filesKept,
+      },
+    })
+    return { success: true, generatedReports: generated.length, filesDeleted, filesKept: filesKept.length }
+  }
+
+  // Chamar depois de excluir os registros: arquivos ainda referenciados (ou com falha na exclusão) ficam em filesKept
+  static async deleteUnreferencedFiles(paths: Array<string | null | undefined>) {
+    const unique = [...new Set(paths.filter((p): p is string => !!p))]
+    if (!unique.length) return { filesDeleted: 0, filesKept: [] as string[] }
+
+    let referenced: Set<string>
+    try {
+      referenced = await this.referencedPaths(unique)
+    } catch (error) {
+      console.error('[TRASH] failed to check file references:', error)
+      return { filesDeleted: 0, filesKept: unique }
+    }
+
+    let filesDeleted = 0
+    const filesKept: string[] = []
+    for (const storedPath of unique) {
+      if (referenced.has(storedPath)) {
+        filesKept.push(storedPath)
+        continue
+      }
+      try {
+        if (await deleteStoredFile(storedPath)) filesDeleted += 1
+      } catch (error) {
+        console.error('[TRASH] failed to delete file:', storedPath, error)
+        filesKept.push(storedPath)
+      }
+    }
+    return { filesDeleted, filesKept }
+  }
+
+  // Caminhos ainda usados por algum registro; o conteúdo dos formulários é varrido uma única vez por lote
+  private static async referencedPaths(paths: string[]) {
+    const [reports, attachments, evidences, answerEvidences] = await Promise.all([
+      prismaAny.report.findMany({
+        where: { OR: [{ filePath: { in: paths } }, ...paths.map((p) => ({ content: { contains: p } }))] },
+        select: { filePath: true, content: true },
+      }),
+      prismaAny.pldAttachment.findMany({ where: { path: { in: paths } }, select: { path: true } }),
+      prismaAny.actionPlanEvidence.findMany({ where: { path: { in: paths } }, select: { path: true } }),
+      prismaAny.evidence.findMany({ where: { path: { in: paths } }, select: { path: true } }),
+    ])
+
+    const referenced = new Set<string>([...attachments, ...evidences, ...answerEvidences].map((row: any) => row.path))
+    for (const report of reports as Array<{ filePath: string | null; content: string | null }>) {
+      paths.forEach((p) => {
+        if (report.filePath === p || report.content?.includes(p)) referenced.add(p)
+      })
+    }
+    return referenced
+  }
+
+  /**
+   * Job TRASH_PURGE: exclui os formulários na lixeira do dono há mais de TRASH_RETENTION_DAYS,
+   * exceto os preservados (legal hold) ou ainda dentro da retenção mínima de BUILDER_FORM.
+   */
+  static async purgeExpired(now: Date = new Date()) {
+    const retentionDays = getTrashRetentionDays()
+    if (retentionDays <= 0) return { purged: 0 }
+
+    const held = await RetentionService.loadHeldTargets()
+    const expired = await prismaAny.report.findMany({
+      where: {
+        AND: [
+          { hiddenForAdmin: true, hiddenForAdminAt: { lte: new Date(now.getTime() - retentionDays * DAY_MS) } },
+          buildRetentionWhere('BUILDER_FORM', retentionCutoff(now, formMinRetentionDays()), held),
+        ],
+      },
+      take: 100,
+    })
+    let purged = 0
+    for (const report of expired) {
+      try {
+        await this.purgeForm(report, 'RETENTION')
+        purged += 1
+      } catch (error) {
+        console.error('[TRASH] failed to purge form:', report.id, error)
+      }
+    }
+    return { purged }
+  }
+}
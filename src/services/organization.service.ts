@@ -0,0 +1,227 @@
+import prisma from '../config/database'
+
+const prismaAny = prisma as any
+
+export const ORGANIZATION_ROLES = ['OWNER', 'EDITOR', 'REVIEWER', 'RESPONDENT'] as const
+
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number]
+
+// Conta que paga (dono da organização): trial/assinatura valem para todos os membros
+export type BillingAccount = {
+  role: string
+  isTrial: boolean
+  trialExpiresAt: Date | null
+  subscriptionStatus?: string | null
+  subscriptionExpiresAt?: Date | null
+}
+
+// Organização ativa da requisição (header X-Organization-Id ou a própria/mais antiga)
+export type ActiveOrganization = {
+  id: string
+  name: string
+  role: OrganizationRole
+  ownerId: string
+  billing: BillingAccount
+}
+
+// O que cada papel pode fazer está em ./permission.service (ORGANIZATION_ROLE_PERMISSIONS)
+export const BILLING_ACCOUNT_SELECT = {
+  role: true,
+  isTrial: true,
+  trialExpiresAt: true,
+  subscriptionStatus: true,
+  subscriptionExpiresAt: true,
+}
+
+// Select de memberships usado pela autenticação para montar a organização ativa
+export const MEMBERSHIP_SELECT = {
+  role: true,
+  createdAt: true,
+  organization: { select: { id: true, name: true, ownerId: true, owner: { select: BILLING_ACCOUNT_SELECT } } },
+}
+
+type MembershipRow = {
+  role: OrganizationRole
+  createdAt: Date
+  organization: { id: string; name: string; ownerId: string; owner: BillingAccount }
+}
+
+type TenantUser = { id: string; organization?: ActiveOrganization | null }
+
+/**
+ * Escolhe a organização ativa. Sem pedido explícito, prefere a organização própria e depois a mais antiga.
+ * Retorna undefined quando o id pedido não é de uma organização do usuário.
+ */
+export function pickActiveOrganization(
+  userId: string,
+  memberships: MembershipRow[],
+  requestedId?: string | null
+): ActiveOrganization | null | undefined {
+  const sorted = [...memberships].sort((a, b) => {
+    const own = Number(b.organization.ownerId === userId) - Number(a.organization.ownerId === userId)
+    return own || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  })
+  const chosen = requestedId ? sorted.find((m) => m.organization.id === requestedId) : sorted[0]
+  if (!chosen) return requestedId ? undefined : null
+  const { owner, ...org } = chosen.organization
+  return { ...org, role: chosen.role, billing: owner }
+}
+
+// Conta usada nas regras de trial/assinatura: a do dono da organização ativa
+export const billingAccountOf = <T extends BillingAccount>(user: T & { organization?: ActiveOrganization | null }) =>
+  user.organization?.billing ?? user
+
+// Chave das configurações por tenant (regras, template, lembretes) e dos planos de ação
+export const tenantOwnerIdOf = (user: TenantUser) => user.organization?.ownerId ?? user.id
+
+const serializeMember = (m: any) => ({
+  id: m.id,
+  userId: m.userId,
+  name: m.user?.name ?? null,
+  email: m.user?.email ?? null,
+  role: m.role,
+  createdAt: m.createdAt,
+})
+
+export class OrganizationService {
+  /**
+   * Organização pessoal do usuário (ele é OWNER). Idempotente: ownerId é único.
+   */
+  static async ensurePersonalOrganization(user: { id: string; name: string }) {
+    const existing = await prismaAny.organization.findUnique({ where: { ownerId: user.id } })
+    if (existing) return existing
+    try {
+      return await prismaAny.organization.create({
+        data: {
+          name: user.name,
+          ownerId: user.id,
+          members: { create: { userId: user.id, role: 'OWNER' } },
+        },
+      })
+    } catch (error: any) {
+      // Criada por outra requisição concorrente
+      if (error?.code === 'P2002') return prismaAny.organization.findUnique({ where: { ownerId: user.id } })
+      throw error
+    }
+  }
+
+  /**
+   * Dono (tenant) de um formulário: dono da organização, ou o autor para formulários do ADMIN.
+   */
+  static async tenantOwnerIdForReport(report: { userId: string; organizationId?: string | null }) {
+    if (!report.organizationId) return report.userId
+    const org = await prismaAny.organization.findUnique({
+      where: { id: report.organizationId },
+      select: { ownerId: true },
+    })
+    return org?.ownerId ?? report.userId
+  }
+
+  static async getMemberRole(organizationId: string | null | undefined, userId: string): Promise<OrganizationRole | null> {
+    if (!organizationId) return null
+    const member = await prismaAny.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      select: { role: true },
+    })
+    return member?.role ?? null
+  }
+
+  static async listForUser(userId: string) {
+    const memberships = await prismaAny.organizationMember.findMany({
+      where: { userId },
+      include: { organization: { select: { id: true, name: true, ownerId: true, createdAt: true } } },
+      orderBy: { createdAt: 'asc' },
+    })
+    return memberships.map((m: any) => ({ ...m.organization, role: m.role }))
+  }
+
+  static async getOrganization(userId: string, organizationId: string) {
+    const role = await this.getMemberRole(organizationId, userId)
+    if (!role) throw new Error('Organização não encontrada')
+
+    const org = await prismaAny.organization.findUnique({
+      where: { id: organizationId },
+      include: {
+        members: {
+          include: { user: { select: { name: true, email: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+    if (!org) throw new Error('Organização não encontrada')
+
+    return {
+      id: org.id,
+      name: org.name,
+      ownerId: org.ownerId,
+      role,
+      createdAt: org.createdAt,
+      members: org.members.map(serializeMember),
+    }
+  }
+
+  private static async assertOwner(userId: string, organizationId: string) {
+    const role = await this.getMemberRole(organizationId, userId)
+    if (!role) throw new Error('Organização não encontrada')
+    if (role !== 'OWNER') throw new Error('Apenas o dono da organização pode gerenciar membros')
+  }
+
+  static async rename(userId: string, organizationId: string, name: string) {
+    await this.assertOwner(userId, organizationId)
+    return prismaAny.organization.update({ where: { id: organizationId }, data: { name } })
+  }
+
+  /**
+   * Adiciona (ou atualiza o papel de) um usuário já cadastrado. A posse não é transferível por aqui.
+   */
+  static async addMember(userId: string, organizationId: string, data: { email: string; role: OrganizationRole }) {
+    await this.assertOwner(userId, organizationId)
+    if (data.role === 'OWNER') throw new Error('A organização já possui um dono')
+
+    const email = data.email.trim().toLowerCase()
+    const user = await prismaAny.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      select: { id: true, isActive: true },
+    })
+    if (!user || !user.isActive) throw new Error('Usuário não encontrado. Peça que ele crie uma conta antes.')
+
+    const existing = await prismaAny.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId: user.id } },
+    })
+    if (existing?.role === 'OWNER') throw new Error('Não é possível alterar o papel do dono da organização')
+
+    const member = await prismaAny.organizationMember.upsert({
+      where: { organizationId_userId: { organizationId, userId: user.id } },
+      create: { organizationId, userId: user.id, role: data.role },
+      update: { role: data.role },
+      include: { user: { select: { name: true, email: true } } },
+    })
+    return serializeMember(member)
+  }
+
+  static async updateMemberRole(userId: string, organizationId: string, memberId: string, role: OrganizationRole) {
+    await this.assertOwner(userId, organizationId)
+    if (role === 'OWNER') throw new Error('A organização já possui um dono')
+
+    const member = await prismaAny.organizationMember.findFirst({ where: { id: memberId, organizationId } })
+    if (!member) throw new Error('Membro não encontrado')
+    if (member.role === 'OWNER') throw new Error('Não é possível alterar o papel do dono da organização')
+
+    const updated = await prismaAny.organizationMember.update({
+      where: { id: memberId },
+      data: { role },
+      include: { user: { select: { name: true, email: true } } },
+    })
+    return serializeMember(updated)
+  }
+
+  // Dono remove qualquer membro; os demais só podem sair da organização
+  static async removeMember(userId: string, organizationId: string, memberId: string) {
+    const member = await prismaAny.organizationMember.findFirst({ where: { id: memberId, organizationId } })
+    if (!member) throw new Error('Membro não encontrado')
+    if (member.userId !== userId) await this.assertOwner(userId, organizationId)
+    if (member.role === 'OWNER') throw new Error('O dono não pode ser removido da organização')
+
+    await prismaAny.organizationMember.delete({ where: { id: memberId } })
+  }
+}
@@ -0,0 +1,108 @@
+import { type ActiveOrganization, type BillingAccount, billingAccountOf } from './organization.service'
+
+// Permissões da organização ativa (dependem do papel do membro e do trial/assinatura do dono)
+export const ORGANIZATION_PERMISSIONS = [
+  'builder:read',
+  'builder:write',
+  'forms:send',
+  'forms:review',
+  'reports:generate',
+  'settings:manage',
+] as const
+
+// Permissões da plataforma (só via User.role)
+export const PLATFORM_PERMISSIONS = ['users:manage', 'topics:manage', 'system:manage'] as const
+
+export const PERMISSIONS = [...ORGANIZATION_PERMISSIONS, ...PLATFORM_PERMISSIONS] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+// Usado nas mensagens de acesso negado: "Seu papel na organização não permite <descrição>."
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'builder:read': 'acessar o builder e os formulários',
+  'builder:write': 'editar o builder, templates, formulários e planos de ação',
+  'forms:send': 'enviar formulários a respondentes',
+  'forms:review': 'aprovar ou devolver formulários',
+  'reports:generate': 'gerar relatórios',
+  'settings:manage': 'alterar as configurações da organização',
+  'users:manage': 'gerenciar usuários',
+  'topics:manage': 'gerenciar o questionário padrão',
+  'system:manage': 'administrar o sistema',
+}
+
+export const PLATFORM_ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  ADMIN: PERMISSIONS,
+  TRIAL_ADMIN: [],
+  USER: [],
+}
+
+export const ORGANIZATION_ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  OWNER: ORGANIZATION_PERMISSIONS,
+  EDITOR: ['builder:read', 'builder:write', 'forms:send', 'forms:review', 'reports:generate'],
+  REVIEWER: ['builder:read', 'forms:review', 'reports:generate'],
+  // Respondentes só respondem formulários atribuídos por e-mail
+  RESPONDENT: [],
+}
+
+export type PermissionUser = BillingAccount & { organization?: ActiveOrganization | null }
+
+export type PermissionDenial = {
+  code: 'FORBIDDEN' | 'TRIAL_EXPIRED' | 'PAYMENT_REQUIRED' | 'ORGANIZATION_ROLE'
+  message: string
+}
+
+export const platformRoleHas = (role: string | null | undefined, permission: Permission) =>
+  (PLATFORM_ROLE_PERMISSIONS[String(role || '').toUpperCase()] ?? []).includes(permission)
+
+export const organizationRoleHas = (role: string | null | undefined, permission: Permission) =>
+  (ORGANIZATION_ROLE_PERMISSIONS[String(role || '')] ?? []).includes(permission)
+
+/**
+ * Trial/assinatura de uma conta pagante: null quando ativa.
+ * TRIAL_ADMIN depende só do trial; demais contas, da assinatura ACTIVE não expirada.
+ */
+export function billingDenial(account: BillingAccount): PermissionDenial | null {
+  if (account.role === 'TRIAL_ADMIN') {
+    const trialActive = !!account.isTrial && !!account.trialExpiresAt && new Date(account.trialExpiresAt).getTime() > Date.now()
+    if (trialActive) return null
+    return { code: 'TRIAL_EXPIRED', message: 'Seu período de teste expirou. Finalize o pagamento para continuar.' }
+  }
+  const active =
+    (account.subscriptionStatus || '').toUpperCase() === 'ACTIVE' &&
+    (!account.subscriptionExpiresAt || new Date(account.subscriptionExpiresAt).getTime() > Date.now())
+  if (active) return null
+  return { code: 'PAYMENT_REQUIRED', message: 'Acesso ao builder restrito. Faça upgrade para continuar.' }
+}
+
+export function checkPermission(user: PermissionUser, permission: Permission): PermissionDenial | null {
+  if (platformRoleHas(user.role, permission)) return null
+  if (!(ORGANIZATION_PERMISSIONS as readonly Permission[]).includes(permission)) {
+    return { code: 'FORBIDDEN', message: 'Acesso restrito ao administrador' }
+  }
+
+  const billing = billingDenial(billingAccountOf(user))
+  if (billing) return billing
+
+  if (!organizationRoleHas(user.organization?.role, permission)) {
+    return {
+      code: 'ORGANIZATION_ROLE',
+      message: `Seu papel na organização não permite ${PERMISSION_DESCRIPTIONS[permission]}.`,
+    }
+  }
+  return null
+}
+
+export const hasPermission = (user: PermissionUser, permission: Permission) => !checkPermission(user, permission)
+
+// Versão para services: lança Error com a mensagem (e o código em `code`)
+export function assertPermission(user: PermissionUser, permission: Permission) {
+  const denial = checkPermission(user, permission)
+  if (!denial) return
+  const err = new Error(denial.message)
+  ;(err as any).code = denial.code
+  throw err
+}
+
+// Permissões efetivas do usuário na organização ativa (retornadas em /api/auth/me)
+export const getEffectivePermissions = (user: PermissionUser): Permission[] =>
+  PERMISSIONS.filter((permission) => hasPermission(user, permission))
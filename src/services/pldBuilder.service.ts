@@ -1,8 +1,16 @@
 import prisma from '../config/database'
+import crypto from 'crypto'
 import fs from 'fs'
 import path from 'path'
 import { getUploadsRoot } from '../config/paths'
-import { getStorageProvider, uploadFileToStorage } from '../config/storage'
+import { deleteStoredFile, getStorageProvider, uploadFileToStorage } from '../config/storage'
+import { ActionPlanService } from './actionPlan.service'
+import { AuditService, summarizeChanges } from './audit.service'
+import { type ActiveOrganization, billingAccountOf, tenantOwnerIdOf } from './organization.service'
+import { assertPermission } from './permission.service'
+import { sendFormReturnedEmail, sendFormSubmittedEmail } from './formEmail.service'
+import { ReportRevisionService, type RevisionAuthor } from './reportRevision.service'
+import { isRevisionStale } from '../utils/formRevision'
 
 export const ATTACHMENT_CATEGORIES = {
   NORMA: 'NORMA',
@@ -22,27 +30,190 @@ export type AttachmentCategory = typeof ATTACHMENT_CATEGORIES[keyof typeof ATTAC
 // keeping runtime behavior intact.
 const prismaAny = prisma as any
 
-type BuilderActor = {
+export type BuilderActor = {
   id: string
   role: string
   isTrial: boolean
   trialExpiresAt: Date | null
   subscriptionStatus?: string | null
   subscriptionExpiresAt?: Date | null
+  organization?: ActiveOrganization | null
 }
 
-const isTrialActive = (actor: BuilderActor) => {
-  if (!actor.isTrial) return false
-  if (!actor.trialExpiresAt) return false
-  return actor.trialExpiresAt.getTime() > Date.now()
+// Árvore seção/pergunta sem respostas nem anexos (templates, exportação/importação)
+export type PldTreeQuestion = {
+  texto: string
+  aplicavel?: boolean
+  templateRef?: string | null
+  capitulacao?: string | null
+  criticidade?: 'BAIXA' | 'MEDIA' | 'ALTA'
+  controlArea?: string | null
 }
 
-const hasActiveSubscription = (actor: BuilderActor) => {
-  if ((actor.subscriptionStatus || '').toUpperCase() !== 'ACTIVE') return false
-  if (!actor.subscriptionExpiresAt) return true
-  return actor.subscriptionExpiresAt.getTime() > Date.now()
+export type PldTreeSection = {
+  item: string
+  customLabel?: string | null
+  hasNorma?: boolean
+  normaReferencia?: string | null
+  descricao?: string | null
+  controlArea?: string | null
+  questions: PldTreeQuestion[]
 }
 
+export type PldTreeImportMode = 'replace' | 'append' | 'merge'
+
+export const PLD_BUILDER_EXPORT_FORMAT = 'pld-builder'
+export const PLD_BUILDER_EXPORT_VERSION = 1
+
+export type FormSectionAssignment = {
+  email: string
+  sectionIds: string[]
+}
+
+// Acesso de um respondente a um BUILDER_FORM. `sectionIds = null` => formulário inteiro (respondente único).
+type RespondentAccess = {
+  status: string
+  sectionIds: Set<string> | null
+  assignment: any | null
+  assignments: any[]
+}
+
+export const filterSectionsForRespondent = (sections: any[], sectionIds: Set<string> | null) =>
+  sectionIds ? sections.filter((s: any) => sectionIds.has(s?.id)) : sections
+
+const TRIAL_MAX_SECTIONS = 3
+const TRIAL_MAX_QUESTIONS = 3
+
+// Limites de trial valem para a organização cujo dono está em trial
+const isTrialScope = (actor: BuilderActor) => actor.role !== 'ADMIN' && billingAccountOf(actor).role === 'TRIAL_ADMIN'
+
+// Revisão: o respondente edita o formulário enviado, em andamento ou devolvido; o dono do builder
+// aprova ou devolve apenas formulários concluídos (COMPLETED) por um respondente.
+export const RESPONDENT_EDITABLE_STATUSES: ReadonlySet<string> = new Set(['SENT_TO_USER', 'IN_PROGRESS', 'RETURNED'])
+
+export const isRespondentEditable = (status: string | null | undefined) =>
+  !status || RESPONDENT_EDITABLE_STATUSES.has(status)
+
+export const isAwaitingReview = (status: string | null | undefined, hasRespondent: boolean) =>
+  status === 'COMPLETED' && hasRespondent
+
+/**
+ * Devolução do formulário: comentário geral e observações por pergunta (ao menos um dos dois).
+ * notedSectionIds são as seções com observações, usadas para reabrir só as divisões correspondentes.
+ */
+export function normalizeReturnReview(
+  sections: any[],
+  review: { comment?: string | null; notes?: Array<{ questionId: string; note: string }> }
+) {
+  const comment = review.comment?.trim() || null
+  const notes = (review.notes || [])
+    .map((n) => ({ questionId: n.questionId, note: (n.note || '').trim() }))
+    .filter((n) => n.note)
+
+  if (!comment && notes.length === 0) {
+    throw new Error('Informe um comentário ou ao menos uma observação por questão')
+  }
+
+  const sectionByQuestion = new Map<string, string>()
+  for (const section of Array.isArray(sections) ? sections : []) {
+    for (const question of Array.isArray(section?.questions) ? section.questions : []) {
+      sectionByQuestion.set(question?.id, section?.id)
+    }
+  }
+  if (notes.some((n) => !sectionByQuestion.has(n.questionId))) {
+    throw new Error('Pergunta não encontrada no formulário')
+  }
+
+  return { comment, notes, notedSectionIds: new Set(notes.map((n) => sectionByQuestion.get(n.questionId)!)) }
+}
+
+// Formulário dividido devolvido: reabre as partes com observações (ou todas, se só houver comentário geral)
+export const assignmentsToReopen = <T extends { sectionIds?: string[] | null }>(
+  assignments: T[],
+  notedSectionIds: Set<string>
+) =>
+  notedSectionIds.size
+    ? assignments.filter((a) => (a.sectionIds || []).some((id) => notedSectionIds.has(id)))
+    : assignments
+
+// Divisão do formulário: e-mails únicos e cada seção atribuída a exatamente um respondente
+export function normalizeFormAssignments(sections: any[], assignments: FormSectionAssignment[]) {
+  const sectionIds = new Set<string>(
+    (Array.isArray(sections) ? sections : []).map((s: any) => s?.id).filter(Boolean)
+  )
+  const seenEmails = new Set<string>()
+  const assignedSections = new Set<string>()
+
+  const normalized = assignments.map((a) => {
+    const email = (a.email || '').trim().toLowerCase()
+    if (!email || !email.includes('@')) throw new Error('E-mail inválido na divisão do formulário')
+    if (seenEmails.has(email)) throw new Error(`E-mail repetido na divisão do formulário: ${email}`)
+    seenEmails.add(email)
+
+    const ids = Array.from(new Set((a.sectionIds || []).map((id) => String(id))))
+    if (ids.length === 0) throw new Error(`Nenhuma seção atribuída a ${email}`)
+    for (const id of ids) {
+      if (!sectionIds.has(id)) throw new Error('Seção não encontrada no formulário')
+      if (assignedSections.has(id)) throw new Error('Cada seção deve ser atribuída a apenas um respondente')
+      assignedSections.add(id)
+    }
+    return { email, sectionIds: ids }
+  })
+
+  if (assignedSections.size !== sectionIds.size) {
+    throw new Error('Todas as seções do formulário devem ser atribuídas a um respondente')
+  }
+  return normalized
+}
+
+/**
+ * Acesso do e-mail ao formulário: sem divisões vale Report.assignedToEmail (formulário inteiro);
+ * com divisões, apenas as seções da parte atribuída a ele.
+ */
+export function respondentAccessFor(report: any, assignments: any[], email: string): RespondentAccess | null {
+  if (assignments.length === 0) {
+    if (report.assignedToEmail !== email) return null
+    return { status: report.status || 'DRAFT', sectionIds: null, assignment: null, assignments }
+  }
+
+  const assignment = assignments.find((a: any) => a.email === email)
+  if (!assignment) return null
+  return { status: assignment.status, sectionIds: new Set(assignment.sectionIds || []), assignment, assignments }
+}
+
+// Perguntas aplicáveis e respondidas (conclusão exige 100%)
+export function respondentProgress(sections: any[]) {
+  let applicable = 0
+  let answered = 0
+  for (const section of sections) {
+    const questions = Array.isArray(section?.questions) ? section.questions : []
+    for (const question of questions) {
+      if (question?.aplicavel === false) continue
+      applicable += 1
+
+      const r = question?.resposta
+      if (!(r === null || r === undefined || (typeof r === 'string' && r.trim() === ''))) answered += 1
+    }
+  }
+  return { applicable, answered, complete: applicable > 0 && answered === applicable }
+}
+
+// Status do formulário dividido a partir das partes: devolvido enquanto alguma parte aguarda correção
+export function splitFormStatus(assignmentStatuses: string[]) {
+  if (assignmentStatuses.length > 0 && assignmentStatuses.every((s) => s === 'COMPLETED')) return 'COMPLETED'
+  if (assignmentStatuses.includes('RETURNED')) return 'RETURNED'
+  if (assignmentStatuses.some((s) => s === 'IN_PROGRESS' || s === 'COMPLETED')) return 'IN_PROGRESS'
+  return 'SENT_TO_USER'
+}
+
+// Dados gerais do formulário (instituições, qualificação, opções do relatório)
+const normalizeFormMetadata = (metadata: any) => ({
+  instituicoes: metadata?.instituicoes || [],
+  qualificacaoAvaliador: metadata?.qualificacaoAvaliador || '',
+  mostrarMetodologia: metadata?.mostrarMetodologia || 'MOSTRAR',
+  incluirRecomendacoes: metadata?.incluirRecomendacoes || 'INCLUIR',
+})
+
 const coerceDateTime = (value: unknown) => {
   if (value === null || value === undefined) return value
   if (typeof value !== 'string') return value
@@ -55,42 +226,56 @@ const coerceDateTime = (value: unknown) => {
   return parsed.toISOString()
 }
 
+export const FORM_REVISION_CONFLICT = 'FORM_REVISION_CONFLICT'
+
+const formRevisionConflict = () => {
+  const err = new Error('O formulário foi alterado em outra sessão. Recarregue para ver a versão atual.')
+  ;(err as any).code = FORM_REVISION_CONFLICT
+  return err
+}
+
 export class PldBuilderService {
+  // Permissões em ./permission.service: papel na organização + trial/assinatura do dono
   private static ensureBuilderAccess(actor: BuilderActor) {
-    if (actor.role === 'ADMIN') return
-    if (actor.role === 'TRIAL_ADMIN') {
-      if (!isTrialActive(actor)) {
-        throw new Error('Seu período de teste expirou. Finalize o pagamento para continuar.')
-      }
-      return
-    }
-    if (hasActiveSubscription(actor)) return
-    throw new Error('Acesso ao builder restrito. Faça upgrade para continuar.')
+    assertPermission(actor, 'builder:read')
+  }
+
+  // Revisores só leem e revisam; edição do builder e dos formulários exige builder:write
+  static ensureBuilderWrite(actor: BuilderActor) {
+    assertPermission(actor, 'builder:write')
+  }
+
+  static getScopeWhere(actor: BuilderActor) {
+    // O builder é multi-tenant via `organizationId`.
+    // Para ADMIN, usamos o escopo `organizationId = null` (seções criadas por admin).
+    // Isso evita listar/limpar dados de outras organizações (TRIAL/assinantes).
+    if (actor.role === 'ADMIN') return { organizationId: null }
+    if (!actor.organization) throw new Error('Organização não encontrada')
+    return { organizationId: actor.organization.id }
   }
 
-  private static getScopeWhere(actor: BuilderActor) {
-    // O builder é multi-tenant via `createdById`.
-    // Para ADMIN, usamos o escopo `createdById = null` (seções criadas por admin).
-    // Isso evita listar/limpar dados de outros usuários (TRIAL/assinantes).
-    if (actor.role !== 'ADMIN') return { createdById: actor.id }
-    return { createdById: null }
+  // Escopo do relatório do builder vivo: seções da organização e configurações do dono dela
+  static getReportScope(actor: BuilderActor) {
+    return { organizationId: this.getScopeWhere(actor).organizationId, tenantOwnerId: tenantOwnerIdOf(actor) }
   }
 
   private static async assertSectionWritable(tx: any, actor: BuilderActor, sectionId: string) {
     if (actor.role === 'ADMIN') return
-    const section = await tx.pldSection.findUnique({ where: { id: sectionId }, select: { id: true, createdById: true } })
+    const section = await tx.pldSection.findUnique({ where: { id: sectionId }, select: { id: true, organizationId: true } })
     if (!section) throw new Error('Seção não encontrada')
-    if (section.createdById !== actor.id) throw new Error('Você não tem permissão para editar esta seção')
+    if (section.organizationId !== actor.organization?.id) throw new Error('Você não tem permissão para editar esta seção')
   }
 
   private static async assertQuestionWritable(tx: any, actor: BuilderActor, questionId: string) {
     if (actor.role === 'ADMIN') return
     const q = await tx.pldQuestion.findUnique({
       where: { id: questionId },
-      select: { id: true, section: { select: { createdById: true } } },
+      select: { id: true, section: { select: { organizationId: true } } },
     })
     if (!q) throw new Error('Pergunta não encontrada')
-    if (q.section?.createdById !== actor.id) throw new Error('Você não tem permissão para editar esta pergunta')
+    if (q.section?.organizationId !== actor.organization?.id) {
+      throw new Error('Você não tem permissão para editar esta pergunta')
+    }
   }
   private static bestEffortDeleteLocalUpload(publicPath: string | null | undefined) {
     if (!publicPath) return
@@ -161,6 +346,40 @@ export class PldBuilderService {
     container.attachments.splice(oldest.idx, 1)
   }
 
+  /**
+   * Persiste o payload do formulário e registra a revisão correspondente na mesma transação.
+   * A linha do formulário fica travada: a revisão anterior (base do diff) e Report.revision são lidos
+   * sob a trava, então escritas simultâneas recebem versões distintas.
+   * Com `expectedRevision`, a escrita só acontece se ninguém alterou o formulário desde a leitura;
+   * caso contrário lança FORM_REVISION_CONFLICT. Retorna a nova revisão do formulário.
+   */
+  private static async writeFormContent(
+    report: { id: string },
+    payload: any,
+    params: { action: string; author: RevisionAuthor; data?: Record<string, unknown>; expectedRevision?: number | null }
+  ): Promise<number> {
+    const content = JSON.stringify(payload)
+    return prismaAny.$transaction(async (tx: any) => {
+      const [current] = await tx.$queryRaw`SELECT content, revision FROM reports WHERE id = ${report.id} FOR UPDATE`
+      if (!current) throw new Error('Formulário não encontrado')
+      if (isRevisionStale(current.revision, params.expectedRevision)) throw formRevisionConflict()
+
+      const revision = await ReportRevisionService.record(tx, {
+        reportId: report.id,
+        revision: current.revision ?? 0,
+        previousContent: current.content,
+        content,
+        action: params.action,
+        author: params.author,
+      })
+      await tx.report.update({
+        where: { id: report.id },
+        data: { ...(params.data || {}), content, revision },
+      })
+      return revision
+    })
+  }
+
   static async listSections(actor: BuilderActor) {
     this.ensureBuilderAccess(actor)
     const where = this.getScopeWhere(actor)
@@ -189,47 +408,70 @@ export class PldBuilderService {
     hasNorma?: boolean
     normaReferencia?: string | null
     descricao?: string | null
+    controlArea?: string | null
     }
   ) {
-    this.ensureBuilderAccess(actor)
+    this.ensureBuilderWrite(actor)
 
     const scopeWhere = this.getScopeWhere(actor)
 
-    if (actor.role === 'TRIAL_ADMIN') {
+    if (isTrialScope(actor)) {
       const existingSections = await prismaAny.pldSection.count({ where: scopeWhere })
-      if (existingSections >= 3) {
+      if (existingSections >= TRIAL_MAX_SECTIONS) {
         throw new Error('No modo de teste, você pode criar no máximo 3 itens de avaliação (seções).')
       }
     }
 
     const count = await prismaAny.pldSection.count({ where: scopeWhere })
-    return prismaAny.pldSection.create({
+    const section = await prismaAny.pldSection.create({
       data: {
         ...data,
         createdById: actor.role === 'ADMIN' ? undefined : actor.id,
+        organizationId: scopeWhere.organizationId ?? undefined,
         order: count,
       },
     })
+    await AuditService.log({
+      action: 'builder.section_create',
+      targetType: 'PldSection',
+      targetId: section.id,
+      metadata: { organizationId: section.organizationId ?? null, item: section.item, customLabel: section.customLabel ?? null },
+    })
+    return section
   }
 
   static async updateSection(actor: BuilderActor, id: string, data: any) {
-    this.ensureBuilderAccess(actor)
+    this.ensureBuilderWrite(actor)
     // ADMIN bypasses ownership checks; still avoid Prisma 'record not found' errors.
-    const existing = await prismaAny.pldSection.findUnique({ where: { id }, select: { id: true } })
+    const existing = await prismaAny.pldSection.findUnique({ where: { id } })
     if (!existing) throw new Error('Seção não encontrada')
     await this.assertSectionWritable(prismaAny, actor, id)
     if (actor.role !== 'ADMIN') {
       // Prevent spoofing ownership.
       delete data.createdById
+      delete data.organizationId
     }
-    return prismaAny.pldSection.update({ where: { id }, data })
+    const updated = await prismaAny.pldSection.update({ where: { id }, data })
+    await AuditService.log({
+      action: 'builder.section_update',
+      targetType: 'PldSection',
+      targetId: id,
+      metadata: summarizeChanges(existing, data),
+    })
+    return updated
   }
 
   static async deleteSection(actor: BuilderActor, id: string) {
-    this.ensureBuilderAccess(actor)
+    this.ensureBuilderWrite(actor)
     await this.assertSectionWritable(prismaAny, actor, id)
 
-    await prismaAny.pldSection.delete({ where: { id } })
+    const deleted = await prismaAny.pldSection.delete({ where: { id } })
+    await AuditService.log({
+      action: 'builder.section_delete',
+      targetType: 'PldSection',
+      targetId: id,
+      metadata: { organizationId: deleted.organizationId ?? null, item: deleted.item, customLabel: deleted.customLabel ?? null },
+    })
     const remaining: Array<{ id: string }> = await prismaAny.pldSection.findMany({
       where: this.getScopeWhere(actor),
       orderBy: { order: 'asc' },
@@ -242,10 +484,13 @@ export class PldBuilderService {
   }
 
   static async reorderSections(actor: BuilderActor, sectionIds: string[]) {
-    this.ensureBuilderAccess(actor)
+    this.ensureBuilderWrite(actor)
     if (actor.role !== 'ADMIN') {
-      const owned = await prismaAny.pldSection.findMany({ where: { id: { in: sectionIds } }, select: { id: true, createdById: true } })
-      if (owned.length !== sectionIds.length || owned.some((s: any) => s.createdById !== actor.id)) {
+      const owned = await prismaAny.pldSection.findMany({
+        where: { id: { in: sectionIds } },
+        select: { id: true, organizationId: true },
+      })
+      if (owned.length !== sectionIds.length || owned.some((s: any) => s.organizationId !== actor.organization?.id)) {
         throw new Error('Você não tem permissão para reordenar estas seções')
       }
     }
@@ -255,34 +500,41 @@ export class PldBuilderService {
   }
 
   static async createQuestion(actor: BuilderActor, sectionId: string, texto: string) {
-    this.ensureBuilderAccess(actor)
+    this.ensureBuilderWrite(actor)
     const section = await prismaAny.pldSection.findUnique({ where: { id: sectionId } })
     if (!section) throw new Error('Seção não encontrada')
-    if (actor.role !== 'ADMIN' && section.createdById !== actor.id) {
+    if (actor.role !== 'ADMIN' && section.organizationId !== actor.organization?.id) {
       throw new Error('Você não tem permissão para editar esta seção')
     }
 
-    if (actor.role === 'TRIAL_ADMIN') {
-      const totalQuestions = await prismaAny.pldQuestion.count({ where: { section: { createdById: actor.id } } })
-      if (totalQuestions >= 3) {
+    if (isTrialScope(actor)) {
+      const totalQuestions = await prismaAny.pldQuestion.count({ where: { section: this.getScopeWhere(actor) } })
+      if (totalQuestions >= TRIAL_MAX_QUESTIONS) {
         throw new Error('No modo de teste, você pode criar no máximo 3 questões.')
       }
     }
 
     const count = await prismaAny.pldQuestion.count({ where: { sectionId } })
-    return prismaAny.pldQuestion.create({
+    const question = await prismaAny.pldQuestion.create({
       data: {
         sectionId,
         texto,
         order: count,
       },
     })
+    await AuditService.log({
+      action: 'builder.question_create',
+      targetType: 'PldQuestion',
+      targetId: question.id,
+      metadata: summarizeChanges(null, { sectionId, texto }),
+    })
+    return question
   }
 
   static async updateQuestion(actor: BuilderActor, id: string, data: any) {
-    this.ensureBuilderAccess(actor)
+    this.ensureBuilderWrite(actor)
     // ADMIN bypasses ownership checks; still avoid Prisma 'record not found' errors.
-    const existing = await prismaAny.pldQuestion.findUnique({ where: { id }, select: { id: true } })
+    const existing = await prismaAny.pldQuestion.findUnique({ where: { id } })
     if (!existing) throw new Error('Pergunta não encontrada')
     await this.assertQuestionWritable(prismaAny, actor, id)
     // DEBUG: Log para verificar o que está sendo recebido
@@ -297,16 +549,28 @@ export class PldBuilderService {
 
     const result = await prismaAny.pldQuestion.update({ where: { id }, data: cleaned })
     console.log('[updateQuestion] result.respondida:', result?.respondida);
+    await AuditService.log({
+      action: 'builder.question_update',
+      targetType: 'PldQuestion',
+      targetId: id,
+      metadata: summarizeChanges(existing, cleaned),
+    })
     return result;
   }
 
   static async deleteQuestion(actor: BuilderActor, id: string) {
-    this.ensureBuilderAccess(actor)
+    this.ensureBuilderWrite(actor)
     await this.assertQuestionWritable(prismaAny, actor, id)
     const question = await prismaAny.pldQuestion.findUnique({ where: { id } })
     if (!question) return
 
     await prismaAny.pldQuestion.delete({ where: { id } })
+    await AuditService.log({
+      action: 'builder.question_delete',
+      targetType: 'PldQuestion',
+      targetId: id,
+      metadata: summarizeChanges(null, { sectionId: question.sectionId, texto: question.texto }),
+    })
     const remaining: Array<{ id: string }> = await prismaAny.pldQuestion.findMany({
       where: { sectionId: question.sectionId },
       orderBy: { order: 'asc' },
@@ -319,8 +583,8 @@ export class PldBuilderService {
   }
 
   static async reorderQuestions(actor: BuilderActor, sectionId: string, ids: string[]) {
-    this.ensureBuilderAccess(actor)
-    if (actor.role === 'TRIAL_ADMIN') {
+    this.ensureBuilderWrite(actor)
+    if (actor.role !== 'ADMIN') {
       await this.assertSectionWritable(prismaAny, actor, sectionId)
       const ownedQuestions = await prismaAny.pldQuestion.findMany({ where: { id: { in: ids } }, select: { id: true, sectionId: true } })
       if (ownedQuestions.length !== ids.length || ownedQuestions.some((q: any) => q.sectionId !== sectionId)) {
@@ -342,7 +606,7 @@ export class PldBuilderService {
   }) {
     const { actor, file, category, referenceText, sectionId, questionId } = params
 
-    this.ensureBuilderAccess(actor)
+    this.ensureBuilderWrite(actor)
     if (sectionId) await this.assertSectionWritable(prismaAny, actor, sectionId)
     if (questionId) await this.assertQuestionWritable(prismaAny, actor, questionId)
 
@@ -373,7 +637,7 @@ export class PldBuilderService {
 
     const publicPath = relativePath ? `uploads/${relativePath}` : `uploads/${file.filename}`
 
-    return prismaAny.pldAttachment.create({
+    const attachment = await prismaAny.pldAttachment.create({
       data: {
         sectionId,
         questionId,
@@ -386,10 +650,24 @@ export class PldBuilderService {
         size: file.size,
       },
     })
+    await AuditService.log({
+      action: 'builder.attachment_upload',
+      targetType: 'PldAttachment',
+      targetId: attachment.id,
+      metadata: {
+        sectionId: sectionId ?? null,
+        questionId: questionId ?? null,
+        category,
+        originalName: file.originalname,
+        path: publicPath,
+        size: file.size,
+      },
+    })
+    return attachment
   }
 
   static async deleteAttachment(actor: BuilderActor, id: string) {
-    this.ensureBuilderAccess(actor)
+    this.ensureBuilderWrite(actor)
     if (actor.role !== 'ADMIN') {
       const att = await prismaAny.pldAttachment.findUnique({
         where: { id },
@@ -397,43 +675,112 @@ export class PldBuilderService {
           id: true,
           sectionId: true,
           questionId: true,
-          section: { select: { createdById: true } },
-          question: { select: { section: { select: { createdById: true } } } },
+          section: { select: { organizationId: true } },
+          question: { select: { section: { select: { organizationId: true } } } },
         },
       })
       if (!att) return
-      const ownerId = att.section?.createdById ?? att.question?.section?.createdById
-      if (ownerId !== actor.id) throw new Error('Você não tem permissão para remover este anexo')
+      const organizationId = att.section?.organizationId ?? att.question?.section?.organizationId
+      if (organizationId !== actor.organization?.id) throw new Error('Você não tem permissão para remover este anexo')
     }
-    await prismaAny.pldAttachment.delete({ where: { id } })
+    const deleted = await prismaAny.pldAttachment.delete({ where: { id } })
+    await AuditService.log({
+      action: 'builder.attachment_delete',
+      targetType: 'PldAttachment',
+      targetId: id,
+      metadata: {
+        sectionId: deleted.sectionId ?? null,
+        questionId: deleted.questionId ?? null,
+        category: deleted.category,
+        originalName: deleted.originalName,
+        path: deleted.path,
+      },
+    })
   }
 
-  static async concludeBuilder(actor: BuilderActor) {
-    this.ensureBuilderAccess(actor)
-    // Start a new report cycle by clearing all builder data.
-    // Order matters to satisfy FK constraints.
-    if (actor.role !== 'ADMIN') {
-      await prismaAny.pldAttachment.deleteMany({
-        where: {
-          OR: [
-            { section: { createdById: actor.id } },
-            { question: { section: { createdById: actor.id } } },
-          ],
-        },
-      })
-      await prismaAny.pldQuestion.deleteMany({ where: { section: { createdById: actor.id } } })
-      await prismaAny.pldSection.deleteMany({ where: { createdById: actor.id } })
-      return
+  // Remove todas as seções/perguntas/anexos do escopo do builder (ADMIN: organizationId = null).
+  // Order matters to satisfy FK constraints.
+  private static async clearBuilderScope(tx: any, actor: BuilderActor) {
+    const scopeWhere = this.getScopeWhere(actor)
+    await tx.pldAttachment.deleteMany({
+      where: {
+        OR: [{ section: scopeWhere }, { question: { section: scopeWhere } }],
+      },
+    })
+    await tx.pldQuestion.deleteMany({ where: { section: scopeWhere } })
+    await tx.pldSection.deleteMany({ where: scopeWhere })
+  }
+
+  // Cria o Report BUILDER_FORM a partir de um snapshot de seções e registra a revisão inicial.
+  private static async createFormReport(
+    tx: any,
+    params: {
+      name: string
+      createdById: string
+      organizationId: string | null
+      sentToEmail: string | null
+      sections: any[]
+      helpTexts: any
+      metadata: any
     }
+  ) {
+    const report = await tx.report.create({
+      data: {
+        name: params.name,
+        type: 'BUILDER_FORM',
+        format: 'JSON',
+        filePath: null,
+        userId: params.createdById,
+        organizationId: params.organizationId,
+        status: 'COMPLETED',
+        content: JSON.stringify({
+          sentToEmail: params.sentToEmail,
+          sections: params.sections,
+          helpTexts: params.helpTexts,
+          metadata: params.metadata,
+        }),
+      },
+    })
 
-    // ADMIN: limpar apenas o escopo do admin (createdById = null)
-    await prismaAny.pldAttachment.deleteMany({
-      where: {
-        OR: [{ section: { createdById: null } }, { question: { section: { createdById: null } } }],
+    // Revisão CREATED: a versão dela passa a ser Report.revision (ETag inicial do formulário)
+    const revision = await ReportRevisionService.record(tx, {
+      reportId: report.id,
+      revision: report.revision ?? 0,
+      previousContent: null,
+      content: report.content,
+      action: 'CREATED',
+      author: { id: params.createdById },
+    })
+    await tx.report.update({ where: { id: report.id }, data: { revision } })
+
+    await AuditService.record(
+      {
+        actor: { id: params.createdById },
+        action: 'form.create',
+        targetType: 'Report',
+        targetId: report.id,
+        metadata: {
+          name: params.name,
+          organizationId: params.organizationId,
+          sentToEmail: params.sentToEmail,
+          sections: params.sections.length,
+        },
       },
+      tx
+    )
+
+    return { ...report, revision }
+  }
+
+  static async concludeBuilder(actor: BuilderActor) {
+    this.ensureBuilderWrite(actor)
+    // Start a new report cycle by clearing all builder data.
+    await this.clearBuilderScope(prismaAny, actor)
+    await AuditService.log({
+      action: 'builder.reset',
+      targetType: 'Organization',
+      targetId: this.getScopeWhere(actor).organizationId,
     })
-    await prismaAny.pldQuestion.deleteMany({ where: { section: { createdById: null } } })
-    await prismaAny.pldSection.deleteMany({ where: { createdById: null } })
   }
 
   static async concludeBuilderAndSaveForm(params: {
@@ -446,7 +793,7 @@ export class PldBuilderService {
       planoAcao?: string
     } | null
     metadata?: any
-    createdById: string
+    actor: BuilderActor
   }) {
     const name = params.name?.trim()
     if (!name) throw new Error('Nome do formulário é obrigatório')
@@ -455,9 +802,8 @@ export class PldBuilderService {
     const helpTexts = params.helpTexts ?? null
     const metadata = params.metadata ?? null
 
-    const actor = (await prisma.user.findUnique({ where: { id: params.createdById } })) as any as BuilderActor | null
-    if (!actor) throw new Error('Usuário não encontrado')
-    this.ensureBuilderAccess(actor)
+    const { actor } = params
+    this.ensureBuilderWrite(actor)
 
     return prismaAny.$transaction(async (tx: any) => {
       const where = this.getScopeWhere(actor)
@@ -473,53 +819,292 @@ export class PldBuilderService {
         orderBy: { order: 'asc' },
       })
 
-      const report = await tx.report.create({
-        data: {
-          name,
-          type: 'BUILDER_FORM',
-          format: 'JSON',
-          filePath: null,
-          userId: params.createdById,
-          status: 'COMPLETED',
-          content: JSON.stringify({
-            sentToEmail,
-            sections,
-            helpTexts,
-            metadata,
-          }),
-        },
+      const report = await this.createFormReport(tx, {
+        name,
+        createdById: actor.id,
+        organizationId: where.organizationId,
+        sentToEmail,
+        sections,
+        helpTexts,
+        metadata,
       })
 
       // Clear builder data after snapshot is persisted.
-      if (actor.role !== 'ADMIN') {
-        await tx.pldAttachment.deleteMany({
-          where: {
-            OR: [
-              { section: { createdById: actor.id } },
-              { question: { section: { createdById: actor.id } } },
-            ],
-          },
+      await this.clearBuilderScope(tx, actor)
+
+      return report
+    })
+  }
+
+  /**
+   * Converte seções do builder (ou de um snapshot de formulário) em árvore reutilizável,
+   * descartando ids, respostas, testes, plano de ação e anexos.
+   */
+  static toTree(sections: any[]): PldTreeSection[] {
+    return (Array.isArray(sections) ? sections : []).map((section: any) => ({
+      item: section.item,
+      customLabel: section.customLabel ?? null,
+      hasNorma: !!section.hasNorma,
+      normaReferencia: section.normaReferencia ?? null,
+      descricao: section.descricao ?? null,
+      controlArea: section.controlArea ?? null,
+      questions: (Array.isArray(section.questions) ? section.questions : []).map((q: any) => ({
+        texto: q.texto ?? '',
+        aplicavel: q.aplicavel !== false,
+        templateRef: q.templateRef ?? null,
+        capitulacao: q.capitulacao ?? null,
+        criticidade: q.criticidade || 'MEDIA',
+        controlArea: q.controlArea ?? null,
+      })),
+    }))
+  }
+
+  private static assertTrialTreeLimits(actor: BuilderActor, sections: number, questions: number) {
+    if (!isTrialScope(actor)) return
+    if (sections > TRIAL_MAX_SECTIONS) {
+      throw new Error('No modo de teste, você pode criar no máximo 3 itens de avaliação (seções).')
+    }
+    if (questions > TRIAL_MAX_QUESTIONS) {
+      throw new Error('No modo de teste, você pode criar no máximo 3 questões.')
+    }
+  }
+
+  /**
+   * Carrega uma árvore no builder do ator.
+   * - replace: limpa o builder antes
+   * - append: adiciona todas as seções ao final
+   * - merge: reaproveita seções com mesmo item/rótulo e só adiciona perguntas com texto ainda inexistente
+   */
+  static async importTree(actor: BuilderActor, tree: PldTreeSection[], mode: PldTreeImportMode = 'replace') {
+    this.ensureBuilderWrite(actor)
+    const scopeWhere = this.getScopeWhere(actor)
+    const ownerId = actor.role !== 'ADMIN' ? actor.id : null
+
+    const existing: any[] =
+      mode === 'replace'
+        ? []
+        : await prismaAny.pldSection.findMany({
+            where: scopeWhere,
+            include: { questions: { select: { texto: true }, orderBy: { order: 'asc' } } },
+            orderBy: { order: 'asc' },
+          })
+
+    const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase()
+    const sectionKey = (s: { item?: string; customLabel?: string | null }) =>
+      `${normalize(s.item)}|${normalize(s.customLabel)}`
+    const existingByKey = new Map<string, any>()
+    if (mode === 'merge') {
+      for (const section of existing) {
+        if (!existingByKey.has(sectionKey(section))) existingByKey.set(sectionKey(section), section)
+      }
+    }
+
+    // Planeja as escritas antes da transação para validar limites do TRIAL
+    const newSections: PldTreeSection[] = []
+    const mergedQuestions: Array<{ section: any; questions: PldTreeQuestion[] }> = []
+    for (const section of tree) {
+      const match = existingByKey.get(sectionKey(section))
+      if (!match) {
+        newSections.push(section)
+        continue
+      }
+      const known = new Set((match.questions || []).map((q: any) => normalize(q.texto)))
+      const questions = (section.questions || []).filter((q) => {
+        const key = normalize(q.texto)
+        if (known.has(key)) return false
+        known.add(key)
+        return true
+      })
+      if (questions.length) mergedQuestions.push({ section: match, questions })
+    }
+
+    const existingQuestions = existing.reduce((acc, s) => acc + (s.questions?.length || 0), 0)
+    const addedQuestions =
+      newSections.reduce((acc, s) => acc + (s.questions?.length || 0), 0) +
+      mergedQuestions.reduce((acc, m) => acc + m.questions.length, 0)
+    this.assertTrialTreeLimits(actor, existing.length + newSections.length, existingQuestions + addedQuestions)
+
+    const toQuestionData = (q: PldTreeQuestion, order: number) => ({
+      texto: q.texto ?? '',
+      aplicavel: q.aplicavel !== false,
+      templateRef: q.templateRef ?? null,
+      capitulacao: q.capitulacao ?? null,
+      criticidade: q.criticidade || 'MEDIA',
+      controlArea: q.controlArea ?? null,
+      order,
+    })
+
+    await prismaAny.$transaction(async (tx: any) => {
+      if (mode === 'replace') await this.clearBuilderScope(tx, actor)
+
+      for (const { section, questions } of mergedQuestions) {
+        const offset = section.questions?.length || 0
+        await tx.pldQuestion.createMany({
+          data: questions.map((q, qIdx) => ({ ...toQuestionData(q, offset + qIdx), sectionId: section.id })),
         })
-        await tx.pldQuestion.deleteMany({ where: { section: { createdById: actor.id } } })
-        await tx.pldSection.deleteMany({ where: { createdById: actor.id } })
-      } else {
-        await tx.pldAttachment.deleteMany({
-          where: {
-            OR: [{ section: { createdById: null } }, { question: { section: { createdById: null } } }],
+      }
+
+      for (const [idx, section] of newSections.entries()) {
+        await tx.pldSection.create({
+          data: {
+            item: section.item,
+            customLabel: section.customLabel ?? null,
+            hasNorma: !!section.hasNorma,
+            normaReferencia: section.normaReferencia ?? null,
+            descricao: section.descricao ?? null,
+            controlArea: section.controlArea ?? null,
+            createdById: ownerId ?? undefined,
+            organizationId: scopeWhere.organizationId ?? undefined,
+            order: existing.length + idx,
+            questions: {
+              create: (section.questions || []).map((q, qIdx) => toQuestionData(q, qIdx)),
+            },
           },
         })
-        await tx.pldQuestion.deleteMany({ where: { section: { createdById: null } } })
-        await tx.pldSection.deleteMany({ where: { createdById: null } })
       }
+    })
 
-      return report
+    const summary = {
+      mode,
+      sectionsCreated: newSections.length,
+      sectionsMerged: mergedQuestions.length,
+      questionsCreated: addedQuestions,
+    }
+    await AuditService.log({
+      action: 'builder.import',
+      targetType: 'Organization',
+      targetId: scopeWhere.organizationId,
+      metadata: summary,
     })
+
+    return {
+      sections: await this.listSections(actor),
+      summary,
+    }
+  }
+
+  /**
+   * Documento JSON versionado com a árvore do builder (sem respostas).
+   * Anexos saem apenas como metadados; os arquivos não são exportados.
+   */
+  static async exportBuilder(actor: BuilderActor) {
+    const rows = await this.listSections(actor)
+    const tree = this.toTree(rows)
+    const attachmentMeta = (attachments: any[]) =>
+      (Array.isArray(attachments) ? attachments : []).map((a: any) => ({
+        category: a.category,
+        referenceText: a.referenceText ?? null,
+        originalName: a.originalName,
+        mimeType: a.mimeType,
+        size: a.size,
+      }))
+
+    return {
+      format: PLD_BUILDER_EXPORT_FORMAT,
+      version: PLD_BUILDER_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      sections: tree.map((section, idx) => ({
+        ...section,
+        attachments: attachmentMeta(rows[idx]?.attachments),
+        questions: section.questions.map((q, qIdx) => ({
+          ...q,
+          attachments: attachmentMeta(rows[idx]?.questions?.[qIdx]?.attachments),
+        })),
+      })),
+    }
+  }
+
+  /**
+   * Cria um BUILDER_FORM diretamente a partir de uma árvore, sem passar pelo builder.
+   * O snapshot segue o mesmo formato gravado por concludeBuilderAndSaveForm.
+   */
+  static async createFormFromTree(
+    actor: BuilderActor,
+    params: {
+      name: string
+      tree: PldTreeSection[]
+      sentToEmail?: string | null
+      helpTexts?: any
+      metadata?: any
+    }
+  ) {
+    this.ensureBuilderWrite(actor)
+    const organizationId = this.getScopeWhere(actor).organizationId
+    const name = params.name?.trim()
+    if (!name) throw new Error('Nome do formulário é obrigatório')
+
+    const questionCount = params.tree.reduce((acc, s) => acc + (s.questions?.length || 0), 0)
+    this.assertTrialTreeLimits(actor, params.tree.length, questionCount)
+
+    const now = new Date().toISOString()
+    const sections = params.tree.map((section, idx) => {
+      const sectionId = crypto.randomUUID()
+      return {
+        id: sectionId,
+        item: section.item,
+        customLabel: section.customLabel ?? null,
+        hasNorma: !!section.hasNorma,
+        normaReferencia: section.normaReferencia ?? null,
+        descricao: section.descricao ?? null,
+        controlArea: section.controlArea ?? null,
+        order: idx,
+        createdById: actor.role !== 'ADMIN' ? actor.id : null,
+        organizationId,
+        createdAt: now,
+        updatedAt: now,
+        attachments: [],
+        questions: (section.questions || []).map((q, qIdx) => ({
+          id: crypto.randomUUID(),
+          sectionId,
+          order: qIdx,
+          texto: q.texto ?? '',
+          aplicavel: q.aplicavel !== false,
+          respondida: false,
+          templateRef: q.templateRef ?? null,
+          capitulacao: q.capitulacao ?? null,
+          criticidade: q.criticidade || 'MEDIA',
+          controlArea: q.controlArea ?? null,
+          resposta: null,
+          respostaTexto: null,
+          deficienciaTexto: null,
+          recomendacaoTexto: null,
+          testStatus: null,
+          testDescription: null,
+          requisicaoRef: null,
+          respostaTesteRef: null,
+          amostraRef: null,
+          evidenciasRef: null,
+          actionOrigem: null,
+          actionResponsavel: null,
+          actionDescricao: null,
+          actionDataApontamento: null,
+          actionPrazoOriginal: null,
+          actionPrazoAtual: null,
+          actionComentarios: null,
+          createdAt: now,
+          updatedAt: now,
+          attachments: [],
+        })),
+      }
+    })
+
+    return prismaAny.$transaction((tx: any) =>
+      this.createFormReport(tx, {
+        name,
+        createdById: actor.id,
+        organizationId,
+        sentToEmail: params.sentToEmail?.trim() ? params.sentToEmail.trim().toLowerCase() : null,
+        sections,
+        helpTexts: params.helpTexts ?? null,
+        metadata: params.metadata ?? null,
+      })
+    )
   }
 
   static async listConcludedForms(actor: BuilderActor) {
     this.ensureBuilderAccess(actor)
     const where: any = { type: 'BUILDER_FORM', hiddenForAdmin: false }
-    if (actor.role !== 'ADMIN') where.userId = actor.id
+    if (actor.role !== 'ADMIN') where.organizationId = this.getScopeWhere(actor).organizationId
 
     const reports = await prismaAny.report.findMany({
       where,
@@ -532,6 +1117,7 @@ export class PldBuilderService {
         assignedToEmail: true,
         sentAt: true,
         submittedAt: true,
+        assignments: { select: { email: true, status: true }, orderBy: { createdAt: 'asc' } },
       },
     })
 
@@ -565,6 +1151,7 @@ export class PldBuilderService {
         status: r.status || 'DRAFT',
         sentToEmail,
         assignedToEmail: r.assignedToEmail || null,
+        assignments: r.assignments || [],
         sentAt: r.sentAt || null,
         submittedAt: r.submittedAt || null,
       }
@@ -581,10 +1168,12 @@ export class PldBuilderService {
     const reports = await prismaAny.report.findMany({
       where: { 
         type: 'BUILDER_FORM',
-        assignedToEmail: normalizedEmail,
-        hiddenForUser: false,
+        OR: [
+          { assignedToEmail: normalizedEmail, hiddenForUser: false },
+          { assignments: { some: { email: normalizedEmail, hidden: false } } },
+        ],
         status: {
-          in: ['SENT_TO_USER', 'IN_PROGRESS', 'COMPLETED']
+          in: ['SENT_TO_USER', 'IN_PROGRESS', 'RETURNED', 'COMPLETED', 'APPROVED']
         }
       },
       orderBy: { createdAt: 'desc' },
@@ -596,22 +1185,28 @@ export class PldBuilderService {
         assignedToEmail: true,
         sentAt: true,
         submittedAt: true,
+        assignments: { where: { email: normalizedEmail } },
       },
     })
 
-    return reports.map((r: any) => ({
-      id: r.id,
-      name: r.name,
-      createdAt: r.createdAt,
-      status: r.status,
-      assignedToEmail: r.assignedToEmail,
-      sentAt: r.sentAt || null,
-      submittedAt: r.submittedAt || null,
-    }))
+    return reports.map((r: any) => {
+      const part = r.assignments?.[0] || null
+      return {
+        id: r.id,
+        name: r.name,
+        createdAt: r.createdAt,
+        status: part ? part.status : r.status,
+        formStatus: r.status,
+        assignedToEmail: part ? part.email : r.assignedToEmail,
+        sectionIds: part ? part.sectionIds : null,
+        sentAt: (part ? part.sentAt : r.sentAt) || null,
+        submittedAt: (part ? part.submittedAt : r.submittedAt) || null,
+      }
+    })
   }
 
   /**
-   * Usuário oculta um formulário da sua lista (não deleta permanentemente)
+   * Usuário oculta um formulário da sua lista (não deleta permanentemente; ver FormTrashService)
    */
   static async deleteUserForm(formId: string, userEmail: string) {
     const normalizedEmail = userEmail.toLowerCase()
@@ -621,33 +1216,51 @@ export class PldBuilderService {
       throw new Error('Formulário não encontrado')
     }
 
-    if (report.assignedToEmail !== normalizedEmail) {
+    const access = await this.resolveRespondentAccess(report, normalizedEmail)
+    if (!access) {
       throw new Error('Você não tem permissão para remover este formulário')
     }
 
-    // Apenas oculta o formulário para o usuário, não deleta permanentemente
-    await prismaAny.report.update({ 
-      where: { id: formId },
-      data: { hiddenForUser: true }
+    // Formulário dividido: oculta apenas a parte deste respondente
+    if (access.assignment) {
+      await prismaAny.reportAssignment.update({ where: { id: access.assignment.id }, data: { hidden: true, hiddenAt: new Date() } })
+    } else {
+      // Apenas oculta o formulário para o usuário, não deleta permanentemente
+      await prismaAny.report.update({
+        where: { id: formId },
+        data: { hiddenForUser: true, hiddenForUserAt: new Date() }
+      })
+    }
+    await AuditService.log({
+      action: 'form.hide_for_respondent',
+      targetType: 'Report',
+      targetId: formId,
+      metadata: { name: report.name, email: normalizedEmail, assignmentId: access.assignment?.id ?? null },
     })
     return { success: true }
   }
 
   static async deleteForm(formId: string, actor: BuilderActor) {
-    this.ensureBuilderAccess(actor)
+    this.ensureBuilderWrite(actor)
     const report = await prismaAny.report.findUnique({ where: { id: formId } })
     if (!report || report.type !== 'BUILDER_FORM') {
       throw new Error('Formulário não encontrado')
     }
 
-    if (actor.role !== 'ADMIN' && report.userId !== actor.id) {
+    if (actor.role !== 'ADMIN' && report.organizationId !== actor.organization?.id) {
       throw new Error('Você não tem permissão para excluir este formulário')
     }
 
-    // Apenas oculta o formulário para o admin, não deleta permanentemente
+    // Apenas oculta o formulário para o admin (lixeira: src/services/formTrash.service.ts)
     await prismaAny.report.update({ 
       where: { id: formId },
-      data: { hiddenForAdmin: true }
+      data: { hiddenForAdmin: true, hiddenForAdminAt: new Date() }
+    })
+    await AuditService.log({
+      action: 'form.hide_for_owner',
+      targetType: 'Report',
+      targetId: formId,
+      metadata: { name: report.name, organizationId: report.organizationId ?? null },
     })
     return { success: true }
   }
@@ -657,7 +1270,7 @@ export class PldBuilderService {
     const report = await prismaAny.report.findUnique({ where: { id } })
     if (!report || report.type !== 'BUILDER_FORM') return null
 
-    if (actor.role !== 'ADMIN' && report.userId !== actor.id) {
+    if (actor.role !== 'ADMIN' && report.organizationId !== actor.organization?.id) {
       throw new Error('Você não tem permissão para acessar este formulário')
     }
 
@@ -668,6 +1281,12 @@ export class PldBuilderService {
       payload = null
     }
 
+    const assignments = await prismaAny.reportAssignment.findMany({
+      where: { reportId: report.id },
+      orderBy: { createdAt: 'asc' },
+      select: { email: true, sectionIds: true, status: true, sentAt: true, submittedAt: true },
+    })
+
     return {
       id: report.id,
       name: report.name,
@@ -675,35 +1294,70 @@ export class PldBuilderService {
       status: report.status || 'DRAFT',
       sentToEmail: typeof payload?.sentToEmail === 'string' ? payload.sentToEmail : null,
       assignedToEmail: report.assignedToEmail,
+      assignments,
       sections: Array.isArray(payload?.sections) ? payload.sections : [],
       metadata: payload?.metadata || null,
       helpTexts: payload?.helpTexts || null,
+      review: payload?.review || null,
+    }
+  }
+
+  /**
+   * Carrega um BUILDER_FORM garantindo que o ator é o dono (ou ADMIN).
+   */
+  static async getOwnedForm(formId: string, actor: BuilderActor) {
+    this.ensureBuilderAccess(actor)
+    const report = await prismaAny.report.findUnique({ where: { id: formId } })
+    if (!report || report.type !== 'BUILDER_FORM') {
+      throw new Error('Formulário não encontrado')
+    }
+
+    if (actor.role !== 'ADMIN' && report.organizationId !== actor.organization?.id) {
+      throw new Error('Você não tem permissão para acessar este formulário')
     }
+
+    return report
+  }
+
+  /**
+   * Resolve o acesso do e-mail ao formulário: respondente único (Report.assignedToEmail)
+   * ou parte atribuída em ReportAssignment. Retorna null se o e-mail não responde o formulário.
+   */
+  private static async resolveRespondentAccess(report: any, userEmail: string): Promise<RespondentAccess | null> {
+    const assignments = await prismaAny.reportAssignment.findMany({
+      where: { reportId: report.id },
+      orderBy: { createdAt: 'asc' },
+    })
+    return respondentAccessFor(report, assignments, userEmail.toLowerCase())
   }
 
   static async sendFormToUser(
     formId: string,
-    email: string,
-    actor: Pick<BuilderActor, 'id' | 'role'>,
+    email: string | null,
+    actor: BuilderActor,
     helpTexts?: {
       qualificacao?: string
       metodologia?: string
       recomendacoes?: string
       planoAcao?: string
-    } | null
+    } | null,
+    assignments?: FormSectionAssignment[] | null
   ) {
+    assertPermission(actor, 'forms:send')
     const report = await prismaAny.report.findUnique({ where: { id: formId } })
     if (!report || report.type !== 'BUILDER_FORM') {
       throw new Error('Formulário não encontrado')
     }
 
-    if (actor.role === 'TRIAL_ADMIN' && report.userId !== actor.id) {
+    if (actor.role !== 'ADMIN' && report.organizationId !== actor.organization?.id) {
       throw new Error('Você não tem permissão para gerenciar este formulário')
     }
 
-    let nextContent: string | undefined = undefined
-    if (helpTexts) {
-      let payload: any
+    const isSplit = Array.isArray(assignments) && assignments.length > 0
+    if (!isSplit && !email?.trim()) throw new Error('E-mail é obrigatório')
+
+    let payload: any = null
+    if (helpTexts || isSplit) {
       try {
         payload = report.content ? JSON.parse(report.content) : null
       } catch {
@@ -713,19 +1367,51 @@ export class PldBuilderService {
       if (!payload || typeof payload !== 'object') {
         throw new Error('Conteúdo do formulário inválido')
       }
+    }
+
+    const parts = isSplit ? normalizeFormAssignments(payload?.sections, assignments!) : []
+    const sentAt = new Date()
+    const assignment = {
+      status: 'SENT_TO_USER',
+      // Com divisão por seções o acesso passa a ser controlado por ReportAssignment.
+      assignedToEmail: isSplit ? null : email!.trim().toLowerCase(),
+      sentAt,
+    }
 
+    // Reenvio substitui a divisão anterior (ou volta ao respondente único).
+    await prismaAny.$transaction(async (tx: any) => {
+      await tx.reportAssignment.deleteMany({ where: { reportId: formId } })
+      if (parts.length > 0) {
+        await tx.reportAssignment.createMany({
+          data: parts.map((p) => ({ reportId: formId, email: p.email, sectionIds: p.sectionIds, sentAt })),
+        })
+      }
+    })
+
+    if (helpTexts) {
       payload.helpTexts = helpTexts
-      nextContent = JSON.stringify(payload)
+      await this.writeFormContent(report, payload, {
+        action: 'SENT_TO_USER',
+        author: { id: actor.id },
+        data: assignment,
+      })
+    } else {
+      // Update status and assign to email
+      await prismaAny.report.update({
+        where: { id: formId },
+        data: assignment,
+      })
     }
 
-    // Update status and assign to email
-    await prismaAny.report.update({
-      where: { id: formId },
-      data: {
-        status: 'SENT_TO_USER',
-        assignedToEmail: email.toLowerCase(),
-        sentAt: new Date(),
-        ...(nextContent ? { content: nextContent } : {}),
+    await AuditService.log({
+      action: 'form.send',
+      targetType: 'Report',
+      targetId: formId,
+      metadata: {
+        name: report.name,
+        before: { status: report.status, assignedToEmail: report.assignedToEmail ?? null },
+        after: { status: assignment.status, assignedToEmail: assignment.assignedToEmail },
+        assignments: parts.map((p) => ({ email: p.email, sections: p.sectionIds.length })),
       },
     })
 
@@ -757,7 +1443,8 @@ export class PldBuilderService {
     }
 
     // Check if user is assigned
-    if (report.assignedToEmail !== userEmail.toLowerCase()) {
+    const access = await this.resolveRespondentAccess(report, userEmail)
+    if (!access) {
       throw new Error('Você não tem permissão para acessar este formulário')
     }
 
@@ -768,32 +1455,65 @@ export class PldBuilderService {
       payload = null
     }
 
+    const sections = filterSectionsForRespondent(
+      Array.isArray(payload?.sections) ? payload.sections : [],
+      access.sectionIds
+    )
+
+    let review = payload?.review || null
+    if (review && access.sectionIds) {
+      // Observações da revisão restritas às perguntas visíveis para este respondente
+      const visible = new Set<string>()
+      for (const section of sections) {
+        for (const q of Array.isArray(section?.questions) ? section.questions : []) visible.add(q?.id)
+      }
+      review = { ...review, notes: (review.notes || []).filter((n: any) => visible.has(n.questionId)) }
+    }
+
     return {
       id: report.id,
       name: report.name,
       createdAt: report.createdAt,
-      status: report.status || 'DRAFT',
-      sections: Array.isArray(payload?.sections) ? payload.sections : [],
+      status: access.status,
+      formStatus: report.status || 'DRAFT',
+      sections,
       metadata: payload?.metadata || null,
       helpTexts: payload?.helpTexts || null,
+      review,
+      revision: report.revision ?? 0,
+      assignment: access.assignment
+        ? { sectionIds: access.assignment.sectionIds, status: access.assignment.status, submittedAt: access.assignment.submittedAt }
+        : null,
+      parts: access.assignments.map((a: any) => ({ email: a.email, status: a.status, submittedAt: a.submittedAt })),
     }
   }
 
-  static async saveUserFormResponses(formId: string, userEmail: string, answers: any[], sections?: any[], metadata?: any) {
+  static async saveUserFormResponses(
+    formId: string,
+    userEmail: string,
+    answers: any[],
+    sections?: any[],
+    metadata?: any,
+    expectedRevision?: number | null
+  ) {
     const report = await prismaAny.report.findUnique({ where: { id: formId } })
     if (!report || report.type !== 'BUILDER_FORM') {
       throw new Error('Formulário não encontrado')
     }
 
-    if (report.assignedToEmail !== userEmail.toLowerCase()) {
+    const access = await this.resolveRespondentAccess(report, userEmail)
+    if (!access) {
       throw new Error('Você não tem permissão para editar este formulário')
     }
 
-    const editableStatuses = new Set(['SENT_TO_USER', 'IN_PROGRESS'])
-    if (report.status && !editableStatuses.has(report.status)) {
+    if (!isRespondentEditable(access.status)) {
       throw new Error('Este formulário não pode mais ser editado')
     }
 
+    if (isRevisionStale(report.revision, expectedRevision)) {
+      throw formRevisionConflict()
+    }
+
     // Parse existing content
     let payload: any = null
     try {
@@ -802,9 +1522,28 @@ export class PldBuilderService {
       payload = { sections: [] }
     }
 
+    // Respondente parcial só pode alterar as seções atribuídas a ele
+    const ownedSections = filterSectionsForRespondent(
+      Array.isArray(payload?.sections) ? payload.sections : [],
+      access.sectionIds
+    )
+    if (access.sectionIds) {
+      const foreignQuestionIds = new Set<string>()
+      for (const section of Array.isArray(payload?.sections) ? payload.sections : []) {
+        if (access.sectionIds.has(section?.id)) continue
+        for (const q of Array.isArray(section?.questions) ? section.questions : []) foreignQuestionIds.add(q?.id)
+      }
+      const touchesForeign =
+        (answers || []).some((a: any) => foreignQuestionIds.has(a?.questionId)) ||
+        (sections || []).some((s: any) => s?.sectionId && !access.sectionIds!.has(s.sectionId))
+      if (touchesForeign) {
+        throw new Error('Você não tem permissão para responder seções atribuídas a outro respondente')
+      }
+    }
+
     // Update section responses (hasNorma, normaReferencia)
-    if (Array.isArray(sections) && Array.isArray(payload?.sections)) {
-      payload.sections.forEach((section: any) => {
+    if (Array.isArray(sections) && ownedSections.length > 0) {
+      ownedSections.forEach((section: any) => {
         const sectionUpdate = sections.find((s) => s.sectionId === section.id)
         if (sectionUpdate) {
           if (typeof sectionUpdate.hasNorma === 'boolean') {
@@ -818,8 +1557,8 @@ export class PldBuilderService {
     }
 
     // Update question responses
-    if (Array.isArray(payload?.sections)) {
-      payload.sections.forEach((section: any) => {
+    if (ownedSections.length > 0) {
+      ownedSections.forEach((section: any) => {
         if (Array.isArray(section.questions)) {
           section.questions.forEach((question: any) => {
             const answer = answers.find((a) => a.questionId === question.id)
@@ -854,26 +1593,39 @@ export class PldBuilderService {
       })
     }
 
-    // Salvar metadados do formulário (instituições, qualificação, opções)
+    // Salvar metadados do formulário (instituições, qualificação, opções). Valem para o formulário
+    // inteiro: no formulário dividido ficam como o dono definiu (reenviar os mesmos valores é aceito).
     if (metadata) {
-      payload.metadata = {
-        instituicoes: metadata.instituicoes || [],
-        qualificacaoAvaliador: metadata.qualificacaoAvaliador || '',
-        mostrarMetodologia: metadata.mostrarMetodologia || 'MOSTRAR',
-        incluirRecomendacoes: metadata.incluirRecomendacoes || 'INCLUIR',
+      const nextMetadata = normalizeFormMetadata(metadata)
+      if (JSON.stringify(nextMetadata) !== JSON.stringify(normalizeFormMetadata(payload?.metadata))) {
+        if (access.sectionIds) {
+          throw new Error('Os dados gerais de um formulário dividido só podem ser alterados pelo dono do builder')
+        }
+        payload.metadata = nextMetadata
       }
     }
 
+    // Formulário dividido: o status acompanha as partes (esta passa a IN_PROGRESS)
+    const status = access.assignment
+      ? splitFormStatus(access.assignments.map((a: any) => (a.id === access.assignment.id ? 'IN_PROGRESS' : a.status)))
+      : 'IN_PROGRESS'
+
     // Update report with new responses
-    await prismaAny.report.update({
-      where: { id: formId },
-      data: {
-        content: JSON.stringify(payload),
-        status: 'IN_PROGRESS',
-      },
+    const revision = await this.writeFormContent(report, payload, {
+      action: 'RESPONSES_SAVED',
+      author: { email: userEmail },
+      data: { status },
+      expectedRevision,
     })
 
-    return { success: true }
+    if (access.assignment) {
+      await prismaAny.reportAssignment.update({
+        where: { id: access.assignment.id },
+        data: { status: 'IN_PROGRESS' },
+      })
+    }
+
+    return { success: true, revision }
   }
 
   static async completeUserForm(formId: string, userEmail: string) {
@@ -882,12 +1634,12 @@ export class PldBuilderService {
       throw new Error('Formulário não encontrado')
     }
 
-    if (report.assignedToEmail !== userEmail.toLowerCase()) {
+    const access = await this.resolveRespondentAccess(report, userEmail)
+    if (!access) {
       throw new Error('Você não tem permissão para concluir este formulário')
     }
 
-    const editableStatuses = new Set(['SENT_TO_USER', 'IN_PROGRESS'])
-    if (report.status && !editableStatuses.has(report.status)) {
+    if (!isRespondentEditable(access.status)) {
       throw new Error('Este formulário não pode mais ser concluído')
     }
 
@@ -898,35 +1650,231 @@ export class PldBuilderService {
       payload = null
     }
 
-    const sections = Array.isArray(payload?.sections) ? payload.sections : []
-    let totalApplicable = 0
-    let totalAnswered = 0
+    const sections = filterSectionsForRespondent(
+      Array.isArray(payload?.sections) ? payload.sections : [],
+      access.sectionIds
+    )
+    if (!respondentProgress(sections).complete) {
+      throw new Error('Formulário deve estar 100% preenchido para concluir')
+    }
 
-    for (const section of sections) {
-      const questions = Array.isArray(section?.questions) ? section.questions : []
-      for (const question of questions) {
-        const applicable = question?.aplicavel !== false
-        if (!applicable) continue
-        totalApplicable += 1
+    const submittedAt = new Date()
+    if (access.assignment) {
+      // Formulário dividido: conclui a parte do respondente; o formulário só fica COMPLETED
+      // quando todas as partes estiverem concluídas. A linha do formulário fica travada na transação
+      // para que duas partes concluídas ao mesmo tempo vejam a contagem uma da outra.
+      const pending = await prismaAny.$transaction(async (tx: any) => {
+        await tx.$queryRaw`SELECT id FROM reports WHERE id = ${formId} FOR UPDATE`
+        await tx.reportAssignment.update({
+          where: { id: access.assignment.id },
+          data: { status: 'COMPLETED', submittedAt },
+        })
+        const remaining = await tx.reportAssignment.count({
+          where: { reportId: formId, status: { not: 'COMPLETED' } },
+        })
+        if (remaining > 0) {
+          return tx.reportAssignment.findMany({
+            where: { reportId: formId, status: { not: 'COMPLETED' } },
+            select: { email: true },
+          })
+        }
+        await tx.report.update({ where: { id: formId }, data: { status: 'COMPLETED', submittedAt } })
+        return []
+      })
+      if (pending.length > 0) {
+        await AuditService.log({
+          action: 'form.complete',
+          targetType: 'Report',
+          targetId: formId,
+          metadata: { name: report.name, email: userEmail.toLowerCase(), assignmentId: access.assignment.id, formCompleted: false },
+        })
+        return { success: true, formCompleted: false, pendingRespondents: pending.map((a: any) => a.email) }
+      }
+    }
 
-        const r = question?.resposta
-        const answered = !(r === null || r === undefined || (typeof r === 'string' && r.trim() === ''))
-        if (answered) totalAnswered += 1
+    if (!access.assignment) {
+      await prismaAny.report.update({
+        where: { id: formId },
+        data: {
+          status: 'COMPLETED',
+          submittedAt,
+        },
+      })
+    }
+    await AuditService.log({
+      action: 'form.complete',
+      targetType: 'Report',
+      targetId: formId,
+      metadata: {
+        name: report.name,
+        email: userEmail.toLowerCase(),
+        assignmentId: access.assignment?.id ?? null,
+        formCompleted: true,
+        before: { status: report.status },
+        after: { status: 'COMPLETED' },
+      },
+    })
+
+    await this.syncActionPlan(formId)
+
+    // Notifica o dono do builder que o formulário aguarda revisão (não falha a operação se o email falhar)
+    try {
+      const owner = await prismaAny.user.findUnique({ where: { id: report.userId }, select: { email: true } })
+      if (owner?.email) {
+        await sendFormSubmittedEmail({
+          to: owner.email,
+          formName: report.name,
+          formId,
+          userEmail: userEmail.toLowerCase(),
+        })
       }
+    } catch (emailError) {
+      console.error('Erro ao enviar email de revisão:', emailError)
     }
 
-    if (totalApplicable === 0 || totalAnswered < totalApplicable) {
-      throw new Error('Formulário deve estar 100% preenchido para concluir')
+    return { success: true, formCompleted: true, pendingRespondents: [] }
+  }
+
+  // Deficiências do formulário viram itens do plano de ação (não falha a operação principal)
+  private static async syncActionPlan(formId: string) {
+    try {
+      await ActionPlanService.syncFromForm(formId)
+    } catch (error) {
+      console.error('Erro ao sincronizar plano de ação:', error)
     }
+  }
 
-    await prismaAny.report.update({
-      where: { id: formId },
-      data: {
-        status: 'COMPLETED',
-        submittedAt: new Date(),
+  private static async loadFormForReview(formId: string, actor: BuilderActor) {
+    assertPermission(actor, 'forms:review')
+    const report = await prismaAny.report.findUnique({ where: { id: formId } })
+    if (!report || report.type !== 'BUILDER_FORM') {
+      throw new Error('Formulário não encontrado')
+    }
+
+    if (actor.role !== 'ADMIN' && report.organizationId !== actor.organization?.id) {
+      throw new Error('Você não tem permissão para revisar este formulário')
+    }
+
+    // Só formulários concluídos pelo(s) respondente(s) (100% preenchidos) entram em revisão.
+    const assignments = await prismaAny.reportAssignment.findMany({ where: { reportId: report.id } })
+    if (!isAwaitingReview(report.status, !!report.assignedToEmail || assignments.length > 0)) {
+      throw new Error('Formulário não está aguardando revisão')
+    }
+
+    let payload: any = null
+    try {
+      payload = report.content ? JSON.parse(report.content) : null
+    } catch {
+      payload = null
+    }
+    if (!payload || typeof payload !== 'object') {
+      throw new Error('Conteúdo do formulário inválido')
+    }
+
+    return { report, payload, assignments }
+  }
+
+  /**
+   * Dono do builder aceita o formulário concluído pelo usuário.
+   */
+  static async approveForm(formId: string, actor: BuilderActor) {
+    const { report, payload, assignments } = await this.loadFormForReview(formId, actor)
+    const reviewedAt = new Date()
+
+    payload.review = {
+      status: 'APPROVED',
+      comment: null,
+      notes: [],
+      reviewedAt: reviewedAt.toISOString(),
+      reviewedById: actor.id,
+    }
+
+    await this.writeFormContent(report, payload, {
+      action: 'APPROVED',
+      author: { id: actor.id },
+      data: { status: 'APPROVED', reviewedAt },
+    })
+
+    if (assignments.length > 0) {
+      await prismaAny.reportAssignment.updateMany({ where: { reportId: report.id }, data: { status: 'APPROVED' } })
+    }
+    await AuditService.log({
+      action: 'form.approve',
+      targetType: 'Report',
+      targetId: report.id,
+      metadata: { name: report.name, before: { status: report.status }, after: { status: 'APPROVED' } },
+    })
+
+    await this.syncActionPlan(report.id)
+
+    return { success: true }
+  }
+
+  /**
+   * Dono do builder devolve o formulário ao usuário com comentários por questão,
+   * reabrindo-o para edição (saveUserFormResponses / completeUserForm).
+   */
+  static async returnForm(
+    formId: string,
+    actor: BuilderActor,
+    review: { comment?: string | null; notes?: Array<{ questionId: string; note: string }> }
+  ) {
+    const { report, payload, assignments } = await this.loadFormForReview(formId, actor)
+
+    const { comment, notes, notedSectionIds } = normalizeReturnReview(payload.sections, review)
+
+    const reviewedAt = new Date()
+    payload.review = {
+      status: 'RETURNED',
+      comment,
+      notes,
+      reviewedAt: reviewedAt.toISOString(),
+      reviewedById: actor.id,
+    }
+
+    await this.writeFormContent(report, payload, {
+      action: 'RETURNED',
+      author: { id: actor.id },
+      data: { status: 'RETURNED', reviewedAt },
+    })
+
+    // Formulário dividido: reabre apenas as partes com observações (ou todas, se só houver comentário geral).
+    let recipients: string[] = report.assignedToEmail ? [report.assignedToEmail] : []
+    if (assignments.length > 0) {
+      const reopened = assignmentsToReopen<any>(assignments, notedSectionIds)
+      await prismaAny.reportAssignment.updateMany({
+        where: { id: { in: reopened.map((a: any) => a.id) } },
+        data: { status: 'RETURNED', submittedAt: null },
+      })
+      recipients = reopened.map((a: any) => a.email)
+    }
+    await AuditService.log({
+      action: 'form.return',
+      targetType: 'Report',
+      targetId: report.id,
+      metadata: {
+        name: report.name,
+        before: { status: report.status },
+        after: { status: 'RETURNED' },
+        comment,
+        notes: notes.length,
+        recipients,
       },
     })
 
+    for (const to of recipients) {
+      try {
+        await sendFormReturnedEmail({
+          to,
+          formName: report.name,
+          formId,
+          reason: comment || undefined,
+        })
+      } catch (emailError) {
+        console.error('Erro ao enviar email de devolução:', emailError)
+      }
+    }
+
     return { success: true }
   }
 
@@ -943,18 +1891,40 @@ export class PldBuilderService {
     file: Express.Multer.File
     category: string
     referenceText?: string | null
+    expectedRevision?: number | null
   }) {
-    const { formId, userEmail, questionId, sectionId, file, category, referenceText } = params
+    const { formId, userEmail, questionId, sectionId, file, category, referenceText, expectedRevision } = params
 
     const report = await prismaAny.report.findUnique({ where: { id: formId } })
     if (!report || report.type !== 'BUILDER_FORM') {
       throw new Error('Formulário não encontrado')
     }
 
-    if (report.assignedToEmail !== userEmail.toLowerCase()) {
+    const access = await this.resolveRespondentAccess(report, userEmail)
+    if (!access) {
       throw new Error('Você não tem permissão para editar este formulário')
     }
 
+    // Mesmos status editáveis de saveUserFormResponses: formulário concluído/aprovado não recebe anexos
+    if (!isRespondentEditable(access.status)) {
+      try {
+        if (file.path && fs.existsSync(file.path)) fs.unlinkSync(file.path)
+      } catch {
+        // best effort only
+      }
+      throw new Error('Este formulário não pode mais ser editado')
+    }
+
+    if (isRevisionStale(report.revision, expectedRevision)) {
+      // Descarta o arquivo recebido pelo multer antes de qualquer upload para o storage.
+      try {
+        if (file.path && fs.existsSync(file.path)) fs.unlinkSync(file.path)
+      } catch {
+        // best effort only
+      }
+      throw formRevisionConflict()
+    }
+
     // Parse existing content
     let payload: any = null
     try {
@@ -963,6 +1933,23 @@ export class PldBuilderService {
       payload = { sections: [] }
     }
 
+    if (access.sectionIds) {
+      const owned = filterSectionsForRespondent(payload?.sections || [], access.sectionIds)
+      // Seção e pergunta recebem o anexo: cada alvo informado precisa estar na parte do respondente
+      const ownsSection = !sectionId || owned.some((s: any) => s.id === sectionId)
+      const ownsQuestion =
+        !questionId || owned.some((s: any) => (s.questions || []).some((q: any) => q.id === questionId))
+      const ownsTarget = ownsSection && ownsQuestion
+      if (!ownsTarget) {
+        try {
+          if (file.path && fs.existsSync(file.path)) fs.unlinkSync(file.path)
+        } catch {
+          // best effort only
+        }
+        throw new Error('Você não tem permissão para editar seções atribuídas a outro respondente')
+      }
+    }
+
     // For user-form JSON attachments, keep at most 5 by removing the oldest.
     if (Array.isArray(payload?.sections)) {
       if (sectionId) {
@@ -1041,13 +2028,38 @@ export class PldBuilderService {
     }
 
     // Update report with new content
-    await prismaAny.report.update({
-      where: { id: formId },
-      data: {
-        content: JSON.stringify(payload),
+    let revision: number
+    try {
+      revision = await this.writeFormContent(report, payload, {
+        action: 'ATTACHMENT_UPLOADED',
+        author: { email: userEmail },
+        expectedRevision,
+      })
+    } catch (error) {
+      // Conflito de revisão (ou falha na escrita): o arquivo já enviado ficaria sem referência
+      try {
+        await deleteStoredFile(publicPath)
+      } catch (cleanupError) {
+        console.error('Erro ao remover anexo não gravado:', cleanupError)
+      }
+      throw error
+    }
+    await AuditService.log({
+      action: 'form.attachment_upload',
+      targetType: 'Report',
+      targetId: formId,
+      metadata: {
+        attachmentId: newAttachment.id,
+        email: userEmail.toLowerCase(),
+        sectionId: sectionId ?? null,
+        questionId: questionId ?? null,
+        category,
+        originalName: file.originalname,
+        path: publicPath,
+        size: file.size,
       },
     })
 
-    return { attachment: newAttachment }
+    return { attachment: newAttachment, revision }
   }
 }
@@ -0,0 +1,81 @@
+import fs from 'fs'
+import path from 'path'
+import ExcelJS from 'exceljs'
+import { parseCsv } from '../utils/csv'
+import { parseQuestionSheet } from '../utils/pldQuestionSheet'
+import { PldBuilderService, type BuilderActor, type PldTreeImportMode } from './pldBuilder.service'
+
+// Importação de banco de perguntas a partir de planilha (XLSX ou CSV)
+export class PldSpreadsheetImportService {
+  private static async readRows(file: Express.Multer.File): Promise<string[][]> {
+    const ext = path.extname(file.originalname || '').toLowerCase()
+
+    if (ext === '.csv' || ext === '.txt') {
+      return parseCsv(await fs.promises.readFile(file.path, 'utf8'))
+    }
+
+    if (ext !== '.xlsx') {
+      throw new Error('Formato de planilha não suportado. Use XLSX ou CSV.')
+    }
+
+    const workbook = new ExcelJS.Workbook()
+    try {
+      await workbook.xlsx.readFile(file.path)
+    } catch {
+      throw new Error('Não foi possível ler a planilha XLSX')
+    }
+
+    const sheet = workbook.worksheets[0]
+    if (!sheet) throw new Error('A planilha não possui abas')
+
+    const rows: string[][] = []
+    const columnCount = sheet.columnCount
+    for (let r = 1; r <= sheet.rowCount; r++) {
+      const row = sheet.getRow(r)
+      const cells: string[] = []
+      for (let c = 1; c <= columnCount; c++) {
+        // `.text` resolve rich text, fórmulas (resultado) e hyperlinks
+        cells.push(row.getCell(c).text ?? '')
+      }
+      rows.push(cells)
+    }
+    return rows
+  }
+
+  /**
+   * Lê a planilha, valida linha a linha e (fora do dry-run) cria seções/perguntas no builder.
+   * Com qualquer erro de linha nada é gravado.
+   */
+  static async importFile(
+    actor: BuilderActor,
+    file: Express.Multer.File,
+    options: { dryRun: boolean; mode: PldTreeImportMode }
+  ) {
+    try {
+      const parsed = parseQuestionSheet(await this.readRows(file))
+      const preview = {
+        sections: parsed.sections,
+        errors: parsed.errors,
+        totals: {
+          rows: parsed.totalRows,
+          sections: parsed.sections.length,
+          questions: parsed.totalQuestions,
+          errors: parsed.errors.length,
+        },
+      }
+
+      if (options.dryRun || parsed.errors.length > 0) {
+        return { imported: false, ...preview }
+      }
+      if (parsed.sections.length === 0) {
+        throw new Error('A planilha não possui perguntas para importar')
+      }
+
+      const result = await PldBuilderService.importTree(actor, parsed.sections, options.mode)
+      return { imported: true, ...preview, summary: result.summary }
+    } finally {
+      // O arquivo é apenas entrada da importação; não fica em uploads/
+      fs.promises.unlink(file.path).catch(() => undefined)
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import prisma from '../config/database'
+import {
+  PldBuilderService,
+  type BuilderActor,
+  type PldTreeImportMode,
+  type PldTreeSection,
+} from './pldBuilder.service'
+
+const prismaAny = prisma as any
+
+// Árvore salva no template ({ sections }); conteúdo ausente ou inválido => árvore vazia
+export const parseTemplateTree = (content: string | null | undefined): PldTreeSection[] => {
+  if (!content) return []
+  try {
+    const parsed = JSON.parse(content)
+    return Array.isArray(parsed?.sections) ? parsed.sections : []
+  } catch {
+    return []
+  }
+}
+
+export const summarizeTemplate = (template: any) => {
+  const sections = parseTemplateTree(template.content)
+  return {
+    id: template.id,
+    name: template.name,
+    version: template.version,
+    description: template.description ?? null,
+    sectionCount: sections.length,
+    questionCount: sections.reduce((acc, s) => acc + (s.questions?.length || 0), 0),
+    createdAt: template.createdAt,
+  }
+}
+
+export class PldTemplateService {
+  // Templates seguem o mesmo escopo multi-tenant do builder (organizationId; ADMIN = null).
+  private static async findOwned(actor: BuilderActor, id: string) {
+    const template = await prismaAny.pldTemplate.findFirst({
+      where: { id, ...PldBuilderService.getScopeWhere(actor) },
+    })
+    if (!template) throw new Error('Template não encontrado')
+    return template
+  }
+
+  static async listTemplates(actor: BuilderActor) {
+    const templates = await prismaAny.pldTemplate.findMany({
+      where: PldBuilderService.getScopeWhere(actor),
+      orderBy: [{ name: 'asc' }, { version: 'desc' }],
+    })
+    return templates.map(summarizeTemplate)
+  }
+
+  static async getTemplate(actor: BuilderActor, id: string) {
+    const template = await this.findOwned(actor, id)
+    return { ...summarizeTemplate(template), sections: parseTemplateTree(template.content) }
+  }
+
+  /**
+   * Salva a árvore atual do builder como template. Reutilizar um nome existente cria a próxima versão.
+   */
+  static async saveFromBuilder(actor: BuilderActor, params: { name: string; description?: string | null }) {
+    PldBuilderService.ensureBuilderWrite(actor)
+    const name = params.name?.trim()
+    if (!name) throw new Error('Nome do template é obrigatório')
+
+    const sections = PldBuilderService.toTree(await PldBuilderService.listSections(actor))
+    if (sections.length === 0) throw new Error('O builder está vazio. Adicione seções antes de salvar o template.')
+
+    const scopeWhere = PldBuilderService.getScopeWhere(actor)
+    const last = await prismaAny.pldTemplate.findFirst({
+      where: { ...scopeWhere, name },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    })
+
+    const template = await prismaAny.pldTemplate.create({
+      data: {
+        name,
+        version: (last?.version ?? 0) + 1,
+        description: params.description?.trim() || null,
+        content: JSON.stringify({ sections }),
+        createdById: actor.role !== 'ADMIN' ? actor.id : null,
+        organizationId: scopeWhere.organizationId,
+      },
+    })
+    return summarizeTemplate(template)
+  }
+
+  static async loadIntoBuilder(actor: BuilderActor, id: string, mode: PldTreeImportMode) {
+    const template = await this.findOwned(actor, id)
+    const { sections } = await PldBuilderService.importTree(actor, parseTemplateTree(template.content), mode)
+    return sections
+  }
+
+  static async createForm(
+    actor: BuilderActor,
+    id: string,
+    params: { name?: string | null; sentToEmail?: string | null; helpTexts?: any; metadata?: any }
+  ) {
+    const template = await this.findOwned(actor, id)
+    return PldBuilderService.createFormFromTree(actor, {
+      name: params.name?.trim() || `${template.name} v${template.version}`,
+      tree: parseTemplateTree(template.content),
+      sentToEmail: params.sentToEmail ?? null,
+      helpTexts: params.helpTexts ?? null,
+      metadata: params.metadata ?? null,
+    })
+  }
+
+  static async deleteTemplate(actor: BuilderActor, id: string) {
+    PldBuilderService.ensureBuilderWrite(actor)
+    await this.findOwned(actor, id)
+    await prismaAny.pldTemplate.delete({ where: { id } })
+  }
+}
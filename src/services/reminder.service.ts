@@ -0,0 +1,228 @@
+import prisma from '../config/database'
+import { sendActionPlanReminderEmail, sendFormReminderEmail } from './formEmail.service'
+
+const prismaAny = prisma as any
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export type ReminderCadence = {
+  enabled: boolean
+  formPendingAfterDays: number
+  formPendingRepeatDays: number
+  actionPlanDueSoonDays: number
+  actionPlanOverdueRepeatDays: number
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderCadence = {
+  enabled: true,
+  formPendingAfterDays: 3,
+  formPendingRepeatDays: 3,
+  actionPlanDueSoonDays: 7,
+  actionPlanOverdueRepeatDays: 7,
+}
+
+// Tipos registrados em reminder_logs
+const FORM_PENDING = 'FORM_PENDING'
+const ACTION_DUE_SOON = 'ACTION_DUE_SOON'
+const ACTION_OVERDUE = 'ACTION_OVERDUE'
+
+const pickCadence = (row: any): ReminderCadence => ({
+  enabled: row?.enabled ?? DEFAULT_REMINDER_SETTINGS.enabled,
+  formPendingAfterDays: row?.formPendingAfterDays ?? DEFAULT_REMINDER_SETTINGS.formPendingAfterDays,
+  formPendingRepeatDays: row?.formPendingRepeatDays ?? DEFAULT_REMINDER_SETTINGS.formPendingRepeatDays,
+  actionPlanDueSoonDays: row?.actionPlanDueSoonDays ?? DEFAULT_REMINDER_SETTINGS.actionPlanDueSoonDays,
+  actionPlanOverdueRepeatDays: row?.actionPlanOverdueRepeatDays ?? DEFAULT_REMINDER_SETTINGS.actionPlanOverdueRepeatDays,
+})
+
+/**
+ * Lembrete repetível: nunca enviado, ou último envio há pelo menos `repeatDays`.
+ */
+export function isReminderDue(lastSentAt: Date | null | undefined, now: Date, repeatDays: number) {
+  if (!lastSentAt) return true
+  return now.getTime() - new Date(lastSentAt).getTime() >= repeatDays * DAY_MS
+}
+
+/**
+ * Situação do prazo de um item do plano de ação em relação a `now`.
+ */
+export function classifyDeadline(prazo: Date | null | undefined, now: Date, dueSoonDays: number) {
+  if (!prazo) return null
+  const diff = new Date(prazo).getTime() - now.getTime()
+  if (diff < 0) return 'OVERDUE' as const
+  if (diff <= dueSoonDays * DAY_MS) return 'DUE_SOON' as const
+  return null
+}
+
+export class ReminderService {
+  static async getSettings(ownerId: string) {
+    const row = await prismaAny.reminderSettings.findUnique({ where: { ownerId } })
+    return { ownerId, ...pickCadence(row), updatedAt: row?.updatedAt ?? null }
+  }
+
+  static async updateSettings(ownerId: string, data: Partial<ReminderCadence>) {
+    const owner = await prismaAny.user.findUnique({ where: { id: ownerId }, select: { id: true } })
+    if (!owner) throw new Error('Usuário não encontrado')
+
+    const row = await prismaAny.reminderSettings.upsert({
+      where: { ownerId },
+      create: { ownerId, ...pickCadence(data) },
+      update: data,
+    })
+    return { ownerId, ...pickCadence(row), updatedAt: row.updatedAt }
+  }
+
+  private static async getLastSent(kind: string, targetId: string, email: string) {
+    const last = await prismaAny.reminderLog.findFirst({
+      where: { kind, targetId, email },
+      orderBy: { sentAt: 'desc' },
+      select: { sentAt: true },
+    })
+    return last?.sentAt ? new Date(last.sentAt) : null
+  }
+
+  private static async send(kind: string, targetId: string, email: string, deliver: () => Promise<void>) {
+    try {
+      await deliver()
+      await prismaAny.reminderLog.create({ data: { kind, targetId, email } })
+      return true
+    } catch (error: any) {
+      console.error(`[reminders] Falha ao enviar ${kind} para ${email}:`, error?.message || error)
+      return false
+    }
+  }
+
+  private static async loadCadences(ownerIds: string[]) {
+    const rows = ownerIds.length
+      ? await prismaAny.reminderSettings.findMany({ where: { ownerId: { in: ownerIds } } })
+      : []
+    const byOwner = new Map<string, ReminderCadence>(rows.map((row: any) => [row.ownerId, pickCadence(row)]))
+    return (ownerId: string) => byOwner.get(ownerId) ?? DEFAULT_REMINDER_SETTINGS
+  }
+
+  /**
+   * Respondentes com formulário em SENT_TO_USER/IN_PROGRESS há mais de N dias.
+   * Formulários divididos lembram cada parte pendente separadamente.
+   */
+  static async sweepPendingForms(now: Date) {
+    const reports: any[] = await prismaAny.report.findMany({
+      where: { type: 'BUILDER_FORM', status: { in: ['SENT_TO_USER', 'IN_PROGRESS'] } },
+      select: {
+        id: true,
+        name: true,
+        userId: true,
+        organization: { select: { ownerId: true } },
+        assignedToEmail: true,
+        sentAt: true,
+        assignments: {
+          where: { status: { in: ['SENT_TO_USER', 'IN_PROGRESS'] } },
+          select: { email: true, sentAt: true },
+        },
+      },
+    })
+    // Cadência configurada pelo dono da organização do formulário
+    const tenantOf = (r: any): string => r.organization?.ownerId ?? r.userId
+    const cadenceFor = await this.loadCadences([...new Set(reports.map(tenantOf))])
+
+    let sent = 0
+    for (const report of reports) {
+      const cadence = cadenceFor(tenantOf(report))
+      if (!cadence.enabled) continue
+
+      const targets: Array<{ email: string; sentAt: Date | null }> = report.assignments.length
+        ? report.assignments
+        : report.assignedToEmail
+          ? [{ email: report.assignedToEmail, sentAt: report.sentAt }]
+          : []
+
+      for (const target of targets) {
+        if (!target.sentAt) continue
+        const pendingDays = Math.floor((now.getTime() - new Date(target.sentAt).getTime()) / DAY_MS)
+        if (pendingDays < cadence.formPendingAfterDays) continue
+
+        const last = await this.getLastSent(FORM_PENDING, report.id, target.email)
+        if (!isReminderDue(last, now, cadence.formPendingRepeatDays)) continue
+
+        const ok = await this.send(FORM_PENDING, report.id, target.email, () =>
+          sendFormReminderEmail({ to: target.email, formName: report.name, formId: report.id, pendingDays })
+        )
+        if (ok) sent += 1
+      }
+    }
+    return sent
+  }
+
+  /**
+   * Itens do plano de ação com prazo próximo (um aviso por prazo) ou vencido (repetido conforme a cadência).
+   * Vai para actionResponsavel quando for um email; caso contrário, para o dono do formulário.
+   */
+  static async sweepActionPlans(now: Date) {
+    const ownerIds: string[] = (
+      await prismaAny.actionPlanItem.findMany({
+        where: { status: { not: 'CLOSED' }, prazoAtual: { not: null } },
+        distinct: ['ownerId'],
+        select: { ownerId: true },
+      })
+    ).map((row: any) => row.ownerId)
+    const cadenceFor = await this.loadCadences(ownerIds)
+    const maxDueSoon = Math.max(
+      DEFAULT_REMINDER_SETTINGS.actionPlanDueSoonDays,
+      ...ownerIds.map((id) => cadenceFor(id).actionPlanDueSoonDays)
+    )
+
+    const items: any[] = await prismaAny.actionPlanItem.findMany({
+      where: { status: { not: 'CLOSED' }, prazoAtual: { lte: new Date(now.getTime() + maxDueSoon * DAY_MS) } },
+      include: {
+        owner: { select: { email: true } },
+        report: { select: { name: true } },
+      },
+    })
+
+    let sent = 0
+    let markedOverdue = 0
+    for (const item of items) {
+      const cadence = cadenceFor(item.ownerId)
+      const situation = classifyDeadline(item.prazoAtual, now, cadence.actionPlanDueSoonDays)
+      if (!situation) continue
+
+      // Status gravado acompanha o derivado (IN_PROGRESS é mantido; getEffectiveStatus já reporta OVERDUE)
+      if (situation === 'OVERDUE' && item.status === 'OPEN') {
+        await prismaAny.actionPlanItem.update({ where: { id: item.id }, data: { status: 'OVERDUE' } })
+        markedOverdue += 1
+      }
+      if (!cadence.enabled) continue
+
+      const responsavel = String(item.responsavel || '').trim()
+      const to = EMAIL_RE.test(responsavel) ? responsavel : item.owner?.email
+      if (!to) continue
+
+      const prazo = new Date(item.prazoAtual)
+      const overdue = situation === 'OVERDUE'
+      const kind = overdue ? ACTION_OVERDUE : ACTION_DUE_SOON
+      // Aviso de prazo próximo é único por prazo (nova prorrogação gera novo aviso)
+      const targetId = overdue ? item.id : `${item.id}:${prazo.toISOString()}`
+
+      const last = await this.getLastSent(kind, targetId, to)
+      if (overdue ? !isReminderDue(last, now, cadence.actionPlanOverdueRepeatDays) : last) continue
+
+      const ok = await this.send(kind, targetId, to, () =>
+        sendActionPlanReminderEmail({
+          to,
+          formName: item.report?.name || 'Formulário',
+          questionText: item.questionText,
+          prazo,
+          overdue,
+          descricao: item.descricao,
+        })
+      )
+      if (ok) sent += 1
+    }
+    return { sent, markedOverdue }
+  }
+
+  static async sweep(now: Date = new Date()) {
+    const formReminders = await this.sweepPendingForms(now)
+    const actionPlans = await this.sweepActionPlans(now)
+    return { formReminders, actionPlanReminders: actionPlans.sent, markedOverdue: actionPlans.markedOverdue }
+  }
+}
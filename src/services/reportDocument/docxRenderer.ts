@@ -0,0 +1,321 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  PageBreak,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableLayoutType,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx'
+import { fitImageSize, getImageSize } from '../../utils/imageSize'
+import type { ReportBlock, ReportCell, ReportDocument, ReportImage, ReportRun, ReportTable } from './model'
+
+// Largura útil da A4 com margens de 1 polegada (twips)
+const CONTENT_WIDTH = 9360
+
+const hex = (color: string) => color.replace(/^#/, '').toUpperCase()
+
+const border = (color: string, size = 8) => ({ style: BorderStyle.SINGLE, size, color: hex(color) })
+const noBorder = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' }
+
+function buildStyles(primaryColor: string) {
+  const primary = hex(primaryColor)
+  return {
+    default: {
+      document: {
+        run: { font: 'Calibri', size: 22, color: '374151' },
+        paragraph: { spacing: { line: 276, after: 120 } },
+      },
+    },
+    paragraphStyles: [
+      {
+        id: 'Title',
+        name: 'Title',
+        basedOn: 'Normal',
+        next: 'Normal',
+        run: { size: 44, bold: true, color: primary, font: 'Calibri Light' },
+        paragraph: { alignment: AlignmentType.CENTER, spacing: { after: 300 } },
+      },
+      {
+        id: 'Heading2',
+        name: 'Heading 2',
+        basedOn: 'Normal',
+        next: 'Normal',
+        run: { size: 24, bold: true, color: primary },
+        paragraph: { spacing: { before: 280, after: 120 } },
+      },
+      {
+        id: 'Heading3',
+        name: 'Heading 3',
+        basedOn: 'Normal',
+        next: 'Normal',
+        run: { size: 22, bold: true, color: '334155' },
+        paragraph: { spacing: { before: 200, after: 80 } },
+      },
+    ],
+    characterStyles: [
+      {
+        id: 'Hyperlink',
+        name: 'Hyperlink',
+        basedOn: 'DefaultParagraphFont',
+        run: { color: '2563EB', underline: {} },
+      },
+    ],
+  }
+}
+
+function buildRuns(runs: ReportRun[], size?: number) {
+  return runs.map((run) => {
+    const textRun = new TextRun({
+      text: run.text,
+      bold: run.bold,
+      italics: run.italic,
+      size,
+      color: run.link ? '2563EB' : run.color ? hex(run.color) : undefined,
+      underline: run.link ? {} : undefined,
+    })
+    return run.link ? new ExternalHyperlink({ link: run.link, children: [textRun] }) : textRun
+  })
+}
+
+function buildLogo(logo: ReportImage, maxWidth: number, maxHeight: number) {
+  return new Paragraph({
+    alignment: AlignmentType.CENTER,
+    spacing: { after: 240 },
+    children: [
+      new ImageRun({
+        type: logo.mimeType === 'image/jpeg' ? 'jpg' : 'png',
+        data: logo.data,
+        transformation: fitImageSize(getImageSize(logo.data), maxWidth, maxHeight),
+      }),
+    ],
+  })
+}
+
+function buildCover(doc: ReportDocument): Paragraph[] {
+  if (!doc.cover) return doc.logo ? [buildLogo(doc.logo, 200, 80)] : []
+  return [
+    new Paragraph({ text: '', spacing: { before: 1800 } }),
+    ...(doc.cover.logo ? [buildLogo(doc.cover.logo, 260, 130)] : []),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 600, after: 300 },
+      children: [new TextRun({ text: doc.cover.title, bold: true, size: 48, color: hex(doc.theme.primaryColor) })],
+    }),
+    ...(doc.cover.subtitle.trim()
+      ? [
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [new TextRun({ text: doc.cover.subtitle, size: 28, color: '475569' })],
+          }),
+        ]
+      : []),
+    new Paragraph({ children: [new PageBreak()] }),
+  ]
+}
+
+// {{pagina}} e {{totalPaginas}} viram campos do Word
+function buildPageTextParagraph(value: string) {
+  const style = { size: 16, color: '64748B' }
+  const runs = value
+    .split(/(\{\{\s*(?:pagina|totalPaginas)\s*\}\})/)
+    .filter(Boolean)
+    .map((part) => {
+      const field = part.match(/^\{\{\s*(pagina|totalPaginas)\s*\}\}$/)?.[1]
+      if (field === 'pagina') return new TextRun({ children: [PageNumber.CURRENT], ...style })
+      if (field === 'totalPaginas') return new TextRun({ children: [PageNumber.TOTAL_PAGES], ...style })
+      return new TextRun({ text: part, ...style })
+    })
+  return new Paragraph({ alignment: AlignmentType.CENTER, children: runs })
+}
+
+function buildSectionTitle(value: string, primaryColor: string) {
+  return new Table({
+    layout: TableLayoutType.FIXED,
+    width: { size: CONTENT_WIDTH, type: WidthType.DXA },
+    columnWidths: [CONTENT_WIDTH],
+    borders: { top: noBorder, bottom: noBorder, left: noBorder, right: noBorder },
+    rows: [
+      new TableRow({
+        children: [
+          new TableCell({
+            width: { size: CONTENT_WIDTH, type: WidthType.DXA },
+            margins: { top: 140, bottom: 140, left: 200, right: 200 },
+            shading: { type: ShadingType.CLEAR, color: 'auto', fill: hex(primaryColor) },
+            children: [new Paragraph({ children: [new TextRun({ text: value, bold: true, size: 28, color: 'FFFFFF' })] })],
+          }),
+        ],
+      }),
+    ],
+  })
+}
+
+function buildCell(value: ReportCell, width: number, columnSpan?: number) {
+  return new TableCell({
+    width: { size: width, type: WidthType.DXA },
+    columnSpan,
+    margins: { top: 100, bottom: 100, left: 120, right: 120 },
+    shading: value.fill ? { type: ShadingType.CLEAR, color: 'auto', fill: hex(value.fill) } : undefined,
+    children: value.paragraphs.map(
+      (runs) =>
+        new Paragraph({
+          alignment: value.align === 'center' ? AlignmentType.CENTER : undefined,
+          bullet: value.bullets ? { level: 0 } : undefined,
+          spacing: { after: 60 },
+          children: buildRuns(runs),
+        })
+    ),
+  })
+}
+
+function buildTable(block: ReportTable, theme: ReportDocument['theme']) {
+  const total = block.columns.reduce((acc, w) => acc + w, 0)
+  const widths = block.columns.map((w) => Math.round((w / total) * CONTENT_WIDTH))
+  const color = block.borderColor || theme.secondaryColor
+  const rows: TableRow[] = []
+
+  if (block.title) {
+    const titleCell: ReportCell = {
+      paragraphs: [[{ text: block.title, bold: true, color: '#FFFFFF' }]],
+      fill: theme.primaryColor,
+      align: 'center',
+    }
+    rows.push(new TableRow({ tableHeader: true, children: [buildCell(titleCell, CONTENT_WIDTH, widths.length)] }))
+  }
+  if (block.header) {
+    rows.push(new TableRow({ tableHeader: true, children: block.header.map((c, idx) => buildCell(c, widths[idx])) }))
+  }
+  block.rows.forEach((row) => {
+    rows.push(new TableRow({ children: row.map((c, idx) => buildCell(c, widths[idx])) }))
+  })
+
+  return new Table({
+    layout: TableLayoutType.FIXED,
+    width: { size: CONTENT_WIDTH, type: WidthType.DXA },
+    columnWidths: widths,
+    borders: {
+      top: border(color),
+      bottom: border(color),
+      left: border(color),
+      right: border(color),
+      insideHorizontal: border(color, 4),
+      insideVertical: border(color, 4),
+    },
+    rows,
+  })
+}
+
+function buildCard(children: Array<Paragraph | Table>) {
+  return new Table({
+    layout: TableLayoutType.FIXED,
+    width: { size: CONTENT_WIDTH, type: WidthType.DXA },
+    columnWidths: [CONTENT_WIDTH],
+    borders: {
+      top: border('#CBD5E1'),
+      bottom: border('#CBD5E1'),
+      left: border('#CBD5E1'),
+      right: border('#CBD5E1'),
+      insideHorizontal: noBorder,
+      insideVertical: noBorder,
+    },
+    rows: [
+      new TableRow({
+        children: [
+          new TableCell({
+            width: { size: CONTENT_WIDTH, type: WidthType.DXA },
+            margins: { top: 160, bottom: 160, left: 240, right: 240 },
+            shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'F8FAFC' },
+            children,
+          }),
+        ],
+      }),
+    ],
+  })
+}
+
+function buildBlocks(blocks: ReportBlock[], doc: ReportDocument): Array<Paragraph | Table> {
+  return blocks.flatMap((block): Array<Paragraph | Table> => {
+    switch (block.type) {
+      case 'title':
+        return [
+          new Paragraph({ text: block.text, heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER }),
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 240 },
+            children: block.subtitle.map((line) => new TextRun({ text: line, break: 1 })),
+          }),
+        ]
+      case 'sectionTitle':
+        return [buildSectionTitle(block.text, doc.theme.primaryColor), new Paragraph({ text: '', spacing: { after: 80 } })]
+      case 'heading':
+        return [
+          new Paragraph({
+            text: block.text,
+            heading: block.level === 2 ? HeadingLevel.HEADING_2 : HeadingLevel.HEADING_3,
+          }),
+        ]
+      case 'paragraph':
+        return [new Paragraph({ spacing: { after: 140 }, children: buildRuns(block.runs) })]
+      case 'bullets':
+        return block.items.map((item) => new Paragraph({ bullet: { level: block.level ?? 0 }, text: item }))
+      case 'card':
+        return [buildCard(buildBlocks(block.blocks, doc)), new Paragraph({ text: '', spacing: { after: 160 } })]
+      case 'table':
+        return [buildTable(block, doc.theme), new Paragraph({ text: '', spacing: { after: 200 } })]
+      case 'rule':
+        return [
+          new Paragraph({
+            text: '',
+            spacing: { after: 200 },
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: hex(doc.theme.secondaryColor), space: 1 } },
+          }),
+        ]
+      case 'pageBreak':
+        return [new Paragraph({ children: [new PageBreak()] })]
+    }
+  })
+}
+
+export async function renderReportDocx(doc: ReportDocument): Promise<Buffer> {
+  const header = doc.header.trim() ? new Header({ children: [buildPageTextParagraph(doc.header)] }) : undefined
+  const footerChildren = [
+    ...(doc.footer.trim() ? [buildPageTextParagraph(doc.footer)] : []),
+    ...(doc.verification
+      ? [
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [new TextRun({ text: doc.verification, size: 14, color: '64748B' })],
+          }),
+        ]
+      : []),
+  ]
+  const footer = footerChildren.length ? new Footer({ children: footerChildren }) : undefined
+  // Com capa, a primeira página fica sem cabeçalho/rodapé
+  const firstPageBlank = !!doc.cover && !!(header || footer)
+
+  const document = new Document({
+    title: doc.title,
+    styles: buildStyles(doc.theme.primaryColor),
+    sections: [
+      {
+        properties: firstPageBlank ? { titlePage: true } : {},
+        headers: header ? { default: header, ...(firstPageBlank ? { first: new Header({ children: [] }) } : {}) } : undefined,
+        footers: footer ? { default: footer, ...(firstPageBlank ? { first: new Footer({ children: [] }) } : {}) } : undefined,
+        children: [...buildCover(doc), ...buildBlocks(doc.blocks, doc)],
+      },
+    ],
+  })
+  return Packer.toBuffer(document)
+}
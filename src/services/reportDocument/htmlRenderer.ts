@@ -0,0 +1,142 @@
+import { PAGE_FIELD_RE, safeLink, type ReportBlock, type ReportCell, type ReportDocument, type ReportImage, type ReportRun, type ReportTable } from './model'
+
+export const escapeHtml = (value: string) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+// Cabeçalho/rodapé sem paginação (a página HTML é contínua)
+const withoutPageFields = (value: string) => value.replace(PAGE_FIELD_RE, '').replace(/\s{2,}/g, ' ').trim()
+
+const imageSrc = (image: ReportImage) => `data:${image.mimeType};base64,${image.data.toString('base64')}`
+
+function renderRuns(runs: ReportRun[]) {
+  return runs
+    .map((run) => {
+      const link = safeLink(run.link)
+      let html = escapeHtml(run.text)
+      if (run.bold) html = `<strong>${html}</strong>`
+      if (run.italic) html = `<em>${html}</em>`
+      if (run.color && !link) html = `<span style="color:${run.color}">${html}</span>`
+      if (link) html = `<a href="${escapeHtml(link)}" target="_blank" rel="noopener">${html}</a>`
+      return html
+    })
+    .join('')
+}
+
+function renderCell(value: ReportCell, tag: 'td' | 'th', colspan?: number) {
+  const style = [value.fill ? `background:${value.fill}` : '', value.align === 'center' ? 'text-align:center' : '']
+    .filter(Boolean)
+    .join(';')
+  const content = value.bullets
+    ? `<ul>${value.paragraphs.map((runs) => `<li>${renderRuns(runs)}</li>`).join('')}</ul>`
+    : value.paragraphs.map((runs) => `<p>${renderRuns(runs)}</p>`).join('')
+  return `<${tag}${colspan ? ` colspan="${colspan}"` : ''}${style ? ` style="${style}"` : ''}>${content}</${tag}>`
+}
+
+function renderTable(block: ReportTable, doc: ReportDocument) {
+  const total = block.columns.reduce((acc, w) => acc + w, 0)
+  const cols = block.columns.map((w) => `<col style="width:${((w / total) * 100).toFixed(2)}%">`).join('')
+  const borderColor = block.borderColor || doc.theme.secondaryColor
+  const head = [
+    block.title
+      ? `<tr>${renderCell(
+          { paragraphs: [[{ text: block.title, bold: true }]], fill: doc.theme.primaryColor, align: 'center' },
+          'th',
+          block.columns.length
+        ).replace('<th', '<th class="table-title"')}</tr>`
+      : '',
+    block.header ? `<tr>${block.header.map((c) => renderCell(c, 'th')).join('')}</tr>` : '',
+  ].join('')
+  const body = block.rows.map((row) => `<tr>${row.map((c) => renderCell(c, 'td')).join('')}</tr>`).join('')
+  return `<table style="border-color:${borderColor}"><colgroup>${cols}</colgroup>${head ? `<thead>${head}</thead>` : ''}<tbody>${body}</tbody></table>`
+}
+
+function renderBlocks(blocks: ReportBlock[], doc: ReportDocument): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'title':
+          return `<h1>${escapeHtml(block.text)}</h1><p class="subtitle">${block.subtitle.map(escapeHtml).join('<br>')}</p>`
+        case 'sectionTitle':
+          return `<h2 class="section-title">${escapeHtml(block.text)}</h2>`
+        case 'heading':
+          return block.level === 2 ? `<h3>${escapeHtml(block.text)}</h3>` : `<h4>${escapeHtml(block.text)}</h4>`
+        case 'paragraph':
+          return `<p>${renderRuns(block.runs)}</p>`
+        case 'bullets':
+          return `<ul class="level-${block.level ?? 0}">${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+        case 'card':
+          return `<div class="card">${renderBlocks(block.blocks, doc)}</div>`
+        case 'table':
+          return renderTable(block, doc)
+        case 'rule':
+          return '<hr>'
+        case 'pageBreak':
+          return '<div class="page-break"></div>'
+      }
+    })
+    .join('\n')
+}
+
+/**
+ * Página HTML autocontida (CSS embutido e logo em data URI) para pré-visualização no navegador.
+ */
+export async function renderReportHtml(doc: ReportDocument): Promise<Buffer> {
+  const { primaryColor, secondaryColor } = doc.theme
+  const header = withoutPageFields(doc.header)
+  const footer = withoutPageFields(doc.footer)
+  const cover = doc.cover
+    ? `<section class="cover">${doc.cover.logo ? `<img src="${imageSrc(doc.cover.logo)}" alt="">` : ''}<h1>${escapeHtml(
+        doc.cover.title
+      )}</h1>${doc.cover.subtitle.trim() ? `<p>${escapeHtml(doc.cover.subtitle)}</p>` : ''}</section><div class="page-break"></div>`
+    : doc.logo
+      ? `<div class="logo"><img src="${imageSrc(doc.logo)}" alt=""></div>`
+      : ''
+
+  const html = `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(doc.title)}</title>
+<style>
+body { font-family: Calibri, Arial, sans-serif; color: #374151; font-size: 11pt; line-height: 1.45; max-width: 820px; margin: 24px auto; padding: 0 24px; }
+h1 { color: ${primaryColor}; text-align: center; font-size: 22pt; margin-bottom: 4px; }
+.subtitle { text-align: center; color: #475569; }
+.section-title { background: ${primaryColor}; color: #fff; font-size: 13pt; padding: 8px 12px; margin-top: 24px; }
+h3 { color: ${primaryColor}; font-size: 12pt; }
+h4 { color: #334155; font-size: 11pt; }
+hr { border: 0; border-top: 1px solid ${secondaryColor}; margin: 16px 0; }
+ul.level-1 { margin-left: 24px; list-style: '- '; }
+.card { border: 1px solid #CBD5E1; background: #F8FAFC; padding: 12px 16px; margin: 12px 0; }
+.card p { margin: 4px 0; }
+table { width: 100%; border-collapse: collapse; table-layout: fixed; margin: 12px 0 20px; border: 1px solid; }
+th, td { border: 1px solid ${secondaryColor}; padding: 6px 8px; vertical-align: top; text-align: left; }
+th p, td p { margin: 0; }
+th ul, td ul { margin: 0; padding-left: 18px; }
+th.table-title { color: #fff; }
+a { color: #2563EB; }
+.logo, .cover { text-align: center; }
+.logo img { max-height: 80px; max-width: 100%; }
+.cover { padding-top: 160px; }
+.cover img { max-height: 140px; max-width: 100%; }
+.cover h1 { font-size: 26pt; }
+.cover p { font-size: 14pt; color: #475569; }
+.page-header, .page-footer { text-align: center; color: #64748B; font-size: 8pt; }
+.page-break { page-break-after: always; }
+</style>
+</head>
+<body>
+${header ? `<div class="page-header">${escapeHtml(header)}</div>` : ''}
+${cover}
+${renderBlocks(doc.blocks, doc)}
+${footer ? `<div class="page-footer">${escapeHtml(footer)}</div>` : ''}
+${doc.verification ? `<div class="page-footer">${escapeHtml(doc.verification)}</div>` : ''}
+</body>
+</html>
+`
+  return Buffer.from(html, 'utf-8')
+}
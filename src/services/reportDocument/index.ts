@@ -0,0 +1,29 @@
+import { renderReportDocx } from './docxRenderer'
+import { renderReportHtml } from './htmlRenderer'
+import { renderReportMarkdown } from './mdRenderer'
+import type { ReportDocument } from './model'
+import { renderReportPdf } from './pdfRenderer'
+
+export * from './model'
+export { buildPldReportDocument, type PldReportInput } from './pldReport'
+export { buildUserReportDocument, type UserReportInput } from './userReport'
+
+export type ReportRenderer = {
+  extension: string
+  contentType: string
+  render: (doc: ReportDocument) => Promise<Buffer>
+}
+
+// Backends disponíveis; um novo formato só precisa registrar o seu renderizador aqui
+export const REPORT_RENDERERS = {
+  PDF: { extension: 'pdf', contentType: 'application/pdf', render: renderReportPdf },
+  DOCX: {
+    extension: 'docx',
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    render: renderReportDocx,
+  },
+  HTML: { extension: 'html', contentType: 'text/html; charset=utf-8', render: renderReportHtml },
+  MD: { extension: 'md', contentType: 'text/markdown; charset=utf-8', render: renderReportMarkdown },
+} satisfies Record<string, ReportRenderer>
+
+export type ReportRenderFormat = keyof typeof REPORT_RENDERERS
@@ -0,0 +1,98 @@
+import { PAGE_FIELD_RE, safeLink, type ReportBlock, type ReportCell, type ReportDocument, type ReportRun, type ReportTable } from './model'
+
+const escapeMd = (value: string) => String(value ?? '').replace(/([\\`*_[\]<>])/g, '\\$1')
+
+const withoutPageFields = (value: string) => value.replace(PAGE_FIELD_RE, '').replace(/\s{2,}/g, ' ').trim()
+
+// Ênfase fora dos espaços das pontas ("**Rótulo:** valor"), senão o Markdown não fecha o negrito
+function emphasize(value: string, marker: string) {
+  const match = value.match(/^(\s*)(.*?)(\s*)$/s)!
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : value
+}
+
+function renderRuns(runs: ReportRun[]) {
+  return runs
+    .map((run) => {
+      const link = safeLink(run.link)
+      let md = escapeMd(run.text)
+      if (run.bold) md = emphasize(md, '**')
+      if (run.italic) md = emphasize(md, '_')
+      if (link) md = `[${md}](${link.replace(/[()\s]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`)})`
+      return md
+    })
+    .join('')
+}
+
+const renderCell = (value: ReportCell) =>
+  value.paragraphs
+    .map((runs) => (value.bullets ? `• ${renderRuns(runs)}` : renderRuns(runs)))
+    .join('<br>')
+    .replace(/\|/g, '\\|')
+    .replace(/\n/g, ' ')
+
+// Markdown não tem mesclagem: o título da tabela vira um parágrafo em negrito logo acima
+function renderTable(block: ReportTable) {
+  const width = block.columns.length
+  const header = block.header ?? block.rows[0]
+  const rows = block.header ? block.rows : block.rows.slice(1)
+  if (!header) return ''
+  const line = (cells: ReportCell[]) => `| ${cells.map(renderCell).join(' | ')} |`
+  return [
+    block.title ? `**${escapeMd(block.title)}**\n` : '',
+    line(header),
+    `|${Array.from({ length: width }, () => ' --- ').join('|')}|`,
+    ...rows.map(line),
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+function renderBlocks(blocks: ReportBlock[]): string[] {
+  return blocks.flatMap((block): string[] => {
+    switch (block.type) {
+      case 'title':
+        return [`# ${escapeMd(block.text)}`, block.subtitle.map(escapeMd).join('  \n')]
+      case 'sectionTitle':
+        return [`## ${escapeMd(block.text)}`]
+      case 'heading':
+        return [`${block.level === 2 ? '###' : '####'} ${escapeMd(block.text)}`]
+      case 'paragraph':
+        return [renderRuns(block.runs)]
+      case 'bullets':
+        return [block.items.map((item) => `${block.level ? '  ' : ''}- ${escapeMd(item)}`).join('\n')]
+      case 'card':
+        return [
+          renderBlocks(block.blocks)
+            .join('\n\n')
+            .split('\n')
+            .map((line) => (line ? `> ${line}` : '>'))
+            .join('\n'),
+        ]
+      case 'table':
+        return [renderTable(block)]
+      case 'rule':
+        return ['---']
+      case 'pageBreak':
+        return []
+    }
+  })
+}
+
+/**
+ * Markdown (GFM) para colar trechos em e-mails/wikis. Sem logo e sem paginação;
+ * links de anexos seguem absolutos, como nos demais formatos.
+ */
+export async function renderReportMarkdown(doc: ReportDocument): Promise<Buffer> {
+  const header = withoutPageFields(doc.header)
+  const footer = withoutPageFields(doc.footer)
+  const parts = [
+    header ? `_${escapeMd(header)}_` : '',
+    doc.cover ? `# ${escapeMd(doc.cover.title)}` : '',
+    doc.cover?.subtitle.trim() ? escapeMd(doc.cover.subtitle) : '',
+    ...renderBlocks(doc.blocks),
+    footer || doc.verification ? '---' : '',
+    footer ? `_${escapeMd(footer)}_` : '',
+    doc.verification ? `_${escapeMd(doc.verification)}_` : '',
+  ].filter((part) => part.trim())
+  return Buffer.from(`${parts.join('\n\n')}\n`, 'utf-8')
+}
@@ -0,0 +1,82 @@
+/**
+ * Modelo intermediário dos relatórios: o conteúdo é montado uma única vez (ver pldReport.ts)
+ * e cada backend (PDF, DOCX, HTML) apenas o desenha. Cores em #RRGGBB; larguras de colunas
+ * são pesos relativos à largura útil da página.
+ */
+
+export type ReportRun = {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  color?: string
+  link?: string | null
+}
+
+export type ReportCell = {
+  paragraphs: ReportRun[][]
+  fill?: string
+  align?: 'left' | 'center'
+  // Itens com marcador (lista de arquivos do anexo)
+  bullets?: boolean
+}
+
+export type ReportTable = {
+  type: 'table'
+  columns: number[]
+  // Linha de título ocupando todas as colunas (ex.: "GRAU DE CRITICIDADE")
+  title?: string | null
+  header?: ReportCell[] | null
+  rows: ReportCell[][]
+  borderColor?: string
+}
+
+export type ReportBlock =
+  | { type: 'title'; text: string; subtitle: string[] }
+  | { type: 'sectionTitle'; text: string }
+  | { type: 'heading'; level: 2 | 3; text: string }
+  | { type: 'paragraph'; runs: ReportRun[] }
+  | { type: 'bullets'; items: string[]; level?: 0 | 1 }
+  | { type: 'card'; blocks: ReportBlock[] }
+  | ReportTable
+  | { type: 'rule' }
+  | { type: 'pageBreak' }
+
+export type ReportImage = { data: Buffer; mimeType: string }
+
+export type ReportDocument = {
+  title: string
+  theme: { primaryColor: string; secondaryColor: string }
+  // Com capa, cabeçalho/rodapé não aparecem na primeira página
+  cover: { title: string; subtitle: string; logo: ReportImage | null } | null
+  // Logo no topo da primeira página quando não há capa
+  logo: ReportImage | null
+  // Aceitam {{pagina}} e {{totalPaginas}}
+  header: string
+  footer: string
+  // Relatório selado: linha com o código de verificação abaixo do rodapé, em todas as páginas
+  verification?: string | null
+  blocks: ReportBlock[]
+}
+
+export const PAGE_FIELD_RE = /\{\{\s*(pagina|totalPaginas)\s*\}\}/g
+
+export const text = (value: string, opts: Omit<ReportRun, 'text'> = {}): ReportRun => ({ text: value, ...opts })
+
+export const paragraph = (...runs: ReportRun[]): ReportBlock => ({ type: 'paragraph', runs })
+
+export const labelValue = (label: string, value: string): ReportBlock =>
+  paragraph(text(`${label}: `, { bold: true }), text(value || '-'))
+
+export const cell = (value: string, opts: Omit<ReportCell, 'paragraphs'> & { bold?: boolean } = {}): ReportCell => {
+  const { bold, ...rest } = opts
+  return { paragraphs: [[text(value, { bold })]], ...rest }
+}
+
+// Texto puro de uma sequência de runs (HTML/Markdown e medições)
+export const runsText = (runs: ReportRun[]) => runs.map((r) => r.text).join('')
+
+// Links dos formatos exportados (HTML/Markdown): só http(s) e mailto; os demais viram texto simples
+export const safeLink = (link: string | null | undefined) => {
+  const value = String(link ?? '').trim()
+  return /^(https?|mailto):/i.test(value) ? value : null
+}
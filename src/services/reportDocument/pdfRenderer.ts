@@ -0,0 +1,331 @@
+import PDFDocument from 'pdfkit'
+import { PAGE_FIELD_RE, runsText, type ReportBlock, type ReportCell, type ReportDocument, type ReportRun, type ReportTable } from './model'
+
+const TEXT_DARK = '#0F172A'
+const TEXT_MUTED = '#475569'
+const LINK_COLOR = '#1D4ED8'
+const CARD_BORDER = '#CBD5E1'
+
+type PdfDoc = PDFKit.PDFDocument
+
+const fontFor = (run: Pick<ReportRun, 'bold' | 'italic'>) =>
+  run.bold ? (run.italic ? 'Helvetica-BoldOblique' : 'Helvetica-Bold') : run.italic ? 'Helvetica-Oblique' : 'Helvetica'
+
+const pageText = (value: string, page: number, total: number) =>
+  value.replace(PAGE_FIELD_RE, (_match, field: string) => String(field === 'pagina' ? page : total))
+
+// Capa (nova página em seguida) ou, sem capa, o logo no topo da primeira página
+function drawCover(pdf: PdfDoc, doc: ReportDocument) {
+  const left = pdf.page.margins.left
+  const width = pdf.page.width - left - pdf.page.margins.right
+
+  if (!doc.cover) {
+    if (doc.logo) {
+      const startY = pdf.y
+      pdf.image(doc.logo.data, left, startY, { fit: [width, 60], align: 'center' })
+      pdf.y = startY + 72
+    }
+    return
+  }
+
+  pdf.save()
+  pdf.fillColor(doc.theme.primaryColor).rect(0, 0, pdf.page.width, 14).fill()
+  pdf.restore()
+
+  let y = 170
+  if (doc.cover.logo) {
+    pdf.image(doc.cover.logo.data, left, y, { fit: [width, 120], align: 'center' })
+    y += 150
+  }
+  pdf
+    .fillColor(doc.theme.primaryColor)
+    .font('Helvetica-Bold')
+    .fontSize(24)
+    .text(doc.cover.title, left, y, { width, align: 'center' })
+  if (doc.cover.subtitle.trim()) {
+    pdf.moveDown(1)
+    pdf
+      .fillColor(TEXT_MUTED)
+      .font('Helvetica')
+      .fontSize(14)
+      .text(doc.cover.subtitle, left, pdf.y, { width, align: 'center' })
+  }
+  pdf.addPage()
+}
+
+// Cabeçalho/rodapé em todas as páginas (exceto a capa); requer bufferPages
+function drawHeaderFooter(pdf: PdfDoc, doc: ReportDocument) {
+  if (!doc.header.trim() && !doc.footer.trim() && !doc.verification) return
+
+  const range = pdf.bufferedPageRange()
+  for (let i = range.start; i < range.start + range.count; i++) {
+    if (doc.cover && i === range.start) continue
+    pdf.switchToPage(i)
+
+    const page = i - range.start + 1
+    const { left, right, bottom } = pdf.page.margins
+    const width = pdf.page.width - left - right
+
+    // Texto fora da área útil: sem margem inferior o pdfkit não abre página nova
+    pdf.page.margins.bottom = 0
+    pdf.fillColor('#64748B').font('Helvetica').fontSize(8)
+    if (doc.header.trim()) {
+      pdf.text(pageText(doc.header, page, range.count), left, 22, { width, align: 'center', lineBreak: false })
+    }
+    if (doc.footer.trim()) {
+      pdf.text(pageText(doc.footer, page, range.count), left, pdf.page.height - 32, {
+        width,
+        align: 'center',
+        lineBreak: false,
+      })
+    }
+    if (doc.verification) {
+      pdf.fontSize(7).text(doc.verification, left, pdf.page.height - 20, { width, align: 'center', lineBreak: false })
+    }
+    pdf.page.margins.bottom = bottom
+  }
+}
+
+function createWriter(pdf: PdfDoc, doc: ReportDocument) {
+  const marginLeft = pdf.page.margins.left
+  const contentWidth = pdf.page.width - marginLeft - pdf.page.margins.right
+  const { primaryColor, secondaryColor } = doc.theme
+
+  const bottomLimit = () => pdf.page.height - pdf.page.margins.bottom
+
+  const ensureSpace = (minSpace: number) => {
+    if (pdf.y + minSpace > bottomLimit()) {
+      pdf.addPage()
+      return true
+    }
+    return false
+  }
+
+  const measure = (value: string, width: number, opts: { font?: string; fontSize: number; lineGap?: number }) =>
+    pdf
+      .font(opts.font || 'Helvetica')
+      .fontSize(opts.fontSize)
+      .heightOfString(value || '-', { width, lineGap: opts.lineGap ?? 2 })
+
+  // Runs com estilos diferentes na mesma linha (continued)
+  const writeRuns = (
+    runs: ReportRun[],
+    x: number,
+    width: number,
+    opts: { fontSize: number; color: string; align?: 'left' | 'center'; prefix?: string; y?: number }
+  ) => {
+    const parts = runs.length ? runs : [{ text: '-' }]
+    parts.forEach((run, idx) => {
+      const content = `${idx === 0 && opts.prefix ? opts.prefix : ''}${run.text}`
+      pdf
+        .font(fontFor(run))
+        .fontSize(opts.fontSize)
+        .fillColor(run.link ? LINK_COLOR : run.color || opts.color)
+      const textOpts = {
+        width,
+        lineGap: 2,
+        align: opts.align,
+        continued: idx < parts.length - 1,
+        link: run.link || undefined,
+        underline: !!run.link,
+      }
+      if (idx === 0) pdf.text(content, x, opts.y ?? pdf.y, textOpts)
+      else pdf.text(content, textOpts)
+    })
+  }
+
+  const measureRuns = (runs: ReportRun[], width: number, fontSize: number, prefix = '') =>
+    measure(`${prefix}${runsText(runs)}`, width, { font: fontFor(runs[0] || {}), fontSize })
+
+  const measureBlock = (block: ReportBlock, width: number): number => {
+    switch (block.type) {
+      case 'paragraph':
+        return measureRuns(block.runs, width, 10.5) + 6
+      case 'bullets':
+        return block.items.reduce((acc, item) => acc + measure(`• ${item}`, width - 10, { fontSize: 10.5 }) + 3, 0)
+      default:
+        return 24
+    }
+  }
+
+  const titleBar = (value: string) => {
+    const paddingX = 8
+    const paddingY = 6
+    const height = measure(value, contentWidth - paddingX * 2, { font: 'Helvetica-Bold', fontSize: 11 }) + paddingY * 2
+    ensureSpace(height + 24)
+    const startY = pdf.y
+    pdf.save()
+    pdf.fillColor(primaryColor).rect(marginLeft, startY, contentWidth, height).fill()
+    pdf.restore()
+    pdf
+      .fillColor('#FFFFFF')
+      .font('Helvetica-Bold')
+      .fontSize(11)
+      .text(value, marginLeft + paddingX, startY + paddingY, { width: contentWidth - paddingX * 2, lineGap: 2 })
+    pdf.y = startY + height + 6
+  }
+
+  const cellHeight = (cellValue: ReportCell, width: number) =>
+    cellValue.paragraphs.reduce(
+      (acc, runs) => acc + measureRuns(runs, width, 10, cellValue.bullets ? '• ' : ''),
+      0
+    )
+
+  const drawRow = (cells: ReportCell[], widths: number[], borderColor: string) => {
+    const paddingX = 6
+    const paddingY = 6
+    const height =
+      Math.max(...cells.map((c, idx) => cellHeight(c, widths[idx] - paddingX * 2))) + paddingY * 2
+    const startY = pdf.y
+
+    let x = marginLeft
+    cells.forEach((c, idx) => {
+      pdf.save()
+      pdf.fillColor(c.fill || '#FFFFFF').rect(x, startY, widths[idx], height).fill()
+      pdf.restore()
+      pdf.strokeColor(borderColor).rect(x, startY, widths[idx], height).stroke()
+
+      let cursorY = startY + paddingY
+      c.paragraphs.forEach((runs) => {
+        writeRuns(runs, x + paddingX, widths[idx] - paddingX * 2, {
+          fontSize: 10,
+          color: TEXT_DARK,
+          align: c.align,
+          prefix: c.bullets ? '• ' : undefined,
+          y: cursorY,
+        })
+        cursorY = pdf.y
+      })
+      x += widths[idx]
+    })
+    pdf.y = startY + height
+    return height
+  }
+
+  const table = (block: ReportTable) => {
+    const total = block.columns.reduce((acc, w) => acc + w, 0)
+    const widths = block.columns.map((w) => (w / total) * contentWidth)
+    const borderColor = block.borderColor || secondaryColor
+    const rowHeight = (cells: ReportCell[]) =>
+      Math.max(...cells.map((c, idx) => cellHeight(c, widths[idx] - 12))) + 12
+
+    const drawHeader = () => {
+      if (block.title) {
+        const titleCell: ReportCell = {
+          paragraphs: [[{ text: block.title, bold: true, color: '#FFFFFF' }]],
+          fill: primaryColor,
+          align: 'center',
+        }
+        drawRow([titleCell], [contentWidth], borderColor)
+      }
+      if (block.header) drawRow(block.header, widths, borderColor)
+    }
+
+    const headerHeight =
+      (block.title ? rowHeight([{ paragraphs: [[{ text: block.title, bold: true }]] }]) : 0) +
+      (block.header ? rowHeight(block.header) : 0)
+    ensureSpace(headerHeight + (block.rows[0] ? rowHeight(block.rows[0]) : 0))
+    drawHeader()
+    block.rows.forEach((row) => {
+      // Cabeçalho repetido ao quebrar a página
+      if (ensureSpace(rowHeight(row) + 4)) drawHeader()
+      drawRow(row, widths, borderColor)
+    })
+    pdf.moveDown(0.8)
+  }
+
+  const renderBlocks = (blocks: ReportBlock[], x: number, width: number) => {
+    blocks.forEach((block) => {
+      switch (block.type) {
+        case 'title':
+          ensureSpace(60)
+          pdf.fillColor(primaryColor).font('Helvetica-Bold').fontSize(18).text(block.text, x, pdf.y, {
+            width,
+            align: 'center',
+          })
+          pdf.moveDown(0.8)
+          block.subtitle.forEach((line) => {
+            pdf.fillColor(TEXT_MUTED).font('Helvetica').fontSize(11).text(line, x, pdf.y, { width, align: 'center' })
+          })
+          pdf.moveDown(1)
+          break
+        case 'sectionTitle':
+          titleBar(block.text)
+          break
+        case 'heading':
+          ensureSpace(block.level === 2 ? 40 : 30)
+          pdf
+            .fillColor(block.level === 2 ? primaryColor : TEXT_DARK)
+            .font('Helvetica-Bold')
+            .fontSize(block.level === 2 ? 13 : 12)
+            .text(block.text, x, pdf.y, { width })
+          pdf.moveDown(0.35)
+          break
+        case 'paragraph':
+          ensureSpace(24)
+          writeRuns(block.runs, x, width, { fontSize: 10.5, color: TEXT_MUTED })
+          pdf.moveDown(0.3)
+          break
+        case 'bullets': {
+          const indent = block.level === 1 ? 24 : 10
+          block.items.forEach((item) => {
+            ensureSpace(18)
+            pdf
+              .fillColor(TEXT_MUTED)
+              .font('Helvetica')
+              .fontSize(10.5)
+              .text(`${block.level === 1 ? '-' : '•'} ${item}`, x + indent, pdf.y, { width: width - indent, lineGap: 2 })
+            pdf.moveDown(0.2)
+          })
+          break
+        }
+        case 'card': {
+          const padding = 14
+          const innerWidth = width - padding * 2
+          const estimated = block.blocks.reduce((acc, b) => acc + measureBlock(b, innerWidth), padding * 2)
+          ensureSpace(Math.min(estimated, bottomLimit() - pdf.page.margins.top))
+          const startPage = pdf.bufferedPageRange().count
+          const startY = pdf.y
+          pdf.y = startY + padding
+          renderBlocks(block.blocks, x + padding, innerWidth)
+          // Borda só quando o card coube inteiro na mesma página
+          if (pdf.bufferedPageRange().count === startPage) {
+            pdf.strokeColor(CARD_BORDER).rect(x, startY, width, pdf.y + padding - startY).stroke()
+          }
+          pdf.y += padding + 10
+          break
+        }
+        case 'table':
+          table(block)
+          break
+        case 'rule':
+          ensureSpace(14)
+          pdf.moveDown(0.2)
+          pdf.moveTo(x, pdf.y).lineTo(x + width, pdf.y).strokeColor(secondaryColor).stroke()
+          pdf.moveDown(0.6)
+          break
+        case 'pageBreak':
+          pdf.addPage()
+          break
+      }
+    })
+  }
+
+  return { render: (blocks: ReportBlock[]) => renderBlocks(blocks, marginLeft, contentWidth) }
+}
+
+export async function renderReportPdf(doc: ReportDocument): Promise<Buffer> {
+  const pdf = new PDFDocument({ margin: 50, size: 'A4', bufferPages: true })
+  const chunks: Buffer[] = []
+  const done = new Promise<Buffer>((resolve, reject) => {
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk))
+    pdf.on('end', () => resolve(Buffer.concat(chunks)))
+    pdf.on('error', reject)
+  })
+
+  drawCover(pdf, doc)
+  createWriter(pdf, doc).render(doc.blocks)
+  drawHeaderFooter(pdf, doc)
+  pdf.end()
+  return done
+}
@@ -0,0 +1,233 @@
+import type { ReportTemplateTexts, ResolvedReportTemplate } from '../reportTemplate.service'
+import { cell, labelValue, paragraph, text, type ReportBlock, type ReportCell, type ReportDocument } from './model'
+
+export type PldReportInput = {
+  template: ResolvedReportTemplate
+  generatedBy: string
+  generatedAt: string
+  sections: any[]
+  sectionLabels: string[]
+  deficiencias: Array<{ sectionLabel: string; deficiencia: string; criticidade?: string; recomendacao?: string }>
+  conclusaoRows: Array<{ label: string; baixa: number; media: number; alta: number; total: number }>
+  evidenceRows: Array<{ itemLabel: string; files: Array<{ name: string; url: string }> }>
+  introAvaliador: string
+  incluirRecomendacoes: boolean
+  mostrarResultado: boolean
+  // Relatórios de ADMIN/TRIAL_ADMIN e do builder trazem a descrição de cada item avaliado
+  showSectionDescription: boolean
+  resultado: { resultado: string; descricao: string }
+}
+
+const FILL_ALTA = '#FEE2E2'
+const FILL_MEDIA = '#FEF9C3'
+const FILL_BAIXA = '#DCFCE7'
+const FILL_NEUTRAL = '#F1F5F9'
+
+const ATTACHMENT_GROUPS = [
+  { label: 'Requisição', categories: ['TEST_REQUISICAO', 'TESTE_REQUISICAO'] },
+  { label: 'Resposta', categories: ['TEST_RESPOSTA', 'TESTE_RESPOSTA'] },
+  { label: 'Amostra', categories: ['TEST_AMOSTRA', 'TESTE_AMOSTRA'] },
+  { label: 'Evidências', categories: ['TEST_EVIDENCIAS', 'TESTE_EVIDENCIAS'] },
+]
+
+const nonEmpty = (items: string[]) => items.filter((item) => String(item ?? '').trim())
+
+const sectionLabelOf = (section: any) =>
+  (section?.customLabel || '').trim() ? `${section.item} - ${section.customLabel}` : section?.item || '-'
+
+function criteriaTable(
+  title: string,
+  rows: Array<{ label: string; description: string; fill: string }>
+): ReportBlock {
+  return {
+    type: 'table',
+    columns: [2200, 7160],
+    title,
+    rows: rows.map((row) => [cell(row.label, { fill: row.fill, align: 'center', bold: true }), cell(row.description)]),
+  }
+}
+
+export function criticidadeTable(texts: ReportTemplateTexts) {
+  return criteriaTable(
+    'GRAU DE CRITICIDADE',
+    [
+      { label: 'ALTA', description: texts.criticidade.ALTA, fill: FILL_ALTA },
+      { label: 'MÉDIA', description: texts.criticidade.MEDIA, fill: FILL_MEDIA },
+      { label: 'BAIXA', description: texts.criticidade.BAIXA, fill: FILL_BAIXA },
+    ]
+  )
+}
+
+export function efetividadeTable(texts: ReportTemplateTexts) {
+  return criteriaTable(
+    'CRITÉRIOS DE AVALIAÇÃO DE EFETIVIDADE',
+    [
+      { label: 'EFETIVO', description: texts.efetividade.EFETIVO, fill: FILL_BAIXA },
+      { label: 'PARCIALMENTE EFETIVO', description: texts.efetividade.PARCIALMENTE_EFETIVO, fill: FILL_MEDIA },
+      { label: 'POUCO EFETIVO', description: texts.efetividade.POUCO_EFETIVO, fill: FILL_ALTA },
+    ]
+  )
+}
+
+// Card de uma pergunta: dados do teste e arquivos por grupo (somente com teste aplicado)
+function questionCard(question: any): ReportBlock | null {
+  if (String(question?.testStatus || '').toUpperCase() !== 'SIM') return null
+
+  const value = (raw: unknown) => (raw ? String(raw) : '-')
+  const blocks: ReportBlock[] = [
+    labelValue('Teste (descrição)', value(question?.testDescription)),
+    labelValue('Referência (requisição)', value(question?.requisicaoRef)),
+    labelValue('Referência (resposta)', value(question?.respostaTesteRef)),
+    labelValue('Referência (amostra)', value(question?.amostraRef)),
+    labelValue('Referência (evidências)', value(question?.evidenciasRef)),
+  ]
+
+  const atts: any[] = Array.isArray(question?.attachments) ? question.attachments : []
+  const uniqueAtts = [...new Map(atts.map((att) => [`${att.category}|${att.path}`, att])).values()]
+  ATTACHMENT_GROUPS.forEach((group) => {
+    const groupAtts = uniqueAtts.filter((att) => group.categories.includes(att.category))
+    if (!groupAtts.length) return
+    blocks.push(paragraph(text(`Arquivos - ${group.label}`, { bold: true })))
+    blocks.push({ type: 'bullets', items: groupAtts.map((att) => att.originalName || att.filename || 'Arquivo') })
+  })
+
+  return { type: 'card', blocks }
+}
+
+function executionBlocks(input: PldReportInput): ReportBlock[] {
+  const blocks: ReportBlock[] = []
+
+  input.sections.forEach((section, sectionIndex) => {
+    if (sectionIndex > 0) blocks.push({ type: 'pageBreak' })
+
+    const sectionLabel = sectionLabelOf(section)
+    const itemPrefix = `4.${sectionIndex + 1}`
+    blocks.push({ type: 'heading', level: 2, text: `${itemPrefix} ${sectionLabel}` })
+    if (input.showSectionDescription) {
+      blocks.push(labelValue('Descrição do item avaliado', section?.descricao ? String(section.descricao) : '-'))
+    }
+    blocks.push({ type: 'rule' })
+
+    ;(section?.questions || []).forEach((question: any) => {
+      const card = questionCard(question)
+      if (card) blocks.push(card)
+    })
+
+    blocks.push({ type: 'heading', level: 3, text: `${itemPrefix}.1 Apontamentos` })
+    const sectionDeficiencias = input.deficiencias.filter((def) => def.sectionLabel === sectionLabel)
+    if (!sectionDeficiencias.length) {
+      blocks.push(paragraph(text('Nenhuma deficiência identificada.')))
+    }
+    sectionDeficiencias.forEach((def, defIndex) => {
+      blocks.push(paragraph(text(`${defIndex + 1}. Deficiência: ${def.deficiencia}`, { bold: true })))
+      if (def.criticidade) blocks.push(paragraph(text(`Criticidade: ${def.criticidade}`)))
+      if (input.incluirRecomendacoes && def.recomendacao) {
+        blocks.push(paragraph(text(`Recomendação: ${def.recomendacao}`)))
+      }
+    })
+  })
+
+  return blocks
+}
+
+function conclusaoTable(rows: PldReportInput['conclusaoRows'], borderColor: string): ReportBlock {
+  const countCells = (values: string[], bold: boolean): ReportCell[] => [
+    cell(values[0], { fill: FILL_BAIXA, align: 'center', bold }),
+    cell(values[1], { fill: FILL_MEDIA, align: 'center', bold }),
+    cell(values[2], { fill: FILL_ALTA, align: 'center', bold }),
+    cell(values[3], { fill: bold ? FILL_NEUTRAL : undefined, align: 'center', bold }),
+  ]
+  return {
+    type: 'table',
+    columns: [5200, 1040, 1040, 1040, 1040],
+    header: [cell('Item avaliado', { fill: FILL_NEUTRAL, bold: true }), ...countCells(['BAIXA', 'MÉDIA', 'ALTA', 'TOTAL'], true)],
+    rows: rows.map((row) => {
+      const isTotal = row.label === 'TOTAL'
+      return [
+        cell(row.label, { bold: isTotal }),
+        ...countCells([row.baixa, row.media, row.alta, row.total].map(String), isTotal),
+      ]
+    }),
+    borderColor,
+  }
+}
+
+function evidenceTable(rows: PldReportInput['evidenceRows'], primaryColor: string): ReportBlock {
+  const headerCell = (value: string) => ({
+    paragraphs: [[text(value, { bold: true, color: '#FFFFFF' })]],
+    fill: primaryColor,
+  })
+  return {
+    type: 'table',
+    columns: [3200, 6160],
+    header: [headerCell('Item Avaliado'), headerCell('Arquivos Anexados')],
+    rows: rows.map((row, idx) => {
+      const fill = idx % 2 === 0 ? '#F8FAFC' : '#FFFFFF'
+      const files: ReportCell = row.files.length
+        ? { paragraphs: row.files.map((f) => [text(f.name, { link: f.url || null })]), fill, bullets: true }
+        : { paragraphs: [[text('Nenhum arquivo', { italic: true, color: '#9CA3AF' })]], fill }
+      return [cell(row.itemLabel || '-', { fill, bold: true }), files]
+    }),
+  }
+}
+
+/**
+ * Relatório de avaliação de efetividade PLD/FTP (formulário concluído ou builder vivo),
+ * com textos, cores, capa e cabeçalho/rodapé do template do tenant.
+ */
+export function buildPldReportDocument(input: PldReportInput): ReportDocument {
+  const tpl = input.template
+  const texts = tpl.texts
+  const primary = tpl.primaryColor
+
+  const blocks: ReportBlock[] = [
+    { type: 'title', text: tpl.title, subtitle: [`Gerado por: ${input.generatedBy}`, `Data: ${input.generatedAt}`] },
+    { type: 'rule' },
+    { type: 'sectionTitle', text: '1- Introdução' },
+    ...nonEmpty(texts.introducao).map((t) => paragraph(text(t))),
+    { type: 'rule' },
+    { type: 'sectionTitle', text: '2- Metodologia de Avaliação' },
+    ...nonEmpty([texts.metodologiaIntro]).map((t) => paragraph(text(t))),
+    { type: 'bullets', items: nonEmpty([texts.metodologiaDocumentos]) },
+    { type: 'bullets', items: nonEmpty(texts.metodologiaDocumentosLista), level: 1 },
+    { type: 'bullets', items: nonEmpty(texts.metodologiaItens) },
+    paragraph(text(texts.itensAvaliadosIntro)),
+    input.sectionLabels.length
+      ? { type: 'bullets', items: input.sectionLabels.map((label, idx) => `${idx + 1}. ${label}`) }
+      : paragraph(text('-')),
+    ...nonEmpty([texts.execucaoNota, texts.criticidadeIntro]).map((t) => paragraph(text(t))),
+    criticidadeTable(texts),
+    ...nonEmpty([texts.efetividadeIntro]).map((t) => paragraph(text(t))),
+    efetividadeTable(texts),
+    { type: 'rule' },
+    { type: 'sectionTitle', text: '3- Qualificação do Avaliador' },
+    paragraph(text(input.introAvaliador || '-')),
+    { type: 'rule' },
+    { type: 'sectionTitle', text: '4- Execução' },
+    ...executionBlocks(input),
+    { type: 'sectionTitle', text: '5- CONCLUSÃO' },
+    paragraph(text(texts.conclusaoIntro)),
+    conclusaoTable(input.conclusaoRows, '#94A3B8'),
+  ]
+
+  if (input.mostrarResultado) {
+    blocks.push(
+      { type: 'heading', level: 3, text: 'Resultado da Avaliação' },
+      paragraph(text('Resultado: ', { bold: true }), text(input.resultado.resultado)),
+      paragraph(text(input.resultado.descricao))
+    )
+  }
+
+  blocks.push({ type: 'sectionTitle', text: '6- ANEXO EVIDÊNCIAS' }, paragraph(text(texts.anexoIntro)))
+  blocks.push(input.evidenceRows.length ? evidenceTable(input.evidenceRows, primary) : paragraph(text('-')))
+
+  return {
+    title: tpl.title,
+    theme: { primaryColor: tpl.primaryColor, secondaryColor: tpl.secondaryColor },
+    cover: tpl.coverEnabled ? { title: tpl.coverTitle, subtitle: tpl.coverSubtitle, logo: tpl.logo } : null,
+    logo: tpl.coverEnabled ? null : tpl.logo,
+    header: tpl.headerText,
+    footer: tpl.footerText,
+    blocks: blocks.filter((block) => block.type !== 'bullets' || block.items.length > 0),
+  }
+}
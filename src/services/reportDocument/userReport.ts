@@ -0,0 +1,98 @@
+import { labelValue, paragraph, text, type ReportBlock, type ReportDocument } from './model'
+
+export type UserReportInput = {
+  title: string
+  theme: ReportDocument['theme']
+  user: { name: string; email: string }
+  generatedAt: string
+  type: 'PARTIAL' | 'FULL'
+  progress: { progress: number; totalApplicable: number; totalAnswered: number; totalQuestions: number }
+  // Tópicos de FormService.getFormData (perguntas com isApplicable/answer/evidences)
+  topics: any[]
+  questionTitle: (raw: unknown) => string
+  evidenceLink: (evidence: any) => string
+}
+
+const status = (value: string): ReportBlock => paragraph(text(`Status: ${value}`, { italic: true }))
+
+// Card de uma pergunta: resposta, textos e evidências com link
+function questionCard(question: any, index: number, input: UserReportInput): ReportBlock {
+  const blocks: ReportBlock[] = [paragraph(text(`${index + 1}. ${input.questionTitle(question.title)}`, { bold: true }))]
+  if (question.description) blocks.push(paragraph(text(`Descrição: ${question.description}`)))
+
+  const answer = question.answer
+  if (!question.isApplicable) {
+    blocks.push(status('Não aplicável'))
+  } else if (!answer) {
+    blocks.push(status('Não respondida'))
+  } else {
+    blocks.push(labelValue('Resposta', answer.response ? 'Sim' : 'Não'))
+    if (answer.justification) blocks.push(labelValue('Justificativa', answer.justification))
+    if (answer.deficiency) blocks.push(labelValue('Deficiência', answer.deficiency))
+    if (answer.recommendation) blocks.push(labelValue('Recomendação', answer.recommendation))
+
+    const evidences: any[] = Array.isArray(answer.evidences) ? answer.evidences : []
+    if (evidences.length) {
+      blocks.push(paragraph(text('Evidências', { bold: true })))
+      evidences.forEach((ev, evIndex) => {
+        blocks.push(paragraph(text(`• ${evIndex + 1}. ${ev.originalName}`, { link: input.evidenceLink(ev) })))
+      })
+    }
+  }
+
+  return { type: 'card', blocks }
+}
+
+function topicBlocks(topic: any, topicIndex: number, input: UserReportInput): ReportBlock[] {
+  const blocks: ReportBlock[] = topicIndex > 0 ? [{ type: 'pageBreak' }] : []
+  blocks.push({ type: 'heading', level: 3, text: topic?.name ? `Tópico: ${topic.name}` : 'Tópico' })
+  if (topic.description) blocks.push(paragraph(text(`Descrição: ${topic.description}`)))
+  if (topic.internalNorm) blocks.push(paragraph(text(`Identificação: ${topic.internalNorm}`)))
+  if (topic.normOriginalName) blocks.push(paragraph(text(`Arquivo da norma: ${topic.normOriginalName}`)))
+  blocks.push({ type: 'rule' })
+  ;(topic.questions || []).forEach((question: any, index: number) => blocks.push(questionCard(question, index, input)))
+  return blocks
+}
+
+/**
+ * Relatório de conformidade do formulário por tópicos de um usuário (/report/me e /report/user/:id):
+ * resumo de progresso e detalhamento de cada pergunta.
+ */
+export function buildUserReportDocument(input: UserReportInput): ReportDocument {
+  const { progress } = input
+  const blocks: ReportBlock[] = [
+    {
+      type: 'title',
+      text: 'Relatório de Conformidade PLD',
+      subtitle: [
+        `Usuário: ${input.user.name} <${input.user.email}>`,
+        `Data: ${input.generatedAt}`,
+        `Tipo de relatório: ${input.type === 'FULL' ? 'Final' : 'Parcial'}`,
+      ],
+    },
+    { type: 'rule' },
+    { type: 'heading', level: 2, text: 'Resumo de Progresso' },
+    {
+      type: 'card',
+      blocks: [
+        labelValue('Progresso', `${progress.progress}%`),
+        labelValue('Perguntas aplicáveis', String(progress.totalApplicable)),
+        labelValue('Perguntas respondidas', String(progress.totalAnswered)),
+        labelValue('Total de perguntas', String(progress.totalQuestions)),
+      ],
+    },
+    { type: 'rule' },
+    { type: 'heading', level: 2, text: 'Detalhamento por Tópico' },
+    ...input.topics.flatMap((topic, topicIndex) => topicBlocks(topic, topicIndex, input)),
+  ]
+
+  return {
+    title: input.title,
+    theme: input.theme,
+    cover: null,
+    logo: null,
+    header: '',
+    footer: '',
+    blocks,
+  }
+}
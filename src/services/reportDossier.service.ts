@@ -0,0 +1,183 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import AdmZip from 'adm-zip'
+import prisma from '../config/database'
+import { getReportsDir } from '../config/paths'
+import { getStorageProvider, readStoredFile, uploadFileToStorage } from '../config/storage'
+import type { ReportRenderFormat } from './reportDocument'
+import { ReportService } from './reportServices'
+
+type Requester = { requesterId: string; requesterRole?: string | null; requesterEmail?: string | null }
+
+export type DossierManifestFile = {
+  path: string
+  section: string
+  question: string | null
+  category: string
+  originalName: string
+  size: number
+  sha256: string
+}
+
+export type DossierManifest = {
+  formId: string
+  formName: string
+  generatedAt: string
+  generatedBy: string
+  report: { path: string; size: number; sha256: string }
+  files: DossierManifestFile[]
+  // Anexos registrados no formulário cujo arquivo não foi encontrado no storage
+  missing: Array<{ section: string; question: string | null; category: string; originalName: string; storedPath: string }>
+}
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim())
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex')
+
+// Nome seguro para pastas/arquivos dentro do ZIP (Windows incluso)
+const safeName = (value: string, max = 60) => {
+  const cleaned = text(value)
+    .replace(/[\u0000-\u001f<>:"/\\|?*]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .slice(0, max)
+    .replace(/[. ]+$/, '')
+    .trim()
+  return cleaned || 'sem-nome'
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+// Mesmo critério de buildEvidenceLink: o caminho salvo pode ser absoluto (legado) ou "uploads/..."
+const toStoredPath = (att: any) => {
+  const normalized = text(att?.path).replace(/\\/g, '/')
+  const idx = normalized.toLowerCase().indexOf('uploads/')
+  return idx >= 0 ? normalized.slice(idx) : `uploads/${normalized || text(att?.filename)}`
+}
+
+const attachmentsOf = (value: any): any[] => (Array.isArray(value?.attachments) ? value.attachments : [])
+
+// Dossiê de evidências: relatório gerado + todos os anexos do formulário, com manifesto e hashes
+export class ReportDossierService {
+  /**
+   * Monta o ZIP: relatorio/<arquivo>, evidencias/<NN - seção>/[_secao | QNN - pergunta]/<CATEGORIA>/<arquivo>,
+   * manifest.json e SHA256SUMS.txt (formato do sha256sum, verificável com `sha256sum -c`).
+   */
+  static async buildDossierZip(params: {
+    formId: string
+    formName: string
+    generatedBy: string
+    sections: any[]
+    report: { filename: string; data: Buffer }
+    readFile: (storedPath: string) => Promise<Buffer | null>
+  }) {
+    const zip = new AdmZip()
+    const labels = ReportService.getSectionLabels(params.sections)
+    const reportPath = `relatorio/${params.report.filename}`
+    zip.addFile(reportPath, params.report.data)
+
+    const manifest: DossierManifest = {
+      formId: params.formId,
+      formName: params.formName,
+      generatedAt: new Date().toISOString(),
+      generatedBy: params.generatedBy,
+      report: { path: reportPath, size: params.report.data.length, sha256: sha256(params.report.data) },
+      files: [],
+      missing: [],
+    }
+    const usedPaths = new Set<string>([reportPath])
+    const seen = new Set<string>()
+
+    const addAttachment = async (att: any, folder: string, section: string, question: string | null) => {
+      const storedPath = toStoredPath(att)
+      const category = text(att?.category).toUpperCase() || 'OUTROS'
+      const originalName = text(att?.originalName) || text(att?.filename) || path.posix.basename(storedPath)
+      const dir = `${folder}/${safeName(category)}`
+      if (seen.has(`${dir}|${storedPath}`)) return
+      seen.add(`${dir}|${storedPath}`)
+
+      const data = await params.readFile(storedPath).catch(() => null)
+      if (!data) {
+        manifest.missing.push({ section, question, category, originalName, storedPath })
+        return
+      }
+
+      const ext = path.posix.extname(originalName)
+      const base = safeName(ext ? originalName.slice(0, -ext.length) : originalName, 80)
+      let entryPath = `${dir}/${base}${ext}`
+      for (let n = 2; usedPaths.has(entryPath); n += 1) entryPath = `${dir}/${base} (${n})${ext}`
+      usedPaths.add(entryPath)
+
+      zip.addFile(entryPath, data)
+      manifest.files.push({ path: entryPath, section, question, category, originalName, size: data.length, sha256: sha256(data) })
+    }
+
+    for (const [sIdx, section] of params.sections.entries()) {
+      const sectionFolder = `evidencias/${pad(sIdx + 1)} - ${safeName(labels[sIdx])}`
+      for (const att of attachmentsOf(section)) {
+        await addAttachment(att, `${sectionFolder}/_secao`, labels[sIdx], null)
+      }
+      const questions: any[] = Array.isArray(section?.questions) ? section.questions : []
+      for (const [qIdx, question] of questions.entries()) {
+        const title = text(question?.texto) || `Pergunta ${qIdx + 1}`
+        for (const att of attachmentsOf(question)) {
+          await addAttachment(att, `${sectionFolder}/Q${pad(qIdx + 1)} - ${safeName(title, 50)}`, labels[sIdx], title)
+        }
+      }
+    }
+
+    const sums = [manifest.report, ...manifest.files].map((f) => `${f.sha256}  ${f.path}`)
+    zip.addFile('manifest.json', Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8'))
+    zip.addFile('SHA256SUMS.txt', Buffer.from(`${sums.join('\n')}\n`, 'utf-8'))
+
+    return { buffer: zip.toBuffer(), manifest }
+  }
+
+  /**
+   * Gera o relatório do formulário no formato pedido e empacota com os anexos
+   * (mesmas permissões de generatePldUserFormReport). Registra o ZIP como Report BUILDER_FORM_USER_REPORT.
+   */
+  static async generatePldFormDossier(formId: string, requester: Requester, format: ReportRenderFormat = 'PDF') {
+    const { requesterUser, reportForm, payload } = await ReportService.loadPldFormForRequester(formId, requester)
+    const sections: any[] = Array.isArray(payload.sections) ? payload.sections : []
+    const formName = text(reportForm.name) || 'Formulário'
+
+    const report = await ReportService.generatePldUserFormReport(formId, requester, format)
+    const reportData = report.filePath ? await readStoredFile(report.filePath) : null
+    if (!reportData) throw new Error('Falha ao localizar arquivo de relatório')
+
+    const { buffer } = await this.buildDossierZip({
+      formId,
+      formName,
+      generatedBy: `${requesterUser.name} <${requesterUser.email}>`,
+      sections,
+      report: { filename: path.basename(report.filePath), data: reportData },
+      readFile: readStoredFile,
+    })
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const filename = `pld-form-dossier-${formId}-${timestamp}.zip`
+    const filePath = path.join(getReportsDir(), filename)
+    await fs.promises.writeFile(filePath, buffer)
+
+    if (getStorageProvider() === 'supabase') {
+      await uploadFileToStorage({
+        localPath: filePath,
+        objectKey: `reports/${filename}`,
+        contentType: 'application/zip',
+        deleteLocal: true,
+      })
+    }
+
+    return (prisma as any).report.create({
+      data: {
+        name: `Dossiê PLD - ${formName}`,
+        type: 'BUILDER_FORM_USER_REPORT',
+        format: 'ZIP',
+        content: null,
+        filePath: path.join('uploads', 'reports', filename),
+        userId: requesterUser.id,
+      },
+    })
+  }
+}
@@ -0,0 +1,207 @@
+import prisma from '../config/database'
+import { storedFileExists } from '../config/storage'
+import { enqueueJob, getJob, setJobProgress, triggerJobRunner } from '../jobs/runner'
+import { type PermissionUser, assertPermission, hasPermission } from './permission.service'
+import { PldBuilderService } from './pldBuilder.service'
+import type { ReportRenderFormat } from './reportDocument'
+import { ReportDossierService } from './reportDossier.service'
+import { type PldBuilderReportScope, ReportService } from './reportServices'
+import { ReportSpreadsheetService } from './reportSpreadsheet.service'
+
+const prismaAny = prisma as any
+
+export const REPORT_GENERATE_JOB = 'REPORT_GENERATE'
+
+export type ReportJobFormat = ReportRenderFormat | 'XLSX'
+
+type Requester = PermissionUser & { id: string; email?: string | null }
+
+type FormRequester = { requesterId: string; requesterRole?: string | null; requesterEmail?: string | null }
+
+export type ReportJobPayload =
+  | {
+      kind: 'FORM'
+      formId: string
+      format: ReportJobFormat
+      requester: FormRequester
+    }
+  | {
+      // Dossiê ZIP (relatório no formato pedido + anexos do formulário)
+      kind: 'DOSSIER'
+      formId: string
+      format: ReportRenderFormat
+      requester: FormRequester
+    }
+  | {
+      kind: 'BUILDER'
+      format: ReportRenderFormat
+      userId: string
+      opts: { name: string | null; metadata: any }
+      // Ausente em jobs antigos: builder do ADMIN
+      scope?: PldBuilderReportScope
+    }
+
+const parseResult = (raw: unknown) => {
+  try {
+    return typeof raw === 'string' ? JSON.parse(raw) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Chave de cache (dedupeKey) de um relatório/dossiê de formulário: mesmo formulário, revisão, status
+ * (conclusão/aprovação não alteram o conteúdo, mas decidem o selo), formato, solicitante (o documento
+ * traz "Gerado por") e versões das regras de efetividade e do template de relatório.
+ */
+export function reportCacheKey(params: {
+  kind: 'form' | 'dossier'
+  formId: string
+  revision: number
+  status?: string | null
+  format: ReportJobFormat
+  requesterId: string
+  rulesUpdatedAt?: Date | string | null
+  templateUpdatedAt?: Date | string | null
+}) {
+  const stamp = (value?: Date | string | null) => (value ? new Date(value).getTime() : 'default')
+  const { kind, formId, revision, format, requesterId } = params
+  const status = params.status || 'DRAFT'
+  const versions = `${stamp(params.rulesUpdatedAt)}:${stamp(params.templateUpdatedAt)}`
+  return `report:${kind}:${formId}:r${revision}:${status}:${format}:${requesterId}:${versions}`
+}
+
+// Job com a mesma chave é reaproveitado se pendente, em execução ou concluído com o arquivo do relatório ainda existente
+export const isReusableReportJob = (status: string, fileExists: boolean) =>
+  status === 'PENDING' || status === 'RUNNING' || (status === 'COMPLETED' && fileExists)
+
+// Geração de relatórios fora da requisição HTTP (job REPORT_GENERATE do runner em src/jobs)
+export class ReportJobService {
+  private static async formCacheKey(
+    kind: 'form' | 'dossier',
+    form: { id: string; revision?: number | null; status?: string | null },
+    format: ReportJobFormat,
+    requester: Requester,
+    ownerId: string
+  ) {
+    const [rules, template] = await Promise.all([
+      prismaAny.scoringRuleSet.findUnique({ where: { ownerId }, select: { updatedAt: true } }),
+      prismaAny.reportTemplate.findUnique({ where: { ownerId }, select: { updatedAt: true } }),
+    ])
+    return reportCacheKey({
+      kind,
+      formId: form.id,
+      revision: form.revision ?? 0,
+      status: form.status,
+      format,
+      requesterId: requester.id,
+      rulesUpdatedAt: rules?.updatedAt,
+      templateUpdatedAt: template?.updatedAt,
+    })
+  }
+
+  private static async findReusable(dedupeKey: string) {
+    const existing = await prismaAny.scheduledJob.findUnique({ where: { dedupeKey } })
+    if (!existing) return null
+
+    const reportId = existing.status === 'COMPLETED' ? parseResult(existing.result)?.reportId : null
+    const report = reportId
+      ? await prismaAny.report.findUnique({ where: { id: reportId }, select: { id: true, filePath: true } })
+      : null
+    // O arquivo também precisa existir no storage (pode ter sido apagado fora do registro)
+    const fileExists = report?.filePath ? await storedFileExists(report.filePath).catch(() => false) : false
+    if (isReusableReportJob(existing.status, fileExists)) return existing
+
+    // FAILED (mantém o erro no próprio job) ou relatório/arquivo removido: libera a chave para um novo job
+    await prismaAny.scheduledJob.update({ where: { id: existing.id }, data: { dedupeKey: null } })
+    return null
+  }
+
+  static async enqueueFormReport(requester: Requester, formId: string, format: ReportJobFormat) {
+    return this.enqueueForm('FORM', requester, formId, format)
+  }
+
+  // Dossiê ZIP: pode reunir muitos anexos, por isso é gerado sempre pelo runner
+  static async enqueueFormDossier(requester: Requester, formId: string, format: ReportRenderFormat) {
+    return this.enqueueForm('DOSSIER', requester, formId, format)
+  }
+
+  private static async enqueueForm(kind: 'FORM' | 'DOSSIER', requester: Requester, formId: string, format: ReportJobFormat) {
+    const requesterInfo = {
+      requesterId: requester.id,
+      requesterRole: requester.role,
+      requesterEmail: requester.email ?? null,
+    }
+    // Valida permissão já no enfileiramento (mesmas regras da geração síncrona)
+    const { reportForm, tenantOwnerId } = await ReportService.loadPldFormForRequester(formId, requesterInfo)
+
+    const cacheKind = kind === 'DOSSIER' ? 'dossier' : 'form'
+    const dedupeKey = await this.formCacheKey(cacheKind, reportForm, format, requester, tenantOwnerId)
+    const reusable = await this.findReusable(dedupeKey)
+    if (reusable) return { job: reusable, cached: reusable.status === 'COMPLETED' }
+
+    const payload: ReportJobPayload =
+      kind === 'DOSSIER'
+        ? { kind, formId, format: format as ReportRenderFormat, requester: requesterInfo }
+        : { kind, formId, format, requester: requesterInfo }
+    const job = await enqueueJob({
+      type: REPORT_GENERATE_JOB,
+      payload,
+      maxAttempts: 1,
+      dedupeKey,
+      createdById: requester.id,
+    })
+    triggerJobRunner()
+    return { job, cached: false }
+  }
+
+  // Relatório do builder vivo (ADMIN): o conteúdo não é versionado, então não há cache
+  static async enqueueBuilderReport(
+    requester: Requester,
+    format: ReportRenderFormat,
+    opts: { name?: string | null; metadata?: any }
+  ) {
+    assertPermission(requester, 'system:manage')
+
+    const payload: ReportJobPayload = {
+      kind: 'BUILDER',
+      format,
+      userId: requester.id,
+      opts: { name: typeof opts.name === 'string' ? opts.name : null, metadata: opts.metadata ?? null },
+      scope: PldBuilderService.getReportScope(requester),
+    }
+    const job = await enqueueJob({ type: REPORT_GENERATE_JOB, payload, maxAttempts: 1, createdById: requester.id })
+    triggerJobRunner()
+    return { job, cached: false }
+  }
+
+  static async getJobForUser(requester: Requester, id: string) {
+    const job = await getJob(id)
+    if (!job || job.type !== REPORT_GENERATE_JOB) throw new Error('Job não encontrado')
+    if (!hasPermission(requester, 'system:manage') && job.createdById !== requester.id) throw new Error('Job não encontrado')
+
+    const reportId = job.status === 'COMPLETED' ? parseResult(job.result)?.reportId : null
+    const report = reportId ? await ReportService.getReportById(reportId) : null
+    return { job, report }
+  }
+
+  // Handler do job REPORT_GENERATE
+  static async run(payload: ReportJobPayload, job: { id: string }) {
+    if (!payload?.kind) throw new Error('Payload do job inválido')
+    await setJobProgress(job.id, 10)
+
+    let report: any
+    if (payload.kind === 'FORM') {
+      report =
+        payload.format === 'XLSX'
+          ? await ReportSpreadsheetService.generatePldFormXlsx(payload.formId, payload.requester)
+          : await ReportService.generatePldUserFormReport(payload.formId, payload.requester, payload.format)
+    } else if (payload.kind === 'DOSSIER') {
+      report = await ReportDossierService.generatePldFormDossier(payload.formId, payload.requester, payload.format)
+    } else {
+      report = await ReportService.generatePldBuilderReport(payload.userId, payload.format, payload.opts, payload.scope)
+    }
+
+    return { reportId: report.id }
+  }
+}
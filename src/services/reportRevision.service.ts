@@ -0,0 +1,152 @@
+import prisma from '../config/database'
+import { diffFormContent, listChangedQuestionIds } from '../utils/formContentDiff'
+
+const prismaAny = prisma as any
+
+export type RevisionAuthor = {
+  id?: string | null
+  email?: string | null
+}
+
+const parseContent = (content: string | null | undefined) => {
+  if (!content) return null
+  try {
+    return JSON.parse(content)
+  } catch {
+    return null
+  }
+}
+
+export class ReportRevisionService {
+  /**
+   * Registra uma nova revisão imutável de Report.content e devolve a versão dela, que passa a ser
+   * Report.revision. Deve ser chamado na mesma transação que atualiza o Report, com `revision` e
+   * `previousContent` lidos com a linha do formulário travada (SELECT ... FOR UPDATE).
+   * Formulários anteriores ao histórico recebem uma revisão BASELINE com o conteúdo antigo.
+   */
+  static async record(
+    tx: any,
+    params: {
+      reportId: string
+      revision: number
+      previousContent: string | null
+      content: string
+      action: string
+      author?: RevisionAuthor | null
+    }
+  ): Promise<number> {
+    let version = params.revision
+    if (params.previousContent && (await tx.reportRevision.count({ where: { reportId: params.reportId } })) === 0) {
+      version = Math.max(version, 1)
+      await tx.reportRevision.create({
+        data: {
+          reportId: params.reportId,
+          version,
+          action: 'BASELINE',
+          content: params.previousContent,
+          changedQuestionIds: [],
+        },
+      })
+    }
+
+    let authorId = params.author?.id ?? null
+    const authorEmail = params.author?.email ? params.author.email.toLowerCase() : null
+    if (!authorId && authorEmail) {
+      const user = await tx.user.findUnique({ where: { email: authorEmail }, select: { id: true } })
+      authorId = user?.id ?? null
+    }
+
+    await tx.reportRevision.create({
+      data: {
+        reportId: params.reportId,
+        version: version + 1,
+        action: params.action,
+        content: params.content,
+        changedQuestionIds: listChangedQuestionIds(parseContent(params.previousContent), parseContent(params.content)),
+        authorId,
+        authorEmail,
+      },
+    })
+    return version + 1
+  }
+
+  static async listRevisions(reportId: string) {
+    const rows = await prismaAny.reportRevision.findMany({
+      where: { reportId },
+      orderBy: { version: 'desc' },
+      select: {
+        id: true,
+        version: true,
+        action: true,
+        changedQuestionIds: true,
+        authorId: true,
+        authorEmail: true,
+        createdAt: true,
+        author: { select: { name: true, email: true } },
+      },
+    })
+
+    return rows.map((r: any) => ({
+      id: r.id,
+      version: r.version,
+      action: r.action,
+      changedQuestionIds: r.changedQuestionIds || [],
+      author: r.authorId || r.authorEmail
+        ? { id: r.authorId, name: r.author?.name || null, email: r.author?.email || r.authorEmail }
+        : null,
+      createdAt: r.createdAt,
+    }))
+  }
+
+  static async getRevision(reportId: string, version: number) {
+    const revision = await prismaAny.reportRevision.findUnique({
+      where: { reportId_version: { reportId, version } },
+      include: { author: { select: { name: true, email: true } } },
+    })
+    if (!revision) throw new Error('Revisão não encontrada')
+
+    return {
+      id: revision.id,
+      version: revision.version,
+      action: revision.action,
+      changedQuestionIds: revision.changedQuestionIds || [],
+      author: revision.authorId || revision.authorEmail
+        ? { id: revision.authorId, name: revision.author?.name || null, email: revision.author?.email || revision.authorEmail }
+        : null,
+      createdAt: revision.createdAt,
+      content: parseContent(revision.content),
+    }
+  }
+
+  /**
+   * Diff campo a campo entre duas revisões. Sem `from`, compara com a revisão imediatamente anterior;
+   * sem `to`, usa a revisão mais recente.
+   */
+  static async diffRevisions(reportId: string, from?: number | null, to?: number | null) {
+    let toVersion = to ?? null
+    if (!toVersion) {
+      const last = await prismaAny.reportRevision.findFirst({
+        where: { reportId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      })
+      if (!last) throw new Error('Formulário não possui revisões')
+      toVersion = last.version as number
+    }
+
+    const fromVersion = from ?? toVersion - 1
+    if (fromVersion < 1) throw new Error('Não há revisão anterior para comparar')
+
+    const [a, b] = await Promise.all([
+      prismaAny.reportRevision.findUnique({ where: { reportId_version: { reportId, version: fromVersion } } }),
+      prismaAny.reportRevision.findUnique({ where: { reportId_version: { reportId, version: toVersion } } }),
+    ])
+    if (!a || !b) throw new Error('Revisão não encontrada')
+
+    return {
+      from: { version: a.version, createdAt: a.createdAt, action: a.action },
+      to: { version: b.version, createdAt: b.createdAt, action: b.action },
+      diff: diffFormContent(parseContent(a.content), parseContent(b.content)),
+    }
+  }
+}
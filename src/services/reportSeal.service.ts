@@ -0,0 +1,103 @@
+import crypto from 'crypto'
+import prisma from '../config/database'
+
+const prismaAny = prisma as any
+
+// Só formulários finalizados geram relatórios selados
+export const SEALABLE_FORM_STATUSES = ['APPROVED', 'COMPLETED']
+
+// Base32 de Crockford (sem I, L, O, U): fácil de ditar e digitar
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+const CODE_LENGTH = 12
+
+export const sha256Hex = (data: Buffer | string) => crypto.createHash('sha256').update(data).digest('hex')
+
+// XXXX-XXXX-XXXX (60 bits aleatórios)
+export function generateVerificationCode() {
+  const bytes = crypto.randomBytes(CODE_LENGTH)
+  const chars = Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('')
+  return chars.match(/.{4}/g)!.join('-')
+}
+
+// Aceita minúsculas, sem hífens e as confusões usuais (O→0, I/L→1)
+export function normalizeVerificationCode(raw: string) {
+  const chars = String(raw || '')
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1')
+  if (chars.length !== CODE_LENGTH || [...chars].some((c) => !CODE_ALPHABET.includes(c))) return null
+  return chars.match(/.{4}/g)!.join('-')
+}
+
+export type ReportSealDraft = {
+  code: string
+  contentHash: string
+  sourceFormId: string
+  sourceRevision: number
+}
+
+export class ReportSealService {
+  static isSealable(form: { status?: string | null }) {
+    return SEALABLE_FORM_STATUSES.includes(String(form?.status || '').toUpperCase())
+  }
+
+  static verificationUrl(code: string) {
+    const base = (process.env.PUBLIC_BASE_URL || 'http://localhost:3001').replace(/\/api\/?$/, '').replace(/\/+$/, '')
+    return `${base}/api/report/verify/${code}`
+  }
+
+  static verificationLine(code: string) {
+    return `Código de verificação: ${code} - ${ReportSealService.verificationUrl(code)}`
+  }
+
+  /**
+   * Selo de um formulário finalizado: o código entra no rodapé antes da renderização
+   * e o hash do arquivo é gravado junto com o Report (ver ReportService.saveRenderedReport).
+   */
+  static draftFor(form: { id: string; status?: string | null; content?: string | null; revision?: number | null }) {
+    if (!ReportSealService.isSealable(form)) return null
+    const draft: ReportSealDraft = {
+      code: generateVerificationCode(),
+      contentHash: sha256Hex(form.content || ''),
+      sourceFormId: form.id,
+      sourceRevision: form.revision ?? 0,
+    }
+    return draft
+  }
+
+  static sealData(draft: ReportSealDraft, file: Buffer) {
+    return {
+      verificationCode: draft.code,
+      contentHash: draft.contentHash,
+      fileHash: sha256Hex(file),
+      sealedAt: new Date(),
+      sourceFormId: draft.sourceFormId,
+      sourceRevision: draft.sourceRevision,
+    }
+  }
+
+  /**
+   * Verificação pública: dados do relatório emitido e, quando informado o SHA-256 do arquivo
+   * apresentado, se ele confere com o emitido (matches = null sem arquivo/hash).
+   */
+  static async verify(rawCode: string, presentedHash?: string | null) {
+    const code = normalizeVerificationCode(rawCode)
+    if (!code) return null
+
+    const report = await prismaAny.report.findUnique({ where: { verificationCode: code } })
+    if (!report || !report.fileHash) return null
+
+    const hash = String(presentedHash || '').trim().toLowerCase()
+    return {
+      code,
+      name: report.name,
+      format: report.format,
+      sealedAt: report.sealedAt,
+      sourceRevision: report.sourceRevision,
+      fileHash: report.fileHash,
+      contentHash: report.contentHash,
+      matches: hash ? hash === report.fileHash : null,
+    }
+  }
+}
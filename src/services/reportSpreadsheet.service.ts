@@ -0,0 +1,186 @@
+import path from 'path'
+import ExcelJS from 'exceljs'
+import prisma from '../config/database'
+import { getReportsDir } from '../config/paths'
+import { getStorageProvider, uploadFileToStorage } from '../config/storage'
+import { ReportService } from './reportServices'
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+const TEST_STATUS_LABELS: Record<string, string> = {
+  SIM: 'Sim',
+  NAO: 'Não',
+  NAO_PLANO: 'Não (consta no plano)',
+}
+
+const CRITICIDADE_LABELS: Record<string, string> = {
+  ALTA: 'Alta',
+  MEDIA: 'Média',
+  BAIXA: 'Baixa',
+}
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim())
+
+const toDate = (value: unknown) => {
+  if (!value) return null
+  const d = new Date(value as any)
+  return Number.isNaN(d.getTime()) ? null : d
+}
+
+const QUESTION_COLUMNS: Array<{ header: string; key: string; width: number; date?: boolean }> = [
+  { header: 'Seção', key: 'secao', width: 28 },
+  { header: 'Nº', key: 'numero', width: 6 },
+  { header: 'Pergunta', key: 'texto', width: 60 },
+  { header: 'Aplicável', key: 'aplicavel', width: 10 },
+  { header: 'Criticidade', key: 'criticidade', width: 12 },
+  { header: 'Capitulação', key: 'capitulacao', width: 24 },
+  { header: 'Resposta', key: 'resposta', width: 10 },
+  { header: 'Resposta (texto)', key: 'respostaTexto', width: 40 },
+  { header: 'Deficiência', key: 'deficienciaTexto', width: 40 },
+  { header: 'Recomendação', key: 'recomendacaoTexto', width: 40 },
+  { header: 'Teste realizado', key: 'testStatus', width: 16 },
+  { header: 'Descrição do teste', key: 'testDescription', width: 40 },
+  { header: 'Requisição', key: 'requisicaoRef', width: 24 },
+  { header: 'Resposta do teste', key: 'respostaTesteRef', width: 24 },
+  { header: 'Amostra', key: 'amostraRef', width: 24 },
+  { header: 'Evidências', key: 'evidenciasRef', width: 24 },
+  { header: 'Origem do apontamento', key: 'actionOrigem', width: 24 },
+  { header: 'Responsável', key: 'actionResponsavel', width: 24 },
+  { header: 'Ação / plano', key: 'actionDescricao', width: 40 },
+  { header: 'Data do apontamento', key: 'actionDataApontamento', width: 16, date: true },
+  { header: 'Prazo original', key: 'actionPrazoOriginal', width: 14, date: true },
+  { header: 'Prazo atual', key: 'actionPrazoAtual', width: 14, date: true },
+  { header: 'Comentários', key: 'actionComentarios', width: 40 },
+]
+
+function styleHeader(sheet: ExcelJS.Worksheet) {
+  const header = sheet.getRow(1)
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } }
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF1F3864' } }
+  header.alignment = { vertical: 'middle', wrapText: true }
+  sheet.views = [{ state: 'frozen', ySplit: 1 }]
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: sheet.columnCount } }
+}
+
+// Planilha de respostas e plano de ação de um BUILDER_FORM
+export class ReportSpreadsheetService {
+  static buildPldFormWorkbook(formName: string, sections: any[]) {
+    const workbook = new ExcelJS.Workbook()
+    workbook.creator = 'Arcanjo PLD'
+    workbook.title = formName
+    workbook.created = new Date()
+
+    const labels = ReportService.getSectionLabels(sections)
+
+    const questions = workbook.addWorksheet('Questões')
+    questions.columns = QUESTION_COLUMNS.map(({ header, key, width }) => ({ header, key, width }))
+
+    sections.forEach((section, sIdx) => {
+      const list = Array.isArray(section?.questions) ? section.questions : []
+      list.forEach((q: any, qIdx: number) => {
+        const row: Record<string, unknown> = {
+          secao: labels[sIdx],
+          numero: `${sIdx + 1}.${qIdx + 1}`,
+          texto: text(q?.texto),
+          aplicavel: q?.aplicavel === false ? 'Não' : 'Sim',
+          criticidade: CRITICIDADE_LABELS[text(q?.criticidade).toUpperCase()] || text(q?.criticidade),
+          testStatus: TEST_STATUS_LABELS[text(q?.testStatus).toUpperCase()] || text(q?.testStatus),
+        }
+        for (const col of QUESTION_COLUMNS) {
+          if (col.key in row) continue
+          row[col.key] = col.date ? toDate(q?.[col.key]) : text(q?.[col.key])
+        }
+        questions.addRow(row)
+      })
+    })
+
+    QUESTION_COLUMNS.forEach((col, idx) => {
+      const column = questions.getColumn(idx + 1)
+      column.alignment = { vertical: 'top', wrapText: true }
+      if (col.date) column.numFmt = 'dd/mm/yyyy'
+    })
+    styleHeader(questions)
+
+    // Resumo de deficiências (resposta "Não" + criticidade) por seção
+    const summary = workbook.addWorksheet('Deficiências por seção')
+    summary.columns = [
+      { header: 'Seção', key: 'secao', width: 32 },
+      { header: 'Perguntas', key: 'perguntas', width: 12 },
+      { header: 'Aplicáveis', key: 'aplicaveis', width: 12 },
+      { header: 'Respondidas', key: 'respondidas', width: 12 },
+      { header: 'Deficiências - Alta', key: 'alta', width: 18 },
+      { header: 'Deficiências - Média', key: 'media', width: 18 },
+      { header: 'Deficiências - Baixa', key: 'baixa', width: 18 },
+      { header: 'Total de deficiências', key: 'total', width: 20 },
+    ]
+
+    const deficiencias = ReportService.collectDeficiencias(sections)
+    const totals = { perguntas: 0, aplicaveis: 0, respondidas: 0, alta: 0, media: 0, baixa: 0, total: 0 }
+
+    sections.forEach((section, sIdx) => {
+      const list: any[] = Array.isArray(section?.questions) ? section.questions : []
+      const applicable = list.filter((q) => q?.aplicavel !== false)
+      const answered = applicable.filter((q) => text(q?.resposta) !== '')
+      const own = deficiencias.filter((d) => d.sectionLabel === labels[sIdx])
+      const count = (crit: string) => own.filter((d) => d.criticidade === crit).length
+
+      const row = {
+        perguntas: list.length,
+        aplicaveis: applicable.length,
+        respondidas: answered.length,
+        alta: count('ALTA'),
+        media: count('MEDIA'),
+        baixa: count('BAIXA'),
+        total: own.length,
+      }
+      summary.addRow({ secao: labels[sIdx], ...row })
+      for (const key of Object.keys(totals) as Array<keyof typeof totals>) totals[key] += row[key]
+    })
+
+    const totalRow = summary.addRow({ secao: 'Total', ...totals })
+    totalRow.font = { bold: true }
+    styleHeader(summary)
+
+    return workbook
+  }
+
+  /**
+   * Gera o XLSX de um BUILDER_FORM (mesmas permissões de generatePldUserFormReport)
+   * e registra o arquivo como Report BUILDER_FORM_USER_REPORT.
+   */
+  static async generatePldFormXlsx(
+    formId: string,
+    requester: { requesterId: string; requesterRole?: string | null; requesterEmail?: string | null }
+  ) {
+    const { requesterUser, reportForm, payload } = await ReportService.loadPldFormForRequester(formId, requester)
+    const sections: any[] = Array.isArray(payload.sections) ? payload.sections : []
+    const formName = text(reportForm.name) || 'Formulário'
+
+    const workbook = this.buildPldFormWorkbook(formName, sections)
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const filename = `pld-form-report-${formId}-${timestamp}.xlsx`
+    const filePath = path.join(getReportsDir(), filename)
+    await workbook.xlsx.writeFile(filePath)
+
+    if (getStorageProvider() === 'supabase') {
+      await uploadFileToStorage({
+        localPath: filePath,
+        objectKey: `reports/${filename}`,
+        contentType: XLSX_MIME,
+        deleteLocal: true,
+      })
+    }
+
+    return (prisma as any).report.create({
+      data: {
+        name: `Planilha PLD - ${formName}`,
+        type: 'BUILDER_FORM_USER_REPORT',
+        format: 'XLSX',
+        content: null,
+        filePath: path.join('uploads', 'reports', filename),
+        userId: requesterUser.id,
+      },
+    })
+  }
+}
@@ -0,0 +1,275 @@
+import fs from 'fs'
+import prisma from '../config/database'
+import { getImageSize } from '../utils/imageSize'
+
+const prismaAny = prisma as any
+
+export type ReportTemplateTexts = {
+  introducao: string[]
+  metodologiaIntro: string
+  metodologiaDocumentos: string
+  metodologiaDocumentosLista: string[]
+  metodologiaItens: string[]
+  itensAvaliadosIntro: string
+  execucaoNota: string
+  criticidadeIntro: string
+  criticidade: { ALTA: string; MEDIA: string; BAIXA: string }
+  efetividadeIntro: string
+  efetividade: { EFETIVO: string; PARCIALMENTE_EFETIVO: string; POUCO_EFETIVO: string }
+  conclusaoIntro: string
+  anexoIntro: string
+}
+
+export type ReportTemplateSettings = {
+  title: string
+  primaryColor: string
+  secondaryColor: string
+  coverEnabled: boolean
+  coverTitle: string
+  coverSubtitle: string
+  headerText: string
+  footerText: string
+  texts: ReportTemplateTexts
+}
+
+// Valores disponíveis nos textos do template ({{chave}})
+export type ReportPlaceholderValues = {
+  instituicoes: string
+  avaliador: string
+  data: string
+  dataBase: string
+  resultado: string
+  formulario: string
+  geradoPor: string
+}
+
+export const REPORT_PLACEHOLDERS: Array<keyof ReportPlaceholderValues> = [
+  'instituicoes',
+  'avaliador',
+  'data',
+  'dataBase',
+  'resultado',
+  'formulario',
+  'geradoPor',
+]
+
+// Textos padrão do relatório PLD (Circular BCB nº 3.978/20)
+export const DEFAULT_REPORT_TEXTS: ReportTemplateTexts = {
+  introducao: [
+    'Conforme artigo 62 da Circular BCB nº 3.978, de 23 de janeiro de 2020, as instituições autorizadas a funcionar pelo Banco Central do Brasil devem avaliar anualmente a efetividade da política, dos procedimentos e dos controles internos por elas implementados para a prevenção à lavagem de dinheiro e ao financiamento do terrorismo.',
+    'Este relatório contém o resultado da avaliação dos diversos itens do programa de PLD/FTP das instituições {{instituicoes}}.',
+    'Para fins de elaboração deste relatório, Instituição será doravante adotado para designar ambas as instituições.',
+    'Em atendimento ao disposto no § 1º do artigo 62 da Circular BCB nº 3.978/20, este relatório descreve a metodologia empregada nessa avaliação, os testes aplicados, a qualificação do avaliador, os itens avaliados e o resultado dessa avaliação (deficiências identificadas).',
+    'A avaliação considerou o programa de PLD/FTP vigente em {{dataBase}}.',
+  ],
+  metodologiaIntro: 'A metodologia de avaliação consistiu na:',
+  metodologiaDocumentos:
+    'verificação da existência, formalização, conteúdo, atualização e, quando for o caso, a divulgação dos documentos exigidos expressamente na Circular BCB nº 3.978/20:',
+  metodologiaDocumentosLista: [
+    'Política de PLD/FTP;',
+    'Manual de Procedimentos Conheça seu Cliente;',
+    'Manual de Procedimentos de Monitoramento, Seleção, Análise e Comunicação de Operações Suspeitas (Procedimentos MSAC);',
+    'Procedimentos Conheça seu Funcionário;',
+    'Procedimentos Conheça seu Parceiro;',
+    'Procedimentos Conheça seu Prestador de Serviço Terceirizado;',
+    'Relatório de Avaliação Interna de Risco',
+    'Relatório de Avaliação de Efetividade do ano anterior;',
+    'Plano de Ação para correção das deficiências identificadas no Relatório de Avaliação de Efetividade do ano anterior;',
+    'Relatório de Acompanhamento do Plano de Ação;',
+  ],
+  metodologiaItens: [
+    'avaliação da estrutura e dos procedimentos de governança de PLD/FTP;',
+    'avaliação do programa de treinamento em PLD/FTP e das ações de promoção da cultura organizacional de PLD/FTP;',
+    'avaliação dos procedimentos MSAC, incluindo a adequação da área de PLD/FTP;',
+    'avaliação dos procedimentos relacionados ao cumprimento das disposições da Lei nº 13.810/19, regulamentados pela Resolução BCB nº 44/20 e Instrução Normativa BCB nº 262/22;',
+    'avaliação dos procedimentos antifraude;',
+    'avaliação dos mecanismos de acompanhamento e de controle de que trata o Capítulo X da Circular BCB nº 3.978/20, incluindo auditoria interna;',
+    'realização de testes com o propósito de verificar a aderência dos procedimentos vigentes em relação ao disposto nos documentos internos, por meio de: entrevistas; requisição de evidências; amostragem; acompanhamento, por meio de reuniões remotas, da execução dos procedimentos e controles de PLD/FTP pelos responsáveis diretos por tal execução; e na análise de relatórios gerenciais e de estatísticas relativas ao sistema de monitoramento e aos procedimentos conheça seu cliente.',
+  ],
+  itensAvaliadosIntro: 'Os itens avaliados do programa de PLD/FTP da Instituição foram:',
+  execucaoNota:
+    'A descrição detalhada da avaliação de cada item, incluindo os testes realizados, consta no item EXECUÇÃO.',
+  criticidadeIntro:
+    'Como resultado dessa avaliação, a deficiência identificada recebeu um grau de criticidade definido conforme tabela abaixo.',
+  criticidade: {
+    ALTA: 'Quando a deficiência comprometer de maneira significativa a efetividade do controle de PLD/FTP associado.',
+    MEDIA:
+      'Quando a deficiência corresponder a inobservância de boa prática de PLD/FTP ou quando a deficiência comprometer parcialmente a efetividade do controle de PLD/FTP associado.',
+    BAIXA: 'Quando a deficiência não compromete a efetividade do controle de PLD/FTP associado.',
+  },
+  efetividadeIntro:
+    'O resultado da avaliação de efetividade resultará na atribuição de um dos conceitos, mostrados a seguir, ao programa de PLD/FTP da Instituição.',
+  efetividade: {
+    EFETIVO:
+      'Quando o programa de PLD/FTP atingir a maioria dos resultados esperados, sem a identificação de deficiências de alta criticidade nos procedimentos de monitoramento, seleção, análise e comunicação de operações atípicas, nos procedimentos de verificação de sanções CSNU, e nos procedimentos conheça seu cliente.',
+    PARCIALMENTE_EFETIVO:
+      'Quando o programa de PLD/FTP atingir a maioria dos resultados esperados, com a identificação de algumas deficiências de alta criticidade nos procedimentos conheça seu cliente ou nos procedimentos de monitoramento, seleção, análise e comunicação de operações atípicas.',
+    POUCO_EFETIVO:
+      'Quando o programa de PLD/FTP não atingir a maioria dos resultados esperados, com a identificação de deficiências de alta criticidade nos procedimentos de monitoramento, seleção, análise e comunicação de operações atípicas, nos procedimentos de verificação de sanções CSNU, e nos procedimentos conheça seu cliente.',
+  },
+  conclusaoIntro:
+    'A tabela abaixo mostra a relação de deficiências e respectiva criticidade identificadas como resultado da avaliação dos diversos itens do Programa de PLD/FTP da Instituição.',
+  anexoIntro:
+    'A tabela abaixo apresenta os itens avaliados e todos os arquivos enviados (norma e demais anexos) relacionados às questões.',
+}
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplateSettings = {
+  title: 'Relatório PLD',
+  primaryColor: '#1E3A5F',
+  secondaryColor: '#E2E8F0',
+  coverEnabled: false,
+  coverTitle: 'Relatório de Avaliação de Efetividade do Programa de PLD/FTP',
+  coverSubtitle: '{{instituicoes}}',
+  headerText: '',
+  footerText: '',
+  texts: DEFAULT_REPORT_TEXTS,
+}
+
+// Template pronto para os renderizadores: placeholders já substituídos
+export type ResolvedReportTemplate = ReportTemplateSettings & {
+  logo: { data: Buffer; mimeType: string } | null
+}
+
+export function applyPlaceholders(text: string, values: Partial<ReportPlaceholderValues>) {
+  return String(text ?? '').replace(/\{\{\s*([a-zA-Z]+)\s*\}\}/g, (match, key: string) => {
+    const value = (values as Record<string, string | undefined>)[key]
+    return value === undefined ? match : value || '-'
+  })
+}
+
+const applyDeep = <T>(value: T, values: Partial<ReportPlaceholderValues>): T => {
+  if (typeof value === 'string') return applyPlaceholders(value, values) as T
+  if (Array.isArray(value)) return value.map((v) => applyDeep(v, values)) as T
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, applyDeep(v, values)])) as T
+  }
+  return value
+}
+
+const parseTexts = (raw: unknown): Partial<ReportTemplateTexts> => {
+  try {
+    const parsed = typeof raw === 'string' ? JSON.parse(raw) : null
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+// Textos salvos sobrescrevem os padrão chave a chave (tabelas de critérios por item)
+export function mergeTemplateTexts(overrides: Partial<ReportTemplateTexts> | null | undefined): ReportTemplateTexts {
+  const o = overrides || {}
+  return {
+    ...DEFAULT_REPORT_TEXTS,
+    ...o,
+    criticidade: { ...DEFAULT_REPORT_TEXTS.criticidade, ...(o.criticidade || {}) },
+    efetividade: { ...DEFAULT_REPORT_TEXTS.efetividade, ...(o.efetividade || {}) },
+  }
+}
+
+const fromRow = (row: any): ReportTemplateSettings => ({
+  title: row.title || DEFAULT_REPORT_TEMPLATE.title,
+  primaryColor: row.primaryColor || DEFAULT_REPORT_TEMPLATE.primaryColor,
+  secondaryColor: row.secondaryColor || DEFAULT_REPORT_TEMPLATE.secondaryColor,
+  coverEnabled: !!row.coverEnabled,
+  coverTitle: row.coverTitle ?? DEFAULT_REPORT_TEMPLATE.coverTitle,
+  coverSubtitle: row.coverSubtitle ?? DEFAULT_REPORT_TEMPLATE.coverSubtitle,
+  headerText: row.headerText ?? '',
+  footerText: row.footerText ?? '',
+  texts: mergeTemplateTexts(parseTexts(row.texts)),
+})
+
+const LOGO_MIME_TYPES = new Set(['image/png', 'image/jpeg'])
+const LOGO_MAX_BYTES = 512 * 1024
+
+// Template de relatório por tenant (dono do formulário/builder)
+export class ReportTemplateService {
+  static async getTemplateView(ownerId: string) {
+    const row = await prismaAny.reportTemplate.findUnique({ where: { ownerId } })
+    return {
+      ownerId,
+      isDefault: !row,
+      ...(row ? fromRow(row) : DEFAULT_REPORT_TEMPLATE),
+      hasLogo: !!row?.logoData,
+      placeholders: REPORT_PLACEHOLDERS,
+      updatedAt: row?.updatedAt ?? null,
+    }
+  }
+
+  static async updateTemplate(
+    ownerId: string,
+    data: Partial<Omit<ReportTemplateSettings, 'texts'>> & { texts?: Partial<ReportTemplateTexts> }
+  ) {
+    const { texts, ...fields } = data
+    const existing = await prismaAny.reportTemplate.findUnique({ where: { ownerId }, select: { texts: true } })
+    const currentTexts = parseTexts(existing?.texts)
+    const mergedTexts =
+      texts === undefined
+        ? currentTexts
+        : {
+            ...currentTexts,
+            ...texts,
+            ...(texts.criticidade ? { criticidade: { ...(currentTexts.criticidade || {}), ...texts.criticidade } } : {}),
+            ...(texts.efetividade ? { efetividade: { ...(currentTexts.efetividade || {}), ...texts.efetividade } } : {}),
+          }
+
+    await prismaAny.reportTemplate.upsert({
+      where: { ownerId },
+      create: { ownerId, ...fields, texts: JSON.stringify(mergedTexts) },
+      update: { ...fields, texts: JSON.stringify(mergedTexts) },
+    })
+    return this.getTemplateView(ownerId)
+  }
+
+  static async resetTemplate(ownerId: string) {
+    await prismaAny.reportTemplate.deleteMany({ where: { ownerId } })
+    return this.getTemplateView(ownerId)
+  }
+
+  static async setLogo(ownerId: string, file: Express.Multer.File) {
+    try {
+      if (!LOGO_MIME_TYPES.has(file.mimetype)) throw new Error('Logo deve ser PNG ou JPEG')
+      if (file.size > LOGO_MAX_BYTES) throw new Error('Logo deve ter no máximo 512 KB')
+
+      const data = fs.readFileSync(file.path)
+      // O mimetype vem do cliente: o conteúdo precisa ser de fato uma imagem PNG/JPEG legível
+      if (!getImageSize(data)) throw new Error('Logo deve ser PNG ou JPEG')
+      await prismaAny.reportTemplate.upsert({
+        where: { ownerId },
+        create: { ownerId, texts: '{}', logoData: data, logoMimeType: file.mimetype },
+        update: { logoData: data, logoMimeType: file.mimetype },
+      })
+    } finally {
+      fs.promises.unlink(file.path).catch(() => undefined)
+    }
+    return this.getTemplateView(ownerId)
+  }
+
+  static async removeLogo(ownerId: string) {
+    await prismaAny.reportTemplate.updateMany({ where: { ownerId }, data: { logoData: null, logoMimeType: null } })
+    return this.getTemplateView(ownerId)
+  }
+
+  static async getLogo(ownerId: string) {
+    const row = await prismaAny.reportTemplate.findUnique({
+      where: { ownerId },
+      select: { logoData: true, logoMimeType: true },
+    })
+    return row?.logoData ? { data: Buffer.from(row.logoData), mimeType: row.logoMimeType || 'image/png' } : null
+  }
+
+  /**
+   * Template do tenant com os placeholders substituídos, no formato consumido pelos renderizadores DOCX/PDF.
+   */
+  static async resolve(ownerId: string | null | undefined, values: Partial<ReportPlaceholderValues>): Promise<ResolvedReportTemplate> {
+    const row = ownerId ? await prismaAny.reportTemplate.findUnique({ where: { ownerId } }) : null
+    const settings = row ? fromRow(row) : DEFAULT_REPORT_TEMPLATE
+    const { primaryColor, secondaryColor, coverEnabled, ...rest } = settings
+    return {
+      primaryColor,
+      secondaryColor,
+      coverEnabled,
+      ...applyDeep(rest, values),
+      logo: row?.logoData ? { data: Buffer.from(row.logoData), mimeType: row.logoMimeType || 'image/png' } : null,
+    }
+  }
+}
@@ -0,0 +1,526 @@
+import prisma from '../config/database'
+import { AuditService } from './audit.service'
+import { FormTrashService } from './formTrash.service'
+
+const prismaAny = prisma as any
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const RETENTION_PURGE_JOB = 'RETENTION_PURGE'
+
+export const RETENTION_RECORD_TYPES = [
+  'BUILDER_FORM',
+  'GENERATED_REPORT',
+  'EVIDENCE',
+  'PASSWORD_RESET_TOKEN',
+  'AUDIT_EVENT',
+] as const
+
+export type RetentionRecordType = (typeof RETENTION_RECORD_TYPES)[number]
+
+export const LEGAL_HOLD_TARGET_TYPES = ['Report', 'Organization', 'User'] as const
+
+export type LegalHoldTargetType = (typeof LEGAL_HOLD_TARGET_TYPES)[number]
+
+type PolicyDefaults = { retentionDays: number; enabled: boolean; minDays: number }
+
+/**
+ * Padrões sem linha em retention_policies. Registros da avaliação PLD ficam no mínimo 5 anos
+ * (Lei 9.613/98, art. 10) e a exclusão deles só acontece depois de habilitada pelo admin.
+ */
+export const DEFAULT_RETENTION_POLICIES: Record<RetentionRecordType, PolicyDefaults> = {
+  BUILDER_FORM: { retentionDays: 1825, enabled: false, minDays: 1825 },
+  GENERATED_REPORT: { retentionDays: 1825, enabled: false, minDays: 1825 },
+  EVIDENCE: { retentionDays: 1825, enabled: false, minDays: 1825 },
+  PASSWORD_RESET_TOKEN: { retentionDays: 7, enabled: true, minDays: 1 },
+  AUDIT_EVENT: { retentionDays: 1825, enabled: true, minDays: 365 },
+}
+
+// Data que conta o prazo de cada tipo (usada no motivo exibido na prévia)
+const RETENTION_BASIS: Record<RetentionRecordType, string> = {
+  BUILDER_FORM: 'formulários revisados (ou enviados/criados, sem revisão)',
+  GENERATED_REPORT: 'relatórios gerados',
+  EVIDENCE: 'evidências enviadas',
+  PASSWORD_RESET_TOKEN: 'tokens de redefinição de senha expirados ou usados',
+  AUDIT_EVENT: 'eventos de auditoria registrados',
+}
+
+// Alvos com preservação legal ativa; reportIds já inclui os formulários das organizações preservadas
+export type HeldTargets = { reportIds: string[]; organizationIds: string[]; userIds: string[] }
+
+export type RetentionPolicyView = {
+  recordType: RetentionRecordType
+  retentionDays: number
+  enabled: boolean
+  minDays: number
+  updatedAt: Date | null
+  updatedById: string | null
+}
+
+export const retentionCutoff = (now: Date, retentionDays: number) => new Date(now.getTime() - retentionDays * DAY_MS)
+
+export const retentionReason = (recordType: RetentionRecordType, retentionDays: number, cutoff: Date) =>
+  `${RETENTION_BASIS[recordType]} antes de ${cutoff.toISOString().slice(0, 10)} (retenção de ${retentionDays} dias)`
+
+const notIn = (field: string, ids: string[]) => (ids.length ? { [field]: { notIn: ids } } : null)
+
+// Colunas opcionais: NOT IN descartaria as linhas com null
+const nullOrNotIn = (field: string, ids: string[]) =>
+  ids.length ? { OR: [{ [field]: null }, { [field]: { notIn: ids } }] } : null
+
+const withHolds = (base: Record<string, unknown>, clauses: Array<Record<string, unknown> | null>) => {
+  const and = clauses.filter(Boolean)
+  return and.length ? { ...base, AND: and } : base
+}
+
+// Formulário preservado por ele mesmo, pelo dono, pelo respondente ou pela organização
+const formHoldClauses = (held?: HeldTargets) => [
+  notIn('id', held?.reportIds ?? []),
+  notIn('userId', held?.userIds ?? []),
+  nullOrNotIn('assignedToId', held?.userIds ?? []),
+  nullOrNotIn('organizationId', held?.organizationIds ?? []),
+]
+
+// Formulários fora de preservação legal (exclusão definitiva da lixeira, src/services/formTrash.service.ts)
+export const unheldFormsWhere = (held: HeldTargets) => withHolds({ type: 'BUILDER_FORM' }, formHoldClauses(held))
+
+// Cada tipo de registro vem de uma ou mais tabelas (EVIDENCE: questionário padrão e plano de ação)
+export type RetentionSource =
+  | 'BUILDER_FORM'
+  | 'GENERATED_REPORT'
+  | 'EVIDENCE'
+  | 'ACTION_PLAN_EVIDENCE'
+  | 'PASSWORD_RESET_TOKEN'
+  | 'AUDIT_EVENT'
+
+export const RETENTION_SOURCES: Record<RetentionRecordType, RetentionSource[]> = {
+  BUILDER_FORM: ['BUILDER_FORM'],
+  GENERATED_REPORT: ['GENERATED_REPORT'],
+  EVIDENCE: ['EVIDENCE', 'ACTION_PLAN_EVIDENCE'],
+  PASSWORD_RESET_TOKEN: ['PASSWORD_RESET_TOKEN'],
+  AUDIT_EVENT: ['AUDIT_EVENT'],
+}
+
+/**
+ * Registros vencidos de uma tabela. Com `held`, exclui os preservados (sem `held`, inclui todos:
+ * a diferença entre as contagens é o que está retido por preservação legal).
+ */
+export function buildRetentionWhere(source: RetentionSource, cutoff: Date, held?: HeldTargets): any {
+  const reports = held?.reportIds ?? []
+  const orgs = held?.organizationIds ?? []
+  const users = held?.userIds ?? []
+
+  switch (source) {
+    case 'BUILDER_FORM':
+      return withHolds(
+        {
+          type: 'BUILDER_FORM',
+          OR: [
+            { reviewedAt: { lt: cutoff } },
+            { reviewedAt: null, submittedAt: { lt: cutoff } },
+            { reviewedAt: null, submittedAt: null, createdAt: { lt: cutoff } },
+          ],
+        },
+        formHoldClauses(held)
+      )
+    case 'GENERATED_REPORT':
+      return withHolds({ type: { not: 'BUILDER_FORM' }, createdAt: { lt: cutoff } }, [
+        notIn('id', reports),
+        notIn('userId', users),
+        nullOrNotIn('sourceFormId', reports),
+        // Relatórios antigos sem sourceFormId: o id do formulário está no nome do arquivo (generatedReportsWhere)
+        ...reports.map((id) => ({
+          OR: [
+            { filePath: null },
+            {
+              NOT: {
+                OR: [
+                  { filePath: { contains: `pld-form-report-${id}-` } },
+                  { filePath: { contains: `pld-form-dossier-${id}-` } },
+                ],
+              },
+            },
+          ],
+        })),
+      ])
+    case 'EVIDENCE':
+      return withHolds({ uploadedAt: { lt: cutoff } }, [users.length ? { answer: { userId: { notIn: users } } } : null])
+    case 'ACTION_PLAN_EVIDENCE':
+      return withHolds({ createdAt: { lt: cutoff } }, [
+        reports.length ? { item: { reportId: { notIn: reports } } } : null,
+        users.length ? { item: { ownerId: { notIn: users } } } : null,
+        nullOrNotIn('uploadedById', users),
+      ])
+    case 'PASSWORD_RESET_TOKEN':
+      // Tokens não são registros da avaliação: a preservação legal não se aplica
+      return { OR: [{ expiresAt: { lt: cutoff } }, { usedAt: { lt: cutoff } }] }
+    case 'AUDIT_EVENT':
+      return withHolds({ createdAt: { lt: cutoff } }, [
+        nullOrNotIn('actorId', users),
+        nullOrNotIn('targetId', [...reports, ...orgs, ...users]),
+      ])
+  }
+}
+
+// Tabela, ordenação e descrição de cada origem (prévia e exclusão)
+type SourceModel = {
+  model: string
+  orderBy: Record<string, 'asc'>
+  select: Record<string, boolean>
+  describe: (row: any) => { date: Date; description: string }
+}
+
+const SOURCE_MODELS: Record<RetentionSource, SourceModel> = {
+  BUILDER_FORM: {
+    model: 'report',
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, name: true, status: true, createdAt: true, submittedAt: true, reviewedAt: true },
+    describe: (r) => ({
+      date: r.reviewedAt ?? r.submittedAt ?? r.createdAt,
+      description: `${r.name} (${r.status ?? 'sem status'})`,
+    }),
+  },
+  GENERATED_REPORT: {
+    model: 'report',
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, name: true, type: true, createdAt: true },
+    describe: (r) => ({ date: r.createdAt, description: `${r.name} (${r.type})` }),
+  },
+  EVIDENCE: {
+    model: 'evidence',
+    orderBy: { uploadedAt: 'asc' },
+    select: { id: true, originalName: true, uploadedAt: true },
+    describe: (r) => ({ date: r.uploadedAt, description: `${r.originalName} (questionário)` }),
+  },
+  ACTION_PLAN_EVIDENCE: {
+    model: 'actionPlanEvidence',
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, originalName: true, createdAt: true },
+    describe: (r) => ({ date: r.createdAt, description: `${r.originalName} (plano de ação)` }),
+  },
+  PASSWORD_RESET_TOKEN: {
+    model: 'passwordResetToken',
+    orderBy: { expiresAt: 'asc' },
+    select: { id: true, expiresAt: true, usedAt: true },
+    describe: (r) => ({ date: r.usedAt ?? r.expiresAt, description: r.usedAt ? 'token usado' : 'token expirado' }),
+  },
+  AUDIT_EVENT: {
+    model: 'auditEvent',
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, action: true, targetType: true, createdAt: true },
+    describe: (r) => ({ date: r.createdAt, description: `${r.action} (${r.targetType})` }),
+  },
+}
+
+// Limite por execução dos tipos com arquivos (formulários, relatórios, evidências); o restante fica para a próxima
+const RETENTION_PURGE_BATCH = 200
+
+const serializeHold = (row: any) => ({
+  id: row.id,
+  targetType: row.targetType,
+  targetId: row.targetId,
+  reason: row.reason,
+  createdById: row.createdById,
+  createdAt: row.createdAt,
+  releasedAt: row.releasedAt,
+  releasedById: row.releasedById,
+  active: !row.releasedAt,
+})
+
+export class RetentionService {
+  static async getPolicies(): Promise<RetentionPolicyView[]> {
+    const rows = await prismaAny.retentionPolicy.findMany()
+    return RETENTION_RECORD_TYPES.map((recordType) => {
+      const row = rows.find((r: any) => r.recordType === recordType)
+      const defaults = DEFAULT_RETENTION_POLICIES[recordType]
+      return {
+        recordType,
+        retentionDays: row?.retentionDays ?? defaults.retentionDays,
+        enabled: row?.enabled ?? defaults.enabled,
+        minDays: defaults.minDays,
+        updatedAt: row?.updatedAt ?? null,
+        updatedById: row?.updatedById ?? null,
+      }
+    })
+  }
+
+  static async updatePolicy(
+    actorId: string,
+    recordType: RetentionRecordType,
+    data: { retentionDays?: number; enabled?: boolean }
+  ) {
+    const current = (await this.getPolicies()).find((p) => p.recordType === recordType)
+    if (!current) throw new Error('Tipo de registro inválido')
+    const next = {
+      retentionDays: data.retentionDays ?? current.retentionDays,
+      enabled: data.enabled ?? current.enabled,
+    }
+    if (next.retentionDays < current.minDays) {
+      throw new Error(`A retenção mínima para ${recordType} é de ${current.minDays} dias`)
+    }
+
+    await prismaAny.$transaction(async (tx: any) => {
+      await tx.retentionPolicy.upsert({
+        where: { recordType },
+        create: { recordType, ...next, updatedById: actorId },
+        update: { ...next, updatedById: actorId },
+      })
+      await AuditService.record(
+        {
+          action: 'retention.policy_update',
+          targetType: 'RetentionPolicy',
+          targetId: recordType,
+          metadata: {
+            before: { retentionDays: current.retentionDays, enabled: current.enabled },
+            after: next,
+          },
+        },
+        tx
+      )
+    })
+    return (await this.getPolicies()).find((p) => p.recordType === recordType)!
+  }
+
+  static async listHolds(activeOnly: boolean) {
+    const rows = await prismaAny.legalHold.findMany({
+      where: activeOnly ? { releasedAt: null } : {},
+      orderBy: { createdAt: 'desc' },
+    })
+    return rows.map(serializeHold)
+  }
+
+  static async createHold(
+    actorId: string,
+    data: { targetType: LegalHoldTargetType; targetId: string; reason: string }
+  ) {
+    const delegate = { Report: 'report', Organization: 'organization', User: 'user' }[data.targetType]
+    const target = await prismaAny[delegate].findUnique({ where: { id: data.targetId }, select: { id: true } })
+    if (!target) throw new Error('Alvo da preservação não encontrado')
+
+    const existing = await prismaAny.legalHold.findFirst({
+      where: { targetType: data.targetType, targetId: data.targetId, releasedAt: null },
+    })
+    if (existing) throw new Error('Já existe uma preservação legal ativa para este alvo')
+
+    const hold = await prismaAny.$transaction(async (tx: any) => {
+      const row = await tx.legalHold.create({ data: { ...data, createdById: actorId } })
+      await AuditService.record(
+        {
+          action: 'retention.hold_create',
+          targetType: data.targetType,
+          targetId: data.targetId,
+          metadata: { holdId: row.id, reason: data.reason },
+        },
+        tx
+      )
+      return row
+    })
+    return serializeHold(hold)
+  }
+
+  static async releaseHold(actorId: string, holdId: string) {
+    const hold = await prismaAny.legalHold.findUnique({ where: { id: holdId } })
+    if (!hold) throw new Error('Preservação legal não encontrada')
+    if (hold.releasedAt) throw new Error('Preservação legal já encerrada')
+
+    const released = await prismaAny.$transaction(async (tx: any) => {
+      const row = await tx.legalHold.update({
+        where: { id: holdId },
+        data: { releasedAt: new Date(), releasedById: actorId },
+      })
+      await AuditService.record(
+        {
+          action: 'retention.hold_release',
+          targetType: hold.targetType,
+          targetId: hold.targetId,
+          metadata: { holdId, reason: hold.reason, createdAt: hold.createdAt },
+        },
+        tx
+      )
+      return row
+    })
+    return serializeHold(released)
+  }
+
+  /**
+   * Preservações ativas. Formulários das organizações preservadas e os formulários de origem
+   * dos relatórios preservados entram em reportIds.
+   */
+  static async loadHeldTargets(): Promise<HeldTargets> {
+    const holds = await prismaAny.legalHold.findMany({
+      where: { releasedAt: null },
+      select: { targetType: true, targetId: true },
+    })
+    const idsOf = (type: LegalHoldTargetType) => holds.filter((h: any) => h.targetType === type).map((h: any) => h.targetId)
+    const organizationIds = idsOf('Organization')
+    const heldReports = idsOf('Report')
+
+    const [orgForms, sources] = await Promise.all([
+      organizationIds.length
+        ? prismaAny.report.findMany({
+            where: { type: 'BUILDER_FORM', organizationId: { in: organizationIds } },
+            select: { id: true },
+          })
+        : [],
+      heldReports.length
+        ? prismaAny.report.findMany({
+            where: { id: { in: heldReports }, sourceFormId: { not: null } },
+            select: { sourceFormId: true },
+          })
+        : [],
+    ])
+    const reportIds = new Set<string>([
+      ...heldReports,
+      ...orgForms.map((r: any) => r.id),
+      ...sources.map((r: any) => r.sourceFormId),
+    ])
+    return { reportIds: [...reportIds], organizationIds, userIds: idsOf('User') }
+  }
+
+  // O job usa o horário da próxima execução pendente; sem job agendado, o momento atual
+  private static async nextRunAt(now: Date) {
+    const job = await prismaAny.scheduledJob.findFirst({
+      where: { type: RETENTION_PURGE_JOB, status: 'PENDING' },
+      orderBy: { runAt: 'asc' },
+      select: { runAt: true },
+    })
+    return job?.runAt && new Date(job.runAt).getTime() > now.getTime() ? new Date(job.runAt) : now
+  }
+
+  /**
+   * O que a próxima execução do RETENTION_PURGE vai excluir: por tipo, quantos registros vencem,
+   * quantos ficam retidos por preservação legal, o motivo e os primeiros registros da fila.
+   */
+  static async preview(limit: number, now: Date = new Date()) {
+    const [policies, held, runAt] = await Promise.all([this.getPolicies(), this.loadHeldTargets(), this.nextRunAt(now)])
+
+    const items = []
+    for (const policy of policies) {
+      const cutoff = retentionCutoff(runAt, policy.retentionDays)
+      let due = 0
+      let total = 0
+      const next: Array<{ id: string; source: RetentionSource; date: Date; description: string }> = []
+      for (const source of RETENTION_SOURCES[policy.recordType]) {
+        const { model, orderBy, select, describe } = SOURCE_MODELS[source]
+        const where = buildRetentionWhere(source, cutoff, held)
+        const [dueCount, totalCount, rows] = await Promise.all([
+          prismaAny[model].count({ where }),
+          prismaAny[model].count({ where: buildRetentionWhere(source, cutoff) }),
+          prismaAny[model].findMany({ where, orderBy, select, take: limit }),
+        ])
+        due += dueCount
+        total += totalCount
+        next.push(...rows.map((row: any) => ({ id: row.id, source, ...describe(row) })))
+      }
+      next.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+      items.push({
+        ...policy,
+        cutoff,
+        reason: retentionReason(policy.recordType, policy.retentionDays, cutoff),
+        due: policy.enabled ? due : 0,
+        // Vencidos que a política desligada manteria
+        dueIfEnabled: due,
+        held: total - due,
+        next: policy.enabled ? next.slice(0, limit) : [],
+      })
+    }
+    return { runAt, heldTargets: held, policies: items }
+  }
+
+  // Job RETENTION_PURGE: aplica as políticas habilitadas, respeitando as preservações legais
+  static async purge(now: Date = new Date()) {
+    const [policies, held] = await Promise.all([this.getPolicies(), this.loadHeldTargets()])
+    const purged: Partial<Record<RetentionRecordType, number>> = {}
+
+    for (const policy of policies.filter((p) => p.enabled)) {
+      const cutoff = retentionCutoff(now, policy.retentionDays)
+      try {
+        const result = await this.purgeRecordType(policy.recordType, cutoff, held)
+        purged[policy.recordType] = result.purged
+        if (!result.purged) continue
+        await AuditService.log({
+          actor: null,
+          action: 'retention.purge',
+          targetType: 'RetentionPolicy',
+          targetId: policy.recordType,
+          metadata: { retentionDays: policy.retentionDays, cutoff, ...result },
+        })
+      } catch (error) {
+        console.error('[RETENTION] failed to purge:', policy.recordType, error)
+      }
+    }
+    return { purged }
+  }
+
+  private static async purgeRecordType(recordType: RetentionRecordType, cutoff: Date, held: HeldTargets) {
+    switch (recordType) {
+      case 'BUILDER_FORM': {
+        const forms = await prismaAny.report.findMany({
+          where: buildRetentionWhere('BUILDER_FORM', cutoff, held),
+          orderBy: { createdAt: 'asc' },
+          take: RETENTION_PURGE_BATCH,
+        })
+        let purged = 0
+        for (const form of forms) {
+          try {
+            await FormTrashService.purgeForm(form, 'RETENTION_POLICY')
+            purged += 1
+          } catch (error) {
+            console.error('[RETENTION] failed to purge form:', form.id, error)
+          }
+        }
+        return { purged }
+      }
+      case 'GENERATED_REPORT': {
+        const reports = await prismaAny.report.findMany({
+          where: buildRetentionWhere('GENERATED_REPORT', cutoff, held),
+          orderBy: { createdAt: 'asc' },
+          select: { id: true, filePath: true },
+          take: RETENTION_PURGE_BATCH,
+        })
+        return this.deleteWithFiles('report', reports, (r) => r.filePath)
+      }
+      case 'EVIDENCE': {
+        const [evidences, actionPlanEvidences] = await Promise.all([
+          prismaAny.evidence.findMany({
+            where: buildRetentionWhere('EVIDENCE', cutoff, held),
+            orderBy: { uploadedAt: 'asc' },
+            select: { id: true, path: true },
+            take: RETENTION_PURGE_BATCH,
+          }),
+          prismaAny.actionPlanEvidence.findMany({
+            where: buildRetentionWhere('ACTION_PLAN_EVIDENCE', cutoff, held),
+            orderBy: { createdAt: 'asc' },
+            select: { id: true, path: true },
+            take: RETENTION_PURGE_BATCH,
+          }),
+        ])
+        const answers = await this.deleteWithFiles('evidence', evidences, (e) => e.path)
+        const actionPlan = await this.deleteWithFiles('actionPlanEvidence', actionPlanEvidences, (e) => e.path)
+        return {
+          purged: answers.purged + actionPlan.purged,
+          filesDeleted: answers.filesDeleted + actionPlan.filesDeleted,
+          filesKept: answers.filesKept + actionPlan.filesKept,
+        }
+      }
+      case 'PASSWORD_RESET_TOKEN': {
+        const result = await prismaAny.passwordResetToken.deleteMany({
+          where: buildRetentionWhere('PASSWORD_RESET_TOKEN', cutoff),
+        })
+        return { purged: result.count }
+      }
+      case 'AUDIT_EVENT': {
+        const result = await prismaAny.auditEvent.deleteMany({ where: buildRetentionWhere('AUDIT_EVENT', cutoff, held) })
+        return { purged: result.count }
+      }
+    }
+  }
+
+  private static async deleteWithFiles(model: string, rows: any[], pathOf: (row: any) => string | null) {
+    if (!rows.length) return { purged: 0, filesDeleted: 0, filesKept: 0 }
+    const result = await prismaAny[model].deleteMany({ where: { id: { in: rows.map((r) => r.id) } } })
+    const files = await FormTrashService.deleteUnreferencedFiles(rows.map(pathOf))
+    return { purged: result.count, filesDeleted: files.filesDeleted, filesKept: files.filesKept.length }
+  }
+}
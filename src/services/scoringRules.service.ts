@@ -0,0 +1,94 @@
+import prisma from '../config/database'
+import { DEFAULT_SCORING_RULES, type ScoringArea, type ScoringRules } from '../utils/pldScoring'
+
+const prismaAny = prisma as any
+
+export type ScoringRulesUpdate = {
+  areas?: ScoringArea[]
+  weights?: Partial<ScoringRules['weights']>
+  areaThreshold?: number
+  partialFrom?: number
+  lowFrom?: number
+}
+
+const parseAreas = (raw: unknown): ScoringArea[] => {
+  try {
+    const parsed = typeof raw === 'string' ? JSON.parse(raw) : null
+    return Array.isArray(parsed) && parsed.length ? parsed : DEFAULT_SCORING_RULES.areas
+  } catch {
+    return DEFAULT_SCORING_RULES.areas
+  }
+}
+
+const fromRow = (row: any): ScoringRules => ({
+  areas: parseAreas(row.areas),
+  weights: { ALTA: row.weightAlta, MEDIA: row.weightMedia, BAIXA: row.weightBaixa },
+  areaThreshold: row.areaThreshold,
+  partialFrom: row.partialFrom,
+  lowFrom: row.lowFrom,
+})
+
+// Regras de efetividade por tenant (dono do formulário)
+export class ScoringRuleService {
+  static async getRules(ownerId: string | null | undefined): Promise<ScoringRules> {
+    if (!ownerId) return DEFAULT_SCORING_RULES
+    const row = await prismaAny.scoringRuleSet.findUnique({ where: { ownerId } })
+    return row ? fromRow(row) : DEFAULT_SCORING_RULES
+  }
+
+  static async getRulesView(ownerId: string) {
+    const row = await prismaAny.scoringRuleSet.findUnique({ where: { ownerId } })
+    return {
+      ownerId,
+      isDefault: !row,
+      ...(row ? fromRow(row) : DEFAULT_SCORING_RULES),
+      updatedAt: row?.updatedAt ?? null,
+    }
+  }
+
+  static async updateRules(ownerId: string, data: ScoringRulesUpdate) {
+    const current = await this.getRules(ownerId)
+    const next: ScoringRules = {
+      areas: data.areas ?? current.areas,
+      weights: { ...current.weights, ...(data.weights || {}) },
+      areaThreshold: data.areaThreshold ?? current.areaThreshold,
+      partialFrom: data.partialFrom ?? current.partialFrom,
+      lowFrom: data.lowFrom ?? current.lowFrom,
+    }
+
+    const keys = next.areas.map((a) => a.key.trim().toUpperCase())
+    if (new Set(keys).size !== keys.length) {
+      throw new Error('Cada área de controle deve ter uma chave única')
+    }
+    const mandatory = next.areas.filter((a) => a.mandatory).length
+    if (!mandatory) throw new Error('Defina ao menos uma área de controle obrigatória')
+    if (next.partialFrom > next.lowFrom) {
+      throw new Error('O limite de "parcialmente efetivo" não pode ser maior que o de "pouco efetivo"')
+    }
+    if (next.lowFrom > mandatory) {
+      throw new Error('O limite de "pouco efetivo" não pode ser maior que o número de áreas obrigatórias')
+    }
+
+    const columns = {
+      areas: JSON.stringify(next.areas.map((a, idx) => ({ ...a, key: keys[idx] }))),
+      weightAlta: next.weights.ALTA,
+      weightMedia: next.weights.MEDIA,
+      weightBaixa: next.weights.BAIXA,
+      areaThreshold: next.areaThreshold,
+      partialFrom: next.partialFrom,
+      lowFrom: next.lowFrom,
+    }
+    await prismaAny.scoringRuleSet.upsert({
+      where: { ownerId },
+      create: { ownerId, ...columns },
+      update: columns,
+    })
+    return this.getRulesView(ownerId)
+  }
+
+  // Volta às regras padrão
+  static async resetRules(ownerId: string) {
+    await prismaAny.scoringRuleSet.deleteMany({ where: { ownerId } })
+    return this.getRulesView(ownerId)
+  }
+}
@@ -1,6 +1,7 @@
 import type { User } from '@prisma/client'
+import type { ActiveOrganization } from '../services/organization.service'
 
-type RequestUser = Omit<User, 'password'> & { password?: string }
+type RequestUser = Omit<User, 'password'> & { password?: string; organization?: ActiveOrganization | null }
 
 declare global {
   namespace Express {
@@ -1,11 +1,14 @@
 import type { User } from '@prisma/client'
+import type { ActiveOrganization } from '../services/organization.service'
 
-type RequestUser = Omit<User, 'password'> & { password?: string }
+type RequestUser = Omit<User, 'password'> & { password?: string; organization?: ActiveOrganization | null }
 
 declare global {
   namespace Express {
     interface Request {
       user?: RequestUser
+      // Sessão (AuthSession) do access token usado na requisição
+      sessionId?: string
     }
   }
 }
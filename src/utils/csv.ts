@@ -0,0 +1,68 @@
+// Parser/gerador CSV mínimo (RFC 4180): aspas duplas, aspas escapadas ("") e quebras de linha dentro de campos.
+// O separador é detectado pela primeira linha: planilhas exportadas pelo Excel pt-BR usam `;`.
+
+export function detectCsvDelimiter(text: string): ',' | ';' {
+  const firstLine = text.split(/\r?\n/, 1)[0] || ''
+  const count = (ch: string) => firstLine.split(ch).length - 1
+  return count(';') > count(',') ? ';' : ','
+}
+
+export function parseCsv(text: string, delimiter?: ',' | ';'): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const sep = delimiter || detectCsvDelimiter(input)
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += ch
+      }
+      continue
+    }
+
+    if (ch === '"') {
+      inQuotes = true
+    } else if (ch === sep) {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// Gera CSV (padrão `;` para abrir direto no Excel pt-BR). Células iniciadas por = + - @ recebem `'`
+// para não serem interpretadas como fórmula.
+export function toCsv(rows: unknown[][], delimiter: ',' | ';' = ';'): string {
+  const cell = (value: unknown) => {
+    let text = value === null || value === undefined ? '' : value instanceof Date ? value.toISOString() : String(value)
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`
+    return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+  return rows.map((row) => row.map(cell).join(delimiter)).join('\r\n')
+}
@@ -0,0 +1,154 @@
+// Diff campo a campo entre dois snapshots de Report.content (BUILDER_FORM).
+// O payload tem o formato { sections: [{ ..., questions: [...], attachments: [...] }], metadata, helpTexts }.
+
+export type FieldChange = {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+export type AttachmentChange = {
+  added: Array<{ id?: string; category?: string; originalName?: string; path?: string }>
+  removed: Array<{ id?: string; category?: string; originalName?: string; path?: string }>
+}
+
+export type QuestionDiff = {
+  questionId: string
+  sectionId: string | null
+  texto: string | null
+  changes: FieldChange[]
+  attachments: AttachmentChange
+}
+
+export type SectionDiff = {
+  sectionId: string
+  item: string | null
+  changes: FieldChange[]
+  attachments: AttachmentChange
+}
+
+export type FormContentDiff = {
+  sections: SectionDiff[]
+  questions: QuestionDiff[]
+  metadata: FieldChange[]
+  helpTexts: FieldChange[]
+  review: FieldChange[]
+}
+
+// Campos estruturais/volumosos tratados à parte ou irrelevantes para auditoria
+const IGNORED_FIELDS = new Set(['attachments', 'questions', 'createdAt', 'updatedAt'])
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+const asObject = (value: unknown): Record<string, any> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, any>) : {}
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : [])
+
+function diffFields(before: unknown, after: unknown, ignored: Set<string> = IGNORED_FIELDS): FieldChange[] {
+  const a = asObject(before)
+  const b = asObject(after)
+  const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).filter((k) => !ignored.has(k))
+  keys.sort()
+
+  return keys
+    .filter((field) => !sameValue(a[field], b[field]))
+    .map((field) => ({ field, before: a[field] ?? null, after: b[field] ?? null }))
+}
+
+function attachmentKey(att: any) {
+  return String(att?.id || `${att?.category || ''}|${att?.path || ''}`)
+}
+
+function summarizeAttachment(att: any) {
+  return {
+    id: att?.id,
+    category: att?.category,
+    originalName: att?.originalName,
+    path: att?.path,
+  }
+}
+
+function diffAttachments(before: unknown, after: unknown): AttachmentChange {
+  const a = new Map(asArray(before).map((att) => [attachmentKey(att), att]))
+  const b = new Map(asArray(after).map((att) => [attachmentKey(att), att]))
+
+  return {
+    added: Array.from(b.entries())
+      .filter(([key]) => !a.has(key))
+      .map(([, att]) => summarizeAttachment(att)),
+    removed: Array.from(a.entries())
+      .filter(([key]) => !b.has(key))
+      .map(([, att]) => summarizeAttachment(att)),
+  }
+}
+
+function indexQuestions(payload: unknown) {
+  const map = new Map<string, { sectionId: string | null; question: any }>()
+  for (const section of asArray(asObject(payload).sections)) {
+    for (const question of asArray(section?.questions)) {
+      if (question?.id) map.set(String(question.id), { sectionId: section?.id ?? null, question })
+    }
+  }
+  return map
+}
+
+function indexSections(payload: unknown) {
+  const map = new Map<string, any>()
+  for (const section of asArray(asObject(payload).sections)) {
+    if (section?.id) map.set(String(section.id), section)
+  }
+  return map
+}
+
+const hasAttachmentChanges = (c: AttachmentChange) => c.added.length > 0 || c.removed.length > 0
+
+export function diffFormContent(before: unknown, after: unknown): FormContentDiff {
+  const sectionsBefore = indexSections(before)
+  const sectionsAfter = indexSections(after)
+  const sectionIds = Array.from(new Set([...sectionsBefore.keys(), ...sectionsAfter.keys()]))
+
+  const sections: SectionDiff[] = []
+  for (const sectionId of sectionIds) {
+    const a = sectionsBefore.get(sectionId)
+    const b = sectionsAfter.get(sectionId)
+    const changes = diffFields(a, b)
+    const attachments = diffAttachments(a?.attachments, b?.attachments)
+    if (changes.length === 0 && !hasAttachmentChanges(attachments)) continue
+    sections.push({ sectionId, item: (b ?? a)?.item ?? null, changes, attachments })
+  }
+
+  const questionsBefore = indexQuestions(before)
+  const questionsAfter = indexQuestions(after)
+  const questionIds = Array.from(new Set([...questionsBefore.keys(), ...questionsAfter.keys()]))
+
+  const questions: QuestionDiff[] = []
+  for (const questionId of questionIds) {
+    const a = questionsBefore.get(questionId)
+    const b = questionsAfter.get(questionId)
+    const changes = diffFields(a?.question, b?.question)
+    const attachments = diffAttachments(a?.question?.attachments, b?.question?.attachments)
+    if (changes.length === 0 && !hasAttachmentChanges(attachments)) continue
+    questions.push({
+      questionId,
+      sectionId: (b ?? a)?.sectionId ?? null,
+      texto: (b ?? a)?.question?.texto ?? null,
+      changes,
+      attachments,
+    })
+  }
+
+  const root = (payload: unknown, key: string) => asObject(payload)[key]
+
+  return {
+    sections,
+    questions,
+    metadata: diffFields(root(before, 'metadata'), root(after, 'metadata'), new Set()),
+    helpTexts: diffFields(root(before, 'helpTexts'), root(after, 'helpTexts'), new Set()),
+    review: diffFields(root(before, 'review'), root(after, 'review'), new Set()),
+  }
+}
+
+export function listChangedQuestionIds(before: unknown, after: unknown): string[] {
+  return diffFormContent(before, after).questions.map((q) => q.questionId)
+}
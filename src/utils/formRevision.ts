@@ -0,0 +1,19 @@
+// Controle de concorrência otimista dos formulários (Report.revision exposto como ETag)
+
+/**
+ * Revisão esperada: header If-Match ("3", W/"3" ou 3) ou campo `revision` do body.
+ * null => ausente ou inválida (a rota responde 428 REVISION_REQUIRED).
+ */
+export function parseExpectedRevision(ifMatch: string | undefined, bodyRevision: unknown): number | null {
+  const raw = ifMatch ? ifMatch.trim().replace(/^W\//, '').replace(/"/g, '') : bodyRevision
+  if (raw === undefined || raw === null || raw === '') return null
+  // Texto só com dígitos ("3abc" ou "1e3" são inválidos); número precisa ser inteiro não negativo
+  const parsed = typeof raw === 'number' ? raw : /^\d+$/.test(String(raw).trim()) ? Number(String(raw).trim()) : NaN
+  return Number.isSafeInteger(parsed) && parsed >= 0 ? parsed : null
+}
+
+export const revisionEtag = (revision: number) => `"${revision}"`
+
+// Cliente com revisão diferente da atual => FORM_REVISION_CONFLICT (409)
+export const isRevisionStale = (current: number | null | undefined, expected: number | null | undefined) =>
+  typeof expected === 'number' && (current ?? 0) !== expected
@@ -0,0 +1,40 @@
+// Dimensões (px) de imagens PNG/JPEG lendo apenas o cabeçalho, sem dependências externas.
+// Usado para posicionar o logo do template nos relatórios DOCX (ImageRun exige largura/altura).
+
+export type ImageSize = { width: number; height: number }
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+function pngSize(data: Buffer): ImageSize | null {
+  if (data.length < 24 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) return null
+  // Primeiro chunk é o IHDR: largura e altura em big-endian
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) }
+}
+
+function jpegSize(data: Buffer): ImageSize | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null
+  let offset = 2
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null
+    const marker = data[offset + 1]
+    const length = data.readUInt16BE(offset + 2)
+    // SOF0..SOF15, exceto DHT (C4), JPG (C8) e DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) }
+    }
+    offset += 2 + length
+  }
+  return null
+}
+
+export function getImageSize(data: Buffer): ImageSize | null {
+  const size = pngSize(data) || jpegSize(data)
+  return size && size.width > 0 && size.height > 0 ? size : null
+}
+
+// Redimensiona mantendo a proporção para caber em maxWidth x maxHeight
+export function fitImageSize(size: ImageSize | null, maxWidth: number, maxHeight: number): ImageSize {
+  if (!size) return { width: maxWidth, height: maxHeight }
+  const scale = Math.min(maxWidth / size.width, maxHeight / size.height, 1)
+  return { width: Math.round(size.width * scale), height: Math.round(size.height * scale) }
+}
@@ -0,0 +1,11 @@
+// Paginação por query string (?page=&pageSize=): valores inválidos caem no padrão e pageSize tem teto
+export type Pagination = { page: number; pageSize: number; skip: number; take: number }
+
+export function parsePagination(query: { page?: unknown; pageSize?: unknown }, defaultPageSize = 20, maxPageSize = 100): Pagination {
+  const toInt = (value: unknown) => (typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : NaN)
+  const rawPage = toInt(query.page)
+  const rawSize = toInt(query.pageSize)
+  const page = rawPage >= 1 ? rawPage : 1
+  const pageSize = rawSize >= 1 ? Math.min(rawSize, maxPageSize) : defaultPageSize
+  return { page, pageSize, skip: (page - 1) * pageSize, take: pageSize }
+}
@@ -0,0 +1,24 @@
+// Regra única de "deficiência" de uma pergunta do formulário PLD:
+// resposta "Não" + criticidade definida (BAIXA/MEDIA/ALTA).
+
+const normalize = (value: unknown) =>
+  String(value ?? '')
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+
+export function isRespostaNao(resposta: unknown): boolean {
+  const r = normalize(resposta)
+  return r === 'nao' || r === 'n'
+}
+
+export function getDeficiencyCriticidade(question: any): 'ALTA' | 'MEDIA' | 'BAIXA' | null {
+  if (!isRespostaNao(question?.resposta)) return null
+  const criticidade = String(question?.criticidade || '').toUpperCase().trim()
+  return criticidade === 'ALTA' || criticidade === 'MEDIA' || criticidade === 'BAIXA' ? criticidade : null
+}
+
+export function isDeficiency(question: any): boolean {
+  return getDeficiencyCriticidade(question) !== null
+}
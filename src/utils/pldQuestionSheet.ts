@@ -0,0 +1,163 @@
+// Conversão de uma planilha de banco de perguntas (linhas já lidas de XLSX/CSV) na árvore do builder.
+// Cada linha é uma pergunta; linhas com o mesmo item/rótulo formam uma seção, na ordem em que aparecem.
+import type { PldTreeSection } from '../services/pldBuilder.service'
+import { createPldQuestionSchema, createPldSectionSchema, updatePldQuestionSchema } from '../validators/pldBuilder.schemas'
+
+export type SheetRowError = {
+  row: number
+  field: string
+  message: string
+}
+
+export type QuestionSheetResult = {
+  sections: PldTreeSection[]
+  errors: SheetRowError[]
+  totalRows: number
+  totalQuestions: number
+}
+
+type SheetColumn = 'item' | 'customLabel' | 'texto' | 'capitulacao' | 'criticidade' | 'descricao' | 'templateRef'
+
+// Cabeçalhos aceitos (comparados sem acento/caixa)
+const HEADER_ALIASES: Record<string, SheetColumn> = {
+  item: 'item',
+  secao: 'item',
+  'item de avaliacao': 'item',
+  rotulo: 'customLabel',
+  'rotulo personalizado': 'customLabel',
+  customlabel: 'customLabel',
+  texto: 'texto',
+  pergunta: 'texto',
+  questao: 'texto',
+  capitulacao: 'capitulacao',
+  criticidade: 'criticidade',
+  descricao: 'descricao',
+  'descricao da secao': 'descricao',
+  template: 'templateRef',
+  'referencia do template': 'templateRef',
+  templateref: 'templateRef',
+}
+
+const normalizeHeader = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+
+const CRITICIDADE_ALIASES: Record<string, string> = {
+  baixa: 'BAIXA',
+  media: 'MEDIA',
+  alta: 'ALTA',
+}
+
+const validationOptions = { abortEarly: false, convert: true }
+
+// Mesmas regras de createPldQuestionSchema / createPldSectionSchema para os campos da planilha
+const FIELD_RULES: Record<SheetColumn, any> = {
+  item: createPldSectionSchema.extract('item'),
+  customLabel: createPldSectionSchema.extract('customLabel'),
+  descricao: createPldSectionSchema.extract('descricao'),
+  texto: createPldQuestionSchema.extract('texto'),
+  capitulacao: updatePldQuestionSchema.extract('capitulacao'),
+  criticidade: updatePldQuestionSchema.extract('criticidade'),
+  templateRef: updatePldQuestionSchema.extract('templateRef'),
+}
+
+export function mapSheetHeader(header: string[]) {
+  const columns = new Map<SheetColumn, number>()
+  header.forEach((raw, idx) => {
+    const column = HEADER_ALIASES[normalizeHeader(String(raw ?? ''))]
+    if (column && !columns.has(column)) columns.set(column, idx)
+  })
+  return columns
+}
+
+export function parseQuestionSheet(rows: string[][]): QuestionSheetResult {
+  const errors: SheetRowError[] = []
+  const [header = [], ...body] = rows
+  const columns = mapSheetHeader(header)
+
+  for (const required of ['item', 'texto'] as const) {
+    if (!columns.has(required)) {
+      errors.push({ row: 1, field: required, message: `Coluna obrigatória ausente: ${required}` })
+    }
+  }
+  if (errors.length) return { sections: [], errors, totalRows: body.length, totalQuestions: 0 }
+
+  const sectionsByKey = new Map<string, PldTreeSection>()
+  let totalQuestions = 0
+
+  body.forEach((cells, idx) => {
+    const rowNumber = idx + 2 // cabeçalho é a linha 1
+    const read = (column: SheetColumn) => {
+      const pos = columns.get(column)
+      return pos === undefined ? '' : String(cells[pos] ?? '').trim()
+    }
+
+    const raw: Record<SheetColumn, string> = {
+      item: read('item'),
+      customLabel: read('customLabel'),
+      texto: read('texto'),
+      capitulacao: read('capitulacao'),
+      criticidade: read('criticidade'),
+      descricao: read('descricao'),
+      templateRef: read('templateRef'),
+    }
+
+    // Linhas totalmente vazias são ignoradas
+    if (Object.values(raw).every((v) => !v)) return
+
+    if (raw.criticidade) {
+      raw.criticidade = CRITICIDADE_ALIASES[normalizeHeader(raw.criticidade)] || raw.criticidade.toUpperCase()
+    }
+
+    const values: Partial<Record<SheetColumn, any>> = {}
+    let rowValid = true
+    for (const field of Object.keys(FIELD_RULES) as SheetColumn[]) {
+      if (!raw[field]) continue
+      const { error, value } = FIELD_RULES[field].label(field).validate(raw[field], validationOptions)
+      if (error) {
+        rowValid = false
+        errors.push({ row: rowNumber, field, message: error.details.map((d: any) => d.message).join('; ') })
+        continue
+      }
+      values[field] = value
+    }
+
+    if (!raw.item) {
+      rowValid = false
+      errors.push({ row: rowNumber, field: 'item', message: 'Item é obrigatório' })
+    }
+    if (!raw.texto) {
+      rowValid = false
+      errors.push({ row: rowNumber, field: 'texto', message: 'Texto da pergunta é obrigatório' })
+    }
+    if (!rowValid) return
+
+    const key = `${values.item}|${values.customLabel || ''}`.toLowerCase()
+    let section = sectionsByKey.get(key)
+    if (!section) {
+      section = {
+        item: values.item,
+        customLabel: values.customLabel || null,
+        descricao: values.descricao || null,
+        questions: [],
+      }
+      sectionsByKey.set(key, section)
+    } else if (!section.descricao && values.descricao) {
+      section.descricao = values.descricao
+    }
+
+    section.questions.push({
+      texto: values.texto,
+      capitulacao: values.capitulacao || null,
+      criticidade: values.criticidade || 'MEDIA',
+      templateRef: values.templateRef || null,
+    })
+    totalQuestions += 1
+  })
+
+  return { sections: Array.from(sectionsByKey.values()), errors, totalRows: body.length, totalQuestions }
+}
@@ -0,0 +1,211 @@
+// Motor de efetividade do programa de PLD/FTP (EFETIVO / PARCIALMENTE EFETIVO / POUCO EFETIVO).
+// Cada deficiência (ver pldDeficiency.ts) pontua pelo peso da sua criticidade na área de controle
+// da pergunta; a área fica "comprometida" ao atingir o limiar, e o resultado sai da quantidade de
+// áreas obrigatórias comprometidas. As regras padrão reproduzem o cálculo original (MSAC/CSNU/CSC).
+
+import { getDeficiencyCriticidade } from './pldDeficiency'
+
+export type ScoringResultado = 'EFETIVO' | 'PARCIALMENTE EFETIVO' | 'POUCO EFETIVO'
+export type ScoringCriticidade = 'ALTA' | 'MEDIA' | 'BAIXA'
+
+export type ScoringArea = {
+  key: string
+  label: string
+  // Trecho usado na descrição do resultado ("nos <description>")
+  description?: string | null
+  mandatory: boolean
+  // Fallback para perguntas/seções sem controlArea
+  keywords: string[]
+}
+
+export type ScoringRules = {
+  areas: ScoringArea[]
+  weights: Record<ScoringCriticidade, number>
+  // Pontuação mínima para a área ser considerada comprometida
+  areaThreshold: number
+  // Nº de áreas obrigatórias comprometidas a partir do qual o resultado é PARCIALMENTE / POUCO EFETIVO
+  partialFrom: number
+  lowFrom: number
+}
+
+export type ScoringDriver = {
+  sectionLabel: string
+  questionId: string | null
+  questionNumber: string
+  questionTitle: string
+  criticidade: ScoringCriticidade
+  weight: number
+  areas: string[]
+  matchedBy: 'tag' | 'keyword'
+}
+
+export type ScoringAreaResult = {
+  key: string
+  label: string
+  mandatory: boolean
+  score: number
+  impaired: boolean
+  questions: string[]
+}
+
+export type ScoringResult = {
+  resultado: ScoringResultado
+  descricao: string
+  impairedMandatory: number
+  areas: ScoringAreaResult[]
+  drivers: ScoringDriver[]
+  rules: ScoringRules
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  areas: [
+    {
+      key: 'MSAC',
+      label: 'MSAC',
+      description: 'procedimentos de monitoramento, seleção, análise e comunicação de operações atípicas (MSAC)',
+      mandatory: true,
+      keywords: ['msac', 'monitoramento', 'seleção', 'análise', 'comunicação', 'operações atípicas', 'operações suspeitas'],
+    },
+    {
+      key: 'CSNU',
+      label: 'CSNU',
+      description: 'procedimentos de verificação de sanções CSNU',
+      mandatory: true,
+      keywords: ['csnu', 'sanções', 'lei 13.810', 'resolução bcb 44', 'instrução normativa bcb 262'],
+    },
+    {
+      key: 'CSC',
+      label: 'CSC',
+      description: 'procedimentos conheça seu cliente (CSC)',
+      mandatory: true,
+      keywords: ['conheça seu cliente', 'csc', 'kyc', 'know your customer'],
+    },
+  ],
+  weights: { ALTA: 1, MEDIA: 0, BAIXA: 0 },
+  areaThreshold: 1,
+  partialFrom: 2,
+  lowFrom: 3,
+}
+
+const normalize = (value: unknown) =>
+  String(value ?? '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+
+const normalizeKey = (value: unknown) => String(value ?? '').trim().toUpperCase()
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value))
+
+// "a, b e c" / "a, b ou c"
+const joinList = (items: string[], conjunction: string, serialComma = false) => {
+  if (items.length <= 1) return items.join('')
+  const head = items.slice(0, -1).join(', ')
+  return `${head}${serialComma ? ',' : ''} ${conjunction} ${items[items.length - 1]}`
+}
+
+function describe(resultado: ScoringResultado, rules: ScoringRules) {
+  const mandatory = rules.areas.filter((a) => a.mandatory)
+  const onlyAlta = rules.weights.MEDIA <= 0 && rules.weights.BAIXA <= 0
+  const qualifier = onlyAlta ? 'de alta criticidade' : 'relevantes'
+  const procedimentos = joinList(
+    mandatory.map((a) => `nos ${a.description || `procedimentos ${a.label}`}`),
+    'e',
+    true
+  )
+  const labels = joinList(
+    mandatory.map((a) => a.label),
+    'ou'
+  )
+
+  if (resultado === 'EFETIVO') {
+    return `O programa de PLD/FTP atingiu a maioria dos resultados esperados, sem a identificação de deficiências ${qualifier} ${procedimentos}.`
+  }
+  if (resultado === 'PARCIALMENTE EFETIVO') {
+    return `O programa de PLD/FTP atingiu a maioria dos resultados esperados, porém foram identificadas deficiências ${qualifier} em alguns dos procedimentos avaliados (${labels}).`
+  }
+  return `O programa de PLD/FTP não atingiu a maioria dos resultados esperados, com a identificação de deficiências ${qualifier} ${procedimentos}.`
+}
+
+/**
+ * Áreas de controle de uma pergunta: controlArea da pergunta, senão da seção;
+ * sem marcação (ou marcação desconhecida), busca as palavras-chave das áreas no texto.
+ */
+export function resolveControlAreas(section: any, question: any, rules: ScoringRules) {
+  const known = new Set(rules.areas.map((a) => normalizeKey(a.key)))
+  const tag = normalizeKey(question?.controlArea) || normalizeKey(section?.controlArea)
+  if (tag && known.has(tag)) return { areas: [tag], matchedBy: 'tag' as const }
+
+  const context = normalize(
+    [
+      section?.customLabel || section?.item,
+      section?.descricao,
+      question?.texto,
+      question?.descricao,
+      question?.deficienciaTexto,
+    ]
+      .map(text)
+      .join(' ')
+  )
+  const areas = rules.areas
+    .filter((a) => (a.keywords || []).some((k) => normalize(k) && context.includes(normalize(k))))
+    .map((a) => normalizeKey(a.key))
+  return { areas, matchedBy: 'keyword' as const }
+}
+
+export function scoreForm(sections: any[], rules: ScoringRules = DEFAULT_SCORING_RULES): ScoringResult {
+  const areaResults = new Map<string, ScoringAreaResult>(
+    rules.areas.map((a) => [
+      normalizeKey(a.key),
+      { key: normalizeKey(a.key), label: a.label, mandatory: !!a.mandatory, score: 0, impaired: false, questions: [] },
+    ])
+  )
+  const drivers: ScoringDriver[] = []
+
+  ;(Array.isArray(sections) ? sections : []).forEach((section, sIdx) => {
+    const sectionLabel = text(section?.customLabel).trim()
+      ? `${section.item} - ${section.customLabel}`
+      : text(section?.item) || '-'
+
+    ;(Array.isArray(section?.questions) ? section.questions : []).forEach((question: any, qIdx: number) => {
+      if (question?.aplicavel === false) return
+      const criticidade = getDeficiencyCriticidade(question)
+      if (!criticidade) return
+      const weight = Number(rules.weights[criticidade]) || 0
+      if (weight <= 0) return
+
+      const { areas, matchedBy } = resolveControlAreas(section, question, rules)
+      if (!areas.length) return
+
+      const questionNumber = `${sIdx + 1}.${qIdx + 1}`
+      for (const key of areas) {
+        const area = areaResults.get(key)!
+        area.score += weight
+        area.questions.push(questionNumber)
+      }
+      drivers.push({
+        sectionLabel,
+        questionId: question?.id ?? null,
+        questionNumber,
+        questionTitle: text(question?.texto).trim() || '-',
+        criticidade,
+        weight,
+        areas,
+        matchedBy,
+      })
+    })
+  })
+
+  const areas = [...areaResults.values()]
+  for (const area of areas) area.impaired = area.score > 0 && area.score >= rules.areaThreshold
+  const impairedMandatory = areas.filter((a) => a.mandatory && a.impaired).length
+
+  const resultado: ScoringResultado =
+    impairedMandatory >= rules.lowFrom
+      ? 'POUCO EFETIVO'
+      : impairedMandatory >= rules.partialFrom
+        ? 'PARCIALMENTE EFETIVO'
+        : 'EFETIVO'
+
+  return { resultado, descricao: describe(resultado, rules), impairedMandatory, areas, drivers, rules }
+}
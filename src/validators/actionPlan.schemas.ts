@@ -0,0 +1,20 @@
+import Joi from 'joi'
+import { optionalAlnumText } from './common'
+
+export const updateActionPlanItemSchema = Joi.object({
+  // OVERDUE é derivado do prazo e não pode ser definido manualmente
+  status: Joi.string().valid('OPEN', 'IN_PROGRESS', 'CLOSED').optional(),
+  responsavel: optionalAlnumText(300),
+  descricao: optionalAlnumText(600),
+  comentarios: optionalAlnumText(600),
+}).min(1)
+
+export const extendActionPlanDeadlineSchema = Joi.object({
+  // Prazos podem estar em anos futuros (boundedDateString limita ao ano corrente)
+  prazo: Joi.string().trim().isoDate().required().messages({ 'string.isoDate': 'Prazo inválido' }),
+  reason: optionalAlnumText(600),
+})
+
+export const uploadActionPlanEvidenceSchema = Joi.object({
+  description: optionalAlnumText(600),
+})
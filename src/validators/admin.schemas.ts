@@ -0,0 +1,24 @@
+import Joi from 'joi'
+
+export const setUserActiveSchema = Joi.object({
+  isActive: Joi.boolean().required(),
+})
+
+export const changeUserRoleSchema = Joi.object({
+  role: Joi.string().valid('ADMIN', 'TRIAL_ADMIN', 'USER').required(),
+})
+
+export const resetUserTrialSchema = Joi.object({
+  days: Joi.number().integer().min(1).max(90).default(3),
+})
+
+export const updateRetentionPolicySchema = Joi.object({
+  retentionDays: Joi.number().integer().min(1).max(36500),
+  enabled: Joi.boolean(),
+}).min(1)
+
+export const createLegalHoldSchema = Joi.object({
+  targetType: Joi.string().valid('Report', 'Organization', 'User').required(),
+  targetId: Joi.string().trim().required(),
+  reason: Joi.string().trim().min(3).max(500).required(),
+})
@@ -42,3 +42,12 @@ export const resetPasswordSchema = Joi.object({
 export const googleSchema = Joi.object({
   credential: Joi.string().trim().min(10).required(),
 })
+
+export const deleteAccountSchema = Joi.object({
+  confirmEmail: Joi.string().trim().email({ tlds: { allow: false } }).required(),
+})
+
+// Vazio quando o refresh token vem no cookie pld_refresh
+export const refreshSchema = Joi.object({
+  refreshToken: Joi.string().max(200).optional(),
+})
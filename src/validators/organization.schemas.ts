@@ -0,0 +1,22 @@
+import Joi from 'joi'
+import { alnumText } from './common'
+
+// OWNER não é atribuível: cada organização tem exatamente um dono
+const memberRole = Joi.string().valid('EDITOR', 'REVIEWER', 'RESPONDENT')
+
+export const createOrganizationSchema = Joi.object({
+  name: alnumText(120).optional(),
+})
+
+export const updateOrganizationSchema = Joi.object({
+  name: alnumText(120).min(2).required(),
+})
+
+export const addOrganizationMemberSchema = Joi.object({
+  email: Joi.string().trim().email().max(254).required(),
+  role: memberRole.required(),
+})
+
+export const updateOrganizationMemberSchema = Joi.object({
+  role: memberRole.required(),
+})
@@ -20,12 +20,22 @@ const ALL_ATTACHMENT_CATEGORIES = [
   ...TEST_REF_CATEGORIES,
 ] as const
 
+// Chave de área de controle das regras de efetividade (ex.: MSAC, CSNU, CSC)
+export const controlAreaKey = Joi.string()
+  .trim()
+  .uppercase()
+  .pattern(/^[A-Z0-9_]{1,30}$/)
+  .allow(null, '')
+  .optional()
+  .messages({ 'string.pattern.base': 'Área de controle inválida (use letras, números ou _)' })
+
 export const createPldSectionSchema = Joi.object({
   item: alnumText(100).required(),
   customLabel: optionalAlnumText(100),
   hasNorma: Joi.boolean().optional(),
   normaReferencia: optionalAlnumText(600),
   descricao: optionalAlnumText(600),
+  controlArea: controlAreaKey,
 })
 
 export const updatePldSectionSchema = Joi.object({
@@ -34,6 +44,7 @@ export const updatePldSectionSchema = Joi.object({
   hasNorma: Joi.boolean().optional(),
   normaReferencia: optionalAlnumText(600),
   descricao: optionalAlnumText(600),
+  controlArea: controlAreaKey,
 }).min(1)
 
 export const createPldQuestionSchema = Joi.object({
@@ -49,6 +60,7 @@ export const updatePldQuestionSchema = Joi.object({
   templateRef: optionalAlnumText(300),
   capitulacao: optionalAlnumText(200),
   criticidade: Joi.string().valid('BAIXA', 'MEDIA', 'ALTA').optional(),
+  controlArea: controlAreaKey,
   resposta: Joi.string().valid('Sim', 'Não', '').allow(null).optional(),
   respostaTexto: optionalAlnumText(500),
   deficienciaTexto: optionalAlnumText(500),
@@ -84,3 +96,101 @@ export const uploadPldAttachmentSchema = Joi.object({
 export const uploadPldNormaSchema = Joi.object({
   referencia: optionalAlnumText(600),
 })
+
+export const returnPldFormSchema = Joi.object({
+  comment: optionalAlnumText(600),
+  notes: Joi.array()
+    .items(
+      Joi.object({
+        questionId: Joi.string().trim().required(),
+        note: alnumText(600).required(),
+      })
+    )
+    .max(500)
+    .optional(),
+})
+
+export const savePldTemplateSchema = Joi.object({
+  name: alnumText(150).required(),
+  description: optionalAlnumText(600),
+})
+
+export const loadPldTemplateSchema = Joi.object({
+  mode: Joi.string().valid('replace', 'append', 'merge').default('replace'),
+})
+
+export const createFormFromTemplateSchema = Joi.object({
+  name: optionalAlnumText(150),
+  sentToEmail: Joi.string().trim().email().allow(null, '').optional(),
+  helpTexts: Joi.object().unknown(true).allow(null).optional(),
+  metadata: Joi.object().unknown(true).allow(null).optional(),
+})
+
+const exportedAttachmentSchema = Joi.object({
+  category: Joi.string()
+    .valid(...ALL_ATTACHMENT_CATEGORIES)
+    .required(),
+  referenceText: optionalAlnumText(600),
+  originalName: Joi.string().trim().max(255).allow(null, '').optional(),
+  mimeType: Joi.string().trim().max(150).allow(null, '').optional(),
+  size: Joi.number().integer().min(0).allow(null).optional(),
+})
+
+const exportedQuestionSchema = Joi.object({
+  texto: alnumText(300).allow('').required(),
+  aplicavel: Joi.boolean().optional(),
+  templateRef: optionalAlnumText(300),
+  capitulacao: optionalAlnumText(200),
+  criticidade: Joi.string().valid('BAIXA', 'MEDIA', 'ALTA').optional(),
+  controlArea: controlAreaKey,
+  attachments: Joi.array().items(exportedAttachmentSchema).max(50).optional(),
+})
+
+const exportedSectionSchema = Joi.object({
+  item: alnumText(100).required(),
+  customLabel: optionalAlnumText(100),
+  hasNorma: Joi.boolean().optional(),
+  normaReferencia: optionalAlnumText(600),
+  descricao: optionalAlnumText(600),
+  controlArea: controlAreaKey,
+  attachments: Joi.array().items(exportedAttachmentSchema).max(50).optional(),
+  questions: Joi.array().items(exportedQuestionSchema).max(500).default([]),
+})
+
+// Documento gerado por GET /api/pld/export (format/version definidos em pldBuilder.service.ts)
+export const importPldBuilderSchema = Joi.object({
+  mode: Joi.string().valid('replace', 'merge').default('merge'),
+  document: Joi.object({
+    format: Joi.string().valid('pld-builder').required(),
+    version: Joi.number().integer().valid(1).required(),
+    exportedAt: Joi.string().isoDate().optional(),
+    sections: Joi.array().items(exportedSectionSchema).min(1).max(200).required(),
+  }).required(),
+})
+
+export const importPldSpreadsheetSchema = Joi.object({
+  dryRun: Joi.boolean().truthy('1', 'on').falsy('0', 'off').default(false),
+  mode: Joi.string().valid('append', 'replace', 'merge').default('append'),
+})
+
+const scoringAreaSchema = Joi.object({
+  key: Joi.string().trim().uppercase().pattern(/^[A-Z0-9_]{1,30}$/).required(),
+  label: alnumText(60).required(),
+  description: optionalAlnumText(300),
+  mandatory: Joi.boolean().default(true),
+  keywords: Joi.array().items(alnumText(80).min(2)).max(50).default([]),
+})
+
+const scoringWeight = Joi.number().min(0).max(100)
+
+export const updateScoringRulesSchema = Joi.object({
+  areas: Joi.array().items(scoringAreaSchema).min(1).max(20).optional(),
+  weights: Joi.object({
+    ALTA: scoringWeight.optional(),
+    MEDIA: scoringWeight.optional(),
+    BAIXA: scoringWeight.optional(),
+  }).optional(),
+  areaThreshold: Joi.number().greater(0).max(1000).optional(),
+  partialFrom: Joi.number().integer().min(1).max(20).optional(),
+  lowFrom: Joi.number().integer().min(1).max(20).optional(),
+}).min(1)
@@ -0,0 +1,11 @@
+import Joi from 'joi'
+
+const days = (max: number) => Joi.number().integer().min(1).max(max).optional()
+
+export const updateReminderSettingsSchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  formPendingAfterDays: days(90),
+  formPendingRepeatDays: days(90),
+  actionPlanDueSoonDays: days(90),
+  actionPlanOverdueRepeatDays: days(90),
+}).min(1)
@@ -0,0 +1,67 @@
+import Joi from 'joi'
+import { optionalAlnumText } from './common'
+
+export const createReportJobSchema = Joi.object({
+  // FORM: BUILDER_FORM concluído/enviado (formId); DOSSIER: ZIP do formulário com anexos; BUILDER: builder vivo do ADMIN
+  kind: Joi.string().valid('FORM', 'DOSSIER', 'BUILDER').default('FORM'),
+  formId: Joi.when('kind', {
+    is: Joi.valid('FORM', 'DOSSIER'),
+    then: Joi.string().trim().required(),
+    otherwise: Joi.forbidden(),
+  }),
+  // format do DOSSIER: formato do relatório incluído no ZIP (PDF por padrão)
+  format: Joi.string()
+    .trim()
+    .uppercase()
+    .when('kind', {
+      is: 'FORM',
+      then: Joi.valid('PDF', 'DOCX', 'HTML', 'MD', 'XLSX'),
+      otherwise: Joi.valid('PDF', 'DOCX', 'HTML', 'MD'),
+    })
+    .default((parent: any) => (parent.kind === 'DOSSIER' ? 'PDF' : 'DOCX')),
+  name: optionalAlnumText(200),
+  metadata: Joi.object().unknown(true).allow(null).optional(),
+})
+
+const hexColor = Joi.string()
+  .trim()
+  .pattern(/^#[0-9a-fA-F]{6}$/)
+  .messages({ 'string.pattern.base': 'Cor deve estar no formato #RRGGBB' })
+
+// Textos livres do template: aceitam {{placeholders}}, por isso não usam alnumText
+const templateText = (max: number) => Joi.string().trim().allow('').max(max)
+const templateParagraphs = Joi.array().items(templateText(4000)).max(30)
+
+export const updateReportTemplateSchema = Joi.object({
+  title: Joi.string().trim().min(1).max(200).optional(),
+  primaryColor: hexColor.optional(),
+  secondaryColor: hexColor.optional(),
+  coverEnabled: Joi.boolean().optional(),
+  coverTitle: templateText(300).optional(),
+  coverSubtitle: templateText(300).optional(),
+  headerText: templateText(200).optional(),
+  footerText: templateText(200).optional(),
+  texts: Joi.object({
+    introducao: templateParagraphs.optional(),
+    metodologiaIntro: templateText(4000).optional(),
+    metodologiaDocumentos: templateText(4000).optional(),
+    metodologiaDocumentosLista: templateParagraphs.optional(),
+    metodologiaItens: templateParagraphs.optional(),
+    itensAvaliadosIntro: templateText(4000).optional(),
+    execucaoNota: templateText(4000).optional(),
+    criticidadeIntro: templateText(4000).optional(),
+    criticidade: Joi.object({
+      ALTA: templateText(2000).optional(),
+      MEDIA: templateText(2000).optional(),
+      BAIXA: templateText(2000).optional(),
+    }).optional(),
+    efetividadeIntro: templateText(4000).optional(),
+    efetividade: Joi.object({
+      EFETIVO: templateText(2000).optional(),
+      PARCIALMENTE_EFETIVO: templateText(2000).optional(),
+      POUCO_EFETIVO: templateText(2000).optional(),
+    }).optional(),
+    conclusaoIntro: templateText(4000).optional(),
+    anexoIntro: templateText(4000).optional(),
+  }).optional(),
+}).min(1)